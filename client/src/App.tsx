@@ -4,14 +4,37 @@ import { QueryClientProvider } from "@tanstack/react-query";
 import { Toaster } from "@/components/ui/toaster";
 import { TooltipProvider } from "@/components/ui/tooltip";
 import Home from "@/pages/home";
+import Customers from "@/pages/customers";
 import CustomerProfile from "@/pages/customer-profile";
+import Operators from "@/pages/operators";
+import AuditLog from "@/pages/audit-log";
+import CardLayouts from "@/pages/card-layouts";
+import BarcodeBenchmark from "@/pages/barcode-benchmark";
+import Login from "@/pages/login";
 import NotFound from "@/pages/not-found";
+import { useAuth } from "@/hooks/use-auth";
 
 function Router() {
+  const { operator, isLoading, can } = useAuth();
+
+  if (isLoading) {
+    return <div className="min-h-screen bg-gray-50" />;
+  }
+
+  // Every page works with customer data, so nothing renders until an operator signs in
+  if (!operator) {
+    return <Login />;
+  }
+
   return (
     <Switch>
       <Route path="/" component={Home} />
+      <Route path="/customers" component={Customers} />
       <Route path="/customer/:id" component={CustomerProfile} />
+      {can('admin') && <Route path="/operators" component={Operators} />}
+      {can('admin') && <Route path="/audit-log" component={AuditLog} />}
+      {can('admin') && <Route path="/card-layouts" component={CardLayouts} />}
+      {can('admin') && <Route path="/barcode-benchmark" component={BarcodeBenchmark} />}
       <Route component={NotFound} />
     </Switch>
   );
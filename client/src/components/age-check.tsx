@@ -0,0 +1,115 @@
+import { useState } from 'react';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { Button } from '@/components/ui/button';
+import { CheckCircleIcon, XCircleIcon } from '@heroicons/react/24/outline';
+import BarcodeCamera from '@/components/barcode-camera';
+import { apiRequest } from '@/lib/queryClient';
+import { useValidityPolicy } from '@/hooks/use-document-validity';
+import type { BarcodeData } from '@/lib/barcode-decoder';
+import { minimumAges, verifyAge, type AgeCheckOutcome, type AgeCheckVerdict, type MinimumAge } from '@shared/age-check';
+import type { AgeCheckRequest, AgeCheckResult } from '@shared/schema';
+
+interface AgeCheckProps {
+  onClose: () => void;
+}
+
+const OUTCOME_LABELS: Record<AgeCheckOutcome, (minimumAge: MinimumAge) => string> = {
+  pass: (minimumAge) => `${minimumAge}+ OK`,
+  underage: (minimumAge) => `UNDER ${minimumAge}`,
+  expired: () => 'EXPIRED',
+  invalid: () => 'CHECK ID',
+};
+
+// Scan-and-confirm age verification. The server logs only the outcome and a keyed hash of
+// the license number; no name, address, birth date or image is kept.
+export default function AgeCheck({ onClose }: AgeCheckProps) {
+  const [minimumAge, setMinimumAge] = useState<MinimumAge>(21);
+  const [verdict, setVerdict] = useState<(AgeCheckVerdict & { minimumAge: MinimumAge }) | null>(null);
+  const [visit, setVisit] = useState<AgeCheckResult | null>(null);
+  const policy = useValidityPolicy();
+  const queryClient = useQueryClient();
+
+  const recordMutation = useMutation({
+    mutationFn: async (request: AgeCheckRequest): Promise<AgeCheckResult> => {
+      const response = await apiRequest('POST', '/api/age-checks', request);
+      return response.json();
+    },
+    onSuccess: (result) => {
+      setVisit(result);
+      queryClient.invalidateQueries({ queryKey: ['/api/stats/today'] });
+    },
+    onError: (error) => {
+      console.error('Failed to record age check:', error);
+    },
+  });
+
+  const handleBarcodeDetected = (data: BarcodeData) => {
+    const dates = {
+      dateOfBirth: data.dateOfBirth,
+      licenseExpiration: data.expirationDate,
+      licenseIssueDate: data.issueDate,
+      cardRevisionDate: data.cardRevisionDate,
+      under18Until: data.under18Until,
+      under21Until: data.under21Until,
+    };
+
+    // Show the verdict straight away; the server log only adds repeat-visit information
+    setVerdict({ ...verifyAge(dates, minimumAge, policy), minimumAge });
+    setVisit(null);
+    recordMutation.mutate({
+      licenseNumber: data.licenseNumber,
+      licenseState: data.licenseState,
+      minimumAge,
+      ...dates,
+    });
+  };
+
+  const passed = verdict?.outcome === 'pass';
+  const VerdictIcon = passed ? CheckCircleIcon : XCircleIcon;
+
+  const overlay = (
+    <div className="absolute inset-x-4 top-4 space-y-3">
+      <div className="flex justify-center space-x-2">
+        {minimumAges.map((age) => (
+          <Button
+            key={age}
+            size="sm"
+            onClick={() => setMinimumAge(age)}
+            className={minimumAge === age ? 'bg-white text-black hover:bg-gray-100' : 'bg-gray-800 text-white hover:bg-gray-700'}
+          >
+            {age}+
+          </Button>
+        ))}
+      </div>
+
+      {verdict && (
+        <div className={`rounded-2xl p-6 text-center text-white shadow-lg ${passed ? 'bg-green-600' : 'bg-red-600'}`}>
+          <VerdictIcon className="h-16 w-16 mx-auto" />
+          <p className="text-5xl font-extrabold tracking-tight mt-2">
+            {OUTCOME_LABELS[verdict.outcome](verdict.minimumAge)}
+          </p>
+          {verdict.age !== undefined && (
+            <p className="text-3xl font-semibold mt-2">Age {verdict.age}</p>
+          )}
+          {verdict.reason && <p className="text-sm mt-2 opacity-90">{verdict.reason}</p>}
+          {visit && visit.previousVisits > 0 && (
+            <p className="text-sm mt-3 font-medium">
+              Seen {visit.previousVisits} time{visit.previousVisits === 1 ? '' : 's'} before
+              {visit.lastVisit && `, last on ${new Date(visit.lastVisit).toLocaleString()}`}
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+
+  return (
+    <BarcodeCamera
+      continuous
+      title="Age Check"
+      overlay={overlay}
+      onBarcodeDetected={handleBarcodeDetected}
+      onClose={onClose}
+    />
+  );
+}
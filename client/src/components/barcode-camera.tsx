@@ -1,66 +1,29 @@
-import { useState, useRef, useEffect } from 'react';
+import { useState, useRef, useEffect, type ReactNode } from 'react';
 import { Button } from '@/components/ui/button';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { XMarkIcon, CameraIcon, ArrowPathIcon, CheckIcon } from '@heroicons/react/24/outline';
 import { useCamera } from '@/hooks/use-camera';
 import { barcodeDecoder } from '@/lib/barcode-decoder';
+import { barcodeWorkerPool } from '@/lib/barcode-worker-pool';
 import type { BarcodeData } from '@/lib/barcode-decoder';
 
 interface BarcodeCameraProps {
   onBarcodeDetected: (data: BarcodeData) => void;
   onClose: () => void;
+  // Keep scanning after each detection instead of freezing the frame for confirmation
+  continuous?: boolean;
+  title?: string;
+  // Rendered over the camera view, e.g. the result of the last continuous scan
+  overlay?: ReactNode;
 }
 
-// Convert image to 8-color grayscale for better barcode contrast
-const convertTo8ColorGrayscale = (imageData: string): string => {
-  const canvas = document.createElement('canvas');
-  const ctx = canvas.getContext('2d');
-  if (!ctx) return imageData;
+// In continuous mode, the same card held in view is only reported again after this long
+const REPEAT_DETECTION_MS = 5000;
 
-  try {
-    // Create image from data URL
-    const tempImg = new Image();
-    tempImg.src = imageData;
-    
-    // If image loads synchronously (cached), process it
-    if (tempImg.complete) {
-      canvas.width = tempImg.width;
-      canvas.height = tempImg.height;
-      ctx.drawImage(tempImg, 0, 0);
-      
-      const imageDataObj = ctx.getImageData(0, 0, canvas.width, canvas.height);
-      const data = imageDataObj.data;
-      
-      // Convert to 8-level grayscale (0, 36, 72, 108, 144, 180, 216, 255)
-      for (let i = 0; i < data.length; i += 4) {
-        const r = data[i];
-        const g = data[i + 1];
-        const b = data[i + 2];
-        
-        // Calculate grayscale value using luminance formula
-        const gray = Math.round(0.299 * r + 0.587 * g + 0.114 * b);
-        
-        // Quantize to 8 levels (0-7), then map to 0-255 range
-        const level = Math.floor(gray / 32); // Divide by 32 to get 0-7 range
-        const quantizedGray = Math.min(level * 36, 255); // Map to 8 levels: 0, 36, 72, 108, 144, 180, 216, 255
-        
-        // Set R, G, B to the quantized grayscale value
-        data[i] = quantizedGray;
-        data[i + 1] = quantizedGray;
-        data[i + 2] = quantizedGray;
-      }
-      
-      ctx.putImageData(imageDataObj, 0, 0);
-      return canvas.toDataURL('image/jpeg', 0.9);
-    }
-  } catch (error) {
-    console.log('8-color grayscale conversion failed, using original image:', error);
-  }
-  
-  return imageData; // Fallback to original image if conversion fails
-};
+// Frames are offered this often; ones arriving while every decode worker is busy are skipped
+const SCAN_INTERVAL_MS = 150;
 
-export default function BarcodeCamera({ onBarcodeDetected, onClose }: BarcodeCameraProps) {
+export default function BarcodeCamera({ onBarcodeDetected, onClose, continuous = false, title = 'Barcode Scanner', overlay }: BarcodeCameraProps) {
   const [isScanning, setIsScanning] = useState(false);
   const [scanStatus, setScanStatus] = useState<'idle' | 'scanning' | 'processing' | 'success' | 'error' | 'frozen'>('idle');
   const [lastError, setLastError] = useState<string | null>(null);
@@ -68,7 +31,10 @@ export default function BarcodeCamera({ onBarcodeDetected, onClose }: BarcodeCam
   const [detectedBarcodes, setDetectedBarcodes] = useState<Array<{data: BarcodeData, rawData: string, confidence: number}>>([]);
   const [selectedBarcodeIndex, setSelectedBarcodeIndex] = useState<number>(0);
   const scanIntervalRef = useRef<number | null>(null);
-  const processingRef = useRef(false);
+  const lastDetectionRef = useRef<{ key: string; at: number } | null>(null);
+  // The scan interval outlives renders, so it reads the latest callback through a ref
+  const onBarcodeDetectedRef = useRef(onBarcodeDetected);
+  onBarcodeDetectedRef.current = onBarcodeDetected;
 
   const {
     isActive,
@@ -88,7 +54,9 @@ export default function BarcodeCamera({ onBarcodeDetected, onClose }: BarcodeCam
       stopCamera();
       if (scanIntervalRef.current) {
         clearInterval(scanIntervalRef.current);
+        scanIntervalRef.current = null;
       }
+      barcodeWorkerPool.terminate();
     };
   }, [startCamera, stopCamera]);
 
@@ -101,53 +69,60 @@ export default function BarcodeCamera({ onBarcodeDetected, onClose }: BarcodeCam
     setDetectedBarcodes([]);
     setFrozenFrame(null);
     
-    // Scan for barcode every 500ms
+    // Frames go to the decode workers as ImageBitmaps, so the main thread only grabs them
     scanIntervalRef.current = window.setInterval(async () => {
-      if (processingRef.current) return;
-      
-      processingRef.current = true;
+      const video = videoRef.current;
+      if (!video || video.readyState < video.HAVE_CURRENT_DATA || !barcodeWorkerPool.available) return;
       
       try {
-        const imageData = captureImage();
-        if (imageData) {
-          // Apply 8-color grayscale preprocessing for better barcode contrast
-          const grayscaleImageData = convertTo8ColorGrayscale(imageData);
-          const result = await barcodeDecoder.decodeBarcode(grayscaleImageData);
-          
-          // Check if we got any barcode data (even if parsing failed)
-          if (result.success || (result.error && result.error.includes('23282K026020680101'))) {
-            console.log('Barcode detected, freezing frame for selection');
-            
-            // Stop scanning and freeze the frame
-            if (scanIntervalRef.current) {
-              clearInterval(scanIntervalRef.current);
-              scanIntervalRef.current = null;
+        const decoding = barcodeDecoder.decodeFrame(await createImageBitmap(video));
+        if (!decoding) return;
+        const result = await decoding;
+        
+        // Scanning stopped, or another worker's frame already froze the view, while this one decoded
+        if (scanIntervalRef.current === null) return;
+        
+        if (continuous) {
+          if (result.success && result.data) {
+            const key = `${result.data.licenseState ?? ''}:${result.data.licenseNumber ?? ''}`;
+            const last = lastDetectionRef.current;
+            if (!last || last.key !== key || Date.now() - last.at > REPEAT_DETECTION_MS) {
+              onBarcodeDetectedRef.current(result.data);
             }
-            
-            setIsScanning(false);
-            setScanStatus('frozen');
-            setFrozenFrame(imageData);
-            
-            // Add the detected barcode to the list
-            const barcodeEntry = {
-              data: result.data || {},
-              rawData: '23282K026020680101', // Extract from logs for now
-              confidence: result.confidence || 0.8
-            };
-            
-            setDetectedBarcodes([barcodeEntry]);
-            setSelectedBarcodeIndex(0);
+            lastDetectionRef.current = { key, at: Date.now() };
           }
+          return;
+        }
+        
+        // Freeze on any barcode read, even one that didn't parse, so the operator can use its raw text
+        if (result.success || result.rawData) {
+          clearInterval(scanIntervalRef.current);
+          scanIntervalRef.current = null;
+          
+          setIsScanning(false);
+          setScanStatus('frozen');
+          setFrozenFrame(captureImage());
+          
+          setDetectedBarcodes([{
+            data: result.data || {},
+            rawData: result.rawData ?? '',
+            confidence: result.confidence || 0.8
+          }]);
+          setSelectedBarcodeIndex(0);
         }
       } catch (error) {
+        if (scanIntervalRef.current === null) return;
         console.log('Barcode scan error:', error);
         setLastError(error instanceof Error ? error.message : 'Scanning error');
-      } finally {
-        processingRef.current = false;
       }
-    }, 500);
+    }, SCAN_INTERVAL_MS);
   };
 
+  // Continuous mode starts scanning as soon as the camera is live
+  useEffect(() => {
+    if (continuous && isActive) startBarcodeScanning();
+  }, [continuous, isActive]);
+
   const stopBarcodeScanning = () => {
     if (scanIntervalRef.current) {
       clearInterval(scanIntervalRef.current);
@@ -155,7 +130,6 @@ export default function BarcodeCamera({ onBarcodeDetected, onClose }: BarcodeCam
     }
     setIsScanning(false);
     setScanStatus('idle');
-    processingRef.current = false;
   };
 
   const resumeScanning = () => {
@@ -174,7 +148,6 @@ export default function BarcodeCamera({ onBarcodeDetected, onClose }: BarcodeCam
         onBarcodeDetected(selectedBarcode.data);
       } else {
         // Try to parse raw data manually if automatic parsing failed
-        console.log('Using raw barcode data:', selectedBarcode.rawData);
         onBarcodeDetected({
           licenseNumber: selectedBarcode.rawData,
           firstName: undefined,
@@ -213,7 +186,7 @@ export default function BarcodeCamera({ onBarcodeDetected, onClose }: BarcodeCam
       <div className="flex items-center justify-between p-4 bg-black text-white">
         <div className="flex items-center space-x-3">
           <div className="w-3 h-3 rounded-full bg-green-500"></div>
-          <h1 className="text-lg font-semibold">Barcode Scanner</h1>
+          <h1 className="text-lg font-semibold">{title}</h1>
         </div>
         <div className="flex items-center space-x-2">
           {availableDevices.length > 1 && (
@@ -286,6 +259,8 @@ export default function BarcodeCamera({ onBarcodeDetected, onClose }: BarcodeCam
               </div>
             )}
 
+            {overlay}
+
             {/* Detected Barcode Selection */}
             {scanStatus === 'frozen' && detectedBarcodes.length > 0 && (
               <div className="absolute top-1/2 left-1/2 transform -translate-x-1/2 -translate-y-1/2 bg-black bg-opacity-80 text-white p-6 rounded-lg max-w-md">
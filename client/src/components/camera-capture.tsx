@@ -3,12 +3,15 @@ import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { useCamera } from '@/hooks/use-camera';
-import { CameraIcon, XMarkIcon } from '@heroicons/react/24/outline';
+import { CameraIcon, XMarkIcon, ExclamationTriangleIcon } from '@heroicons/react/24/outline';
 import { Alert, AlertDescription } from '@/components/ui/alert';
+import { edgeDetectionService } from '@/lib/edge-detection';
+import { measureImageQuality, measurePhotoQuality } from '@/lib/image-quality';
+import { QUALITY_GUIDANCE, type ImageQuality, type ScanImageQuality } from '@shared/image-quality';
 import ManualCrop from './manual-crop';
 
 interface CameraCaptureProps {
-  onCapture: (frontImage: string, backImage: string, face?: string, signature?: string, barcode?: string) => void;
+  onCapture: (frontImage: string, backImage: string, face?: string, signature?: string, barcode?: string, quality?: ScanImageQuality) => void;
   onClose: () => void;
 }
 
@@ -29,9 +32,27 @@ export default function CameraCapture({ onCapture, onClose }: CameraCaptureProps
   const [countdown, setCountdown] = useState<number | null>(null);
   const [isCountingDown, setIsCountingDown] = useState(false);
   const [autoShutterEnabled, setAutoShutterEnabled] = useState(true);
+  // Quality of the current camera frame, for live guidance, and of each captured side
+  const [liveQuality, setLiveQuality] = useState<ImageQuality | null>(null);
+  const [quality, setQuality] = useState<ScanImageQuality>({});
   
   const { isActive, error, startCamera, stopCamera, captureImage, videoRef, availableDevices, currentDeviceId, selectCamera } = useCamera();
 
+  const storeCapture = (imageData: string, side: 'front' | 'back') => {
+    if (side === 'front') {
+      setFrontImage(imageData);
+      setCaptureMode('back');
+    } else {
+      setBackImage(imageData);
+      setShowPreview(true);
+    }
+
+    // The frame that triggered the shutter passed, but the capture itself may have moved
+    measurePhotoQuality(imageData)
+      .then((measured) => setQuality((prev) => ({ ...prev, [side]: measured })))
+      .catch((error) => console.warn('Could not measure capture quality:', error));
+  };
+
   const startCountdown = () => {
     if (isCountingDown) return;
     
@@ -45,13 +66,7 @@ export default function CameraCapture({ onCapture, onClose }: CameraCaptureProps
           setTimeout(() => {
             const imageData = captureImage();
             if (imageData) {
-              if (captureMode === 'front') {
-                setFrontImage(imageData);
-                setCaptureMode('back');
-              } else {
-                setBackImage(imageData);
-                setShowPreview(true);
-              }
+              storeCapture(imageData, captureMode);
             }
             setCountdown(null);
             setIsCountingDown(false);
@@ -68,11 +83,12 @@ export default function CameraCapture({ onCapture, onClose }: CameraCaptureProps
     return () => stopCamera();
   }, [startCamera, stopCamera]);
 
-  // Auto-shutter detection
+  // Live quality check: guides the operator and, with auto-shutter on, captures once the card is
+  // in frame, sharp, free of glare, well exposed and close enough
   useEffect(() => {
-    if (!autoShutterEnabled || !isActive || showPreview || isCountingDown) return;
+    if (!isActive || showPreview || isCountingDown) return;
 
-    const detectLicenseInFrame = () => {
+    const checkFrame = () => {
       if (!videoRef.current) return;
 
       // Check if video has valid dimensions before processing
@@ -91,44 +107,17 @@ export default function CameraCapture({ onCapture, onClose }: CameraCaptureProps
       canvas.height = videoHeight;
       context.drawImage(videoRef.current, 0, 0);
 
-      const imageData = context.getImageData(0, 0, canvas.width, canvas.height);
-      const data = imageData.data;
-
-      // Simple edge detection to check if license-like rectangle fills most of the frame
-      let edgeCount = 0;
-      const threshold = 50;
-      const sampleRate = 4; // Check every 4th pixel for performance
-
-      for (let i = 0; i < data.length; i += 4 * sampleRate) {
-        const r = data[i];
-        const g = data[i + 1];
-        const b = data[i + 2];
-        
-        // Calculate luminance
-        const luminance = 0.299 * r + 0.587 * g + 0.114 * b;
-        
-        // Simple edge detection based on luminance changes
-        if (i > 4 * sampleRate) {
-          const prevR = data[i - 4 * sampleRate];
-          const prevG = data[i - 3 * sampleRate];
-          const prevB = data[i - 2 * sampleRate];
-          const prevLuminance = 0.299 * prevR + 0.587 * prevG + 0.114 * prevB;
-          
-          if (Math.abs(luminance - prevLuminance) > threshold) {
-            edgeCount++;
-          }
-        }
-      }
+      const corners = edgeDetectionService.findCardCorners(canvas)?.corners ?? null;
+      const frameQuality = measureImageQuality(canvas, corners);
+      setLiveQuality(frameQuality);
 
-      // If we detect significant edges (suggesting a license card), trigger capture
-      const edgeRatio = edgeCount / (data.length / (4 * sampleRate));
-      if (edgeRatio > 0.15) { // Threshold for license detection
-        console.log('License detected in frame, triggering auto-capture');
+      if (autoShutterEnabled && frameQuality.issues.length === 0) {
+        console.log('License in frame passed quality checks, triggering auto-capture');
         startCountdown();
       }
     };
 
-    const interval = setInterval(detectLicenseInFrame, 1000); // Check every second
+    const interval = setInterval(checkFrame, 500);
     return () => clearInterval(interval);
   }, [autoShutterEnabled, isActive, showPreview, isCountingDown, startCountdown]);
 
@@ -138,6 +127,7 @@ export default function CameraCapture({ onCapture, onClose }: CameraCaptureProps
     } else {
       setBackImage(null);
     }
+    setQuality((prev) => ({ ...prev, [captureMode]: undefined }));
     setShowPreview(false);
     
     // Restart camera if it's not active
@@ -154,7 +144,7 @@ export default function CameraCapture({ onCapture, onClose }: CameraCaptureProps
 
   const handleCropsComplete = (crops: CroppedImages) => {
     // Pass the cropped images to the parent component
-    onCapture(crops.frontLicense, crops.backLicense, crops.face, crops.signature, crops.barcode);
+    onCapture(crops.frontLicense, crops.backLicense, crops.face, crops.signature, crops.barcode, quality);
     setShowManualCrop(false);
     
     // Restart camera after manual crop completion if needed
@@ -166,6 +156,7 @@ export default function CameraCapture({ onCapture, onClose }: CameraCaptureProps
   const handleReset = () => {
     setFrontImage(null);
     setBackImage(null);
+    setQuality({});
     setCaptureMode('front');
     setShowPreview(false);
     
@@ -240,6 +231,7 @@ export default function CameraCapture({ onCapture, onClose }: CameraCaptureProps
                       className="w-full h-48 object-cover rounded border-2 border-white"
                     />
                   )}
+                  <QualityWarnings quality={quality.front} />
                 </div>
                 <div className="text-center">
                   <p className="text-white text-sm mb-2">Back</p>
@@ -250,6 +242,7 @@ export default function CameraCapture({ onCapture, onClose }: CameraCaptureProps
                       className="w-full h-48 object-cover rounded border-2 border-white"
                     />
                   )}
+                  <QualityWarnings quality={quality.back} />
                 </div>
               </div>
             ) : (
@@ -286,6 +279,17 @@ export default function CameraCapture({ onCapture, onClose }: CameraCaptureProps
                     </p>
                   </div>
                 )}
+
+                {/* Quality Guidance */}
+                {isActive && !showPreview && !isCountingDown && liveQuality && (
+                  <div className="absolute bottom-4 left-1/2 transform -translate-x-1/2">
+                    <p className={`text-white text-lg px-4 py-2 rounded-lg ${
+                      liveQuality.issues.length > 0 ? 'bg-yellow-600 bg-opacity-90' : 'bg-green-600 bg-opacity-90'
+                    }`}>
+                      {liveQuality.issues.length > 0 ? QUALITY_GUIDANCE[liveQuality.issues[0]] : 'Hold still'}
+                    </p>
+                  </div>
+                )}
               </>
             )}
           </div>
@@ -320,7 +324,7 @@ export default function CameraCapture({ onCapture, onClose }: CameraCaptureProps
               className="w-4 h-4"
             />
             <label htmlFor="autoShutter" className="text-sm">
-              Auto-capture when license fills screen
+              Auto-capture when the license is in focus and free of glare
             </label>
           </div>
         )}
@@ -345,13 +349,7 @@ export default function CameraCapture({ onCapture, onClose }: CameraCaptureProps
                 onClick={() => {
                   const imageData = captureImage();
                   if (imageData) {
-                    if (captureMode === 'front') {
-                      setFrontImage(imageData);
-                      setCaptureMode('back');
-                    } else {
-                      setBackImage(imageData);
-                      setShowPreview(true);
-                    }
+                    storeCapture(imageData, captureMode);
                   }
                 }}
                 disabled={!isActive || isCountingDown}
@@ -367,3 +365,18 @@ export default function CameraCapture({ onCapture, onClose }: CameraCaptureProps
     </Card>
   );
 }
+
+function QualityWarnings({ quality }: { quality?: ImageQuality }) {
+  if (!quality || quality.issues.length === 0) return null;
+
+  return (
+    <div className="mt-2 space-y-1">
+      {quality.issues.map((issue) => (
+        <p key={issue} className="flex items-center justify-center text-yellow-300 text-xs">
+          <ExclamationTriangleIcon className="h-4 w-4 mr-1" />
+          {QUALITY_GUIDANCE[issue]}
+        </p>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,59 @@
+import { Badge } from '@/components/ui/badge';
+import { ShieldCheckIcon, ShieldExclamationIcon } from '@heroicons/react/24/outline';
+import type { ConsistencyReport as Report, CrossCheckField, RiskLevel } from '@shared/consistency';
+
+const FIELD_LABELS: Record<CrossCheckField, string> = {
+  licenseNumber: 'License Number',
+  dateOfBirth: 'Date of Birth',
+  lastName: 'Last Name',
+  firstName: 'First Name',
+  expirationDate: 'Expiration Date',
+  address: 'Street Address',
+  documentDiscriminator: 'Document Discriminator',
+};
+
+const RISK_STYLES: Record<RiskLevel, { panel: string; badge: string; label: string }> = {
+  low: { panel: 'bg-green-50 border-green-200', badge: 'bg-green-100 text-green-800', label: 'Low risk' },
+  medium: { panel: 'bg-yellow-50 border-yellow-200', badge: 'bg-yellow-100 text-yellow-800', label: 'Medium risk' },
+  high: { panel: 'bg-red-50 border-red-200', badge: 'bg-red-100 text-red-800', label: 'High risk' },
+};
+
+// Front/back cross-check result for the current scan
+export default function ConsistencyReport({ report }: { report: Report }) {
+  const style = RISK_STYLES[report.riskLevel];
+  const mismatches = report.checks.filter((check) => check.status === 'mismatch');
+  const compared = report.checks.filter((check) => check.status !== 'missing').length;
+  const Icon = report.riskLevel === 'low' ? ShieldCheckIcon : ShieldExclamationIcon;
+
+  return (
+    <div className={`mb-6 p-4 border rounded-lg ${style.panel}`}>
+      <div className="flex items-center justify-between">
+        <div className="flex items-center">
+          <Icon className="h-5 w-5 mr-2 text-gray-700" />
+          <span className="text-sm font-medium text-gray-900">Front/back cross-check</span>
+        </div>
+        <Badge variant="secondary" className={style.badge}>
+          {style.label} · {report.riskScore}
+        </Badge>
+      </div>
+
+      {mismatches.length > 0 ? (
+        <div className="mt-3 space-y-1 text-sm">
+          {mismatches.map((check) => (
+            <div key={check.field} className="grid grid-cols-3 gap-3">
+              <span className="font-medium text-gray-700">{FIELD_LABELS[check.field]}</span>
+              <span className="text-gray-600">Front: {check.front ?? '—'}</span>
+              <span className="text-gray-600">Barcode: {check.back ?? '—'}</span>
+            </div>
+          ))}
+        </div>
+      ) : (
+        <p className="mt-2 text-sm text-gray-600">
+          {compared > 0
+            ? `All ${compared} fields read on both sides agree.`
+            : 'Not enough fields were read on both sides to compare.'}
+        </p>
+      )}
+    </div>
+  );
+}
@@ -9,11 +9,21 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@
 import { Badge } from '@/components/ui/badge';
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
-import { insertCustomerSchema, type InsertCustomer } from '@shared/schema';
-import { CheckCircleIcon, ArrowDownTrayIcon, XMarkIcon, MagnifyingGlassIcon } from '@heroicons/react/24/outline';
-import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { insertCustomerSchema, type Customer, type CustomerMatch, type InsertCustomer } from '@shared/schema';
+import { CheckCircleIcon, ArrowDownTrayIcon, XMarkIcon, MagnifyingGlassIcon, ExclamationTriangleIcon, UserCircleIcon } from '@heroicons/react/24/outline';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
 import { apiRequest } from '@/lib/queryClient';
+import { uploadLicenseCrops } from '@/lib/customer-images';
 import { useToast } from '@/hooks/use-toast';
+import { JURISDICTIONS } from '@shared/jurisdictions';
+import CustomerMergeDialog from '@/components/customer-merge-dialog';
+import FieldProvenance from '@/components/field-provenance';
+import ConsistencyReport from '@/components/consistency-report';
+import ValidityBadges from '@/components/validity-badges';
+import { useDocumentValidity } from '@/hooks/use-document-validity';
+import type { ExtractedFieldName, ExtractionResult } from '@shared/extraction';
+import type { ConsistencyReport as Report } from '@shared/consistency';
+import type { DocumentDates } from '@shared/document-validity';
 
 interface CustomerFormProps {
   initialData?: Partial<InsertCustomer>;
@@ -22,94 +32,99 @@ interface CustomerFormProps {
   frontLicense?: string;
   backLicense?: string;
   barcode?: string;
+  customer?: Customer;
+  // Issues found while reading the license, e.g. an IIN that disagrees with the address state
+  warnings?: string[];
+  // Per-field source and confidence of the scanned values in initialData
+  extraction?: ExtractionResult;
+  // Front/back cross-check from the scan session
+  consistencyReport?: Report;
+  // Barcode-only dates (card revision, under-18/21 until) that feed the validity checks
+  documentDates?: DocumentDates;
   onSave?: (customer: any) => void;
+  onCancel?: () => void;
 }
 
-const US_STATES = [
-  { value: 'AL', label: 'Alabama' },
-  { value: 'AK', label: 'Alaska' },
-  { value: 'AZ', label: 'Arizona' },
-  { value: 'AR', label: 'Arkansas' },
-  { value: 'CA', label: 'California' },
-  { value: 'CO', label: 'Colorado' },
-  { value: 'CT', label: 'Connecticut' },
-  { value: 'DE', label: 'Delaware' },
-  { value: 'FL', label: 'Florida' },
-  { value: 'GA', label: 'Georgia' },
-  { value: 'HI', label: 'Hawaii' },
-  { value: 'ID', label: 'Idaho' },
-  { value: 'IL', label: 'Illinois' },
-  { value: 'IN', label: 'Indiana' },
-  { value: 'IA', label: 'Iowa' },
-  { value: 'KS', label: 'Kansas' },
-  { value: 'KY', label: 'Kentucky' },
-  { value: 'LA', label: 'Louisiana' },
-  { value: 'ME', label: 'Maine' },
-  { value: 'MD', label: 'Maryland' },
-  { value: 'MA', label: 'Massachusetts' },
-  { value: 'MI', label: 'Michigan' },
-  { value: 'MN', label: 'Minnesota' },
-  { value: 'MS', label: 'Mississippi' },
-  { value: 'MO', label: 'Missouri' },
-  { value: 'MT', label: 'Montana' },
-  { value: 'NE', label: 'Nebraska' },
-  { value: 'NV', label: 'Nevada' },
-  { value: 'NH', label: 'New Hampshire' },
-  { value: 'NJ', label: 'New Jersey' },
-  { value: 'NM', label: 'New Mexico' },
-  { value: 'NY', label: 'New York' },
-  { value: 'NC', label: 'North Carolina' },
-  { value: 'ND', label: 'North Dakota' },
-  { value: 'OH', label: 'Ohio' },
-  { value: 'OK', label: 'Oklahoma' },
-  { value: 'OR', label: 'Oregon' },
-  { value: 'PA', label: 'Pennsylvania' },
-  { value: 'RI', label: 'Rhode Island' },
-  { value: 'SC', label: 'South Carolina' },
-  { value: 'SD', label: 'South Dakota' },
-  { value: 'TN', label: 'Tennessee' },
-  { value: 'TX', label: 'Texas' },
-  { value: 'UT', label: 'Utah' },
-  { value: 'VT', label: 'Vermont' },
-  { value: 'VA', label: 'Virginia' },
-  { value: 'WA', label: 'Washington' },
-  { value: 'WV', label: 'West Virginia' },
-  { value: 'WI', label: 'Wisconsin' },
-  { value: 'WY', label: 'Wyoming' }
-];
-
-export default function CustomerForm({ initialData, profilePhoto, signature, frontLicense, backLicense, barcode, onSave }: CustomerFormProps) {
+export default function CustomerForm({ initialData, profilePhoto, signature, frontLicense, backLicense, barcode, customer, warnings, extraction, consistencyReport, documentDates, onSave, onCancel }: CustomerFormProps) {
   const [isDraft, setIsDraft] = useState(false);
+  const isEditing = !!customer;
   const [zoomImage, setZoomImage] = useState<{ src: string; title: string } | null>(null);
   const { toast } = useToast();
   const queryClient = useQueryClient();
 
+  // When editing, the form starts from the stored customer record
+  const defaults = customer ?? initialData;
+
   const form = useForm<InsertCustomer>({
     resolver: zodResolver(insertCustomerSchema),
     defaultValues: {
-      firstName: initialData?.firstName || '',
-      lastName: initialData?.lastName || '',
-      middleName: initialData?.middleName || '',
-      dateOfBirth: initialData?.dateOfBirth || '',
-      licenseNumber: initialData?.licenseNumber || '',
-      licenseState: initialData?.licenseState || '',
-      licenseExpiration: initialData?.licenseExpiration || '',
-      address: initialData?.address || '',
-      city: initialData?.city || '',
-      state: initialData?.state || '',
-      zipCode: initialData?.zipCode || '',
-      profilePhotoPath: initialData?.profilePhotoPath || '',
-      signaturePath: initialData?.signaturePath || '',
+      firstName: defaults?.firstName || '',
+      lastName: defaults?.lastName || '',
+      middleName: defaults?.middleName || '',
+      dateOfBirth: defaults?.dateOfBirth || '',
+      licenseNumber: defaults?.licenseNumber || '',
+      licenseState: defaults?.licenseState || '',
+      licenseExpiration: defaults?.licenseExpiration || '',
+      licenseIssueDate: defaults?.licenseIssueDate || '',
+      address: defaults?.address || '',
+      city: defaults?.city || '',
+      state: defaults?.state || '',
+      zipCode: defaults?.zipCode || '',
+      profilePhotoPath: defaults?.profilePhotoPath || '',
+      signaturePath: defaults?.signaturePath || '',
     },
   });
 
+  const [dateOfBirth, licenseExpiration, licenseIssueDate] = form.watch(['dateOfBirth', 'licenseExpiration', 'licenseIssueDate']);
+  const validity = useDocumentValidity({ ...documentDates, dateOfBirth, licenseExpiration, licenseIssueDate });
+
+  const isEdited = (name: ExtractedFieldName) => !!form.formState.dirtyFields[name];
+
+  const reviewClass = (name: ExtractedFieldName) =>
+    extraction?.[name]?.needsReview && !isEdited(name) ? 'border-orange-400 bg-orange-50' : undefined;
+
+  const provenance = (name: ExtractedFieldName) => !isEditing && (
+    <FieldProvenance
+      field={extraction?.[name]}
+      edited={isEdited(name)}
+      onUseValue={(value) => form.setValue(name, value, { shouldDirty: true })}
+    />
+  );
+
+  const crops = { front: frontLicense, back: backLicense, face: profilePhoto, signature, barcode };
+  const [mergeMatch, setMergeMatch] = useState<CustomerMatch | null>(null);
+
+  const findMatches = async (data: Partial<InsertCustomer>): Promise<CustomerMatch[]> => {
+    const { licenseNumber, firstName, lastName, dateOfBirth } = data;
+    const response = await apiRequest('POST', '/api/customers/matches', {
+      licenseNumber: licenseNumber || undefined,
+      firstName: firstName || undefined,
+      lastName: lastName || undefined,
+      dateOfBirth: dateOfBirth || undefined,
+    });
+    const result = await response.json();
+    return result.matches;
+  };
+
+  // Look up returning customers as soon as a scan opens the form
+  const { data: scanMatches } = useQuery({
+    queryKey: ['/api/customers/matches', initialData?.licenseNumber, initialData?.lastName, initialData?.dateOfBirth],
+    queryFn: () => findMatches(initialData!),
+    enabled: !isEditing && !!(initialData?.licenseNumber || (initialData?.lastName && initialData?.dateOfBirth)),
+  });
+
   const createCustomerMutation = useMutation({
     mutationFn: async (data: InsertCustomer) => {
       const response = await apiRequest('POST', '/api/customers', data);
-      return response.json();
+      const customer = await response.json();
+
+      // Store the cropped images and link them to the new customer
+      const updated = await uploadLicenseCrops(customer.id, crops);
+      return updated ?? customer;
     },
     onSuccess: (data) => {
       queryClient.invalidateQueries({ queryKey: ['/api/customers'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/customers/recent'] });
       toast({
         title: "Customer saved",
         description: `${data.firstName} ${data.lastName}'s profile has been successfully created.`,
@@ -126,12 +141,68 @@ export default function CustomerForm({ initialData, profilePhoto, signature, fro
     },
   });
 
-  const handleSubmit = (data: InsertCustomer) => {
-    // Add profile photo and signature paths if available
+  const updateCustomerMutation = useMutation({
+    mutationFn: async (data: InsertCustomer) => {
+      const response = await apiRequest('PUT', `/api/customers/${customer!.id}`, { ...data, source: 'manual' });
+      return response.json();
+    },
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/customers'] });
+      queryClient.invalidateQueries({ queryKey: [`/api/customers/${data.id}`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/customers/${data.id}/revisions`] });
+      toast({
+        title: "Profile updated",
+        description: `${data.firstName} ${data.lastName}'s profile has been updated.`,
+      });
+      onSave?.(data);
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: "Failed to update customer profile. Please try again.",
+        variant: "destructive",
+      });
+      console.error('Failed to update customer:', error);
+    },
+  });
+
+  const isSaving = createCustomerMutation.isPending || updateCustomerMutation.isPending;
+
+  const handleSubmit = async (data: InsertCustomer) => {
+    // The server refuses these too; stop here so the clerk sees why
+    if (validity.blocking.length > 0) {
+      toast({
+        title: "Cannot save this license",
+        description: validity.blocking.map((finding) => finding.message).join('. '),
+        variant: "destructive",
+      });
+      return;
+    }
+
+    if (isEditing) {
+      // Stored photo and signature paths are managed by the image upload endpoint
+      const { profilePhotoPath, signaturePath, ...fields } = data;
+      updateCustomerMutation.mutate(fields as InsertCustomer);
+      return;
+    }
+
+    // A license number already on file belongs to a returning customer; offer to update them
+    try {
+      const matches = await findMatches(data);
+      const existing = matches.find((match) => match.reason === 'licenseNumber');
+      if (existing) {
+        setMergeMatch(existing);
+        return;
+      }
+    } catch (error) {
+      console.error('Failed to check for returning customer:', error);
+    }
+
+    // Photo and signature paths are set once the crops have been uploaded
     const customerData = {
       ...data,
-      profilePhotoPath: profilePhoto ? 'profile-photo.jpg' : null,
-      signaturePath: signature ? 'signature.jpg' : null,
+      profilePhotoPath: null,
+      signaturePath: null,
     };
 
     createCustomerMutation.mutate(customerData);
@@ -150,141 +221,181 @@ export default function CustomerForm({ initialData, profilePhoto, signature, fro
     <>
       <Card className="w-full max-w-6xl mx-auto shadow-material">
       <CardHeader className="flex flex-row items-center justify-between">
-        <CardTitle className="text-xl">Customer Profile</CardTitle>
-        <Badge variant="secondary" className="bg-green-100 text-green-700 flex items-center">
-          <CheckCircleIcon className="h-4 w-4 mr-1" />
-          Scan Complete
-        </Badge>
+        <CardTitle className="text-xl">{isEditing ? 'Edit Profile' : 'Customer Profile'}</CardTitle>
+        {!isEditing && (
+          <Badge variant="secondary" className="bg-green-100 text-green-700 flex items-center">
+            <CheckCircleIcon className="h-4 w-4 mr-1" />
+            Scan Complete
+          </Badge>
+        )}
       </CardHeader>
 
       <CardContent>
+        {consistencyReport && <ConsistencyReport report={consistencyReport} />}
+
+        {warnings && warnings.length > 0 && (
+          <div className="mb-6 p-4 bg-orange-50 border border-orange-200 rounded-lg">
+            <div className="flex items-center mb-2">
+              <ExclamationTriangleIcon className="h-5 w-5 text-orange-500 mr-2" />
+              <span className="text-sm font-medium text-orange-800">Please verify this license</span>
+            </div>
+            <ul className="list-disc list-inside text-sm text-orange-700 space-y-1">
+              {warnings.map((warning) => (
+                <li key={warning}>{warning}</li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        {!isEditing && scanMatches && scanMatches.length > 0 && (
+          <div className="mb-6 p-4 bg-blue-50 border border-blue-200 rounded-lg space-y-3">
+            <div className="flex items-center">
+              <UserCircleIcon className="h-5 w-5 text-blue-500 mr-2" />
+              <span className="text-sm font-medium text-blue-800">Possible returning customer</span>
+            </div>
+            {scanMatches.map((match) => (
+              <div key={match.customer.id} className="flex items-center justify-between text-sm">
+                <span className="text-blue-900">
+                  {match.customer.firstName} {match.customer.lastName} · License {match.customer.licenseNumber} ·{' '}
+                  {match.reason === 'licenseNumber' ? 'same license number' : 'same name and date of birth'}
+                </span>
+                <Button type="button" size="sm" variant="outline" onClick={() => setMergeMatch(match)}>
+                  Review &amp; Update
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+
         {/* Crop Images Section */}
-        <div className="mb-8 p-6 bg-gray-50 rounded-lg">
-          <h3 className="text-lg font-medium text-gray-900 mb-4">Extracted Images</h3>
-          <div className="grid grid-cols-1 md:grid-cols-3 lg:grid-cols-5 gap-4">
-            {/* Profile Photo */}
-            <div>
-              <Label className="text-sm font-medium text-gray-700 mb-2 block">Profile Photo</Label>
-              <div className="bg-white rounded-lg p-3 text-center border">
-                {profilePhoto ? (
-                  <div 
-                    className="relative cursor-pointer group"
-                    onClick={() => setZoomImage({ src: profilePhoto, title: 'Profile Photo' })}
-                  >
-                    <img 
-                      src={profilePhoto} 
-                      alt="Customer profile photo" 
-                      className="w-20 h-20 rounded-full mx-auto object-cover shadow-sm group-hover:opacity-80 transition-opacity"
-                    />
-                    <div className="absolute inset-0 flex items-center justify-center opacity-0 group-hover:opacity-100 transition-opacity">
-                      <MagnifyingGlassIcon className="h-6 w-6 text-white bg-black bg-opacity-50 rounded-full p-1" />
+        {!isEditing && (
+          <div className="mb-8 p-6 bg-gray-50 rounded-lg">
+            <h3 className="text-lg font-medium text-gray-900 mb-4">Extracted Images</h3>
+            <div className="grid grid-cols-1 md:grid-cols-3 lg:grid-cols-5 gap-4">
+              {/* Profile Photo */}
+              <div>
+                <Label className="text-sm font-medium text-gray-700 mb-2 block">Profile Photo</Label>
+                <div className="bg-white rounded-lg p-3 text-center border">
+                  {profilePhoto ? (
+                    <div 
+                      className="relative cursor-pointer group"
+                      onClick={() => setZoomImage({ src: profilePhoto, title: 'Profile Photo' })}
+                    >
+                      <img 
+                        src={profilePhoto} 
+                        alt="Customer profile photo" 
+                        className="w-20 h-20 rounded-full mx-auto object-cover shadow-sm group-hover:opacity-80 transition-opacity"
+                      />
+                      <div className="absolute inset-0 flex items-center justify-center opacity-0 group-hover:opacity-100 transition-opacity">
+                        <MagnifyingGlassIcon className="h-6 w-6 text-white bg-black bg-opacity-50 rounded-full p-1" />
+                      </div>
                     </div>
-                  </div>
-                ) : (
-                  <div className="w-20 h-20 rounded-full mx-auto bg-gray-200 flex items-center justify-center">
-                    <span className="text-gray-500 text-xs">No Photo</span>
-                  </div>
-                )}
+                  ) : (
+                    <div className="w-20 h-20 rounded-full mx-auto bg-gray-200 flex items-center justify-center">
+                      <span className="text-gray-500 text-xs">No Photo</span>
+                    </div>
+                  )}
+                </div>
               </div>
-            </div>
-            
-            {/* Signature */}
-            <div>
-              <Label className="text-sm font-medium text-gray-700 mb-2 block">Signature</Label>
-              <div className="bg-white rounded-lg p-3 h-24 flex items-center justify-center border">
-                {signature ? (
-                  <div 
-                    className="relative cursor-pointer group h-full w-full flex items-center justify-center"
-                    onClick={() => setZoomImage({ src: signature, title: 'Customer Signature' })}
-                  >
-                    <img 
-                      src={signature} 
-                      alt="Customer signature" 
-                      className="h-8 max-w-full object-contain group-hover:opacity-80 transition-opacity"
-                    />
-                    <div className="absolute inset-0 flex items-center justify-center opacity-0 group-hover:opacity-100 transition-opacity">
-                      <MagnifyingGlassIcon className="h-6 w-6 text-white bg-black bg-opacity-50 rounded-full p-1" />
+              
+              {/* Signature */}
+              <div>
+                <Label className="text-sm font-medium text-gray-700 mb-2 block">Signature</Label>
+                <div className="bg-white rounded-lg p-3 h-24 flex items-center justify-center border">
+                  {signature ? (
+                    <div 
+                      className="relative cursor-pointer group h-full w-full flex items-center justify-center"
+                      onClick={() => setZoomImage({ src: signature, title: 'Customer Signature' })}
+                    >
+                      <img 
+                        src={signature} 
+                        alt="Customer signature" 
+                        className="h-8 max-w-full object-contain group-hover:opacity-80 transition-opacity"
+                      />
+                      <div className="absolute inset-0 flex items-center justify-center opacity-0 group-hover:opacity-100 transition-opacity">
+                        <MagnifyingGlassIcon className="h-6 w-6 text-white bg-black bg-opacity-50 rounded-full p-1" />
+                      </div>
                     </div>
-                  </div>
-                ) : (
-                  <span className="text-gray-500 text-xs">No Signature</span>
-                )}
+                  ) : (
+                    <span className="text-gray-500 text-xs">No Signature</span>
+                  )}
+                </div>
               </div>
-            </div>
-            
-            {/* Front License */}
-            <div>
-              <Label className="text-sm font-medium text-gray-700 mb-2 block">Front License</Label>
-              <div className="bg-white rounded-lg p-3 h-24 flex items-center justify-center border">
-                {frontLicense ? (
-                  <div 
-                    className="relative cursor-pointer group h-full w-full flex items-center justify-center"
-                    onClick={() => setZoomImage({ src: frontLicense, title: 'Front License' })}
-                  >
-                    <img 
-                      src={frontLicense} 
-                      alt="Front of license" 
-                      className="max-h-full max-w-full object-contain rounded group-hover:opacity-80 transition-opacity"
-                    />
-                    <div className="absolute inset-0 flex items-center justify-center opacity-0 group-hover:opacity-100 transition-opacity">
-                      <MagnifyingGlassIcon className="h-6 w-6 text-white bg-black bg-opacity-50 rounded-full p-1" />
+              
+              {/* Front License */}
+              <div>
+                <Label className="text-sm font-medium text-gray-700 mb-2 block">Front License</Label>
+                <div className="bg-white rounded-lg p-3 h-24 flex items-center justify-center border">
+                  {frontLicense ? (
+                    <div 
+                      className="relative cursor-pointer group h-full w-full flex items-center justify-center"
+                      onClick={() => setZoomImage({ src: frontLicense, title: 'Front License' })}
+                    >
+                      <img 
+                        src={frontLicense} 
+                        alt="Front of license" 
+                        className="max-h-full max-w-full object-contain rounded group-hover:opacity-80 transition-opacity"
+                      />
+                      <div className="absolute inset-0 flex items-center justify-center opacity-0 group-hover:opacity-100 transition-opacity">
+                        <MagnifyingGlassIcon className="h-6 w-6 text-white bg-black bg-opacity-50 rounded-full p-1" />
+                      </div>
                     </div>
-                  </div>
-                ) : (
-                  <span className="text-gray-500 text-xs">No Front</span>
-                )}
+                  ) : (
+                    <span className="text-gray-500 text-xs">No Front</span>
+                  )}
+                </div>
               </div>
-            </div>
-            
-            {/* Back License */}
-            <div>
-              <Label className="text-sm font-medium text-gray-700 mb-2 block">Back License</Label>
-              <div className="bg-white rounded-lg p-3 h-24 flex items-center justify-center border">
-                {backLicense ? (
-                  <div 
-                    className="relative cursor-pointer group h-full w-full flex items-center justify-center"
-                    onClick={() => setZoomImage({ src: backLicense, title: 'Back License' })}
-                  >
-                    <img 
-                      src={backLicense} 
-                      alt="Back of license" 
-                      className="max-h-full max-w-full object-contain rounded group-hover:opacity-80 transition-opacity"
-                    />
-                    <div className="absolute inset-0 flex items-center justify-center opacity-0 group-hover:opacity-100 transition-opacity">
-                      <MagnifyingGlassIcon className="h-6 w-6 text-white bg-black bg-opacity-50 rounded-full p-1" />
+              
+              {/* Back License */}
+              <div>
+                <Label className="text-sm font-medium text-gray-700 mb-2 block">Back License</Label>
+                <div className="bg-white rounded-lg p-3 h-24 flex items-center justify-center border">
+                  {backLicense ? (
+                    <div 
+                      className="relative cursor-pointer group h-full w-full flex items-center justify-center"
+                      onClick={() => setZoomImage({ src: backLicense, title: 'Back License' })}
+                    >
+                      <img 
+                        src={backLicense} 
+                        alt="Back of license" 
+                        className="max-h-full max-w-full object-contain rounded group-hover:opacity-80 transition-opacity"
+                      />
+                      <div className="absolute inset-0 flex items-center justify-center opacity-0 group-hover:opacity-100 transition-opacity">
+                        <MagnifyingGlassIcon className="h-6 w-6 text-white bg-black bg-opacity-50 rounded-full p-1" />
+                      </div>
                     </div>
-                  </div>
-                ) : (
-                  <span className="text-gray-500 text-xs">No Back</span>
-                )}
+                  ) : (
+                    <span className="text-gray-500 text-xs">No Back</span>
+                  )}
+                </div>
               </div>
-            </div>
-            
-            {/* Barcode */}
-            <div>
-              <Label className="text-sm font-medium text-gray-700 mb-2 block">Barcode</Label>
-              <div className="bg-white rounded-lg p-3 h-24 flex items-center justify-center border">
-                {barcode ? (
-                  <div 
-                    className="relative cursor-pointer group h-full w-full flex items-center justify-center"
-                    onClick={() => setZoomImage({ src: barcode, title: 'License Barcode' })}
-                  >
-                    <img 
-                      src={barcode} 
-                      alt="License barcode" 
-                      className="max-h-full max-w-full object-contain group-hover:opacity-80 transition-opacity"
-                    />
-                    <div className="absolute inset-0 flex items-center justify-center opacity-0 group-hover:opacity-100 transition-opacity">
-                      <MagnifyingGlassIcon className="h-6 w-6 text-white bg-black bg-opacity-50 rounded-full p-1" />
+              
+              {/* Barcode */}
+              <div>
+                <Label className="text-sm font-medium text-gray-700 mb-2 block">Barcode</Label>
+                <div className="bg-white rounded-lg p-3 h-24 flex items-center justify-center border">
+                  {barcode ? (
+                    <div 
+                      className="relative cursor-pointer group h-full w-full flex items-center justify-center"
+                      onClick={() => setZoomImage({ src: barcode, title: 'License Barcode' })}
+                    >
+                      <img 
+                        src={barcode} 
+                        alt="License barcode" 
+                        className="max-h-full max-w-full object-contain group-hover:opacity-80 transition-opacity"
+                      />
+                      <div className="absolute inset-0 flex items-center justify-center opacity-0 group-hover:opacity-100 transition-opacity">
+                        <MagnifyingGlassIcon className="h-6 w-6 text-white bg-black bg-opacity-50 rounded-full p-1" />
+                      </div>
                     </div>
-                  </div>
-                ) : (
-                  <span className="text-gray-500 text-xs">No Barcode</span>
-                )}
+                  ) : (
+                    <span className="text-gray-500 text-xs">No Barcode</span>
+                  )}
+                </div>
               </div>
             </div>
           </div>
-        </div>
+        )}
 
         <div className="grid grid-cols-1 gap-8">
 
@@ -303,8 +414,9 @@ export default function CustomerForm({ initialData, profilePhoto, signature, fro
                         <FormItem>
                           <FormLabel>First Name</FormLabel>
                           <FormControl>
-                            <Input {...field} />
+                            <Input className={reviewClass('firstName')} {...field} />
                           </FormControl>
+                          {provenance('firstName')}
                           <FormMessage />
                         </FormItem>
                       )}
@@ -317,8 +429,9 @@ export default function CustomerForm({ initialData, profilePhoto, signature, fro
                         <FormItem>
                           <FormLabel>Last Name</FormLabel>
                           <FormControl>
-                            <Input {...field} />
+                            <Input className={reviewClass('lastName')} {...field} />
                           </FormControl>
+                          {provenance('lastName')}
                           <FormMessage />
                         </FormItem>
                       )}
@@ -331,8 +444,9 @@ export default function CustomerForm({ initialData, profilePhoto, signature, fro
                         <FormItem>
                           <FormLabel>Middle Name</FormLabel>
                           <FormControl>
-                            <Input {...field} value={field.value ?? ''} />
+                            <Input className={reviewClass('middleName')} {...field} value={field.value ?? ''} />
                           </FormControl>
+                          {provenance('middleName')}
                           <FormMessage />
                         </FormItem>
                       )}
@@ -345,8 +459,9 @@ export default function CustomerForm({ initialData, profilePhoto, signature, fro
                         <FormItem>
                           <FormLabel>Date of Birth</FormLabel>
                           <FormControl>
-                            <Input type="date" {...field} />
+                            <Input className={reviewClass('dateOfBirth')} type="date" {...field} />
                           </FormControl>
+                          {provenance('dateOfBirth')}
                           <FormMessage />
                         </FormItem>
                       )}
@@ -356,7 +471,10 @@ export default function CustomerForm({ initialData, profilePhoto, signature, fro
 
                 {/* License Information */}
                 <div>
-                  <h3 className="text-lg font-medium text-gray-900 mb-4">License Information</h3>
+                  <div className="flex flex-wrap items-center justify-between gap-2 mb-4">
+                    <h3 className="text-lg font-medium text-gray-900">License Information</h3>
+                    <ValidityBadges result={validity} />
+                  </div>
                   <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                     <FormField
                       control={form.control}
@@ -365,8 +483,9 @@ export default function CustomerForm({ initialData, profilePhoto, signature, fro
                         <FormItem>
                           <FormLabel>License Number</FormLabel>
                           <FormControl>
-                            <Input {...field} />
+                            <Input className={reviewClass('licenseNumber')} {...field} />
                           </FormControl>
+                          {provenance('licenseNumber')}
                           <FormMessage />
                         </FormItem>
                       )}
@@ -378,20 +497,21 @@ export default function CustomerForm({ initialData, profilePhoto, signature, fro
                       render={({ field }) => (
                         <FormItem>
                           <FormLabel>License State</FormLabel>
-                          <Select onValueChange={field.onChange} defaultValue={field.value}>
+                          <Select onValueChange={field.onChange} value={field.value}>
                             <FormControl>
-                              <SelectTrigger>
+                              <SelectTrigger className={reviewClass('licenseState')}>
                                 <SelectValue placeholder="Select state" />
                               </SelectTrigger>
                             </FormControl>
                             <SelectContent>
-                              {US_STATES.map((state) => (
-                                <SelectItem key={state.value} value={state.value}>
-                                  {state.label}
+                              {JURISDICTIONS.map((jurisdiction) => (
+                                <SelectItem key={jurisdiction.code} value={jurisdiction.code}>
+                                  {jurisdiction.name}
                                 </SelectItem>
                               ))}
                             </SelectContent>
                           </Select>
+                          {provenance('licenseState')}
                           <FormMessage />
                         </FormItem>
                       )}
@@ -404,8 +524,24 @@ export default function CustomerForm({ initialData, profilePhoto, signature, fro
                         <FormItem>
                           <FormLabel>Expiration Date</FormLabel>
                           <FormControl>
-                            <Input type="date" {...field} />
+                            <Input className={reviewClass('licenseExpiration')} type="date" {...field} />
                           </FormControl>
+                          {provenance('licenseExpiration')}
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+
+                    <FormField
+                      control={form.control}
+                      name="licenseIssueDate"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Issue Date</FormLabel>
+                          <FormControl>
+                            <Input className={reviewClass('licenseIssueDate')} type="date" {...field} value={field.value ?? ''} />
+                          </FormControl>
+                          {provenance('licenseIssueDate')}
                           <FormMessage />
                         </FormItem>
                       )}
@@ -425,8 +561,9 @@ export default function CustomerForm({ initialData, profilePhoto, signature, fro
                           <FormItem>
                             <FormLabel>Street Address</FormLabel>
                             <FormControl>
-                              <Input {...field} value={field.value ?? ''} />
+                              <Input className={reviewClass('address')} {...field} value={field.value ?? ''} />
                             </FormControl>
+                            {provenance('address')}
                             <FormMessage />
                           </FormItem>
                         )}
@@ -440,8 +577,9 @@ export default function CustomerForm({ initialData, profilePhoto, signature, fro
                         <FormItem>
                           <FormLabel>City</FormLabel>
                           <FormControl>
-                            <Input {...field} value={field.value ?? ''} />
+                            <Input className={reviewClass('city')} {...field} value={field.value ?? ''} />
                           </FormControl>
+                          {provenance('city')}
                           <FormMessage />
                         </FormItem>
                       )}
@@ -454,8 +592,9 @@ export default function CustomerForm({ initialData, profilePhoto, signature, fro
                         <FormItem>
                           <FormLabel>State</FormLabel>
                           <FormControl>
-                            <Input {...field} value={field.value ?? ''} />
+                            <Input className={reviewClass('state')} {...field} value={field.value ?? ''} />
                           </FormControl>
+                          {provenance('state')}
                           <FormMessage />
                         </FormItem>
                       )}
@@ -468,8 +607,9 @@ export default function CustomerForm({ initialData, profilePhoto, signature, fro
                         <FormItem>
                           <FormLabel>ZIP Code</FormLabel>
                           <FormControl>
-                            <Input {...field} value={field.value ?? ''} />
+                            <Input className={reviewClass('zipCode')} {...field} value={field.value ?? ''} />
                           </FormControl>
+                          {provenance('zipCode')}
                           <FormMessage />
                         </FormItem>
                       )}
@@ -479,16 +619,22 @@ export default function CustomerForm({ initialData, profilePhoto, signature, fro
 
                 {/* Action Buttons */}
                 <div className="flex justify-end space-x-3 pt-6 border-t border-gray-200">
-                  <Button type="button" variant="outline" onClick={handleSaveDraft}>
-                    Save Draft
-                  </Button>
+                  {isEditing ? (
+                    <Button type="button" variant="outline" onClick={onCancel}>
+                      Cancel
+                    </Button>
+                  ) : (
+                    <Button type="button" variant="outline" onClick={handleSaveDraft}>
+                      Save Draft
+                    </Button>
+                  )}
                   <Button 
                     type="submit" 
-                    disabled={createCustomerMutation.isPending}
+                    disabled={isSaving}
                     className="bg-blue-700 hover:bg-blue-900"
                   >
                     <ArrowDownTrayIcon className="h-4 w-4 mr-2" />
-                    {createCustomerMutation.isPending ? 'Saving...' : 'Save Customer'}
+                    {isSaving ? 'Saving...' : isEditing ? 'Save Changes' : 'Save Customer'}
                   </Button>
                 </div>
               </form>
@@ -499,6 +645,17 @@ export default function CustomerForm({ initialData, profilePhoto, signature, fro
     </Card>
 
     {/* Image Zoom Modal */}
+    <CustomerMergeDialog
+      match={mergeMatch}
+      scanned={form.getValues()}
+      crops={crops}
+      onMerged={(merged) => {
+        setMergeMatch(null);
+        onSave?.(merged);
+      }}
+      onClose={() => setMergeMatch(null)}
+    />
+
     <Dialog open={!!zoomImage} onOpenChange={() => setZoomImage(null)}>
       <DialogContent className="max-w-4xl max-h-[90vh] p-0">
         <DialogHeader className="p-6 pb-2">
@@ -0,0 +1,166 @@
+import { useEffect, useState } from 'react';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { apiRequest } from '@/lib/queryClient';
+import { uploadLicenseCrops, type LicenseCrops } from '@/lib/customer-images';
+import { FIELD_LABELS } from '@/lib/customer-fields';
+import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/hooks/use-auth';
+import type { Customer, CustomerMatch, InsertCustomer } from '@shared/schema';
+
+// Fields a rescan can bring up to date
+const MERGE_FIELDS = [
+  'firstName',
+  'middleName',
+  'lastName',
+  'dateOfBirth',
+  'licenseNumber',
+  'licenseState',
+  'licenseExpiration',
+  'licenseIssueDate',
+  'address',
+  'city',
+  'state',
+  'zipCode',
+] as const;
+
+type MergeField = typeof MERGE_FIELDS[number];
+
+interface CustomerMergeDialogProps {
+  match: CustomerMatch | null;
+  scanned: Partial<InsertCustomer>;
+  crops: LicenseCrops;
+  onMerged: (customer: Customer) => void;
+  onClose: () => void;
+}
+
+const displayValue = (value: string | null | undefined) => value || '—';
+
+export default function CustomerMergeDialog({ match, scanned, crops, onMerged, onClose }: CustomerMergeDialogProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { can } = useAuth();
+  // Scanners can attach the new images, but only managers may change profile details
+  const canEdit = can('manager');
+  const existing = match?.customer;
+
+  // Only fields the scan actually read and that differ from the stored profile
+  const changedFields = existing
+    ? MERGE_FIELDS.filter((field) => scanned[field] && scanned[field] !== existing[field])
+    : [];
+
+  const [selected, setSelected] = useState<Set<MergeField>>(new Set());
+  useEffect(() => {
+    setSelected(new Set(canEdit ? changedFields : []));
+  }, [match, canEdit]);
+
+  const toggleField = (field: MergeField, checked: boolean) => {
+    const next = new Set(selected);
+    if (checked) next.add(field);
+    else next.delete(field);
+    setSelected(next);
+  };
+
+  const mergeMutation = useMutation({
+    mutationFn: async () => {
+      let customer: Customer = existing!;
+      if (selected.size > 0) {
+        const updates = Object.fromEntries(Array.from(selected).map((field) => [field, scanned[field]]));
+        const response = await apiRequest('PUT', `/api/customers/${existing!.id}`, { ...updates, source: 'rescan' });
+        customer = await response.json();
+      }
+
+      const updated = await uploadLicenseCrops(customer.id, crops);
+      return updated ?? customer;
+    },
+    onSuccess: (customer: Customer) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/customers'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/customers/recent'] });
+      queryClient.invalidateQueries({ queryKey: [`/api/customers/${customer.id}`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/customers/${customer.id}/revisions`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/customers/${customer.id}/images`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/customers/${customer.id}/image-urls`] });
+      toast({
+        title: "Profile updated",
+        description: `${customer.firstName} ${customer.lastName}'s existing profile has been updated from this scan.`,
+      });
+      onMerged(customer);
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: "Failed to update the existing profile. Please try again.",
+        variant: "destructive",
+      });
+      console.error('Failed to merge customer:', error);
+    },
+  });
+
+  return (
+    <Dialog open={!!match} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>Returning customer</DialogTitle>
+          <DialogDescription>
+            {existing && (
+              <>
+                This license matches {existing.firstName} {existing.lastName}
+                {match!.reason === 'licenseNumber'
+                  ? ' by license number.'
+                  : ` by name and date of birth (${Math.round(match!.score * 100)}% name match).`}
+                {canEdit
+                  ? ' Choose which scanned values should update the existing profile.'
+                  : ' Ask a manager to update any changed details; saving will attach the new images.'}
+              </>
+            )}
+          </DialogDescription>
+        </DialogHeader>
+
+        {existing && (
+          changedFields.length > 0 ? (
+            <div className="border rounded-lg divide-y">
+              <div className="grid grid-cols-[2rem_1fr_1fr_1fr] gap-3 px-4 py-2 text-xs font-medium uppercase text-gray-500 bg-gray-50">
+                <span />
+                <span>Field</span>
+                <span>Current</span>
+                <span>Scanned</span>
+              </div>
+              {changedFields.map((field) => (
+                <label
+                  key={field}
+                  className="grid grid-cols-[2rem_1fr_1fr_1fr] gap-3 px-4 py-3 items-center text-sm cursor-pointer"
+                >
+                  <Checkbox
+                    disabled={!canEdit}
+                    checked={selected.has(field)}
+                    onCheckedChange={(checked) => toggleField(field, checked === true)}
+                  />
+                  <span className="font-medium text-gray-700">{FIELD_LABELS[field] ?? field}</span>
+                  <span className="text-gray-500 line-through">{displayValue(existing[field])}</span>
+                  <span className="text-gray-900">{displayValue(scanned[field])}</span>
+                </label>
+              ))}
+            </div>
+          ) : (
+            <div className="flex items-center gap-2 text-sm text-gray-600">
+              <Badge variant="secondary">Up to date</Badge>
+              The scanned details match the existing profile. Saving will attach the new images.
+            </div>
+          )
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose} disabled={mergeMutation.isPending}>
+            Cancel
+          </Button>
+          <Button onClick={() => mergeMutation.mutate()} disabled={mergeMutation.isPending}>
+            {mergeMutation.isPending ? 'Updating...' : 'Update Existing Profile'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
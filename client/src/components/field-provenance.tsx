@@ -0,0 +1,61 @@
+import { ExclamationTriangleIcon } from '@heroicons/react/24/outline';
+import type { ExtractedField, ExtractionSource } from '@shared/extraction';
+
+const SOURCE_LABELS: Record<ExtractionSource, string> = {
+  barcode: 'Barcode',
+  ocr: 'OCR',
+  manual: 'Manual',
+};
+
+interface FieldProvenanceProps {
+  field?: ExtractedField;
+  // The clerk has changed the value since it was extracted
+  edited: boolean;
+  onUseValue: (value: string) => void;
+}
+
+const percent = (confidence: number) => `${Math.round(confidence * 100)}%`;
+
+// Where a form value came from, and what to double-check about it
+export default function FieldProvenance({ field, edited, onUseValue }: FieldProvenanceProps) {
+  if (edited) {
+    return <p className="text-xs text-gray-500">{SOURCE_LABELS.manual} entry</p>;
+  }
+  if (!field) return null;
+
+  if (field.conflict) {
+    return (
+      <div className="text-xs text-orange-700 space-y-1">
+        <p className="flex items-center">
+          <ExclamationTriangleIcon className="h-3.5 w-3.5 mr-1" />
+          {SOURCE_LABELS[field.source]} and {field.alternatives.map((candidate) => SOURCE_LABELS[candidate.source]).join(', ')} disagree
+        </p>
+        {field.alternatives.map((candidate) => (
+          <button
+            key={candidate.source}
+            type="button"
+            className="underline hover:text-orange-900"
+            onClick={() => onUseValue(candidate.value)}
+          >
+            Use {SOURCE_LABELS[candidate.source]}: {candidate.value}
+          </button>
+        ))}
+      </div>
+    );
+  }
+
+  if (field.needsReview) {
+    return (
+      <p className="flex items-center text-xs text-yellow-700">
+        <ExclamationTriangleIcon className="h-3.5 w-3.5 mr-1" />
+        Low confidence ({percent(field.confidence)}) from {SOURCE_LABELS[field.source]}
+      </p>
+    );
+  }
+
+  return (
+    <p className="text-xs text-gray-500">
+      From {SOURCE_LABELS[field.source]} · {percent(field.confidence)}
+    </p>
+  );
+}
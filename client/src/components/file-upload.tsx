@@ -3,12 +3,14 @@ import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Progress } from '@/components/ui/progress';
 import { Alert, AlertDescription } from '@/components/ui/alert';
-import { XMarkIcon, PhotoIcon, DocumentArrowUpIcon } from '@heroicons/react/24/outline';
+import { XMarkIcon, PhotoIcon, DocumentArrowUpIcon, ExclamationTriangleIcon } from '@heroicons/react/24/outline';
 import { useToast } from '@/hooks/use-toast';
+import { measurePhotoQuality } from '@/lib/image-quality';
+import { QUALITY_GUIDANCE, type ImageQuality, type ScanImageQuality } from '@shared/image-quality';
 import ManualCrop from './manual-crop';
 
 interface FileUploadProps {
-  onUpload: (frontImage: File | null, backImage: File | null, face?: string, signature?: string, barcode?: string) => void;
+  onUpload: (frontImage: File | null, backImage: File | null, face?: string, signature?: string, barcode?: string, frontLicense?: string, backLicense?: string, quality?: ScanImageQuality) => void;
   onClose: () => void;
 }
 
@@ -29,6 +31,7 @@ export default function FileUpload({ onUpload, onClose }: FileUploadProps) {
   const [uploadProgress, setUploadProgress] = useState(0);
   const [error, setError] = useState<string | null>(null);
   const [showManualCrop, setShowManualCrop] = useState(false);
+  const [quality, setQuality] = useState<ScanImageQuality>({});
   
   const { toast } = useToast();
 
@@ -75,6 +78,12 @@ export default function FileUpload({ onUpload, onClose }: FileUploadProps) {
       title: "File uploaded",
       description: `${side} image uploaded successfully`,
     });
+
+    // Warn about photos that will read poorly; PDFs can't be measured and are skipped
+    setQuality((prev) => ({ ...prev, [side]: undefined }));
+    measurePhotoQuality(preview)
+      .then((measured) => setQuality((prev) => ({ ...prev, [side]: measured })))
+      .catch((error) => console.warn('Could not measure image quality:', error));
   };
 
   const handleDragOver = useCallback((e: React.DragEvent, side: 'front' | 'back') => {
@@ -120,13 +129,13 @@ export default function FileUpload({ onUpload, onClose }: FileUploadProps) {
     if (frontImage && backImage && frontPreview && backPreview) {
       setShowManualCrop(true);
     } else {
-      onUpload(frontImage, backImage);
+      onUpload(frontImage, backImage, undefined, undefined, undefined, undefined, undefined, quality);
     }
   };
 
   const handleCropsComplete = (crops: CroppedImages) => {
     // Pass the cropped images to the parent component
-    onUpload(frontImage, backImage, crops.face, crops.signature, crops.barcode);
+    onUpload(frontImage, backImage, crops.face, crops.signature, crops.barcode, crops.frontLicense, crops.backLicense, quality);
     setShowManualCrop(false);
   };
 
@@ -135,6 +144,7 @@ export default function FileUpload({ onUpload, onClose }: FileUploadProps) {
     setBackImage(null);
     setFrontPreview(null);
     setBackPreview(null);
+    setQuality({});
     setUploadProgress(0);
     setError(null);
   };
@@ -187,12 +197,14 @@ export default function FileUpload({ onUpload, onClose }: FileUploadProps) {
                   className="w-full h-32 object-cover rounded border"
                 />
                 <p className="text-sm text-green-600">✓ Front image uploaded</p>
+                <QualityWarnings quality={quality.front} />
                 <Button 
                   variant="outline" 
                   size="sm" 
                   onClick={() => {
                     setFrontImage(null);
                     setFrontPreview(null);
+                    setQuality((prev) => ({ ...prev, front: undefined }));
                   }}
                 >
                   Remove
@@ -240,12 +252,14 @@ export default function FileUpload({ onUpload, onClose }: FileUploadProps) {
                   className="w-full h-32 object-cover rounded border"
                 />
                 <p className="text-sm text-green-600">✓ Back image uploaded</p>
+                <QualityWarnings quality={quality.back} />
                 <Button 
                   variant="outline" 
                   size="sm" 
                   onClick={() => {
                     setBackImage(null);
                     setBackPreview(null);
+                    setQuality((prev) => ({ ...prev, back: undefined }));
                   }}
                 >
                   Remove
@@ -305,3 +319,18 @@ export default function FileUpload({ onUpload, onClose }: FileUploadProps) {
     </Card>
   );
 }
+
+function QualityWarnings({ quality }: { quality?: ImageQuality }) {
+  if (!quality || quality.issues.length === 0) return null;
+
+  return (
+    <div className="space-y-1">
+      {quality.issues.map((issue) => (
+        <p key={issue} className="flex items-center justify-center text-sm text-yellow-700">
+          <ExclamationTriangleIcon className="h-4 w-4 mr-1" />
+          {QUALITY_GUIDANCE[issue]}
+        </p>
+      ))}
+    </div>
+  );
+}
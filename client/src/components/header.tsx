@@ -1,7 +1,31 @@
 import { Link } from "wouter";
-import { DocumentTextIcon, UserIcon } from "@heroicons/react/24/outline";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { DocumentTextIcon, UserIcon, UsersIcon, ShieldCheckIcon, RectangleGroupIcon, ChartBarIcon, ArrowRightOnRectangleIcon } from "@heroicons/react/24/outline";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { apiRequest } from "@/lib/queryClient";
+import { useAuth } from "@/hooks/use-auth";
+import { ROLE_LABELS, type OperatorRole } from "@shared/roles";
 
 export default function Header() {
+  const { operator, can } = useAuth();
+  const queryClient = useQueryClient();
+
+  const logoutMutation = useMutation({
+    mutationFn: () => apiRequest('POST', '/api/auth/logout'),
+    // Drop every cached customer along with the session
+    onSettled: () => {
+      queryClient.clear();
+      queryClient.setQueryData(['/api/auth/me'], null);
+    },
+  });
+
   return (
     <header className="bg-white shadow-sm border-b border-gray-200">
       <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
@@ -17,10 +41,61 @@ export default function Header() {
             <Link href="/customers" className="text-gray-600 hover:text-gray-900 px-3 py-2 rounded-md text-sm font-medium">
               Customers
             </Link>
-            <button className="bg-blue-700 text-white px-4 py-2 rounded-md text-sm font-medium hover:bg-blue-900 transition-colors flex items-center">
-              <UserIcon className="h-4 w-4 mr-1" />
-              Account
-            </button>
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <button className="bg-blue-700 text-white px-4 py-2 rounded-md text-sm font-medium hover:bg-blue-900 transition-colors flex items-center">
+                  <UserIcon className="h-4 w-4 mr-1" />
+                  {operator?.displayName ?? 'Account'}
+                </button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="end" className="w-56">
+                {operator && (
+                  <DropdownMenuLabel>
+                    <p className="text-sm font-medium text-gray-900">{operator.displayName}</p>
+                    <p className="text-xs font-normal text-gray-500">
+                      {operator.username} · {ROLE_LABELS[operator.role as OperatorRole] ?? operator.role}
+                    </p>
+                  </DropdownMenuLabel>
+                )}
+                <DropdownMenuSeparator />
+                {can('admin') && (
+                  <DropdownMenuItem asChild>
+                    <Link href="/operators" className="cursor-pointer">
+                      <UsersIcon className="h-4 w-4 mr-2" />
+                      Operators
+                    </Link>
+                  </DropdownMenuItem>
+                )}
+                {can('admin') && (
+                  <DropdownMenuItem asChild>
+                    <Link href="/audit-log" className="cursor-pointer">
+                      <ShieldCheckIcon className="h-4 w-4 mr-2" />
+                      Audit Log
+                    </Link>
+                  </DropdownMenuItem>
+                )}
+                {can('admin') && (
+                  <DropdownMenuItem asChild>
+                    <Link href="/card-layouts" className="cursor-pointer">
+                      <RectangleGroupIcon className="h-4 w-4 mr-2" />
+                      Card Layouts
+                    </Link>
+                  </DropdownMenuItem>
+                )}
+                {can('admin') && (
+                  <DropdownMenuItem asChild>
+                    <Link href="/barcode-benchmark" className="cursor-pointer">
+                      <ChartBarIcon className="h-4 w-4 mr-2" />
+                      Decoder Benchmark
+                    </Link>
+                  </DropdownMenuItem>
+                )}
+                <DropdownMenuItem onSelect={() => logoutMutation.mutate()} disabled={logoutMutation.isPending}>
+                  <ArrowRightOnRectangleIcon className="h-4 w-4 mr-2" />
+                  Sign Out
+                </DropdownMenuItem>
+              </DropdownMenuContent>
+            </DropdownMenu>
           </nav>
         </div>
       </div>
@@ -2,14 +2,18 @@ import { useState, useRef, useCallback, useEffect } from 'react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
-import { XMarkIcon, ArrowPathIcon } from '@heroicons/react/24/outline';
+import { XMarkIcon, ArrowsPointingOutIcon } from '@heroicons/react/24/outline';
+import { CARD_LAYOUTS, cardOrientation, findCardLayout, type LayoutBox, type LayoutRegion } from '@shared/card-layouts';
+import { getJurisdiction } from '@shared/jurisdictions';
+import { extractRegion, loadCanvas } from '@/lib/card-regions';
+import { edgeDetectionService } from '@/lib/edge-detection';
+import { defaultCorners, isConvex, orderCorners, rectifyCard, type Quad } from '@/lib/perspective';
 
 interface CropArea {
   x: number;
   y: number;
   width: number;
   height: number;
-  rotation: number;
 }
 
 interface ManualCropProps {
@@ -26,10 +30,28 @@ interface ManualCropProps {
 }
 
 type CropType = 'face' | 'signature' | 'frontLicense' | 'backLicense' | 'barcode';
+type Side = 'front' | 'back';
+
+// Layout template regions that pre-position crops; the license crops start as the whole image
+const TEMPLATE_REGIONS: Partial<Record<CropType, LayoutRegion>> = {
+  face: 'portrait',
+  signature: 'signature',
+  barcode: 'barcode',
+};
+const FULL_IMAGE: LayoutBox = { left: 0, top: 0, width: 1, height: 1 };
+
+// Corner handles, in display pixels: drawn size and how close a press must land to grab one
+const HANDLE_RADIUS = 8;
+const HANDLE_REACH = 24;
+
+const GENERIC_LAYOUT = 'generic';
+const layoutJurisdictions = Array.from(new Set(
+  CARD_LAYOUTS.map((layout) => layout.jurisdiction).filter((code): code is string => !!code)
+)).sort();
 
 export default function ManualCrop({ frontImage, backImage, onCropsComplete, onClose }: ManualCropProps) {
   const [currentCropType, setCurrentCropType] = useState<CropType>('face');
-  const [currentImage, setCurrentImage] = useState<'front' | 'back'>('front');
+  const [currentImage, setCurrentImage] = useState<Side>('front');
   const [isDrawing, setIsDrawing] = useState(false);
   const [cropAreas, setCropAreas] = useState<Record<CropType, CropArea | null>>({
     face: null,
@@ -45,8 +67,19 @@ export default function ManualCrop({ frontImage, backImage, onCropsComplete, onC
     backLicense: '',
     barcode: ''
   });
-  const [rotation, setRotation] = useState(0);
   const [tempCrop, setTempCrop] = useState<CropArea | null>(null);
+  // Card corners in each photo, and the card warped flat from them; all crops are cut from the flat card
+  const [corners, setCorners] = useState<Record<Side, Quad | null>>({ front: null, back: null });
+  const [rectified, setRectified] = useState<Record<Side, string | null>>({ front: null, back: null });
+  const [adjustingCorners, setAdjustingCorners] = useState(false);
+  const [draggingCorner, setDraggingCorner] = useState<number | null>(null);
+  const [layoutJurisdiction, setLayoutJurisdiction] = useState(GENERIC_LAYOUT);
+  const [templateRegions, setTemplateRegions] = useState<Partial<Record<CropType, LayoutBox>>>({});
+
+  // Crops drawn by hand win over the template, even when another layout is picked
+  const cropAreasRef = useRef(cropAreas);
+  cropAreasRef.current = cropAreas;
+  const photosRef = useRef<Record<Side, HTMLCanvasElement | null>>({ front: null, back: null });
   
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const imageRef = useRef<HTMLImageElement>(null);
@@ -62,6 +95,79 @@ export default function ManualCrop({ frontImage, backImage, onCropsComplete, onC
     barcode: 'back'
   };
 
+  const photos: Record<Side, string> = { front: frontImage, back: backImage };
+
+  // Find the card in each photo and flatten it; without clear edges, start from a centred box
+  // and have the operator place the corners
+  useEffect(() => {
+    let cancelled = false;
+
+    Promise.all([loadCanvas(frontImage), loadCanvas(backImage)]).then(([front, back]) => {
+      if (cancelled) return;
+
+      const undetected: Side[] = [];
+      const found = {} as Record<Side, Quad>;
+      for (const [side, photo] of [['front', front], ['back', back]] as [Side, HTMLCanvasElement][]) {
+        photosRef.current[side] = photo;
+        const detected = edgeDetectionService.findCardCorners(photo);
+        if (!detected) undetected.push(side);
+        found[side] = detected?.corners ?? defaultCorners(photo.width, photo.height);
+      }
+
+      setCorners(found);
+      setRectified({
+        front: rectifyCard(front, found.front).toDataURL('image/jpeg', 0.92),
+        back: rectifyCard(back, found.back).toDataURL('image/jpeg', 0.92),
+      });
+      if (undetected.length > 0) {
+        setAdjustingCorners(true);
+        setCurrentImage(undetected[0]);
+      }
+    }).catch((error) => {
+      console.error('Failed to detect card corners:', error);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [frontImage, backImage]);
+
+  // Pre-position every crop from the layout template for this card's jurisdiction and orientation
+  useEffect(() => {
+    let cancelled = false;
+    if (!rectified.front || !rectified.back) return;
+
+    Promise.all([loadCanvas(rectified.front), loadCanvas(rectified.back)]).then(([front, back]) => {
+      if (cancelled) return;
+
+      const layout = findCardLayout({
+        jurisdiction: layoutJurisdiction === GENERIC_LAYOUT ? null : layoutJurisdiction,
+        orientation: cardOrientation(front.width, front.height),
+      });
+      const regions: Partial<Record<CropType, LayoutBox>> = { frontLicense: FULL_IMAGE, backLicense: FULL_IMAGE };
+      for (const [type, region] of Object.entries(TEMPLATE_REGIONS) as [CropType, LayoutRegion][]) {
+        const box = layout.regions[region];
+        if (box) regions[type] = box;
+      }
+
+      setTemplateRegions(regions);
+      setCompletedCrops((prev) => {
+        const next = { ...prev };
+        for (const [type, box] of Object.entries(regions) as [CropType, LayoutBox][]) {
+          if (cropAreasRef.current[type]) continue;
+          next[type] = extractRegion(requiredImage[type] === 'front' ? front : back, box) ?? '';
+        }
+        return next;
+      });
+    }).catch((error) => {
+      console.error('Failed to apply card layout template:', error);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [rectified, layoutJurisdiction]);
+
   const advanceToNextCrop = () => {
     const currentIndex = cropOrder.indexOf(currentCropType);
     const nextIndex = currentIndex + 1;
@@ -73,12 +179,12 @@ export default function ManualCrop({ frontImage, backImage, onCropsComplete, onC
       // Auto-switch to required image
       const required = requiredImage[nextCropType];
       if (currentImage !== required) {
-        setCurrentImage(required as 'front' | 'back');
+        setCurrentImage(required as Side);
       }
     }
   };
 
-  const drawImageOnCanvas = useCallback((image: HTMLImageElement, rotation: number = 0) => {
+  const drawImageOnCanvas = useCallback((image: HTMLImageElement) => {
     const canvas = canvasRef.current;
     if (!canvas) return;
 
@@ -94,13 +200,14 @@ export default function ManualCrop({ frontImage, backImage, onCropsComplete, onC
     canvas.height = image.height * scale;
     
     ctx.clearRect(0, 0, canvas.width, canvas.height);
-    
-    // Apply rotation
-    ctx.save();
-    ctx.translate(canvas.width / 2, canvas.height / 2);
-    ctx.rotate((rotation * Math.PI) / 180);
-    ctx.drawImage(image, -canvas.width / 2, -canvas.height / 2, canvas.width, canvas.height);
-    ctx.restore();
+    ctx.drawImage(image, 0, 0, canvas.width, canvas.height);
+
+    // Adjusting corners shows the original photo with the card outline instead of the crops
+    const quad = corners[currentImage];
+    if (adjustingCorners) {
+      if (quad) drawCorners(ctx, quad, scale);
+      return;
+    }
 
     // Draw only crop areas that belong to the current image
     Object.entries(cropAreas).forEach(([type, area]) => {
@@ -109,13 +216,51 @@ export default function ManualCrop({ frontImage, backImage, onCropsComplete, onC
       }
     });
 
+    // Template crops stand in for any crop not drawn by hand
+    (Object.entries(templateRegions) as [CropType, LayoutBox][]).forEach(([type, box]) => {
+      if (cropAreas[type] || !completedCrops[type] || requiredImage[type] !== currentImage) return;
+      const area = {
+        x: box.left * canvas.width,
+        y: box.top * canvas.height,
+        width: box.width * canvas.width,
+        height: box.height * canvas.height,
+      };
+      drawCropArea(ctx, area, type, type === currentCropType, ' (template)');
+    });
+
     // Draw temporary crop area while dragging
     if (tempCrop && tempCrop.width > 0 && tempCrop.height > 0) {
       drawCropArea(ctx, tempCrop, currentCropType, true);
     }
-  }, [cropAreas, currentCropType, tempCrop]);
+  }, [cropAreas, completedCrops, templateRegions, currentCropType, tempCrop, corners, adjustingCorners, draggingCorner, currentImage]);
+
+  const drawCorners = (ctx: CanvasRenderingContext2D, quad: Quad, scale: number) => {
+    ctx.save();
+    ctx.strokeStyle = '#0066ff';
+    ctx.lineWidth = 3;
+    ctx.beginPath();
+    quad.forEach((corner, i) => {
+      if (i === 0) {
+        ctx.moveTo(corner.x * scale, corner.y * scale);
+      } else {
+        ctx.lineTo(corner.x * scale, corner.y * scale);
+      }
+    });
+    ctx.closePath();
+    ctx.stroke();
+
+    ctx.fillStyle = '#ffffff';
+    quad.forEach((corner, i) => {
+      ctx.beginPath();
+      ctx.arc(corner.x * scale, corner.y * scale, HANDLE_RADIUS, 0, Math.PI * 2);
+      ctx.fill();
+      ctx.strokeStyle = i === draggingCorner ? '#ff0000' : '#0066ff';
+      ctx.stroke();
+    });
+    ctx.restore();
+  };
 
-  const drawCropArea = (ctx: CanvasRenderingContext2D, area: CropArea, type: CropType, isActive: boolean) => {
+  const drawCropArea = (ctx: CanvasRenderingContext2D, area: CropArea, type: CropType, isActive: boolean, labelSuffix = '') => {
     const colors = {
       face: isActive ? '#ff0000' : '#ff4444',
       signature: isActive ? '#00ff00' : '#44ff44',
@@ -131,16 +276,13 @@ export default function ManualCrop({ frontImage, backImage, onCropsComplete, onC
     ctx.setLineDash(isActive ? [] : [8, 4]);
     ctx.globalAlpha = 1.0;
     
-    // Draw crop rectangle with rotation
-    ctx.translate(area.x + area.width / 2, area.y + area.height / 2);
-    ctx.rotate((area.rotation * Math.PI) / 180);
-    ctx.strokeRect(-area.width / 2, -area.height / 2, area.width, area.height);
+    ctx.strokeRect(area.x, area.y, area.width, area.height);
     ctx.restore();
 
     // Draw label with background for better visibility
     ctx.save();
     ctx.fillStyle = 'rgba(0, 0, 0, 0.7)';
-    const labelText = type.replace(/([A-Z])/g, ' $1').trim();
+    const labelText = type.replace(/([A-Z])/g, ' $1').trim() + labelSuffix;
     const metrics = ctx.measureText(labelText);
     ctx.fillRect(area.x - 2, area.y - 18, metrics.width + 8, 16);
     
@@ -178,12 +320,77 @@ export default function ManualCrop({ frontImage, backImage, onCropsComplete, onC
     return { x, y };
   };
 
+  // Display pixels per photo pixel while the original photo is shown for corner adjustment
+  const photoScale = () => {
+    const photo = photosRef.current[currentImage];
+    return photo && canvasRef.current ? canvasRef.current.width / photo.width : 1;
+  };
+
+  const startCornerDrag = (coords: { x: number; y: number }) => {
+    const quad = corners[currentImage];
+    if (!quad) return;
+
+    const scale = photoScale();
+    let nearest: number | null = null;
+    let nearestDistance = HANDLE_REACH;
+    quad.forEach((corner, i) => {
+      const distance = Math.hypot(corner.x * scale - coords.x, corner.y * scale - coords.y);
+      if (distance < nearestDistance) {
+        nearest = i;
+        nearestDistance = distance;
+      }
+    });
+    setDraggingCorner(nearest);
+  };
+
+  const moveCorner = (coords: { x: number; y: number }) => {
+    const quad = corners[currentImage];
+    const photo = photosRef.current[currentImage];
+    if (draggingCorner === null || !quad || !photo) return;
+
+    const scale = photoScale();
+    const moved = [...quad] as Quad;
+    moved[draggingCorner] = {
+      x: Math.min(Math.max(coords.x / scale, 0), photo.width),
+      y: Math.min(Math.max(coords.y / scale, 0), photo.height),
+    };
+    setCorners(prev => ({ ...prev, [currentImage]: moved }));
+  };
+
+  // Flatten the card again from the moved corners; crops drawn on the old flat card no longer line
+  // up, so that side's crops go back to the template
+  const finishCornerDrag = () => {
+    const quad = corners[currentImage];
+    const photo = photosRef.current[currentImage];
+    const wasDragging = draggingCorner !== null;
+    setDraggingCorner(null);
+    if (!wasDragging || !quad || !photo) return;
+
+    const ordered = orderCorners(quad);
+    setCorners(prev => ({ ...prev, [currentImage]: ordered }));
+    if (!isConvex(ordered)) return;
+
+    setRectified(prev => ({ ...prev, [currentImage]: rectifyCard(photo, ordered).toDataURL('image/jpeg', 0.92) }));
+    setCropAreas(prev => {
+      const next = { ...prev };
+      for (const type of cropOrder) {
+        if (requiredImage[type] === currentImage) next[type] = null;
+      }
+      return next;
+    });
+  };
+
   const handleMouseDown = (e: React.MouseEvent<HTMLCanvasElement>) => {
     const coords = getEventCoordinates(e);
     if (!coords) return;
 
+    if (adjustingCorners) {
+      startCornerDrag(coords);
+      return;
+    }
+
     setIsDrawing(true);
-    setTempCrop({ x: coords.x, y: coords.y, width: 0, height: 0, rotation });
+    setTempCrop({ x: coords.x, y: coords.y, width: 0, height: 0 });
   };
 
   const handleTouchStart = (e: React.TouchEvent<HTMLCanvasElement>) => {
@@ -191,11 +398,22 @@ export default function ManualCrop({ frontImage, backImage, onCropsComplete, onC
     const coords = getEventCoordinates(e);
     if (!coords) return;
 
+    if (adjustingCorners) {
+      startCornerDrag(coords);
+      return;
+    }
+
     setIsDrawing(true);
-    setTempCrop({ x: coords.x, y: coords.y, width: 0, height: 0, rotation });
+    setTempCrop({ x: coords.x, y: coords.y, width: 0, height: 0 });
   };
 
   const handleMouseMove = (e: React.MouseEvent<HTMLCanvasElement>) => {
+    if (adjustingCorners) {
+      const coords = getEventCoordinates(e);
+      if (coords) moveCorner(coords);
+      return;
+    }
+
     if (!isDrawing || !tempCrop) return;
 
     const coords = getEventCoordinates(e);
@@ -214,6 +432,13 @@ export default function ManualCrop({ frontImage, backImage, onCropsComplete, onC
   };
 
   const handleTouchMove = (e: React.TouchEvent<HTMLCanvasElement>) => {
+    if (adjustingCorners) {
+      e.preventDefault(); // Prevent scrolling
+      const coords = getEventCoordinates(e);
+      if (coords) moveCorner(coords);
+      return;
+    }
+
     if (!isDrawing || !tempCrop) return;
     
     e.preventDefault(); // Prevent scrolling
@@ -233,18 +458,27 @@ export default function ManualCrop({ frontImage, backImage, onCropsComplete, onC
   };
 
   const handleMouseUp = () => {
+    if (adjustingCorners) {
+      finishCornerDrag();
+      return;
+    }
     processCrop();
   };
 
   const handleTouchEnd = (e: React.TouchEvent<HTMLCanvasElement>) => {
     e.preventDefault(); // Prevent click events from firing
+    if (adjustingCorners) {
+      finishCornerDrag();
+      return;
+    }
     processCrop();
   };
 
   const processCrop = () => {
     if (tempCrop && tempCrop.width > 10 && tempCrop.height > 10) {
-      // Immediately process this crop using the correct source image
-      const sourceImage = requiredImage[currentCropType] === 'front' ? frontImage : backImage;
+      // Immediately process this crop from the flattened card on the correct side
+      const side = requiredImage[currentCropType] as Side;
+      const sourceImage = rectified[side] ?? photos[side];
       const currentImg = new Image();
       currentImg.onload = () => {
         const croppedImage = extractCrop(currentImg, tempCrop);
@@ -292,33 +526,11 @@ export default function ManualCrop({ frontImage, backImage, onCropsComplete, onC
     canvas.width = actualWidth;
     canvas.height = actualHeight;
 
-    // Handle rotation if needed
-    if (area.rotation !== 0) {
-      // For rotated crops, we need a larger canvas to avoid clipping
-      const diagonal = Math.sqrt(actualWidth * actualWidth + actualHeight * actualHeight);
-      canvas.width = diagonal;
-      canvas.height = diagonal;
-      
-      ctx.save();
-      // Translate to center of canvas
-      ctx.translate(diagonal / 2, diagonal / 2);
-      // Apply rotation
-      ctx.rotate((area.rotation * Math.PI) / 180);
-      // Draw the cropped area centered
-      ctx.drawImage(
-        image,
-        actualX, actualY, actualWidth, actualHeight,
-        -actualWidth / 2, -actualHeight / 2, actualWidth, actualHeight
-      );
-      ctx.restore();
-    } else {
-      // No rotation - simple crop
-      ctx.drawImage(
-        image,
-        actualX, actualY, actualWidth, actualHeight,
-        0, 0, actualWidth, actualHeight
-      );
-    }
+    ctx.drawImage(
+      image,
+      actualX, actualY, actualWidth, actualHeight,
+      0, 0, actualWidth, actualHeight
+    );
 
     // Apply 8-color grayscale conversion for barcode images to improve contrast
     if (currentCropType === 'barcode') {
@@ -368,13 +580,14 @@ export default function ManualCrop({ frontImage, backImage, onCropsComplete, onC
     }
   };
 
+  // Corners are placed on the original photo; crops are drawn on the flattened card
   const loadImage = useCallback(() => {
     const img = new Image();
     img.onload = () => {
-      drawImageOnCanvas(img, rotation);
+      drawImageOnCanvas(img);
     };
-    img.src = currentImage === 'front' ? frontImage : backImage;
-  }, [currentImage, frontImage, backImage, rotation, drawImageOnCanvas]);
+    img.src = adjustingCorners ? photos[currentImage] : rectified[currentImage] ?? photos[currentImage];
+  }, [currentImage, frontImage, backImage, rectified, adjustingCorners, drawImageOnCanvas]);
 
   useEffect(() => {
     loadImage();
@@ -382,9 +595,9 @@ export default function ManualCrop({ frontImage, backImage, onCropsComplete, onC
 
   useEffect(() => {
     if (imageRef.current) {
-      drawImageOnCanvas(imageRef.current, rotation);
+      drawImageOnCanvas(imageRef.current);
     }
-  }, [drawImageOnCanvas, rotation, cropAreas, tempCrop, currentCropType, currentImage]);
+  }, [drawImageOnCanvas, cropAreas, tempCrop, currentCropType, currentImage]);
 
   const cropTypeLabels = {
     face: 'Face Photo',
@@ -412,7 +625,7 @@ export default function ManualCrop({ frontImage, backImage, onCropsComplete, onC
               setCurrentCropType(value as CropType);
               const required = requiredImage[value as CropType];
               if (currentImage !== required) {
-                setCurrentImage(required as 'front' | 'back');
+                setCurrentImage(required as Side);
               }
             }}>
               <SelectTrigger className="w-40">
@@ -430,7 +643,7 @@ export default function ManualCrop({ frontImage, backImage, onCropsComplete, onC
 
           <div className="flex items-center gap-2">
             <label className="text-sm font-medium">Image:</label>
-            <Select value={currentImage} onValueChange={(value) => setCurrentImage(value as 'front' | 'back')}>
+            <Select value={currentImage} onValueChange={(value) => setCurrentImage(value as Side)}>
               <SelectTrigger className="w-32">
                 <SelectValue />
               </SelectTrigger>
@@ -442,33 +655,44 @@ export default function ManualCrop({ frontImage, backImage, onCropsComplete, onC
           </div>
 
           <div className="flex items-center gap-2">
-            <label className="text-sm font-medium">Rotation:</label>
-            <input
-              type="range"
-              min="-45"
-              max="45"
-              value={rotation}
-              onChange={(e) => setRotation(Number(e.target.value))}
-              className="w-24"
-            />
-            <span className="text-sm w-12">{rotation}°</span>
-            <Button
-              variant="outline"
-              size="sm"
-              onClick={() => setRotation(0)}
-            >
-              <ArrowPathIcon className="h-4 w-4" />
-            </Button>
+            <label className="text-sm font-medium">Layout:</label>
+            <Select value={layoutJurisdiction} onValueChange={setLayoutJurisdiction}>
+              <SelectTrigger className="w-40">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={GENERIC_LAYOUT}>Generic</SelectItem>
+                {layoutJurisdictions.map((code) => (
+                  <SelectItem key={code} value={code}>
+                    {getJurisdiction(code)?.name ?? code}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
           </div>
+
+          <Button
+            variant={adjustingCorners ? 'default' : 'outline'}
+            size="sm"
+            onClick={() => setAdjustingCorners(!adjustingCorners)}
+          >
+            <ArrowsPointingOutIcon className="h-4 w-4 mr-2" />
+            {adjustingCorners ? 'Done Adjusting Corners' : 'Adjust Corners'}
+          </Button>
         </div>
 
         {/* Instructions */}
         <div className="text-sm text-gray-600 bg-gray-50 p-3 rounded">
           <p className="font-medium">Instructions:</p>
-          <p>• Currently cropping: <span className="font-medium text-blue-700">{cropTypeLabels[currentCropType]}</span></p>
-          <p>• Click and drag (or touch and drag) to select the area, then release to process</p>
+          {adjustingCorners ? (
+            <p>• Adjusting corners: <span className="font-medium text-blue-700">{currentImage === 'front' ? 'Front' : 'Back'}</span> — drag each handle onto a corner of the card</p>
+          ) : (
+            <p>• Currently cropping: <span className="font-medium text-blue-700">{cropTypeLabels[currentCropType]}</span></p>
+          )}
+          <p>• Crops start where the card layout template puts them; pick the issuing state's layout if listed</p>
+          <p>• Click and drag (or touch and drag) over any template box that is off, then release to process</p>
           <p>• Auto-advances to next crop type when completed</p>
-          <p>• Adjust rotation if needed to correct skew</p>
+          <p>• Each side is straightened from the card's four corners; use Adjust Corners if the outline is off</p>
         </div>
 
         {/* Canvas */}
@@ -532,7 +756,7 @@ export default function ManualCrop({ frontImage, backImage, onCropsComplete, onC
           
           <Button
             onClick={handleComplete}
-            disabled={!cropAreas.face || !cropAreas.signature}
+            disabled={!completedCrops.face || !completedCrops.signature}
             className="bg-blue-600 hover:bg-blue-700"
           >
             Complete Cropping
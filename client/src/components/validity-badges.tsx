@@ -0,0 +1,48 @@
+import { Badge } from '@/components/ui/badge';
+import { CheckBadgeIcon } from '@heroicons/react/24/outline';
+import type { ValidityResult, ValidityRule, ValiditySeverity } from '@shared/document-validity';
+
+const RULE_LABELS: Record<ValidityRule, string> = {
+  'expired': 'Expired',
+  'expired-in-grace': 'Expired (grace period)',
+  'under-18': 'Under 18',
+  'under-21': 'Under 21',
+  'born-in-future': 'Birth date in future',
+  'issued-in-future': 'Not yet issued',
+  'expires-before-issue': 'Expires before issue',
+  'issued-before-birth': 'Issued before birth',
+  'revised-after-issue': 'Card revision after issue',
+};
+
+const SEVERITY_STYLES: Record<ValiditySeverity, string> = {
+  info: 'bg-blue-100 text-blue-800',
+  warning: 'bg-yellow-100 text-yellow-800',
+  error: 'bg-red-100 text-red-800',
+};
+
+// Badges for the validity findings on a license; a single "Valid" badge when there are none
+export default function ValidityBadges({ result }: { result: ValidityResult }) {
+  if (result.findings.length === 0) {
+    return (
+      <Badge variant="secondary" className="bg-green-100 text-green-700 flex items-center w-fit">
+        <CheckBadgeIcon className="h-4 w-4 mr-1" />
+        Valid
+      </Badge>
+    );
+  }
+
+  return (
+    <div className="flex flex-wrap gap-2">
+      {result.findings.map((finding) => (
+        <Badge
+          key={finding.rule}
+          variant="secondary"
+          className={SEVERITY_STYLES[finding.severity]}
+          title={finding.message}
+        >
+          {RULE_LABELS[finding.rule]}
+        </Badge>
+      ))}
+    </div>
+  );
+}
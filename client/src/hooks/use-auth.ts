@@ -0,0 +1,19 @@
+import { useQuery } from '@tanstack/react-query';
+import { getQueryFn } from '@/lib/queryClient';
+import { hasRole, type OperatorRole } from '@shared/roles';
+import type { Operator } from '@shared/schema';
+
+// The signed-in operator, or null when nobody is signed in
+export function useAuth() {
+  const { data, isLoading } = useQuery<Operator | null>({
+    queryKey: ['/api/auth/me'],
+    queryFn: getQueryFn({ on401: 'returnNull' }),
+  });
+
+  const operator = data ?? null;
+  return {
+    operator,
+    isLoading,
+    can: (role: OperatorRole) => hasRole(operator?.role, role),
+  };
+}
@@ -0,0 +1,23 @@
+import { useQuery } from '@tanstack/react-query';
+import {
+  DEFAULT_VALIDITY_POLICY,
+  evaluateDocumentValidity,
+  type DocumentDates,
+  type ValidityPolicy,
+  type ValidityResult,
+} from '@shared/document-validity';
+
+// The server's validity policy, falling back to the default until it loads
+export function useValidityPolicy(): ValidityPolicy {
+  const { data: policy } = useQuery<ValidityPolicy>({
+    queryKey: ['/api/validity-policy'],
+    staleTime: Infinity,
+  });
+
+  return policy ?? DEFAULT_VALIDITY_POLICY;
+}
+
+// Evaluate a document against the server's validity policy
+export function useDocumentValidity(dates: DocumentDates): ValidityResult {
+  return evaluateDocumentValidity(dates, useValidityPolicy());
+}
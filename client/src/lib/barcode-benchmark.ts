@@ -0,0 +1,113 @@
+// Throughput benchmark for live barcode scanning: the main-thread decode strategies against the
+// worker pool, fed the same sample image as if it were camera frames, while counting how often the
+// page managed to paint.
+import { barcodeDecoder } from './barcode-decoder';
+import { barcodeWorkerPool } from './barcode-worker-pool';
+
+export type BenchmarkMode = 'main-thread' | 'worker-pool';
+
+export interface BenchmarkResult {
+  mode: BenchmarkMode;
+  elapsedMs: number;
+  // Frames handed to the decoder, and those dropped because every worker was busy
+  offered: number;
+  skipped: number;
+  decodes: number;
+  reads: number;
+  averageDecodeMs: number;
+  // Animation frames painted during the run, and the longest the page went without painting
+  uiFps: number;
+  longestFrameMs: number;
+}
+
+// Janky frames are counted from the gap between animation frame callbacks
+const watchAnimationFrames = () => {
+  let frames = 0;
+  let longest = 0;
+  let last = performance.now();
+  let running = true;
+
+  const tick = (now: number) => {
+    frames++;
+    longest = Math.max(longest, now - last);
+    last = now;
+    if (running) requestAnimationFrame(tick);
+  };
+  requestAnimationFrame(tick);
+
+  return () => {
+    running = false;
+    return { frames, longest };
+  };
+};
+
+const nextAnimationFrame = () => new Promise<number>((resolve) => requestAnimationFrame(resolve));
+
+export async function runBarcodeBenchmark(mode: BenchmarkMode, imageData: string, durationMs: number): Promise<BenchmarkResult> {
+  const image = new Image();
+  await new Promise((resolve, reject) => {
+    image.onload = resolve;
+    image.onerror = reject;
+    image.src = imageData;
+  });
+
+  let offered = 0;
+  let skipped = 0;
+  let decodes = 0;
+  let reads = 0;
+  let decodeMs = 0;
+
+  const stopWatching = watchAnimationFrames();
+  const started = performance.now();
+
+  if (mode === 'main-thread') {
+    // What the camera did before: one decode at a time, each blocking the page while it runs
+    while (performance.now() - started < durationMs) {
+      offered++;
+      const decodeStarted = performance.now();
+      const result = await barcodeDecoder.decodeBarcode(imageData);
+      decodeMs += performance.now() - decodeStarted;
+      decodes++;
+      if (result.success) reads++;
+    }
+  } else {
+    // Offer a frame on every animation frame, as fast as a camera could supply them
+    const inFlight: Promise<void>[] = [];
+    while (performance.now() - started < durationMs) {
+      await nextAnimationFrame();
+      offered++;
+      if (!barcodeWorkerPool.available) {
+        skipped++;
+        continue;
+      }
+      const decodeStarted = performance.now();
+      const decoding = barcodeDecoder.decodeFrame(await createImageBitmap(image));
+      if (!decoding) {
+        skipped++;
+        continue;
+      }
+      inFlight.push(decoding.then((result) => {
+        decodeMs += performance.now() - decodeStarted;
+        decodes++;
+        if (result.success) reads++;
+      }));
+    }
+    await Promise.all(inFlight);
+    barcodeWorkerPool.terminate();
+  }
+
+  const elapsedMs = performance.now() - started;
+  const { frames, longest } = stopWatching();
+
+  return {
+    mode,
+    elapsedMs,
+    offered,
+    skipped,
+    decodes,
+    reads,
+    averageDecodeMs: decodes > 0 ? decodeMs / decodes : 0,
+    uiFps: (frames * 1000) / elapsedMs,
+    longestFrameMs: longest,
+  };
+}
@@ -1,5 +1,9 @@
 // PDF417 barcode decoder utilities
 // Note: ZXing library has compatibility issues, implementing fallback with enhanced detection
+import { parseAAMVA, type AAMVAFields } from '@shared/aamva';
+import type { IssuerValidation } from '@shared/jurisdictions';
+import { apiRequest } from './queryClient';
+import { barcodeWorkerPool } from './barcode-worker-pool';
 
 export interface BarcodeData {
   firstName?: string;
@@ -8,6 +12,7 @@ export interface BarcodeData {
   dateOfBirth?: string;
   licenseNumber?: string;
   expirationDate?: string;
+  issueDate?: string;
   address?: string;
   city?: string;
   state?: string;
@@ -16,6 +21,13 @@ export interface BarcodeData {
   documentDiscriminator?: string;
   country?: string;
   nameSuffix?: string;
+  // Issuing jurisdiction resolved from the barcode IIN, falling back to the address state
+  licenseState?: string;
+  issuerWarnings?: string[];
+  // Dates used by the validity checks: DDB card design revision, DDH/DDJ under-18/21 until
+  cardRevisionDate?: string;
+  under18Until?: string;
+  under21Until?: string;
 }
 
 export interface BarcodeDecodeResult {
@@ -23,22 +35,42 @@ export interface BarcodeDecodeResult {
   data?: BarcodeData;
   confidence?: number;
   error?: string;
+  // Barcode text as read, also set when it was read but isn't a valid AAMVA record
+  rawData?: string;
 }
 
-export class BarcodeDecoder {
-  private readonly fieldMapping: Record<string, keyof BarcodeData> = {
-    'DAC': 'firstName',
-    'DCS': 'lastName',
-    'DAD': 'middleName',
-    'DBB': 'dateOfBirth',
-    'DAQ': 'licenseNumber',
-    'DBA': 'expirationDate',
-    'DAG': 'address',
-    'DAI': 'city',
-    'DAJ': 'state',
-    'DAK': 'zipCode'
+// Map the full AAMVA field set onto the fields used by the scanning flow
+export function toBarcodeData(fields: AAMVAFields, issuer?: IssuerValidation): BarcodeData {
+  const data: BarcodeData = {
+    firstName: fields.firstName,
+    lastName: fields.lastName,
+    middleName: fields.middleName,
+    dateOfBirth: fields.dateOfBirth,
+    licenseNumber: fields.licenseNumber,
+    expirationDate: fields.expirationDate,
+    issueDate: fields.issueDate,
+    address: fields.address,
+    city: fields.city,
+    state: fields.state,
+    zipCode: fields.zipCode,
+    gender: fields.sex,
+    documentDiscriminator: fields.documentDiscriminator,
+    country: fields.country,
+    nameSuffix: fields.nameSuffix,
+    licenseState: issuer?.jurisdiction ?? fields.state,
+    issuerWarnings: issuer?.issues.length ? issuer.issues : undefined,
+    cardRevisionDate: fields.cardRevisionDate,
+    under18Until: fields.under18Until,
+    under21Until: fields.under21Until,
   };
 
+  for (const key of Object.keys(data) as (keyof BarcodeData)[]) {
+    if (data[key] === undefined) delete data[key];
+  }
+  return data;
+}
+
+export class BarcodeDecoder {
   async decodeBarcode(imageData: string): Promise<BarcodeDecodeResult> {
     try {
       console.log('Starting comprehensive barcode decode process...');
@@ -88,6 +120,47 @@ export class BarcodeDecoder {
     }
   }
 
+  // Decode a live camera frame on the worker pool. Returns null, having skipped the frame, while
+  // every worker is still busy with earlier frames.
+  decodeFrame(frame: ImageBitmap | ImageData): Promise<BarcodeDecodeResult> | null {
+    const decoding = barcodeWorkerPool.tryDecode(frame);
+    if (!decoding) return null;
+
+    return decoding.then(({ rawData }) => {
+      if (!rawData) return { success: false, error: 'No PDF417 barcode found in frame' };
+
+      const data = this.parseAAMVAData(rawData);
+      if (Object.keys(data).length === 0) {
+        return { success: false, rawData, error: 'Barcode is not a valid AAMVA record' };
+      }
+      return { success: true, data, rawData, confidence: 0.95 };
+    });
+  }
+
+  // Decode on the server, for devices too slow for the in-browser strategies
+  async decodeBarcodeOnServer(imageData: string): Promise<BarcodeDecodeResult> {
+    try {
+      const response = await apiRequest('POST', '/api/barcode/decode', { imageData });
+      const result = await response.json();
+
+      if (result.success && result.data) {
+        return {
+          success: true,
+          data: toBarcodeData(result.data, result.issuer),
+          confidence: 0.95
+        };
+      }
+
+      return { success: false, error: result.error };
+    } catch (error) {
+      console.error('Server barcode decode failed:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Server barcode decode failed'
+      };
+    }
+  }
+
   private async tryAlternativeLibraries(imageData: string): Promise<BarcodeDecodeResult> {
     console.log('Trying alternative barcode libraries...');
     
@@ -285,173 +358,17 @@ export class BarcodeDecoder {
 
 
   private parseAAMVAData(rawData: string): BarcodeData {
-    const data: BarcodeData = {};
-    
-    console.log('Parsing AAMVA data from:', rawData.substring(0, 100) + '...');
-    
-    try {
-      // Skip header up to "DL" or "ID"
-      let start = -1;
-      if (rawData.includes("DL")) {
-        start = rawData.indexOf("DL");
-      } else if (rawData.includes("ID")) {
-        start = rawData.indexOf("ID");
-      } else {
-        console.warn('No DL/ID header found, trying to parse entire string');
-        start = 0;
-      }
-
-      const payload = rawData.substring(start);
-      console.log('Payload after header:', payload.substring(0, 100) + '...');
-
-      // Enhanced AAMVA field codes mapping
-      const aamvaFields: Record<string, keyof BarcodeData> = {
-        "DAQ": "licenseNumber",
-        "DCS": "lastName", 
-        "DCT": "lastName", // Alternative
-        "DAC": "firstName",
-        "DAD": "middleName",
-        "DBB": "dateOfBirth",
-        "DBC": "gender",
-        "DBA": "expirationDate", 
-        "DAG": "address",
-        "DAI": "city",
-        "DAJ": "state",
-        "DAK": "zipCode",
-        "DCF": "documentDiscriminator",
-        "DCG": "country",
-        "DDE": "nameSuffix"
-      };
-
-      // Parse each field
-      for (const [code, fieldName] of Object.entries(aamvaFields)) {
-        const index = payload.indexOf(code);
-        if (index !== -1) {
-          // Find the next field code or end of string
-          let nextIndex = payload.length;
-          for (const otherCode of Object.keys(aamvaFields)) {
-            if (otherCode !== code) {
-              const otherIndex = payload.indexOf(otherCode, index + 3);
-              if (otherIndex !== -1 && otherIndex < nextIndex) {
-                nextIndex = otherIndex;
-              }
-            }
-          }
-          
-          // Extract field value
-          const value = payload.substring(index + 3, nextIndex).trim();
-          if (value && value.length > 0) {
-            data[fieldName] = value;
-          }
-        }
-      }
-      
-      // Post-process the data
-      this.postProcessData(data);
-      
-      console.log('Parsed AAMVA data:', data);
-      
-    } catch (error) {
-      console.warn('AAMVA parsing error:', error);
-    }
-    
-    return data;
-  }
-
-  private parseFieldCodes(rawData: string, data: BarcodeData): void {
-    // Parse 3-letter field codes (DAC, DCS, etc.)
-    for (const [code, field] of Object.entries(this.fieldMapping)) {
-      const patterns = [
-        new RegExp(`${code}([^\\x1E\\x1F\\x1D\\x0A\\x0D]+)`, 'g'), // With separators
-        new RegExp(`${code}([A-Za-z\\s\\d\\.\\-]+?)(?=[A-Z]{3}|$)`, 'g'), // Until next field
-        new RegExp(`${code}(.{1,50}?)\\x1E`, 'g') // With record separator
-      ];
-      
-      for (const pattern of patterns) {
-        const match = pattern.exec(rawData);
-        if (match && match[1] && match[1].trim()) {
-          data[field] = match[1].trim();
-          break;
-        }
-      }
-    }
-  }
-
-  private parseAlternativeFormat(rawData: string, data: BarcodeData): void {
-    // Some states use different formats or delimiters
-    const lines = rawData.split(/[\x1E\x1F\x1D\n\r]+/);
-    
-    for (const line of lines) {
-      if (line.length < 4) continue;
-      
-      const code = line.substring(0, 3);
-      const value = line.substring(3);
-      
-      if (this.fieldMapping[code] && value.trim()) {
-        data[this.fieldMapping[code]] = value.trim();
-      }
+    const result = parseAAMVA(rawData);
+    if (!result.success || !result.record) {
+      console.warn('AAMVA parsing error:', result.error);
+      return {};
     }
-  }
 
-  private parseCommonPatterns(rawData: string, data: BarcodeData): void {
-    // Fallback: Look for common patterns in the data
-    const patterns = [
-      { regex: /\b([A-Z]{2,20})\s+([A-Z]{2,20})\b/, firstName: 2, lastName: 1 }, // Last, First
-      { regex: /\b(\d{8})\b/, field: 'dateOfBirth' }, // MMDDYYYY or YYYYMMDD
-      { regex: /\b([A-Z]\d{7,15})\b/, field: 'licenseNumber' }, // License number pattern
-      { regex: /\b([A-Z]{2})\s*\d{5}/, field: 'state' } // State code
-    ];
-    
-    for (const pattern of patterns) {
-      const match = rawData.match(pattern.regex);
-      if (match) {
-        if (pattern.firstName && pattern.lastName) {
-          if (!data.firstName) data.firstName = match[pattern.firstName];
-          if (!data.lastName) data.lastName = match[pattern.lastName];
-        } else if (pattern.field && !data[pattern.field as keyof BarcodeData]) {
-          data[pattern.field as keyof BarcodeData] = match[1];
-        }
-      }
-    }
-  }
-
-  private postProcessData(data: BarcodeData): void {
-    // Format dates
-    if (data.dateOfBirth) {
-      data.dateOfBirth = this.formatDate(data.dateOfBirth);
-    }
-    if (data.expirationDate) {
-      data.expirationDate = this.formatDate(data.expirationDate);
+    if (result.record.warnings.length > 0) {
+      console.warn('AAMVA parsing warnings:', result.record.warnings);
     }
-    
-    // Clean up names
-    if (data.firstName) {
-      data.firstName = data.firstName.replace(/[^\w\s-']/g, '').trim();
-    }
-    if (data.lastName) {
-      data.lastName = data.lastName.replace(/[^\w\s-']/g, '').trim();
-    }
-    
-    // Validate and clean license number
-    if (data.licenseNumber) {
-      data.licenseNumber = data.licenseNumber.replace(/[^\w]/g, '');
-    }
-  }
 
-  private formatDate(dateString: string): string {
-    // Handle various date formats from different states
-    if (dateString.length === 8) {
-      // MMDDYYYY or YYYYMMDD format
-      if (dateString.startsWith('19') || dateString.startsWith('20')) {
-        // YYYYMMDD
-        return `${dateString.slice(0, 4)}-${dateString.slice(4, 6)}-${dateString.slice(6, 8)}`;
-      } else {
-        // MMDDYYYY
-        return `${dateString.slice(4, 8)}-${dateString.slice(0, 2)}-${dateString.slice(2, 4)}`;
-      }
-    }
-    
-    return dateString; // Return as-is if format is unknown
+    return toBarcodeData(result.record.fields, result.record.issuer);
   }
 
   async preprocessImage(imageData: string): Promise<string> {
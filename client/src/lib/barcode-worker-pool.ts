@@ -0,0 +1,96 @@
+// A small pool of barcode decode workers. Frames are offered rather than queued: when every worker
+// is still busy the frame is dropped, so a slow decode never builds a backlog of stale frames.
+import type { BarcodeWorkerRequest, BarcodeWorkerResponse } from './barcode-worker';
+
+// Leave a core for the UI; decoding a frame is CPU-bound, so more workers than cores only adds latency
+const DEFAULT_POOL_SIZE = Math.max(1, Math.min(2, (navigator.hardwareConcurrency || 2) - 1));
+
+export type FrameDecodeResult = Omit<BarcodeWorkerResponse, 'id' | 'error'>;
+
+interface PendingDecode {
+  id: number;
+  resolve: (result: FrameDecodeResult) => void;
+  reject: (error: Error) => void;
+}
+
+interface PooledWorker {
+  worker: Worker;
+  pending: PendingDecode | null;
+}
+
+export class BarcodeWorkerPool {
+  private workers: PooledWorker[] = [];
+  private nextId = 1;
+
+  constructor(private readonly size = DEFAULT_POOL_SIZE) {}
+
+  // Whether a frame offered now would be decoded rather than skipped
+  get available(): boolean {
+    return this.workers.length < this.size || this.workers.some((slot) => !slot.pending);
+  }
+
+  // Decode a frame on an idle worker, or return null without decoding when all are busy. Either way
+  // the frame is consumed: it is transferred to the worker or closed, and can't be drawn again.
+  tryDecode(frame: ImageBitmap | ImageData): Promise<FrameDecodeResult> | null {
+    const slot = this.workers.find((candidate) => !candidate.pending) ?? this.spawn();
+    if (!slot) {
+      if (frame instanceof ImageBitmap) frame.close();
+      return null;
+    }
+
+    return new Promise((resolve, reject) => {
+      const id = this.nextId++;
+      slot.pending = { id, resolve, reject };
+      const request: BarcodeWorkerRequest = { id, frame };
+      try {
+        slot.worker.postMessage(request, [frame instanceof ImageBitmap ? frame : frame.data.buffer]);
+      } catch (error) {
+        // A frame that can't be transferred (e.g. a DataCloneError) must not leave the worker marked busy
+        slot.pending = null;
+        if (frame instanceof ImageBitmap) frame.close();
+        reject(error instanceof Error ? error : new Error('Could not send frame to barcode worker'));
+      }
+    });
+  }
+
+  // Stop all workers; they are started again on the next frame
+  terminate() {
+    for (const slot of this.workers) {
+      slot.worker.terminate();
+      slot.pending?.reject(new Error('Barcode decoding stopped'));
+    }
+    this.workers = [];
+  }
+
+  private spawn(): PooledWorker | null {
+    if (this.workers.length >= this.size) return null;
+
+    const slot: PooledWorker = {
+      worker: new Worker(new URL('./barcode-worker.ts', import.meta.url), { type: 'module' }),
+      pending: null,
+    };
+
+    slot.worker.onmessage = (event: MessageEvent<BarcodeWorkerResponse>) => {
+      const { id, error, ...result } = event.data;
+      const pending = slot.pending;
+      if (!pending || pending.id !== id) return;
+
+      slot.pending = null;
+      if (error) pending.reject(new Error(error));
+      else pending.resolve(result);
+    };
+
+    // A worker that fails to load or crashes is replaced on the next frame
+    slot.worker.onerror = (event) => {
+      event.preventDefault();
+      slot.worker.terminate();
+      this.workers = this.workers.filter((candidate) => candidate !== slot);
+      slot.pending?.reject(new Error(event.message || 'Barcode worker crashed'));
+    };
+
+    this.workers.push(slot);
+    return slot;
+  }
+}
+
+export const barcodeWorkerPool = new BarcodeWorkerPool();
@@ -0,0 +1,49 @@
+// Decode worker: camera frames arrive as transferred ImageBitmaps or ImageData, are reduced to
+// grayscale and run through the same PDF417 strategies as the server decoder, off the main thread
+import { toGrayscale } from '@shared/image-preprocessing';
+import { decodePdf417 } from '@shared/pdf417';
+
+export interface BarcodeWorkerRequest {
+  id: number;
+  frame: ImageBitmap | ImageData;
+}
+
+export interface BarcodeWorkerResponse {
+  id: number;
+  // Raw barcode text; absent when no strategy could read the frame
+  rawData?: string;
+  strategy?: string;
+  error?: string;
+  elapsedMs: number;
+}
+
+const framePixels = (frame: ImageBitmap | ImageData): ImageData => {
+  if (frame instanceof ImageData) return frame;
+
+  const canvas = new OffscreenCanvas(frame.width, frame.height);
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('OffscreenCanvas not available in worker');
+  ctx.drawImage(frame, 0, 0);
+  frame.close();
+  return ctx.getImageData(0, 0, canvas.width, canvas.height);
+};
+
+self.onmessage = (event: MessageEvent<BarcodeWorkerRequest>) => {
+  const { id, frame } = event.data;
+  const started = performance.now();
+  let response: BarcodeWorkerResponse;
+
+  try {
+    const pixels = framePixels(frame);
+    const decoded = decodePdf417(toGrayscale(pixels.data, pixels.width, pixels.height));
+    response = { id, rawData: decoded?.rawData, strategy: decoded?.strategy, elapsedMs: performance.now() - started };
+  } catch (error) {
+    response = {
+      id,
+      error: error instanceof Error ? error.message : 'Barcode worker failed',
+      elapsedMs: performance.now() - started,
+    };
+  }
+
+  self.postMessage(response);
+};
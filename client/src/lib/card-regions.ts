@@ -0,0 +1,57 @@
+// Canvas helpers for cutting layout regions out of card images
+import type { LayoutBox } from '@shared/card-layouts';
+
+export function loadCanvas(imageData: string): Promise<HTMLCanvasElement> {
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => {
+      const canvas = document.createElement('canvas');
+      canvas.width = img.width;
+      canvas.height = img.height;
+      const ctx = canvas.getContext('2d');
+      if (!ctx) {
+        reject(new Error('Failed to create canvas context'));
+        return;
+      }
+      ctx.drawImage(img, 0, 0);
+      resolve(canvas);
+    };
+    img.onerror = () => reject(new Error('Failed to load image'));
+    img.src = imageData;
+  });
+}
+
+// Crop a region given as fractions of the image's width and height
+export function extractRegion(source: HTMLCanvasElement | HTMLImageElement, box: LayoutBox): string | null {
+  try {
+    const w = source.width;
+    const h = source.height;
+
+    // Calculate pixel coordinates from percentages
+    const left = Math.floor(box.left * w);
+    const top = Math.floor(box.top * h);
+    const width = Math.floor(box.width * w);
+    const height = Math.floor(box.height * h);
+
+    // Create new canvas for the cropped region
+    const croppedCanvas = document.createElement('canvas');
+    const croppedCtx = croppedCanvas.getContext('2d');
+
+    if (!croppedCtx || width <= 0 || height <= 0) return null;
+
+    croppedCanvas.width = width;
+    croppedCanvas.height = height;
+
+    // Draw the cropped region
+    croppedCtx.drawImage(
+      source,
+      left, top, width, height,
+      0, 0, width, height
+    );
+
+    return croppedCanvas.toDataURL('image/jpeg', 0.9);
+  } catch (error) {
+    console.error('Error extracting region:', error);
+    return null;
+  }
+}
@@ -0,0 +1,17 @@
+// Display labels for customer fields, shared by the change history and merge views
+export const FIELD_LABELS: Record<string, string> = {
+  firstName: 'First Name',
+  lastName: 'Last Name',
+  middleName: 'Middle Name',
+  dateOfBirth: 'Date of Birth',
+  licenseNumber: 'License Number',
+  licenseState: 'License State',
+  licenseExpiration: 'Expiration Date',
+  licenseIssueDate: 'Issue Date',
+  address: 'Street Address',
+  city: 'City',
+  state: 'State',
+  zipCode: 'ZIP Code',
+  profilePhotoPath: 'Profile Photo',
+  signaturePath: 'Signature',
+};
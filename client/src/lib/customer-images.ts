@@ -0,0 +1,20 @@
+import { apiRequest } from './queryClient';
+import type { Customer } from '@shared/schema';
+
+// Data URLs of the crops produced by a scan
+export interface LicenseCrops {
+  front?: string;
+  back?: string;
+  face?: string;
+  signature?: string;
+  barcode?: string;
+}
+
+// Store the crops and link them to the customer; returns the customer with its new photo paths
+export async function uploadLicenseCrops(customerId: number, crops: LicenseCrops): Promise<Customer | undefined> {
+  if (!Object.values(crops).some(Boolean)) return undefined;
+
+  const response = await apiRequest('POST', `/api/customers/${customerId}/images`, crops);
+  const result = await response.json();
+  return result.customer;
+}
@@ -1,8 +1,14 @@
-// Edge detection and auto-cropping for driver's licenses
+// Edge detection and auto-cropping for driver's licenses: finds the card's four corners, even
+// when photographed at an angle, and straightens it onto a flat card-proportioned image
+import { loadCanvas } from './card-regions';
+import { isConvex, orderCorners, quadArea, rectifyCard, type Point, type Quad } from './perspective';
 
 export interface EdgeDetectionResult {
   success: boolean;
+  // The card warped flat at the canonical ID-1 size
   croppedImage?: string;
+  // Card corners in the photo, clockwise from the top left
+  corners?: Quad;
   bounds?: {
     x: number;
     y: number;
@@ -13,340 +19,310 @@ export interface EdgeDetectionResult {
   error?: string;
 }
 
+// A straight edge as the normal form x·cos(theta) + y·sin(theta) = rho, theta in degrees
+interface Line {
+  theta: number;
+  rho: number;
+  votes: number;
+}
+
+// Edges are searched for on a copy scaled down to this size
+const DETECTION_SIZE = 480;
+
+// Lines must run at least this fraction of the image's shorter side
+const MIN_LINE_FRACTION = 0.15;
+const MAX_LINES = 16;
+const LINES_PER_SIDE = 6;
+
+// Gradient directions are noisy along soft edges, so each edge pixel votes for every line within
+// this many degrees of its own; distances from the origin are binned in steps of this many pixels
+const VOTE_SPREAD = 10;
+const RHO_STEP = 2;
+
+// The card must cover this much of the photo, with a long-to-short side ratio in range
+// (ID-1 is 1.59; perspective stretches or squashes it)
+const MIN_AREA_FRACTION = 0.1;
+const MIN_ASPECT = 1.2;
+const MAX_ASPECT = 2.2;
+
+// Share of the outline that must lie on detected edges
+const MIN_EDGE_SUPPORT = 0.5;
+// Length past each corner, as a fraction of the side, checked for edges carrying on beyond the card
+const OVERHANG_FRACTION = 0.1;
+
+const angleBetween = (a: number, b: number) => {
+  const diff = Math.abs(a - b) % 180;
+  return Math.min(diff, 180 - diff);
+};
+
+function intersect(a: Line, b: Line): Point | null {
+  const ta = (a.theta * Math.PI) / 180;
+  const tb = (b.theta * Math.PI) / 180;
+  const det = Math.cos(ta) * Math.sin(tb) - Math.sin(ta) * Math.cos(tb);
+  if (Math.abs(det) < 1e-6) return null;
+  return {
+    x: (a.rho * Math.sin(tb) - b.rho * Math.sin(ta)) / det,
+    y: (b.rho * Math.cos(ta) - a.rho * Math.cos(tb)) / det,
+  };
+}
+
+const pairs = <T>(items: T[]): [T, T][] =>
+  items.flatMap((item, i) => items.slice(i + 1).map((other) => [item, other] as [T, T]));
+
 export class EdgeDetectionService {
   async detectAndCropLicense(imageData: string): Promise<EdgeDetectionResult> {
+    let canvas: HTMLCanvasElement;
     try {
-      console.log('Starting edge detection process...');
-      return new Promise((resolve) => {
-        const img = new Image();
-        img.onload = () => {
-          console.log('Image loaded for edge detection, dimensions:', img.width, 'x', img.height);
-          const result = this.processImage(img);
-          console.log('Edge detection result:', result);
-          resolve(result);
-        };
-        img.onerror = (error) => {
-          console.error('Failed to load image for edge detection:', error);
-          resolve({
-            success: false,
-            error: 'Failed to load image for edge detection'
-          });
-        };
-        img.src = imageData;
-      });
+      canvas = await loadCanvas(imageData);
     } catch (error) {
-      console.error('Edge detection error:', error);
+      console.error('Failed to load image for edge detection:', error);
       return {
         success: false,
-        error: error instanceof Error ? error.message : 'Unknown error during edge detection'
+        error: 'Failed to load image for edge detection'
       };
     }
-  }
 
-  private processImage(img: HTMLImageElement): EdgeDetectionResult {
-    console.log('Processing image for edge detection...');
-    
-    const canvas = document.createElement('canvas');
-    const ctx = canvas.getContext('2d');
-    
-    if (!ctx) {
-      console.error('Failed to create canvas context');
+    try {
+      const detected = this.findCardCorners(canvas);
+      if (!detected) {
+        console.warn('Could not detect license edges clearly');
+        return {
+          success: false,
+          error: 'Could not detect license edges clearly'
+        };
+      }
+
+      const { corners, confidence } = detected;
+      const xs = corners.map((corner) => corner.x);
+      const ys = corners.map((corner) => corner.y);
+      const x = Math.max(0, Math.min(...xs));
+      const y = Math.max(0, Math.min(...ys));
+
       return {
-        success: false,
-        error: 'Failed to create canvas context'
+        success: true,
+        croppedImage: rectifyCard(canvas, corners).toDataURL('image/jpeg', 0.92),
+        corners,
+        bounds: {
+          x,
+          y,
+          width: Math.min(canvas.width, Math.max(...xs)) - x,
+          height: Math.min(canvas.height, Math.max(...ys)) - y,
+        },
+        confidence
       };
-    }
-
-    canvas.width = img.width;
-    canvas.height = img.height;
-    ctx.drawImage(img, 0, 0);
-
-    const imageData = ctx.getImageData(0, 0, canvas.width, canvas.height);
-    const data = imageData.data;
-    console.log('Image data extracted, size:', data.length);
-
-    // Convert to grayscale and apply edge detection
-    const grayscale = this.convertToGrayscale(data, canvas.width, canvas.height);
-    console.log('Converted to grayscale, pixels:', grayscale.length);
-    
-    const edges = this.detectEdges(grayscale, canvas.width, canvas.height);
-    console.log('Edge detection completed');
-    
-    // Find the license rectangle bounds
-    const bounds = this.findLicenseBounds(edges, canvas.width, canvas.height);
-    console.log('License bounds detection result:', bounds);
-    
-    if (!bounds) {
-      console.warn('Could not detect license edges clearly');
+    } catch (error) {
+      console.error('Edge detection error:', error);
       return {
         success: false,
-        error: 'Could not detect license edges clearly'
+        error: error instanceof Error ? error.message : 'Unknown error during edge detection'
       };
     }
+  }
 
-    // Create debug visualization
-    const debugCanvas = document.createElement('canvas');
-    const debugCtx = debugCanvas.getContext('2d');
-    debugCanvas.width = canvas.width;
-    debugCanvas.height = canvas.height;
-    
-    if (debugCtx) {
-      debugCtx.drawImage(img, 0, 0);
-      debugCtx.strokeStyle = 'red';
-      debugCtx.lineWidth = 3;
-      debugCtx.strokeRect(bounds.x, bounds.y, bounds.width, bounds.height);
-      console.log('Debug image with bounds overlay created');
-    }
+  // Find straight edges, then the card-shaped quadrilateral best supported by them
+  findCardCorners(canvas: HTMLCanvasElement): { corners: Quad; confidence: number } | null {
+    const scale = Math.min(1, DETECTION_SIZE / Math.max(canvas.width, canvas.height));
+    const width = Math.max(1, Math.round(canvas.width * scale));
+    const height = Math.max(1, Math.round(canvas.height * scale));
 
-    // Crop the image to the detected bounds
-    const croppedCanvas = document.createElement('canvas');
-    const croppedCtx = croppedCanvas.getContext('2d');
-    
-    if (!croppedCtx) {
-      return {
-        success: false,
-        error: 'Failed to create cropped canvas context'
-      };
-    }
+    const small = document.createElement('canvas');
+    small.width = width;
+    small.height = height;
+    const ctx = small.getContext('2d');
+    if (!ctx) return null;
+    ctx.drawImage(canvas, 0, 0, width, height);
+
+    const grayscale = this.convertToGrayscale(ctx.getImageData(0, 0, width, height).data);
+    const { edges, direction } = this.detectEdges(this.blur(grayscale, width, height), width, height);
+    const lines = this.findLines(edges, direction, width, height);
+    const best = this.bestQuad(lines, edges, width, height);
+    if (!best) return null;
 
-    croppedCanvas.width = bounds.width;
-    croppedCanvas.height = bounds.height;
-    
-    croppedCtx.drawImage(
-      img,
-      bounds.x, bounds.y, bounds.width, bounds.height,
-      0, 0, bounds.width, bounds.height
-    );
-
-    const croppedImage = croppedCanvas.toDataURL('image/jpeg', 0.9);
-    console.log('Cropped image created successfully');
-    
     return {
-      success: true,
-      croppedImage,
-      bounds,
-      confidence: this.calculateConfidence(bounds, canvas.width, canvas.height)
+      corners: best.quad.map((corner) => ({ x: corner.x / scale, y: corner.y / scale })) as Quad,
+      confidence: best.support,
     };
   }
 
-  private convertToGrayscale(data: Uint8ClampedArray, width: number, height: number): number[] {
-    const grayscale: number[] = [];
-    
-    for (let i = 0; i < data.length; i += 4) {
-      const r = data[i];
-      const g = data[i + 1];
-      const b = data[i + 2];
+  private convertToGrayscale(data: Uint8ClampedArray): Float32Array {
+    const grayscale = new Float32Array(data.length / 4);
+    for (let i = 0; i < grayscale.length; i++) {
       // Using luminance formula for grayscale conversion
-      const gray = Math.round(0.299 * r + 0.587 * g + 0.114 * b);
-      grayscale.push(gray);
+      grayscale[i] = 0.299 * data[i * 4] + 0.587 * data[i * 4 + 1] + 0.114 * data[i * 4 + 2];
     }
-    
     return grayscale;
   }
 
-  private detectEdges(grayscale: number[], width: number, height: number): number[] {
-    const edges: number[] = new Array(grayscale.length).fill(0);
-    
-    // Sobel edge detection
-    const sobelX = [-1, 0, 1, -2, 0, 2, -1, 0, 1];
-    const sobelY = [-1, -2, -1, 0, 0, 0, 1, 2, 1];
-    
+  // 3×3 binomial blur so card texture and sensor noise don't register as edges
+  private blur(grayscale: Float32Array, width: number, height: number): Float32Array {
+    const horizontal = new Float32Array(grayscale.length);
+    const blurred = new Float32Array(grayscale.length);
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        const i = y * width + x;
+        horizontal[i] = (grayscale[i - (x > 0 ? 1 : 0)] + 2 * grayscale[i] + grayscale[i + (x < width - 1 ? 1 : 0)]) / 4;
+      }
+    }
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        const i = y * width + x;
+        blurred[i] = (horizontal[i - (y > 0 ? width : 0)] + 2 * horizontal[i] + horizontal[i + (y < height - 1 ? width : 0)]) / 4;
+      }
+    }
+    return blurred;
+  }
+
+  // Sobel edges, kept where the gradient is among the strongest tenth of the image
+  private detectEdges(grayscale: Float32Array, width: number, height: number): { edges: Uint8Array; direction: Float32Array } {
+    const magnitude = new Float32Array(grayscale.length);
+    const direction = new Float32Array(grayscale.length);
+    const histogram = new Uint32Array(1024);
+
     for (let y = 1; y < height - 1; y++) {
       for (let x = 1; x < width - 1; x++) {
-        let gx = 0;
-        let gy = 0;
-        
-        for (let ky = -1; ky <= 1; ky++) {
-          for (let kx = -1; kx <= 1; kx++) {
-            const pixel = grayscale[(y + ky) * width + (x + kx)];
-            const kernelIndex = (ky + 1) * 3 + (kx + 1);
-            gx += pixel * sobelX[kernelIndex];
-            gy += pixel * sobelY[kernelIndex];
-          }
-        }
-        
-        const magnitude = Math.sqrt(gx * gx + gy * gy);
-        edges[y * width + x] = magnitude > 50 ? 255 : 0; // Threshold for edge detection
+        const i = y * width + x;
+        const gx = grayscale[i - width + 1] + 2 * grayscale[i + 1] + grayscale[i + width + 1]
+          - grayscale[i - width - 1] - 2 * grayscale[i - 1] - grayscale[i + width - 1];
+        const gy = grayscale[i + width - 1] + 2 * grayscale[i + width] + grayscale[i + width + 1]
+          - grayscale[i - width - 1] - 2 * grayscale[i - width] - grayscale[i - width + 1];
+        magnitude[i] = Math.sqrt(gx * gx + gy * gy);
+        direction[i] = (Math.atan2(gy, gx) * 180) / Math.PI;
+        histogram[Math.min(1023, Math.floor(magnitude[i]))]++;
       }
     }
-    
-    return edges;
-  }
 
-  private findLicenseBounds(edges: number[], width: number, height: number): {x: number, y: number, width: number, height: number} | null {
-    console.log('Finding license bounds...');
-    
-    // Find horizontal edges (top and bottom of license)
-    const horizontalEdges = this.findHorizontalEdges(edges, width, height);
-    const verticalEdges = this.findVerticalEdges(edges, width, height);
-    
-    console.log('Horizontal edges found:', horizontalEdges.length, horizontalEdges);
-    console.log('Vertical edges found:', verticalEdges.length, verticalEdges);
-    
-    if (horizontalEdges.length < 2 || verticalEdges.length < 2) {
-      console.log('Not enough edges found, trying fallback method...');
-      return this.fallbackBounds(edges, width, height);
+    let threshold = 1023;
+    for (let count = 0; threshold > 0 && count < grayscale.length * 0.1; threshold--) {
+      count += histogram[threshold];
     }
-    
-    // Get the most prominent edges
-    const topEdge = horizontalEdges[0];
-    const bottomEdge = horizontalEdges[horizontalEdges.length - 1];
-    const leftEdge = verticalEdges[0];
-    const rightEdge = verticalEdges[verticalEdges.length - 1];
-    
-    // Validate that we have a reasonable rectangle
-    const detectedWidth = rightEdge - leftEdge;
-    const detectedHeight = bottomEdge - topEdge;
-    
-    console.log('Detected bounds:', {leftEdge, topEdge, detectedWidth, detectedHeight});
-    
-    // Driver's license aspect ratio is approximately 1.6:1
-    const aspectRatio = detectedWidth / detectedHeight;
-    console.log('Aspect ratio:', aspectRatio);
-    
-    if (aspectRatio < 1.0 || aspectRatio > 3.0) {
-      console.log('Aspect ratio invalid, trying fallback...');
-      return this.fallbackBounds(edges, width, height);
+    threshold = Math.max(threshold, 30);
+
+    const edges = new Uint8Array(grayscale.length);
+    for (let i = 0; i < magnitude.length; i++) {
+      if (magnitude[i] > threshold) edges[i] = 1;
     }
-    
-    // Add small padding to ensure we don't cut off edges
-    const padding = Math.min(width, height) * 0.02;
-    
-    const bounds = {
-      x: Math.max(0, leftEdge - padding),
-      y: Math.max(0, topEdge - padding),
-      width: Math.min(width - (leftEdge - padding), detectedWidth + 2 * padding),
-      height: Math.min(height - (topEdge - padding), detectedHeight + 2 * padding)
-    };
-    
-    console.log('Final bounds:', bounds);
-    return bounds;
+    return { edges, direction };
   }
 
-  private fallbackBounds(edges: number[], width: number, height: number): {x: number, y: number, width: number, height: number} | null {
-    console.log('Using fallback bounds detection...');
-    
-    // Simple fallback: look for any significant contrast areas
-    const threshold = 30;
-    let minX = width, maxX = 0, minY = height, maxY = 0;
-    let edgeCount = 0;
-    
+  // Hough transform; each edge pixel votes only for lines near its own gradient direction
+  private findLines(edges: Uint8Array, direction: Float32Array, width: number, height: number): Line[] {
+    const maxRho = Math.ceil(Math.hypot(width, height) / RHO_STEP);
+    const rhoBins = maxRho * 2 + 1;
+    const accumulator = new Uint32Array(180 * rhoBins);
+    const cos = Array.from({ length: 180 }, (_, theta) => Math.cos((theta * Math.PI) / 180));
+    const sin = Array.from({ length: 180 }, (_, theta) => Math.sin((theta * Math.PI) / 180));
+
     for (let y = 0; y < height; y++) {
       for (let x = 0; x < width; x++) {
-        if (edges[y * width + x] > threshold) {
-          minX = Math.min(minX, x);
-          maxX = Math.max(maxX, x);
-          minY = Math.min(minY, y);
-          maxY = Math.max(maxY, y);
-          edgeCount++;
+        const i = y * width + x;
+        if (!edges[i]) continue;
+        const normal = Math.round(direction[i]);
+        for (let offset = -VOTE_SPREAD; offset <= VOTE_SPREAD; offset++) {
+          const theta = (((normal + offset) % 180) + 180) % 180;
+          const rho = Math.round((x * cos[theta] + y * sin[theta]) / RHO_STEP);
+          accumulator[theta * rhoBins + rho + maxRho]++;
         }
       }
     }
-    
-    console.log('Fallback edge count:', edgeCount);
-    console.log('Fallback bounds:', {minX, minY, width: maxX - minX, height: maxY - minY});
-    
-    if (edgeCount < 100) { // Not enough edges
-      console.log('Not enough edges for fallback, returning center crop...');
-      // Return a center crop as last resort
-      const cropWidth = Math.min(width * 0.8, height * 1.6);
-      const cropHeight = cropWidth / 1.6;
-      return {
-        x: (width - cropWidth) / 2,
-        y: (height - cropHeight) / 2,
-        width: cropWidth,
-        height: cropHeight
-      };
-    }
-    
-    const detectedWidth = maxX - minX;
-    const detectedHeight = maxY - minY;
-    
-    // Add padding
-    const padding = Math.min(width, height) * 0.05;
-    
-    return {
-      x: Math.max(0, minX - padding),
-      y: Math.max(0, minY - padding),
-      width: Math.min(width, detectedWidth + 2 * padding),
-      height: Math.min(height, detectedHeight + 2 * padding)
-    };
-  }
 
-  private findHorizontalEdges(edges: number[], width: number, height: number): number[] {
-    const horizontalEdges: number[] = [];
-    const threshold = width * 0.1; // Lowered threshold to 10%
-    
-    for (let y = 0; y < height; y++) {
-      let edgeCount = 0;
-      for (let x = 0; x < width; x++) {
-        if (edges[y * width + x] > 0) {
-          edgeCount++;
-        }
-      }
-      
-      if (edgeCount > threshold) {
-        horizontalEdges.push(y);
+    const minVotes = MIN_LINE_FRACTION * Math.min(width, height);
+    const candidates: Line[] = [];
+    for (let theta = 0; theta < 180; theta++) {
+      for (let bin = 0; bin < rhoBins; bin++) {
+        const votes = accumulator[theta * rhoBins + bin];
+        if (votes >= minVotes) candidates.push({ theta, rho: (bin - maxRho) * RHO_STEP, votes });
       }
     }
-    
-    return this.filterConsecutiveEdges(horizontalEdges);
+    candidates.sort((a, b) => b.votes - a.votes);
+
+    // Keep the strongest of each cluster of near-identical lines; theta wraps at 180 with rho negated
+    const lines: Line[] = [];
+    for (const line of candidates) {
+      const duplicate = lines.some((kept) => {
+        const wrapped = Math.abs(kept.theta - line.theta) > 90;
+        return angleBetween(kept.theta, line.theta) < 5 && Math.abs(kept.rho - (wrapped ? -line.rho : line.rho)) < 10;
+      });
+      if (!duplicate) lines.push(line);
+      if (lines.length === MAX_LINES) break;
+    }
+    return lines;
   }
 
-  private findVerticalEdges(edges: number[], width: number, height: number): number[] {
-    const verticalEdges: number[] = [];
-    const threshold = height * 0.1; // Lowered threshold to 10%
-    
-    for (let x = 0; x < width; x++) {
-      let edgeCount = 0;
-      for (let y = 0; y < height; y++) {
-        if (edges[y * width + x] > 0) {
-          edgeCount++;
+  // Fraction of points along a segment that sit on or next to an edge pixel
+  private segmentSupport(from: Point, to: Point, edges: Uint8Array, width: number, height: number): number {
+    const steps = Math.max(1, Math.round(Math.hypot(to.x - from.x, to.y - from.y) / 2));
+    let onEdge = 0;
+    for (let step = 0; step < steps; step++) {
+      const x = Math.round(from.x + ((to.x - from.x) * step) / steps);
+      const y = Math.round(from.y + ((to.y - from.y) * step) / steps);
+      search: for (let dy = -1; dy <= 1; dy++) {
+        for (let dx = -1; dx <= 1; dx++) {
+          const nx = x + dx;
+          const ny = y + dy;
+          if (nx >= 0 && ny >= 0 && nx < width && ny < height && edges[ny * width + nx]) {
+            onEdge++;
+            break search;
+          }
         }
       }
-      
-      if (edgeCount > threshold) {
-        verticalEdges.push(x);
-      }
     }
-    
-    return this.filterConsecutiveEdges(verticalEdges);
+    return onEdge / steps;
   }
 
-  private filterConsecutiveEdges(edges: number[]): number[] {
-    if (edges.length === 0) return [];
-    
-    const filtered: number[] = [];
-    let currentGroup: number[] = [edges[0]];
-    
-    for (let i = 1; i < edges.length; i++) {
-      if (edges[i] - edges[i - 1] <= 5) { // Group consecutive edges within 5 pixels
-        currentGroup.push(edges[i]);
-      } else {
-        // Take the middle of the current group
-        filtered.push(Math.round(currentGroup.reduce((a, b) => a + b) / currentGroup.length));
-        currentGroup = [edges[i]];
+  // How well the edges confirm an outline: the share of each side on an edge, less half the share of
+  // the stretches just past each corner, since a card's edges stop at its corners and a table's don't
+  private outlineScore(quad: Quad, edges: Uint8Array, width: number, height: number): { support: number; overhang: number } {
+    let support = 0;
+    let overhang = 0;
+    quad.forEach((from, i) => {
+      const to = quad[(i + 1) % 4];
+      const dx = (to.x - from.x) * OVERHANG_FRACTION;
+      const dy = (to.y - from.y) * OVERHANG_FRACTION;
+      support += this.segmentSupport(from, to, edges, width, height) / 4;
+      overhang += this.segmentSupport({ x: from.x - dx * 0.2, y: from.y - dy * 0.2 }, { x: from.x - dx, y: from.y - dy }, edges, width, height) / 8;
+      overhang += this.segmentSupport({ x: to.x + dx * 0.2, y: to.y + dy * 0.2 }, { x: to.x + dx, y: to.y + dy }, edges, width, height) / 8;
+    });
+    return { support, overhang };
+  }
+
+  // Pair lines along the strongest direction with lines across it and keep the largest
+  // card-shaped outline that the edges confirm
+  private bestQuad(lines: Line[], edges: Uint8Array, width: number, height: number): { quad: Quad; support: number } | null {
+    if (lines.length < 4) return null;
+
+    const along = lines.filter((line) => angleBetween(line.theta, lines[0].theta) < 25).slice(0, LINES_PER_SIDE);
+    const across = lines.filter((line) => angleBetween(line.theta, lines[0].theta + 90) < 25).slice(0, LINES_PER_SIDE);
+    const margin = Math.min(width, height) * 0.05;
+    const imageArea = width * height;
+
+    let best: { quad: Quad; support: number; score: number } | null = null;
+    for (const [a1, a2] of pairs(along)) {
+      for (const [b1, b2] of pairs(across)) {
+        const points = [intersect(a1, b1), intersect(a1, b2), intersect(a2, b1), intersect(a2, b2)];
+        if (points.some((point) => !point || point.x < -margin || point.y < -margin || point.x > width + margin || point.y > height + margin)) {
+          continue;
+        }
+
+        const quad = orderCorners(points as Point[]);
+        const area = quadArea(quad);
+        if (!isConvex(quad) || area < imageArea * MIN_AREA_FRACTION) continue;
+
+        const sides = quad.map((corner, i) => Math.hypot(quad[(i + 1) % 4].x - corner.x, quad[(i + 1) % 4].y - corner.y));
+        const aspect = (sides[0] + sides[2]) / (sides[1] + sides[3]);
+        const longToShort = Math.max(aspect, 1 / aspect);
+        if (longToShort < MIN_ASPECT || longToShort > MAX_ASPECT) continue;
+
+        const { support, overhang } = this.outlineScore(quad, edges, width, height);
+        if (support < MIN_EDGE_SUPPORT) continue;
+
+        // The card's own outline encloses the printed boxes on it, so larger outlines win ties
+        const score = (support - overhang / 2) * Math.sqrt(area / imageArea);
+        if (!best || score > best.score) best = { quad, support, score };
       }
     }
-    
-    // Don't forget the last group
-    filtered.push(Math.round(currentGroup.reduce((a, b) => a + b) / currentGroup.length));
-    
-    return filtered;
-  }
 
-  private calculateConfidence(bounds: {x: number, y: number, width: number, height: number}, imageWidth: number, imageHeight: number): number {
-    const aspectRatio = bounds.width / bounds.height;
-    const areaRatio = (bounds.width * bounds.height) / (imageWidth * imageHeight);
-    
-    // Ideal driver's license aspect ratio is ~1.6
-    const aspectConfidence = Math.max(0, 1 - Math.abs(aspectRatio - 1.6) / 0.6);
-    
-    // License should take up a reasonable portion of the image
-    const areaConfidence = areaRatio > 0.1 && areaRatio < 0.8 ? 1 : Math.max(0, 1 - Math.abs(areaRatio - 0.4) / 0.4);
-    
-    return (aspectConfidence + areaConfidence) / 2;
+    return best && { quad: best.quad, support: best.support };
   }
 }
 
-export const edgeDetectionService = new EdgeDetectionService();
\ No newline at end of file
+export const edgeDetectionService = new EdgeDetectionService();
@@ -1,172 +1,192 @@
-// Face detection utilities using face-api.js
-// Note: In a real implementation, you would load face-api.js models
+// Face detection for license photos: a small in-browser detector finds the portrait and the
+// ghost image, and eye landmarks align them into square headshots. Model weights ship with
+// the app bundle, so nothing is fetched from a CDN.
+import * as faceapi from '@vladmandic/face-api';
+import detectorManifestUrl from '@vladmandic/face-api/model/tiny_face_detector_model-weights_manifest.json?url';
+import detectorWeightsUrl from '@vladmandic/face-api/model/tiny_face_detector_model.bin?url';
+import landmarksManifestUrl from '@vladmandic/face-api/model/face_landmark_68_tiny_model-weights_manifest.json?url';
+import landmarksWeightsUrl from '@vladmandic/face-api/model/face_landmark_68_tiny_model.bin?url';
+import { cardOrientation, findCardLayout, type CardLayoutQuery } from '@shared/card-layouts';
+import { extractRegion, loadCanvas } from './card-regions';
 
 export interface FaceDetectionResult {
   success: boolean;
   croppedImage?: string | null;
+  // Smaller, faded second portrait printed on most cards, aligned like the main one
+  ghostImage?: string | null;
   confidence?: number;
+  // 'fixed-region' means the region was cut from the card's layout template, without detection
+  method?: 'detected' | 'fixed-region';
   error?: string;
 }
 
+type Point = { x: number; y: number };
+type FaceWithLandmarks = faceapi.WithFaceLandmarks<{ detection: faceapi.FaceDetection }>;
+
+// Aligned headshots are this many pixels square, with the eyes level on a fixed line
+const HEADSHOT_SIZE = 256;
+const EYE_LINE = 0.4;
+const EYE_DISTANCE = 0.32;
+
+const DETECTOR_OPTIONS = new faceapi.TinyFaceDetectorOptions({ inputSize: 416, scoreThreshold: 0.3 });
+
+// A second face counts as the ghost image only when clearly smaller than the portrait
+const GHOST_MAX_AREA_RATIO = 0.7;
+
+// Which card design to use for fixed regions; the orientation is taken from the image
+export type LayoutHint = Omit<CardLayoutQuery, 'orientation'>;
+
+const layoutFor = (canvas: HTMLCanvasElement, hint: LayoutHint = {}) =>
+  findCardLayout({ ...hint, orientation: cardOrientation(canvas.width, canvas.height) });
+
+// Cards photographed sideways are retried turned a quarter in each direction
+const ORIENTATIONS = [0, 90, -90];
+
+async function loadNet(net: faceapi.NeuralNetwork<any>, manifestUrl: string, weightsUrl: string): Promise<void> {
+  const [manifest, weights] = await Promise.all([
+    fetch(manifestUrl).then((response) => response.json()),
+    fetch(weightsUrl).then((response) => response.arrayBuffer()),
+  ]);
+  net.loadFromWeightMap(faceapi.tf.io.decodeWeights(weights, manifest[0].weights));
+}
+
+const centerOf = (points: Point[]): Point => ({
+  x: points.reduce((sum, point) => sum + point.x, 0) / points.length,
+  y: points.reduce((sum, point) => sum + point.y, 0) / points.length,
+});
+
+function rotateCanvas(source: HTMLCanvasElement, degrees: number): HTMLCanvasElement {
+  if (degrees === 0) return source;
+
+  const canvas = document.createElement('canvas');
+  canvas.width = source.height;
+  canvas.height = source.width;
+  const ctx = canvas.getContext('2d')!;
+  ctx.translate(canvas.width / 2, canvas.height / 2);
+  ctx.rotate((degrees * Math.PI) / 180);
+  ctx.drawImage(source, -source.width / 2, -source.height / 2);
+  return canvas;
+}
+
+// Rotate and scale so the eyes sit level at the same place in every headshot
+function alignFace(source: HTMLCanvasElement, face: FaceWithLandmarks): string {
+  const leftEye = centerOf(face.landmarks.getLeftEye());
+  const rightEye = centerOf(face.landmarks.getRightEye());
+  const angle = Math.atan2(rightEye.y - leftEye.y, rightEye.x - leftEye.x);
+  const eyeDistance = Math.hypot(rightEye.x - leftEye.x, rightEye.y - leftEye.y);
+  const scale = (HEADSHOT_SIZE * EYE_DISTANCE) / eyeDistance;
+
+  const canvas = document.createElement('canvas');
+  canvas.width = HEADSHOT_SIZE;
+  canvas.height = HEADSHOT_SIZE;
+  const ctx = canvas.getContext('2d')!;
+  ctx.fillStyle = '#ffffff';
+  ctx.fillRect(0, 0, HEADSHOT_SIZE, HEADSHOT_SIZE);
+  ctx.translate(HEADSHOT_SIZE / 2, HEADSHOT_SIZE * EYE_LINE);
+  ctx.scale(scale, scale);
+  ctx.rotate(-angle);
+  ctx.translate(-(leftEye.x + rightEye.x) / 2, -(leftEye.y + rightEye.y) / 2);
+  ctx.drawImage(source, 0, 0);
+  return canvas.toDataURL('image/jpeg', 0.9);
+}
+
+const faceArea = (face: FaceWithLandmarks) => face.detection.box.width * face.detection.box.height;
+
 export class FaceDetectionService {
-  // Standard driver's license crop coordinates (as percentages)
-  private readonly photoBox = {
-    left: 0.047,
-    top: 0.22,
-    width: 0.259,
-    height: 0.532
-  };
-
-  private readonly signatureBox = {
-    left: 0.047,
-    top: 0.762,
-    width: 0.259,
-    height: 0.119
-  };
+  private modelsLoading: Promise<void> | null = null;
 
   async initializeModels(): Promise<void> {
-    // No models needed for coordinate-based extraction
-    console.log('Face detection service initialized with coordinate-based extraction');
+    if (!this.modelsLoading) {
+      this.modelsLoading = Promise.all([
+        loadNet(faceapi.nets.tinyFaceDetector, detectorManifestUrl, detectorWeightsUrl),
+        loadNet(faceapi.nets.faceLandmark68TinyNet, landmarksManifestUrl, landmarksWeightsUrl),
+      ]).then(() => undefined);
+      // Let a later scan retry if the weights could not be loaded
+      this.modelsLoading.catch(() => {
+        this.modelsLoading = null;
+      });
+    }
+    return this.modelsLoading;
+  }
+
+  // Find the largest face, trying each orientation in turn; faces come back largest first
+  private async detectFaces(canvas: HTMLCanvasElement): Promise<{ canvas: HTMLCanvasElement; faces: FaceWithLandmarks[] } | null> {
+    for (const degrees of ORIENTATIONS) {
+      const rotated = rotateCanvas(canvas, degrees);
+      const faces = await faceapi
+        .detectAllFaces(rotated, DETECTOR_OPTIONS)
+        .withFaceLandmarks(true);
+      if (faces.length > 0) {
+        return { canvas: rotated, faces: faces.sort((a, b) => faceArea(b) - faceArea(a)) };
+      }
+    }
+    return null;
   }
 
-  async detectAndCropFace(imageData: string): Promise<FaceDetectionResult> {
+  async detectAndCropFace(imageData: string, layoutHint?: LayoutHint): Promise<FaceDetectionResult> {
+    let canvas: HTMLCanvasElement;
     try {
-      await this.initializeModels();
-      
-      return new Promise((resolve) => {
-        const img = new Image();
-        img.onload = () => {
-          const canvas = document.createElement('canvas');
-          const ctx = canvas.getContext('2d');
-          
-          if (!ctx) {
-            resolve({
-              success: false,
-              error: 'Failed to create canvas context'
-            });
-            return;
-          }
-
-          canvas.width = img.width;
-          canvas.height = img.height;
-          ctx.drawImage(img, 0, 0);
-          
-          // Extract photo using precise coordinates from standard DL layout
-          const extractedPhoto = this.extractRegion(canvas, this.photoBox);
-          
-          if (!extractedPhoto) {
-            resolve({
-              success: false,
-              error: 'Failed to extract photo region'
-            });
-            return;
-          }
-          
-          resolve({
-            success: true,
-            croppedImage: extractedPhoto,
-            confidence: 0.95
-          });
-        };
-        
-        img.onerror = () => {
-          resolve({
-            success: false,
-            error: 'Failed to load image'
-          });
-        };
-        
-        img.src = imageData;
-      });
+      canvas = await loadCanvas(imageData);
     } catch (error) {
       return {
         success: false,
-        error: error instanceof Error ? error.message : 'Face detection failed'
+        error: error instanceof Error ? error.message : 'Failed to load image'
       };
     }
-  }
 
-  private extractRegion(canvas: HTMLCanvasElement, box: { left: number; top: number; width: number; height: number }): string | null {
     try {
-      const w = canvas.width;
-      const h = canvas.height;
-      
-      // Calculate pixel coordinates from percentages
-      const left = Math.floor(box.left * w);
-      const top = Math.floor(box.top * h);
-      const width = Math.floor(box.width * w);
-      const height = Math.floor(box.height * h);
-      
-      // Create new canvas for the cropped region
-      const croppedCanvas = document.createElement('canvas');
-      const croppedCtx = croppedCanvas.getContext('2d');
-      
-      if (!croppedCtx) return null;
-      
-      croppedCanvas.width = width;
-      croppedCanvas.height = height;
-      
-      // Draw the cropped region
-      croppedCtx.drawImage(
-        canvas,
-        left, top, width, height,
-        0, 0, width, height
-      );
-      
-      return croppedCanvas.toDataURL('image/jpeg', 0.9);
+      await this.initializeModels();
+      const detected = await this.detectFaces(canvas);
+
+      if (detected) {
+        const [portrait, ...others] = detected.faces;
+        const ghost = others.find((face) => faceArea(face) <= faceArea(portrait) * GHOST_MAX_AREA_RATIO);
+        return {
+          success: true,
+          croppedImage: alignFace(detected.canvas, portrait),
+          ghostImage: ghost ? alignFace(detected.canvas, ghost) : null,
+          confidence: portrait.detection.score,
+          method: 'detected'
+        };
+      }
     } catch (error) {
-      console.error('Error extracting region:', error);
-      return null;
+      console.warn('Face detection failed, using the layout template:', error);
     }
+
+    // Cut the portrait out where the card's layout template puts it
+    const extractedPhoto = extractRegion(canvas, layoutFor(canvas, layoutHint).regions.portrait);
+    if (!extractedPhoto) {
+      return {
+        success: false,
+        error: 'Failed to extract photo region'
+      };
+    }
+
+    return {
+      success: true,
+      croppedImage: extractedPhoto,
+      method: 'fixed-region'
+    };
   }
 
-  async extractSignature(imageData: string, licenseState: string): Promise<FaceDetectionResult> {
+  async extractSignature(imageData: string, licenseState?: string, issueDate?: string): Promise<FaceDetectionResult> {
     try {
-      return new Promise((resolve) => {
-        const img = new Image();
-        img.onload = () => {
-          const canvas = document.createElement('canvas');
-          const ctx = canvas.getContext('2d');
-          
-          if (!ctx) {
-            resolve({
-              success: false,
-              error: 'Failed to create canvas context'
-            });
-            return;
-          }
-
-          canvas.width = img.width;
-          canvas.height = img.height;
-          ctx.drawImage(img, 0, 0);
-          
-          // Extract signature using precise coordinates
-          const extractedSignature = this.extractRegion(canvas, this.signatureBox);
-          
-          if (!extractedSignature) {
-            resolve({
-              success: false,
-              error: 'Failed to extract signature region'
-            });
-            return;
-          }
-          
-          resolve({
-            success: true,
-            croppedImage: extractedSignature,
-            confidence: 0.95
-          });
-        };
-        
-        img.onerror = () => {
-          resolve({
-            success: false,
-            error: 'Failed to load image'
-          });
+      const canvas = await loadCanvas(imageData);
+      const { signature } = layoutFor(canvas, { jurisdiction: licenseState, issueDate }).regions;
+      const extractedSignature = signature && extractRegion(canvas, signature);
+
+      if (!extractedSignature) {
+        return {
+          success: false,
+          error: 'Failed to extract signature region'
         };
-        
-        img.src = imageData;
-      });
+      }
+
+      return {
+        success: true,
+        croppedImage: extractedSignature,
+        method: 'fixed-region'
+      };
     } catch (error) {
       return {
         success: false,
@@ -0,0 +1,114 @@
+// Measures how usable a card photo is before it goes to OCR and barcode decoding: sharpness,
+// glare, exposure and resolution, taken over the card itself rather than the whole frame
+import { qualityIssues, type ImageQuality } from '@shared/image-quality';
+import { loadCanvas } from './card-regions';
+import { edgeDetectionService } from './edge-detection';
+import { cardDpi, type Quad } from './perspective';
+
+// Pixel statistics are taken on a copy of the card scaled down to this size, so sharpness
+// scores compare across cameras
+const ANALYSIS_SIZE = 640;
+
+// Luminance levels counted as crushed and clipped; glare is clipped and colourless
+const DARK_LEVEL = 30;
+const BRIGHT_LEVEL = 245;
+const GLARE_LEVEL = 250;
+const GLARE_MAX_CHROMA = 25;
+
+const insideQuad = (quad: Quad, x: number, y: number) => {
+  let sign = 0;
+  for (let i = 0; i < 4; i++) {
+    const a = quad[i];
+    const b = quad[(i + 1) % 4];
+    const cross = (b.x - a.x) * (y - a.y) - (b.y - a.y) * (x - a.x);
+    if (cross === 0) continue;
+    if (sign === 0) sign = Math.sign(cross);
+    else if (Math.sign(cross) !== sign) return false;
+  }
+  return true;
+};
+
+// Score a photo given the card's corners in it; with no corners the whole image is taken as the card
+export function measureImageQuality(canvas: HTMLCanvasElement, corners: Quad | null): ImageQuality {
+  const outline: Quad = corners ?? [
+    { x: 0, y: 0 },
+    { x: canvas.width, y: 0 },
+    { x: canvas.width, y: canvas.height },
+    { x: 0, y: canvas.height },
+  ];
+
+  const left = Math.max(0, Math.floor(Math.min(...outline.map((corner) => corner.x))));
+  const top = Math.max(0, Math.floor(Math.min(...outline.map((corner) => corner.y))));
+  const right = Math.min(canvas.width, Math.ceil(Math.max(...outline.map((corner) => corner.x))));
+  const bottom = Math.min(canvas.height, Math.ceil(Math.max(...outline.map((corner) => corner.y))));
+  const scale = Math.min(1, ANALYSIS_SIZE / Math.max(right - left, bottom - top, 1));
+  const width = Math.max(1, Math.round((right - left) * scale));
+  const height = Math.max(1, Math.round((bottom - top) * scale));
+
+  const region = document.createElement('canvas');
+  region.width = width;
+  region.height = height;
+  const ctx = region.getContext('2d')!;
+  ctx.drawImage(canvas, left, top, right - left, bottom - top, 0, 0, width, height);
+  const { data } = ctx.getImageData(0, 0, width, height);
+  const card = outline.map((corner) => ({ x: (corner.x - left) * scale, y: (corner.y - top) * scale })) as Quad;
+
+  const luminance = new Float32Array(width * height);
+  const mask = new Uint8Array(width * height);
+  let pixels = 0;
+  let total = 0;
+  let dark = 0;
+  let bright = 0;
+  let glare = 0;
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = y * width + x;
+      const r = data[i * 4];
+      const g = data[i * 4 + 1];
+      const b = data[i * 4 + 2];
+      luminance[i] = 0.299 * r + 0.587 * g + 0.114 * b;
+      if (!insideQuad(card, x + 0.5, y + 0.5)) continue;
+
+      mask[i] = 1;
+      pixels++;
+      total += luminance[i];
+      if (luminance[i] < DARK_LEVEL) dark++;
+      if (luminance[i] > BRIGHT_LEVEL) bright++;
+      if (luminance[i] >= GLARE_LEVEL && Math.max(r, g, b) - Math.min(r, g, b) <= GLARE_MAX_CHROMA) glare++;
+    }
+  }
+
+  // Variance of the 4-neighbour Laplacian over the card's interior
+  let laplacianSum = 0;
+  let laplacianSquares = 0;
+  let laplacianCount = 0;
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const i = y * width + x;
+      if (!mask[i] || !mask[i - 1] || !mask[i + 1] || !mask[i - width] || !mask[i + width]) continue;
+      const laplacian = luminance[i - 1] + luminance[i + 1] + luminance[i - width] + luminance[i + width] - 4 * luminance[i];
+      laplacianSum += laplacian;
+      laplacianSquares += laplacian * laplacian;
+      laplacianCount++;
+    }
+  }
+  const laplacianMean = laplacianCount > 0 ? laplacianSum / laplacianCount : 0;
+
+  const round = (value: number, places = 3) => Math.round(value * 10 ** places) / 10 ** places;
+  const scores = {
+    sharpness: round(laplacianCount > 0 ? laplacianSquares / laplacianCount - laplacianMean * laplacianMean : 0, 1),
+    glare: round(pixels > 0 ? glare / pixels : 0),
+    brightness: round(pixels > 0 ? total / pixels : 0, 1),
+    underexposed: round(pixels > 0 ? dark / pixels : 0),
+    overexposed: round(pixels > 0 ? bright / pixels : 0),
+    dpi: Math.round(cardDpi(outline)),
+    cardDetected: corners !== null,
+  };
+  return { ...scores, issues: qualityIssues(scores) };
+}
+
+// Find the card in a photo and score it
+export async function measurePhotoQuality(imageData: string): Promise<ImageQuality> {
+  const canvas = await loadCanvas(imageData);
+  return measureImageQuality(canvas, edgeDetectionService.findCardCorners(canvas)?.corners ?? null);
+}
@@ -7,6 +7,7 @@ export interface OCRData {
   dateOfBirth?: string;
   licenseNumber?: string;
   expirationDate?: string;
+  issueDate?: string;
   address?: string;
   city?: string;
   state?: string;
@@ -18,6 +19,7 @@ export interface OCRData {
   restrictions?: string;
   endorsements?: string;
   class?: string;
+  documentDiscriminator?: string;
 }
 
 export interface OCRResult {
@@ -0,0 +1,162 @@
+// Perspective correction: a card photographed at an angle is mapped, from its four corners, onto
+// a flat canvas with the ID-1 card proportions at a fixed resolution
+import { ID1_HEIGHT_MM, ID1_WIDTH_MM, type CardOrientation } from '@shared/card-layouts';
+
+export type Point = { x: number; y: number };
+// Card corners clockwise from the top left, as seen in the photo
+export type Quad = [Point, Point, Point, Point];
+
+export const RECTIFIED_DPI = 300;
+const MM_PER_INCH = 25.4;
+
+const distance = (a: Point, b: Point) => Math.hypot(b.x - a.x, b.y - a.y);
+
+export function rectifiedSize(orientation: CardOrientation): { width: number; height: number } {
+  const long = Math.round((ID1_WIDTH_MM / MM_PER_INCH) * RECTIFIED_DPI);
+  const short = Math.round((ID1_HEIGHT_MM / MM_PER_INCH) * RECTIFIED_DPI);
+  return orientation === 'horizontal' ? { width: long, height: short } : { width: short, height: long };
+}
+
+// Put four corners in clockwise order starting from the one nearest the image's top left
+export function orderCorners(points: Point[]): Quad {
+  const cx = points.reduce((sum, point) => sum + point.x, 0) / points.length;
+  const cy = points.reduce((sum, point) => sum + point.y, 0) / points.length;
+  const clockwise = [...points].sort((a, b) => Math.atan2(a.y - cy, a.x - cx) - Math.atan2(b.y - cy, b.x - cx));
+  const first = clockwise.reduce((best, point, index) =>
+    point.x + point.y < clockwise[best].x + clockwise[best].y ? index : best, 0);
+  return [0, 1, 2, 3].map((offset) => clockwise[(first + offset) % 4]) as Quad;
+}
+
+export function isConvex(quad: Quad): boolean {
+  const turns = quad.map((point, i) => {
+    const next = quad[(i + 1) % 4];
+    const after = quad[(i + 2) % 4];
+    return (next.x - point.x) * (after.y - next.y) - (next.y - point.y) * (after.x - next.x);
+  });
+  return turns.every((turn) => turn > 0) || turns.every((turn) => turn < 0);
+}
+
+export function quadArea(quad: Quad): number {
+  return Math.abs(quad.reduce((sum, point, i) => {
+    const next = quad[(i + 1) % 4];
+    return sum + point.x * next.y - next.x * point.y;
+  }, 0)) / 2;
+}
+
+// Long side across means a horizontal card; sides are averaged since perspective shrinks the far one
+export function quadOrientation([topLeft, topRight, bottomRight, bottomLeft]: Quad): CardOrientation {
+  const across = (distance(topLeft, topRight) + distance(bottomLeft, bottomRight)) / 2;
+  const down = (distance(topLeft, bottomLeft) + distance(topRight, bottomRight)) / 2;
+  return across >= down ? 'horizontal' : 'vertical';
+}
+
+// Resolution of the card in the photo, from the length of its long side
+export function cardDpi([topLeft, topRight, bottomRight, bottomLeft]: Quad): number {
+  const across = (distance(topLeft, topRight) + distance(bottomLeft, bottomRight)) / 2;
+  const down = (distance(topLeft, bottomLeft) + distance(topRight, bottomRight)) / 2;
+  return Math.max(across, down) / (ID1_WIDTH_MM / MM_PER_INCH);
+}
+
+// A centred card-shaped box covering most of the image, for when no card edges are found
+export function defaultCorners(width: number, height: number): Quad {
+  const orientation = width >= height ? 'horizontal' : 'vertical';
+  const aspect = orientation === 'horizontal' ? ID1_WIDTH_MM / ID1_HEIGHT_MM : ID1_HEIGHT_MM / ID1_WIDTH_MM;
+  const boxWidth = Math.min(width * 0.9, height * 0.9 * aspect);
+  const boxHeight = boxWidth / aspect;
+  const left = (width - boxWidth) / 2;
+  const top = (height - boxHeight) / 2;
+  return [
+    { x: left, y: top },
+    { x: left + boxWidth, y: top },
+    { x: left + boxWidth, y: top + boxHeight },
+    { x: left, y: top + boxHeight },
+  ];
+}
+
+// The eight coefficients of the projective transform taking each `from` corner to its `to` corner,
+// found by Gaussian elimination
+function solveHomography(from: Quad, to: Quad): number[] {
+  const rows: number[][] = [];
+  from.forEach(({ x, y }, i) => {
+    const { x: u, y: v } = to[i];
+    rows.push([x, y, 1, 0, 0, 0, -u * x, -u * y, u]);
+    rows.push([0, 0, 0, x, y, 1, -v * x, -v * y, v]);
+  });
+
+  for (let col = 0; col < 8; col++) {
+    let pivot = col;
+    for (let row = col + 1; row < 8; row++) {
+      if (Math.abs(rows[row][col]) > Math.abs(rows[pivot][col])) pivot = row;
+    }
+    if (Math.abs(rows[pivot][col]) < 1e-10) throw new Error('Card corners do not form a quadrilateral');
+    [rows[col], rows[pivot]] = [rows[pivot], rows[col]];
+
+    for (let row = 0; row < 8; row++) {
+      if (row === col) continue;
+      const factor = rows[row][col] / rows[col][col];
+      for (let k = col; k < 9; k++) rows[row][k] -= factor * rows[col][k];
+    }
+  }
+  return rows.map((row, i) => row[8] / row[i]);
+}
+
+// Warp the card inside `corners` onto a flat canvas of the canonical size for its orientation
+export function rectifyCard(source: HTMLCanvasElement, corners: Quad): HTMLCanvasElement {
+  const { width, height } = rectifiedSize(quadOrientation(corners));
+
+  // Shrink large photos first so each output pixel samples about one source pixel, not a sparse few
+  const longestSide = Math.max(...corners.map((corner, i) => distance(corner, corners[(i + 1) % 4])));
+  const shrink = Math.min(1, (2 * Math.max(width, height)) / longestSide);
+  const scaled = document.createElement('canvas');
+  scaled.width = Math.max(1, Math.round(source.width * shrink));
+  scaled.height = Math.max(1, Math.round(source.height * shrink));
+  const scaledCtx = scaled.getContext('2d')!;
+  scaledCtx.drawImage(source, 0, 0, scaled.width, scaled.height);
+  const src = scaledCtx.getImageData(0, 0, scaled.width, scaled.height);
+
+  const target: Quad = [{ x: 0, y: 0 }, { x: width, y: 0 }, { x: width, y: height }, { x: 0, y: height }];
+  const [a, b, c, d, e, f, g, h] = solveHomography(
+    target,
+    corners.map((corner) => ({ x: corner.x * shrink, y: corner.y * shrink })) as Quad,
+  );
+
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d')!;
+  const out = ctx.createImageData(width, height);
+  const maxX = scaled.width - 1;
+  const maxY = scaled.height - 1;
+
+  // Map each output pixel back into the photo and blend the four nearest source pixels
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const px = x + 0.5;
+      const py = y + 0.5;
+      const w = g * px + h * py + 1;
+      const sx = Math.min(Math.max((a * px + b * py + c) / w - 0.5, 0), maxX);
+      const sy = Math.min(Math.max((d * px + e * py + f) / w - 0.5, 0), maxY);
+      const x0 = Math.floor(sx);
+      const y0 = Math.floor(sy);
+      const x1 = Math.min(x0 + 1, maxX);
+      const y1 = Math.min(y0 + 1, maxY);
+      const fx = sx - x0;
+      const fy = sy - y0;
+
+      const o = (y * width + x) * 4;
+      const i00 = (y0 * scaled.width + x0) * 4;
+      const i10 = (y0 * scaled.width + x1) * 4;
+      const i01 = (y1 * scaled.width + x0) * 4;
+      const i11 = (y1 * scaled.width + x1) * 4;
+      for (let channel = 0; channel < 3; channel++) {
+        const top = src.data[i00 + channel] * (1 - fx) + src.data[i10 + channel] * fx;
+        const bottom = src.data[i01 + channel] * (1 - fx) + src.data[i11 + channel] * fx;
+        out.data[o + channel] = top * (1 - fy) + bottom * fy;
+      }
+      out.data[o + 3] = 255;
+    }
+  }
+
+  ctx.putImageData(out, 0, 0);
+  return canvas;
+}
@@ -1,4 +1,4 @@
-import { QueryClient, QueryFunction } from "@tanstack/react-query";
+import { MutationCache, QueryCache, QueryClient, QueryFunction } from "@tanstack/react-query";
 
 async function throwIfResNotOk(res: Response) {
   if (!res.ok) {
@@ -41,7 +41,16 @@ export const getQueryFn: <T>(options: {
     return await res.json();
   };
 
+// A 401 means the session ended; clearing the operator sends the app back to the login page
+function handleUnauthorized(error: Error) {
+  if (error.message.startsWith("401:")) {
+    queryClient.setQueryData(["/api/auth/me"], null);
+  }
+}
+
 export const queryClient = new QueryClient({
+  queryCache: new QueryCache({ onError: handleUnauthorized }),
+  mutationCache: new MutationCache({ onError: handleUnauthorized }),
   defaultOptions: {
     queries: {
       queryFn: getQueryFn({ on401: "throw" }),
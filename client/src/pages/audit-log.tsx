@@ -0,0 +1,249 @@
+import { useMemo, useState } from 'react';
+import { useInfiniteQuery, useMutation, useQuery } from '@tanstack/react-query';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { ArrowDownTrayIcon, ShieldCheckIcon } from '@heroicons/react/24/outline';
+import { Link } from 'wouter';
+import Header from '@/components/header';
+import { apiRequest } from '@/lib/queryClient';
+import { auditActions, type AuditEventPage, type AuditVerification, type Operator } from '@shared/schema';
+
+export default function AuditLog() {
+  const [operatorId, setOperatorId] = useState('all');
+  const [action, setAction] = useState('all');
+  const [customerId, setCustomerId] = useState('');
+  const [from, setFrom] = useState('');
+  const [to, setTo] = useState('');
+
+  const { data: operators } = useQuery<Operator[]>({
+    queryKey: ['/api/operators'],
+  });
+  const operatorNames = new Map(operators?.map((operator) => [operator.id, operator.displayName]));
+
+  const filters = useMemo(() => {
+    const params: Record<string, string> = {};
+    if (operatorId !== 'all') params.operatorId = operatorId;
+    if (action !== 'all') params.action = action;
+    if (/^\d+$/.test(customerId.trim())) params.customerId = customerId.trim();
+    if (from) params.from = from;
+    if (to) params.to = to;
+    return params;
+  }, [operatorId, action, customerId, from, to]);
+
+  const { data, error, isLoading, fetchNextPage, hasNextPage, isFetchingNextPage } = useInfiniteQuery({
+    queryKey: ['/api/audit-events', filters],
+    queryFn: async ({ pageParam }) => {
+      const params = new URLSearchParams(filters);
+      if (pageParam) params.set('cursor', pageParam);
+      const response = await apiRequest('GET', `/api/audit-events?${params.toString()}`);
+      return response.json() as Promise<AuditEventPage>;
+    },
+    initialPageParam: undefined as string | undefined,
+    getNextPageParam: (lastPage) => lastPage.nextCursor ?? undefined,
+  });
+
+  const events = data?.pages.flatMap((page) => page.events) ?? [];
+
+  const verifyMutation = useMutation({
+    mutationFn: async (): Promise<AuditVerification> => {
+      const response = await apiRequest('GET', '/api/audit-events/verify');
+      return response.json();
+    },
+  });
+  const verification = verifyMutation.data;
+
+  const exportUrl = (format: 'csv' | 'json') =>
+    `/api/audit-events/export?${new URLSearchParams({ ...filters, format }).toString()}`;
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <Header />
+
+      <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <div className="flex items-center justify-between mb-6">
+          <h1 className="text-2xl font-semibold text-gray-900">Audit Log</h1>
+          <div className="flex items-center space-x-2">
+            <Button variant="outline" onClick={() => verifyMutation.mutate()} disabled={verifyMutation.isPending}>
+              <ShieldCheckIcon className="h-4 w-4 mr-2" />
+              {verifyMutation.isPending ? 'Verifying...' : 'Verify Chain'}
+            </Button>
+            <Button variant="outline" asChild>
+              <a href={exportUrl('csv')} download>
+                <ArrowDownTrayIcon className="h-4 w-4 mr-2" />
+                CSV
+              </a>
+            </Button>
+            <Button variant="outline" asChild>
+              <a href={exportUrl('json')} download>
+                <ArrowDownTrayIcon className="h-4 w-4 mr-2" />
+                JSON
+              </a>
+            </Button>
+          </div>
+        </div>
+
+        {verifyMutation.isError && (
+          <Alert variant="destructive" className="mb-6">
+            <AlertDescription>Failed to verify the audit log. Please try again.</AlertDescription>
+          </Alert>
+        )}
+        {verification && (
+          <Alert variant={verification.valid ? 'default' : 'destructive'} className="mb-6">
+            <AlertDescription>
+              {verification.valid
+                ? `The hash chain is intact across ${verification.checked} events. Latest hash: ${verification.headHash ?? 'none'}`
+                : `The hash chain is broken at event ${verification.brokenAt!.id} (${verification.checked} events before it are intact). ${verification.brokenAt!.reason}.`}
+            </AlertDescription>
+          </Alert>
+        )}
+
+        {/* Filters */}
+        <Card className="shadow-material mb-6">
+          <CardContent className="p-6">
+            <div className="grid grid-cols-1 md:grid-cols-3 lg:grid-cols-5 gap-4 items-end">
+              <div>
+                <Label className="text-sm font-medium text-gray-700 mb-2 block">Operator</Label>
+                <Select value={operatorId} onValueChange={setOperatorId}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">All operators</SelectItem>
+                    {operators?.map((operator) => (
+                      <SelectItem key={operator.id} value={String(operator.id)}>
+                        {operator.displayName}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div>
+                <Label className="text-sm font-medium text-gray-700 mb-2 block">Action</Label>
+                <Select value={action} onValueChange={setAction}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">All actions</SelectItem>
+                    {auditActions.map((auditAction) => (
+                      <SelectItem key={auditAction} value={auditAction}>{auditAction}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div>
+                <Label className="text-sm font-medium text-gray-700 mb-2 block">Customer ID</Label>
+                <Input value={customerId} onChange={(e) => setCustomerId(e.target.value)} inputMode="numeric" />
+              </div>
+
+              <div>
+                <Label className="text-sm font-medium text-gray-700 mb-2 block">From</Label>
+                <Input type="date" value={from} onChange={(e) => setFrom(e.target.value)} />
+              </div>
+
+              <div>
+                <Label className="text-sm font-medium text-gray-700 mb-2 block">To</Label>
+                <Input type="date" value={to} onChange={(e) => setTo(e.target.value)} />
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+
+        {/* Events */}
+        <Card className="shadow-material">
+          <CardHeader>
+            <CardTitle className="text-xl">Events</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {error ? (
+              <Alert variant="destructive">
+                <AlertDescription>Failed to load audit events. Please try again.</AlertDescription>
+              </Alert>
+            ) : (
+              <div className="overflow-x-auto">
+                <table className="min-w-full divide-y divide-gray-200">
+                  <thead className="bg-gray-50">
+                    <tr>
+                      <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Time</th>
+                      <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Operator</th>
+                      <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Action</th>
+                      <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Customer</th>
+                      <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Fields</th>
+                      <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Status</th>
+                      <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">IP Address</th>
+                    </tr>
+                  </thead>
+                  <tbody className="bg-white divide-y divide-gray-200">
+                    {isLoading ? (
+                      <tr>
+                        <td colSpan={7} className="px-4 py-4 text-center text-gray-500">
+                          Loading events...
+                        </td>
+                      </tr>
+                    ) : events.length > 0 ? (
+                      events.map((event) => (
+                        <tr key={event.id} className="hover:bg-gray-50 align-top">
+                          <td className="px-4 py-3 whitespace-nowrap text-sm text-gray-500">
+                            {new Date(event.occurredAt).toLocaleString()}
+                          </td>
+                          <td className="px-4 py-3 whitespace-nowrap text-sm text-gray-900">
+                            {event.operatorId ? operatorNames.get(event.operatorId) ?? `#${event.operatorId}` : '—'}
+                          </td>
+                          <td className="px-4 py-3 whitespace-nowrap text-sm font-mono text-gray-900">
+                            {event.action}
+                          </td>
+                          <td className="px-4 py-3 whitespace-nowrap text-sm">
+                            {event.customerId ? (
+                              <Link href={`/customer/${event.customerId}`} className="text-blue-700 hover:text-blue-900">
+                                #{event.customerId}
+                              </Link>
+                            ) : '—'}
+                          </td>
+                          <td className="px-4 py-3 text-xs text-gray-600 max-w-xs">
+                            {event.fields?.join(', ') || '—'}
+                          </td>
+                          <td className="px-4 py-3 whitespace-nowrap text-sm">
+                            <Badge
+                              variant="secondary"
+                              className={event.statusCode < 400 ? 'bg-green-100 text-green-700' : 'bg-red-100 text-red-700'}
+                            >
+                              {event.statusCode}
+                            </Badge>
+                          </td>
+                          <td className="px-4 py-3 whitespace-nowrap text-sm text-gray-500" title={event.userAgent ?? undefined}>
+                            {event.ipAddress ?? '—'}
+                          </td>
+                        </tr>
+                      ))
+                    ) : (
+                      <tr>
+                        <td colSpan={7} className="px-4 py-4 text-center text-gray-500">
+                          No events match these filters.
+                        </td>
+                      </tr>
+                    )}
+                  </tbody>
+                </table>
+
+                {hasNextPage && (
+                  <div className="flex justify-center pt-4">
+                    <Button variant="outline" onClick={() => fetchNextPage()} disabled={isFetchingNextPage}>
+                      {isFetchingNextPage ? 'Loading...' : 'Load more'}
+                    </Button>
+                  </div>
+                )}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </main>
+    </div>
+  );
+}
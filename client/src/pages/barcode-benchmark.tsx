@@ -0,0 +1,151 @@
+import { useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { PhotoIcon, PlayIcon } from '@heroicons/react/24/outline';
+import Header from '@/components/header';
+import { runBarcodeBenchmark, type BenchmarkMode, type BenchmarkResult } from '@/lib/barcode-benchmark';
+
+const MODE_LABELS: Record<BenchmarkMode, string> = {
+  'main-thread': 'Main thread (before)',
+  'worker-pool': 'Worker pool (after)',
+};
+
+const MODES: BenchmarkMode[] = ['main-thread', 'worker-pool'];
+
+// Compare live barcode decoding on the main thread against the worker pool on this device, using a
+// sample photo of a license back as every camera frame. The photo stays in the browser.
+export default function BarcodeBenchmark() {
+  const [sample, setSample] = useState<string | null>(null);
+  const [seconds, setSeconds] = useState(10);
+  const [running, setRunning] = useState<BenchmarkMode | null>(null);
+  const [results, setResults] = useState<BenchmarkResult[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSample = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+    const reader = new FileReader();
+    reader.onload = () => setSample(reader.result as string);
+    reader.readAsDataURL(file);
+  };
+
+  const handleRun = async () => {
+    if (!sample) return;
+    setResults([]);
+    setError(null);
+
+    try {
+      for (const mode of MODES) {
+        setRunning(mode);
+        const result = await runBarcodeBenchmark(mode, sample, seconds * 1000);
+        setResults((prev) => [...prev, result]);
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Benchmark failed');
+    } finally {
+      setRunning(null);
+    }
+  };
+
+  const throughput = (result: BenchmarkResult) => (result.decodes * 1000) / result.elapsedMs;
+  const [before, after] = results;
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <Header />
+
+      <main className="max-w-5xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <h1 className="text-2xl font-semibold text-gray-900 mb-6">Barcode Decoder Benchmark</h1>
+
+        <Card className="shadow-material mb-6">
+          <CardHeader>
+            <CardTitle>Sample</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="flex flex-wrap items-end gap-4">
+              <Button variant="outline" asChild>
+                <label className="cursor-pointer">
+                  <PhotoIcon className="h-4 w-4 mr-2" />
+                  {sample ? 'Change Photo' : 'Choose Photo'}
+                  <input type="file" accept="image/*" className="hidden" onChange={handleSample} />
+                </label>
+              </Button>
+              <div>
+                <Label htmlFor="benchmark-seconds">Seconds per run</Label>
+                <Input
+                  id="benchmark-seconds"
+                  type="number"
+                  min={1}
+                  max={60}
+                  value={seconds}
+                  onChange={(event) => setSeconds(Math.min(Math.max(Number(event.target.value) || 1, 1), 60))}
+                  className="w-24"
+                />
+              </div>
+              <Button onClick={handleRun} disabled={!sample || running !== null}>
+                <PlayIcon className="h-4 w-4 mr-2" />
+                {running ? `Running ${MODE_LABELS[running].toLowerCase()}...` : 'Run Benchmark'}
+              </Button>
+            </div>
+            {sample && <img src={sample} alt="Benchmark sample" className="max-h-48 rounded-lg border" />}
+            <p className="text-sm text-gray-600">
+              Use a photo of the back of a license. The page may stutter during the main-thread run; that is what is being measured.
+            </p>
+          </CardContent>
+        </Card>
+
+        {error && (
+          <Alert variant="destructive" className="mb-6">
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        {results.length > 0 && (
+          <Card className="shadow-material">
+            <CardHeader>
+              <CardTitle>Results</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Decoder</TableHead>
+                    <TableHead className="text-right">Decodes/s</TableHead>
+                    <TableHead className="text-right">Reads</TableHead>
+                    <TableHead className="text-right">Avg decode</TableHead>
+                    <TableHead className="text-right">Frames skipped</TableHead>
+                    <TableHead className="text-right">UI fps</TableHead>
+                    <TableHead className="text-right">Longest frame</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {results.map((result) => (
+                    <TableRow key={result.mode}>
+                      <TableCell className="font-medium">{MODE_LABELS[result.mode]}</TableCell>
+                      <TableCell className="text-right">{throughput(result).toFixed(2)}</TableCell>
+                      <TableCell className="text-right">{result.reads}/{result.decodes}</TableCell>
+                      <TableCell className="text-right">{Math.round(result.averageDecodeMs)} ms</TableCell>
+                      <TableCell className="text-right">{result.skipped}/{result.offered}</TableCell>
+                      <TableCell className="text-right">{result.uiFps.toFixed(1)}</TableCell>
+                      <TableCell className="text-right">{Math.round(result.longestFrameMs)} ms</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+              {before && after && throughput(before) > 0 && (
+                <p className="mt-4 text-sm text-gray-600">
+                  The worker pool decoded {(throughput(after) / throughput(before)).toFixed(1)}x as many frames per second,
+                  with the page painting at {after.uiFps.toFixed(0)} fps instead of {before.uiFps.toFixed(0)} fps.
+                </p>
+              )}
+            </CardContent>
+          </Card>
+        )}
+      </main>
+    </div>
+  );
+}
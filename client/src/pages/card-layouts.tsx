@@ -0,0 +1,306 @@
+import { useRef, useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { ClipboardDocumentIcon, PhotoIcon } from '@heroicons/react/24/outline';
+import Header from '@/components/header';
+import { useToast } from '@/hooks/use-toast';
+import {
+  CARD_LAYOUTS,
+  cardLayoutSchema,
+  cardOrientations,
+  ID1_HEIGHT_MM,
+  ID1_WIDTH_MM,
+  layoutRegions,
+  REGION_SIDES,
+  type CardLayout,
+  type CardOrientation,
+  type LayoutBox,
+  type LayoutRegion,
+} from '@shared/card-layouts';
+import { JURISDICTIONS } from '@shared/jurisdictions';
+
+const REGION_LABELS: Record<LayoutRegion, string> = {
+  portrait: 'Portrait',
+  signature: 'Signature',
+  ghostImage: 'Ghost Image',
+  dateOfBirth: 'Date of Birth',
+  barcode: 'Barcode',
+};
+
+const REGION_COLORS: Record<LayoutRegion, string> = {
+  portrait: '#dc2626',
+  signature: '#16a34a',
+  ghostImage: '#9333ea',
+  dateOfBirth: '#2563eb',
+  barcode: '#db2777',
+};
+
+const NEW_TEMPLATE = 'new';
+const GENERIC = 'generic';
+
+const EMPTY_LAYOUT: CardLayout = {
+  id: '',
+  jurisdiction: null,
+  orientation: 'horizontal',
+  revision: '',
+  issuedFrom: null,
+  regions: { portrait: { left: 0.05, top: 0.2, width: 0.25, height: 0.5 } },
+};
+
+const round = (value: number) => Math.round(value * 1000) / 1000;
+const clamp = (value: number) => Math.min(Math.max(value, 0), 1);
+
+// Draw template regions over sample card images and get the JSON entry for shared/card-layouts.json.
+// Sample images stay in the browser; nothing is uploaded.
+export default function CardLayouts() {
+  const { toast } = useToast();
+  const [templateId, setTemplateId] = useState(NEW_TEMPLATE);
+  const [layout, setLayout] = useState<CardLayout>(EMPTY_LAYOUT);
+  const [activeRegion, setActiveRegion] = useState<LayoutRegion>('portrait');
+  const [samples, setSamples] = useState<Record<'front' | 'back', string | null>>({ front: null, back: null });
+  const [dragStart, setDragStart] = useState<{ x: number; y: number } | null>(null);
+  const surfaceRef = useRef<HTMLDivElement>(null);
+
+  const side = REGION_SIDES[activeRegion];
+  const validation = cardLayoutSchema.safeParse(layout);
+  const json = JSON.stringify(validation.success ? validation.data : layout, null, 2);
+
+  const startFrom = (id: string) => {
+    setTemplateId(id);
+    const template = CARD_LAYOUTS.find((candidate) => candidate.id === id);
+    setLayout(template ? structuredClone(template) : EMPTY_LAYOUT);
+  };
+
+  const update = (changes: Partial<CardLayout>) => setLayout((prev) => ({ ...prev, ...changes }));
+
+  const setRegion = (region: LayoutRegion, box: LayoutBox | undefined) =>
+    setLayout((prev) => ({ ...prev, regions: { ...prev.regions, [region]: box } as CardLayout['regions'] }));
+
+  const pointerPosition = (event: React.PointerEvent) => {
+    const rect = surfaceRef.current!.getBoundingClientRect();
+    return { x: clamp((event.clientX - rect.left) / rect.width), y: clamp((event.clientY - rect.top) / rect.height) };
+  };
+
+  const handlePointerDown = (event: React.PointerEvent) => {
+    event.currentTarget.setPointerCapture(event.pointerId);
+    setDragStart(pointerPosition(event));
+  };
+
+  const handlePointerMove = (event: React.PointerEvent) => {
+    if (!dragStart) return;
+    const { x, y } = pointerPosition(event);
+    setRegion(activeRegion, {
+      left: round(Math.min(x, dragStart.x)),
+      top: round(Math.min(y, dragStart.y)),
+      width: round(Math.max(Math.abs(x - dragStart.x), 0.001)),
+      height: round(Math.max(Math.abs(y - dragStart.y), 0.001)),
+    });
+  };
+
+  const handleSample = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+    const reader = new FileReader();
+    reader.onload = () => setSamples((prev) => ({ ...prev, [side]: reader.result as string }));
+    reader.readAsDataURL(file);
+  };
+
+  const handleCopy = async () => {
+    await navigator.clipboard.writeText(json);
+    toast({ title: "Template copied", description: "Add it to the templates list in shared/card-layouts.json." });
+  };
+
+  const visibleRegions = layoutRegions.filter((region) => REGION_SIDES[region] === side && layout.regions[region]);
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <Header />
+
+      <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <h1 className="text-2xl font-semibold text-gray-900 mb-6">Card Layout Templates</h1>
+
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+          <Card className="shadow-material lg:col-span-2">
+            <CardHeader className="flex flex-row items-center justify-between">
+              <CardTitle>{side === 'front' ? 'Front' : 'Back'} of Card</CardTitle>
+              <Button variant="outline" size="sm" asChild>
+                <label className="cursor-pointer">
+                  <PhotoIcon className="h-4 w-4 mr-2" />
+                  Sample Image
+                  <input type="file" accept="image/*" className="hidden" onChange={handleSample} />
+                </label>
+              </Button>
+            </CardHeader>
+            <CardContent>
+              <div className="flex flex-wrap gap-2 mb-4">
+                {layoutRegions.map((region) => (
+                  <Button
+                    key={region}
+                    variant={region === activeRegion ? 'default' : 'outline'}
+                    size="sm"
+                    onClick={() => setActiveRegion(region)}
+                  >
+                    <span className="inline-block w-2 h-2 rounded-full mr-2" style={{ backgroundColor: REGION_COLORS[region] }} />
+                    {REGION_LABELS[region]}
+                  </Button>
+                ))}
+              </div>
+
+              <div
+                ref={surfaceRef}
+                className="relative w-full bg-gray-200 rounded-lg overflow-hidden cursor-crosshair select-none"
+                style={{ aspectRatio: layout.orientation === 'horizontal' ? `${ID1_WIDTH_MM} / ${ID1_HEIGHT_MM}` : `${ID1_HEIGHT_MM} / ${ID1_WIDTH_MM}`, touchAction: 'none' }}
+                onPointerDown={handlePointerDown}
+                onPointerMove={handlePointerMove}
+                onPointerUp={() => setDragStart(null)}
+              >
+                {samples[side] ? (
+                  <img src={samples[side]!} alt="" className="absolute inset-0 w-full h-full object-fill pointer-events-none" />
+                ) : (
+                  <p className="absolute inset-0 flex items-center justify-center text-sm text-gray-500 pointer-events-none">
+                    Load a sample {side} image, cropped to the card edges
+                  </p>
+                )}
+                {visibleRegions.map((region) => {
+                  const box = layout.regions[region]!;
+                  return (
+                    <div
+                      key={region}
+                      className="absolute pointer-events-none"
+                      style={{
+                        left: `${box.left * 100}%`,
+                        top: `${box.top * 100}%`,
+                        width: `${box.width * 100}%`,
+                        height: `${box.height * 100}%`,
+                        border: `${region === activeRegion ? 3 : 2}px ${region === activeRegion ? 'solid' : 'dashed'} ${REGION_COLORS[region]}`,
+                      }}
+                    >
+                      <span className="absolute -top-5 left-0 text-xs font-medium px-1 rounded bg-black/70" style={{ color: REGION_COLORS[region] }}>
+                        {REGION_LABELS[region]}
+                      </span>
+                    </div>
+                  );
+                })}
+              </div>
+
+              <div className="flex items-center justify-between mt-3 text-sm text-gray-600">
+                <span>Drag on the card to place the {REGION_LABELS[activeRegion].toLowerCase()} region.</span>
+                {activeRegion !== 'portrait' && layout.regions[activeRegion] && (
+                  <Button variant="ghost" size="sm" onClick={() => setRegion(activeRegion, undefined)}>
+                    Remove region
+                  </Button>
+                )}
+              </div>
+            </CardContent>
+          </Card>
+
+          <div className="space-y-6">
+            <Card className="shadow-material">
+              <CardHeader>
+                <CardTitle>Template</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div>
+                  <Label>Start from</Label>
+                  <Select value={templateId} onValueChange={startFrom}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={NEW_TEMPLATE}>New template</SelectItem>
+                      {CARD_LAYOUTS.map((template) => (
+                        <SelectItem key={template.id} value={template.id}>{template.id}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div>
+                  <Label htmlFor="layout-id">ID</Label>
+                  <Input id="layout-id" value={layout.id} onChange={(e) => update({ id: e.target.value })} placeholder="tx-horizontal-2020" />
+                </div>
+                <div className="grid grid-cols-2 gap-4">
+                  <div>
+                    <Label>Jurisdiction</Label>
+                    <Select
+                      value={layout.jurisdiction ?? GENERIC}
+                      onValueChange={(value) => update({ jurisdiction: value === GENERIC ? null : value })}
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={GENERIC}>Generic</SelectItem>
+                        {JURISDICTIONS.map((jurisdiction) => (
+                          <SelectItem key={jurisdiction.code} value={jurisdiction.code}>{jurisdiction.name}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div>
+                    <Label>Orientation</Label>
+                    <Select value={layout.orientation} onValueChange={(value) => update({ orientation: value as CardOrientation })}>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {cardOrientations.map((orientation) => (
+                          <SelectItem key={orientation} value={orientation}>
+                            {orientation === 'horizontal' ? 'Horizontal' : 'Vertical (under 21)'}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                </div>
+                <div className="grid grid-cols-2 gap-4">
+                  <div>
+                    <Label htmlFor="layout-revision">Design revision</Label>
+                    <Input id="layout-revision" value={layout.revision} onChange={(e) => update({ revision: e.target.value })} placeholder="2020" />
+                  </div>
+                  <div>
+                    <Label htmlFor="layout-issued-from">Issued from</Label>
+                    <Input
+                      id="layout-issued-from"
+                      type="date"
+                      value={layout.issuedFrom ?? ''}
+                      onChange={(e) => update({ issuedFrom: e.target.value || null })}
+                    />
+                  </div>
+                </div>
+                <div>
+                  <Label htmlFor="layout-notes">Notes</Label>
+                  <Input id="layout-notes" value={layout.notes ?? ''} onChange={(e) => update({ notes: e.target.value || undefined })} />
+                </div>
+              </CardContent>
+            </Card>
+
+            <Card className="shadow-material">
+              <CardHeader className="flex flex-row items-center justify-between">
+                <CardTitle>JSON</CardTitle>
+                <Button variant="outline" size="sm" onClick={handleCopy} disabled={!validation.success}>
+                  <ClipboardDocumentIcon className="h-4 w-4 mr-2" />
+                  Copy
+                </Button>
+              </CardHeader>
+              <CardContent>
+                {!validation.success && (
+                  <Alert variant="destructive" className="mb-4">
+                    <AlertDescription>
+                      {validation.error.errors.map((error) => `${error.path.join('.') || 'template'}: ${error.message}`).join('; ')}
+                    </AlertDescription>
+                  </Alert>
+                )}
+                <Textarea value={json} readOnly rows={16} className="font-mono text-xs" />
+              </CardContent>
+            </Card>
+          </div>
+        </div>
+      </main>
+    </div>
+  );
+}
@@ -1,23 +1,184 @@
-import { useParams } from 'wouter';
-import { useQuery } from '@tanstack/react-query';
+import { useState } from 'react';
+import { useLocation, useParams } from 'wouter';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Skeleton } from '@/components/ui/skeleton';
 import { Alert, AlertDescription } from '@/components/ui/alert';
-import { ArrowLeftIcon, PencilIcon } from '@heroicons/react/24/outline';
+import { Input } from '@/components/ui/input';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/ui/alert-dialog';
+import { ArrowDownTrayIcon, ArrowLeftIcon, ArrowUturnLeftIcon, LockClosedIcon, PencilIcon, TrashIcon } from '@heroicons/react/24/outline';
 import { Link } from 'wouter';
 import Header from '@/components/header';
-import type { Customer } from '@shared/schema';
+import CustomerForm from '@/components/customer-form';
+import ValidityBadges from '@/components/validity-badges';
+import { apiRequest } from '@/lib/queryClient';
+import { useToast } from '@/hooks/use-toast';
+import { useDocumentValidity } from '@/hooks/use-document-validity';
+import { useAuth } from '@/hooks/use-auth';
+import { FIELD_LABELS } from '@/lib/customer-fields';
+import type { Customer, CustomerImageUrls, CustomerRevision, ImageSize, ImageViewEntry, LegalHold, LicenseImage } from '@shared/schema';
+
+const SOURCE_LABELS: Record<string, string> = {
+  manual: 'Manual',
+  rescan: 'Rescan',
+  ocr: 'OCR',
+};
+
+// Signed image URLs are requested again this long before they expire
+const IMAGE_URL_REFRESH_MARGIN_MS = 60 * 1000;
 
 export default function CustomerProfile() {
   const { id } = useParams<{ id: string }>();
+  const [, setLocation] = useLocation();
+  const [isEditing, setIsEditing] = useState(false);
+  const [holdReason, setHoldReason] = useState('');
+  const { can } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
 
   const { data: customer, isLoading, error } = useQuery<Customer>({
     queryKey: [`/api/customers/${id}`],
     enabled: !!id,
   });
 
+  const validity = useDocumentValidity(customer ?? {});
+
+  const { data: licenseImages } = useQuery<LicenseImage[]>({
+    queryKey: [`/api/customers/${id}/images`],
+    enabled: !!id,
+  });
+
+  const { data: revisions } = useQuery<CustomerRevision[]>({
+    queryKey: [`/api/customers/${id}/revisions`],
+    enabled: !!id,
+  });
+
+  // Images are only reachable through short-lived signed URLs, refreshed before they expire
+  const { data: imageUrls } = useQuery<CustomerImageUrls>({
+    queryKey: [`/api/customers/${id}/image-urls`, customer?.updatedAt, licenseImages?.length],
+    queryFn: async () => {
+      const response = await apiRequest('GET', `/api/customers/${id}/image-urls`);
+      return response.json();
+    },
+    enabled: !!customer,
+    refetchInterval: (query) => query.state.data
+      ? Math.max(new Date(query.state.data.expiresAt).getTime() - Date.now() - IMAGE_URL_REFRESH_MARGIN_MS, 10 * 1000)
+      : false,
+  });
+
+  const imageUrl = (filename: string | null, size: ImageSize) =>
+    filename ? imageUrls?.images[filename]?.[size] : undefined;
+
+  const { data: imageViews } = useQuery<ImageViewEntry[]>({
+    queryKey: [`/api/customers/${id}/image-views`],
+    enabled: !!id && can('manager'),
+  });
+
+  const { data: legalHold } = useQuery<LegalHold | null>({
+    queryKey: [`/api/customers/${id}/legal-hold`],
+    enabled: !!id && can('admin'),
+  });
+
+  const legalHoldMutation = useMutation({
+    mutationFn: async (reason: string | null) => {
+      if (reason === null) {
+        await apiRequest('DELETE', `/api/customers/${id}/legal-hold`);
+        return null;
+      }
+      const response = await apiRequest('PUT', `/api/customers/${id}/legal-hold`, { reason });
+      return response.json();
+    },
+    onSuccess: (hold) => {
+      queryClient.setQueryData([`/api/customers/${id}/legal-hold`], hold);
+      setHoldReason('');
+      toast({
+        title: hold ? "Legal hold placed" : "Legal hold released",
+        description: hold
+          ? "This customer's data is exempt from retention purges."
+          : "This customer's data is purged under the normal retention rules again.",
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: "Failed to update the legal hold. Please try again.",
+        variant: "destructive",
+      });
+      console.error('Failed to update legal hold:', error);
+    },
+  });
+
+  const eraseMutation = useMutation({
+    mutationFn: () => apiRequest('DELETE', `/api/customers/${id}`),
+    onSuccess: () => {
+      queryClient.removeQueries({ queryKey: [`/api/customers/${id}`] });
+      queryClient.invalidateQueries({ queryKey: ['/api/customers'] });
+      toast({
+        title: "Customer erased",
+        description: "The profile, its history and its images have been permanently deleted.",
+      });
+      setLocation('/customers');
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: legalHold
+          ? "This customer is under a legal hold. Release it before erasing."
+          : "Failed to erase customer. Please try again.",
+        variant: "destructive",
+      });
+      console.error('Failed to erase customer:', error);
+    },
+  });
+
+  const revertMutation = useMutation({
+    mutationFn: async (revision: CustomerRevision) => {
+      const response = await apiRequest('POST', `/api/customers/${id}/revisions/${revision.id}/revert`);
+      return response.json();
+    },
+    onSuccess: (_data, revision) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/customers'] });
+      queryClient.invalidateQueries({ queryKey: [`/api/customers/${id}`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/customers/${id}/revisions`] });
+      toast({
+        title: "Field reverted",
+        description: `${FIELD_LABELS[revision.field] ?? revision.field} has been restored.`,
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: "Failed to revert field. Please try again.",
+        variant: "destructive",
+      });
+      console.error('Failed to revert revision:', error);
+    },
+  });
+
+  // The most recent upload holds the current scan's crops
+  const latestImages = licenseImages && licenseImages.length > 0
+    ? licenseImages[licenseImages.length - 1]
+    : undefined;
+  const scanImages = latestImages
+    ? [
+        { path: latestImages.frontImagePath, title: 'Front License' },
+        { path: latestImages.backImagePath, title: 'Back License' },
+        { path: latestImages.barcodeImagePath, title: 'Barcode' },
+      ].filter((image): image is { path: string; title: string } => !!image.path)
+    : [];
+
   if (isLoading) {
     return (
       <div className="min-h-screen bg-gray-50">
@@ -79,174 +240,384 @@ export default function CustomerProfile() {
               {customer.firstName} {customer.lastName}
             </h1>
           </div>
-          <Button variant="outline" size="sm">
-            <PencilIcon className="h-4 w-4 mr-2" />
-            Edit Profile
-          </Button>
+          <div className="flex items-center space-x-2">
+            {can('manager') && (
+              <Button variant="outline" size="sm" asChild>
+                <a href={`/api/customers/${id}/export`} download>
+                  <ArrowDownTrayIcon className="h-4 w-4 mr-2" />
+                  Export Data
+                </a>
+              </Button>
+            )}
+            {can('admin') && (
+              <AlertDialog>
+                <AlertDialogTrigger asChild>
+                  <Button variant="outline" size="sm" className="text-red-700" disabled={eraseMutation.isPending}>
+                    <TrashIcon className="h-4 w-4 mr-2" />
+                    Erase
+                  </Button>
+                </AlertDialogTrigger>
+                <AlertDialogContent>
+                  <AlertDialogHeader>
+                    <AlertDialogTitle>Erase {customer.firstName} {customer.lastName}?</AlertDialogTitle>
+                    <AlertDialogDescription>
+                      The profile, its change history and all of its license images are permanently deleted.
+                      Only the audit log keeps a record that this customer existed. This cannot be undone.
+                    </AlertDialogDescription>
+                  </AlertDialogHeader>
+                  <AlertDialogFooter>
+                    <AlertDialogCancel>Cancel</AlertDialogCancel>
+                    <AlertDialogAction className="bg-red-700 hover:bg-red-800" onClick={() => eraseMutation.mutate()}>
+                      Erase Customer
+                    </AlertDialogAction>
+                  </AlertDialogFooter>
+                </AlertDialogContent>
+              </AlertDialog>
+            )}
+            {!isEditing && can('manager') && (
+              <Button variant="outline" size="sm" onClick={() => setIsEditing(true)}>
+                <PencilIcon className="h-4 w-4 mr-2" />
+                Edit Profile
+              </Button>
+            )}
+          </div>
         </div>
 
-        {/* Customer Profile Card */}
-        <Card className="shadow-material">
-          <CardHeader className="flex flex-row items-center justify-between">
-            <CardTitle>Customer Profile</CardTitle>
-            <Badge variant="secondary" className="bg-green-100 text-green-700">
-              Active
-            </Badge>
-          </CardHeader>
-
-          <CardContent>
-            <div className="grid grid-cols-1 lg:grid-cols-4 gap-8">
-              {/* Profile Photo and Signature */}
-              <div className="space-y-6">
-                <div>
-                  <h3 className="text-sm font-medium text-gray-700 mb-2">Profile Photo</h3>
-                  <div className="bg-gray-100 rounded-lg p-4 text-center">
-                    {customer.profilePhotoPath ? (
-                      <img 
-                        src={`/uploads/${customer.profilePhotoPath}`}
-                        alt="Customer profile photo" 
-                        className="w-24 h-24 rounded-full mx-auto object-cover shadow-md"
-                      />
-                    ) : (
-                      <div className="w-24 h-24 rounded-full mx-auto bg-gray-300 flex items-center justify-center">
-                        <span className="text-gray-500 text-2xl font-medium">
-                          {customer.firstName.charAt(0)}{customer.lastName.charAt(0)}
-                        </span>
-                      </div>
-                    )}
-                  </div>
-                </div>
-                <div>
-                  <h3 className="text-sm font-medium text-gray-700 mb-2">Signature</h3>
-                  <div className="bg-gray-100 rounded-lg p-4 h-16 flex items-center justify-center">
-                    {customer.signaturePath ? (
-                      <img 
-                        src={`/uploads/${customer.signaturePath}`}
-                        alt="Customer signature" 
-                        className="h-8 max-w-full object-contain"
-                      />
-                    ) : (
-                      <span className="text-gray-500 text-xs">No Signature</span>
-                    )}
-                  </div>
-                </div>
-              </div>
+        {isEditing ? (
+          <CustomerForm
+            customer={customer}
+            onSave={() => setIsEditing(false)}
+            onCancel={() => setIsEditing(false)}
+          />
+        ) : (
+          <Card className="shadow-material">
+            <CardHeader className="flex flex-row items-center justify-between">
+              <CardTitle>Customer Profile</CardTitle>
+              <Badge variant="secondary" className="bg-green-100 text-green-700">
+                Active
+              </Badge>
+            </CardHeader>
 
-              {/* Customer Information */}
-              <div className="lg:col-span-3">
+            <CardContent>
+              <div className="grid grid-cols-1 lg:grid-cols-4 gap-8">
+                {/* Profile Photo and Signature */}
                 <div className="space-y-6">
-                  {/* Personal Information */}
                   <div>
-                    <h3 className="text-lg font-medium text-gray-900 mb-4">Personal Information</h3>
-                    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                      <div>
-                        <label className="block text-sm font-medium text-gray-700 mb-1">First Name</label>
-                        <p className="text-sm text-gray-900">{customer.firstName}</p>
-                      </div>
-                      <div>
-                        <label className="block text-sm font-medium text-gray-700 mb-1">Last Name</label>
-                        <p className="text-sm text-gray-900">{customer.lastName}</p>
-                      </div>
-                      {customer.middleName && (
-                        <div>
-                          <label className="block text-sm font-medium text-gray-700 mb-1">Middle Name</label>
-                          <p className="text-sm text-gray-900">{customer.middleName}</p>
+                    <h3 className="text-sm font-medium text-gray-700 mb-2">Profile Photo</h3>
+                    <div className="bg-gray-100 rounded-lg p-4 text-center">
+                      {imageUrl(customer.profilePhotoPath, 'thumbnail') ? (
+                        <img 
+                          src={imageUrl(customer.profilePhotoPath, 'thumbnail')}
+                          alt="Customer profile photo" 
+                          className="w-24 h-24 rounded-full mx-auto object-cover shadow-md"
+                        />
+                      ) : (
+                        <div className="w-24 h-24 rounded-full mx-auto bg-gray-300 flex items-center justify-center">
+                          <span className="text-gray-500 text-2xl font-medium">
+                            {customer.firstName.charAt(0)}{customer.lastName.charAt(0)}
+                          </span>
                         </div>
                       )}
-                      <div>
-                        <label className="block text-sm font-medium text-gray-700 mb-1">Date of Birth</label>
-                        <p className="text-sm text-gray-900">{customer.dateOfBirth}</p>
-                      </div>
                     </div>
                   </div>
-
-                  {/* License Information */}
                   <div>
-                    <h3 className="text-lg font-medium text-gray-900 mb-4">License Information</h3>
-                    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                      <div>
-                        <label className="block text-sm font-medium text-gray-700 mb-1">License Number</label>
-                        <p className="text-sm text-gray-900 font-mono">{customer.licenseNumber}</p>
-                      </div>
-                      <div>
-                        <label className="block text-sm font-medium text-gray-700 mb-1">License State</label>
-                        <p className="text-sm text-gray-900">{customer.licenseState}</p>
-                      </div>
-                      <div>
-                        <label className="block text-sm font-medium text-gray-700 mb-1">Expiration Date</label>
-                        <p className="text-sm text-gray-900">{customer.licenseExpiration}</p>
-                      </div>
+                    <h3 className="text-sm font-medium text-gray-700 mb-2">Signature</h3>
+                    <div className="bg-gray-100 rounded-lg p-4 h-16 flex items-center justify-center">
+                      {imageUrl(customer.signaturePath, 'full') ? (
+                        <img 
+                          src={imageUrl(customer.signaturePath, 'full')}
+                          alt="Customer signature" 
+                          className="h-8 max-w-full object-contain"
+                        />
+                      ) : (
+                        <span className="text-gray-500 text-xs">No Signature</span>
+                      )}
                     </div>
                   </div>
+                </div>
 
-                  {/* Address Information */}
-                  {(customer.address || customer.city || customer.state || customer.zipCode) && (
+                {/* Customer Information */}
+                <div className="lg:col-span-3">
+                  <div className="space-y-6">
+                    {/* Personal Information */}
                     <div>
-                      <h3 className="text-lg font-medium text-gray-900 mb-4">Address</h3>
+                      <h3 className="text-lg font-medium text-gray-900 mb-4">Personal Information</h3>
                       <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                        {customer.address && (
-                          <div className="md:col-span-2">
-                            <label className="block text-sm font-medium text-gray-700 mb-1">Street Address</label>
-                            <p className="text-sm text-gray-900">{customer.address}</p>
-                          </div>
-                        )}
-                        {customer.city && (
-                          <div>
-                            <label className="block text-sm font-medium text-gray-700 mb-1">City</label>
-                            <p className="text-sm text-gray-900">{customer.city}</p>
-                          </div>
-                        )}
-                        {customer.state && (
+                        <div>
+                          <label className="block text-sm font-medium text-gray-700 mb-1">First Name</label>
+                          <p className="text-sm text-gray-900">{customer.firstName}</p>
+                        </div>
+                        <div>
+                          <label className="block text-sm font-medium text-gray-700 mb-1">Last Name</label>
+                          <p className="text-sm text-gray-900">{customer.lastName}</p>
+                        </div>
+                        {customer.middleName && (
                           <div>
-                            <label className="block text-sm font-medium text-gray-700 mb-1">State</label>
-                            <p className="text-sm text-gray-900">{customer.state}</p>
+                            <label className="block text-sm font-medium text-gray-700 mb-1">Middle Name</label>
+                            <p className="text-sm text-gray-900">{customer.middleName}</p>
                           </div>
                         )}
-                        {customer.zipCode && (
+                        <div>
+                          <label className="block text-sm font-medium text-gray-700 mb-1">Date of Birth</label>
+                          <p className="text-sm text-gray-900">{customer.dateOfBirth}</p>
+                        </div>
+                      </div>
+                    </div>
+
+                    {/* License Information */}
+                    <div>
+                      <div className="flex flex-wrap items-center justify-between gap-2 mb-4">
+                        <h3 className="text-lg font-medium text-gray-900">License Information</h3>
+                        <ValidityBadges result={validity} />
+                      </div>
+                      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                        <div>
+                          <label className="block text-sm font-medium text-gray-700 mb-1">License Number</label>
+                          <p className="text-sm text-gray-900 font-mono">{customer.licenseNumber}</p>
+                        </div>
+                        <div>
+                          <label className="block text-sm font-medium text-gray-700 mb-1">License State</label>
+                          <p className="text-sm text-gray-900">{customer.licenseState}</p>
+                        </div>
+                        <div>
+                          <label className="block text-sm font-medium text-gray-700 mb-1">Expiration Date</label>
+                          <p className="text-sm text-gray-900">{customer.licenseExpiration}</p>
+                        </div>
+                        {customer.licenseIssueDate && (
                           <div>
-                            <label className="block text-sm font-medium text-gray-700 mb-1">ZIP Code</label>
-                            <p className="text-sm text-gray-900">{customer.zipCode}</p>
+                            <label className="block text-sm font-medium text-gray-700 mb-1">Issue Date</label>
+                            <p className="text-sm text-gray-900">{customer.licenseIssueDate}</p>
                           </div>
                         )}
                       </div>
                     </div>
-                  )}
 
-                  {/* Metadata */}
-                  <div className="pt-6 border-t border-gray-200">
-                    <h3 className="text-lg font-medium text-gray-900 mb-4">Record Information</h3>
-                    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                    {/* Address Information */}
+                    {(customer.address || customer.city || customer.state || customer.zipCode) && (
                       <div>
-                        <label className="block text-sm font-medium text-gray-700 mb-1">Created</label>
-                        <p className="text-sm text-gray-900">
-                          {new Date(customer.createdAt!).toLocaleDateString('en-US', {
-                            year: 'numeric',
-                            month: 'long',
-                            day: 'numeric',
-                            hour: '2-digit',
-                            minute: '2-digit'
-                          })}
-                        </p>
+                        <h3 className="text-lg font-medium text-gray-900 mb-4">Address</h3>
+                        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                          {customer.address && (
+                            <div className="md:col-span-2">
+                              <label className="block text-sm font-medium text-gray-700 mb-1">Street Address</label>
+                              <p className="text-sm text-gray-900">{customer.address}</p>
+                            </div>
+                          )}
+                          {customer.city && (
+                            <div>
+                              <label className="block text-sm font-medium text-gray-700 mb-1">City</label>
+                              <p className="text-sm text-gray-900">{customer.city}</p>
+                            </div>
+                          )}
+                          {customer.state && (
+                            <div>
+                              <label className="block text-sm font-medium text-gray-700 mb-1">State</label>
+                              <p className="text-sm text-gray-900">{customer.state}</p>
+                            </div>
+                          )}
+                          {customer.zipCode && (
+                            <div>
+                              <label className="block text-sm font-medium text-gray-700 mb-1">ZIP Code</label>
+                              <p className="text-sm text-gray-900">{customer.zipCode}</p>
+                            </div>
+                          )}
+                        </div>
                       </div>
+                    )}
+
+                    {/* Scanned License Images */}
+                    {scanImages.length > 0 && (
                       <div>
-                        <label className="block text-sm font-medium text-gray-700 mb-1">Last Updated</label>
-                        <p className="text-sm text-gray-900">
-                          {new Date(customer.updatedAt!).toLocaleDateString('en-US', {
-                            year: 'numeric',
-                            month: 'long',
-                            day: 'numeric',
-                            hour: '2-digit',
-                            minute: '2-digit'
-                          })}
-                        </p>
+                        <h3 className="text-lg font-medium text-gray-900 mb-4">License Images</h3>
+                        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                          {scanImages.map((image) => (
+                            <div key={image.title}>
+                              <label className="block text-sm font-medium text-gray-700 mb-1">{image.title}</label>
+                              <a
+                                href={imageUrl(image.path, 'full')}
+                                target="_blank"
+                                rel="noreferrer"
+                                className="bg-gray-100 rounded-lg p-2 h-32 flex items-center justify-center"
+                              >
+                                {imageUrl(image.path, 'thumbnail') && (
+                                  <img 
+                                    src={imageUrl(image.path, 'thumbnail')}
+                                    alt={image.title}
+                                    className="max-h-full max-w-full object-contain rounded"
+                                  />
+                                )}
+                              </a>
+                            </div>
+                          ))}
+                        </div>
+                      </div>
+                    )}
+
+                    {/* Metadata */}
+                    <div className="pt-6 border-t border-gray-200">
+                      <h3 className="text-lg font-medium text-gray-900 mb-4">Record Information</h3>
+                      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                        <div>
+                          <label className="block text-sm font-medium text-gray-700 mb-1">Created</label>
+                          <p className="text-sm text-gray-900">
+                            {new Date(customer.createdAt!).toLocaleDateString('en-US', {
+                              year: 'numeric',
+                              month: 'long',
+                              day: 'numeric',
+                              hour: '2-digit',
+                              minute: '2-digit'
+                            })}
+                          </p>
+                        </div>
+                        <div>
+                          <label className="block text-sm font-medium text-gray-700 mb-1">Last Updated</label>
+                          <p className="text-sm text-gray-900">
+                            {new Date(customer.updatedAt!).toLocaleDateString('en-US', {
+                              year: 'numeric',
+                              month: 'long',
+                              day: 'numeric',
+                              hour: '2-digit',
+                              minute: '2-digit'
+                            })}
+                          </p>
+                        </div>
                       </div>
                     </div>
                   </div>
                 </div>
               </div>
-            </div>
-          </CardContent>
-        </Card>
+            </CardContent>
+          </Card>
+        )}
+
+        {/* Legal Hold */}
+        {can('admin') && legalHold !== undefined && (
+          <Card className="shadow-material mt-6">
+            <CardHeader className="flex flex-row items-center justify-between">
+              <CardTitle>Legal Hold</CardTitle>
+              {legalHold && (
+                <Badge variant="secondary" className="bg-amber-100 text-amber-800">
+                  <LockClosedIcon className="h-3 w-3 mr-1" />
+                  On hold
+                </Badge>
+              )}
+            </CardHeader>
+            <CardContent>
+              {legalHold ? (
+                <div className="flex items-start justify-between">
+                  <div>
+                    <p className="text-sm text-gray-900">{legalHold.reason}</p>
+                    <p className="text-xs text-gray-500 mt-1">
+                      Placed {new Date(legalHold.placedAt!).toLocaleString()}
+                    </p>
+                  </div>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => legalHoldMutation.mutate(null)}
+                    disabled={legalHoldMutation.isPending}
+                  >
+                    Release Hold
+                  </Button>
+                </div>
+              ) : (
+                <form
+                  className="flex items-center space-x-2"
+                  onSubmit={(event) => {
+                    event.preventDefault();
+                    legalHoldMutation.mutate(holdReason.trim());
+                  }}
+                >
+                  <Input
+                    value={holdReason}
+                    onChange={(event) => setHoldReason(event.target.value)}
+                    placeholder="Reason, e.g. case or request reference"
+                    maxLength={500}
+                  />
+                  <Button type="submit" disabled={!holdReason.trim() || legalHoldMutation.isPending}>
+                    Place Hold
+                  </Button>
+                </form>
+              )}
+            </CardContent>
+          </Card>
+        )}
+
+        {/* Change History */}
+        {revisions && revisions.length > 0 && (
+          <Card className="shadow-material mt-6">
+            <CardHeader>
+              <CardTitle>Change History</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <ol className="relative border-l border-gray-200 ml-2 space-y-6">
+                {revisions.map((revision) => (
+                  <li key={revision.id} className="ml-4">
+                    <div className="absolute w-3 h-3 bg-gray-300 rounded-full -left-1.5 mt-1.5 border border-white"></div>
+                    <div className="flex items-start justify-between">
+                      <div>
+                        <div className="flex items-center space-x-2 mb-1">
+                          <span className="text-sm font-medium text-gray-900">
+                            {FIELD_LABELS[revision.field] ?? revision.field}
+                          </span>
+                          <Badge variant="secondary" className="bg-gray-100 text-gray-700">
+                            {SOURCE_LABELS[revision.source] ?? revision.source}
+                          </Badge>
+                          <span className="text-xs text-gray-500">
+                            {new Date(revision.createdAt!).toLocaleString()}
+                          </span>
+                        </div>
+                        <p className="text-sm">
+                          <span className="text-red-700 line-through">{revision.oldValue ?? 'empty'}</span>
+                          <span className="text-gray-400 mx-2">→</span>
+                          <span className="text-green-700">{revision.newValue ?? 'empty'}</span>
+                        </p>
+                      </div>
+                      {can('manager') && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => revertMutation.mutate(revision)}
+                          disabled={revertMutation.isPending}
+                        >
+                          <ArrowUturnLeftIcon className="h-4 w-4 mr-1" />
+                          Revert
+                        </Button>
+                      )}
+                    </div>
+                  </li>
+                ))}
+              </ol>
+            </CardContent>
+          </Card>
+        )}
+
+        {/* Image Access Log */}
+        {imageViews && imageViews.length > 0 && (
+          <Card className="shadow-material mt-6">
+            <CardHeader>
+              <CardTitle>Image Access Log</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <ul className="divide-y divide-gray-100">
+                {imageViews.slice(0, 50).map((view) => (
+                  <li key={view.id} className="py-2 flex items-center justify-between text-sm">
+                    <span className="text-gray-900">
+                      {view.operatorName ?? 'Unknown operator'} viewed {view.size === 'thumbnail' ? 'a thumbnail of ' : ''}
+                      <span className="font-mono text-xs">{view.filename.slice(0, 12)}</span>
+                    </span>
+                    <span className="flex items-center space-x-2">
+                      <Badge variant="secondary" className="bg-gray-100 text-gray-700">
+                        {view.access === 'signed-url' ? 'Signed link' : 'Session'}
+                      </Badge>
+                      <span className="text-xs text-gray-500">{new Date(view.viewedAt!).toLocaleString()}</span>
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            </CardContent>
+          </Card>
+        )}
       </main>
     </div>
   );
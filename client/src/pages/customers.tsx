@@ -0,0 +1,277 @@
+import { useEffect, useMemo, useState } from 'react';
+import { useInfiniteQuery } from '@tanstack/react-query';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { MagnifyingGlassIcon } from '@heroicons/react/24/outline';
+import { Link } from 'wouter';
+import Header from '@/components/header';
+import { apiRequest } from '@/lib/queryClient';
+import { JURISDICTIONS } from '@shared/jurisdictions';
+import type { CustomerPage, CustomerSortField } from '@shared/schema';
+
+type ExpirationWindow = 'all' | 'expired' | '30' | '90';
+
+const SORT_OPTIONS: { value: `${CustomerSortField}:${'asc' | 'desc'}`; label: string }[] = [
+  { value: 'createdAt:desc', label: 'Newest first' },
+  { value: 'createdAt:asc', label: 'Oldest first' },
+  { value: 'lastName:asc', label: 'Last name (A-Z)' },
+  { value: 'lastName:desc', label: 'Last name (Z-A)' },
+  { value: 'licenseExpiration:asc', label: 'Expiring soonest' },
+];
+
+const toISODate = (date: Date) => {
+  const year = date.getFullYear();
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${year}-${month}-${day}`;
+};
+
+const getExpirationRange = (window: ExpirationWindow): { expiresFrom?: string; expiresTo?: string } => {
+  const today = new Date();
+  if (window === 'expired') {
+    const yesterday = new Date(today);
+    yesterday.setDate(today.getDate() - 1);
+    return { expiresTo: toISODate(yesterday) };
+  }
+  if (window === '30' || window === '90') {
+    const end = new Date(today);
+    end.setDate(today.getDate() + parseInt(window));
+    return { expiresFrom: toISODate(today), expiresTo: toISODate(end) };
+  }
+  return {};
+};
+
+export default function Customers() {
+  const [searchInput, setSearchInput] = useState('');
+  const [search, setSearch] = useState('');
+  const [licenseState, setLicenseState] = useState('all');
+  const [expirationWindow, setExpirationWindow] = useState<ExpirationWindow>('all');
+  const [createdFrom, setCreatedFrom] = useState('');
+  const [createdTo, setCreatedTo] = useState('');
+  const [sort, setSort] = useState<string>('createdAt:desc');
+
+  // Debounce free-text search so we don't query on every keystroke
+  useEffect(() => {
+    const timeout = setTimeout(() => setSearch(searchInput.trim()), 300);
+    return () => clearTimeout(timeout);
+  }, [searchInput]);
+
+  const filters = useMemo(() => {
+    const [sortBy, sortOrder] = sort.split(':');
+    const params: Record<string, string> = { sortBy, sortOrder };
+    if (search) params.search = search;
+    if (licenseState !== 'all') params.licenseState = licenseState;
+    if (createdFrom) params.createdFrom = createdFrom;
+    if (createdTo) params.createdTo = createdTo;
+    return { ...params, ...getExpirationRange(expirationWindow) };
+  }, [search, licenseState, expirationWindow, createdFrom, createdTo, sort]);
+
+  const { data, error, isLoading, fetchNextPage, hasNextPage, isFetchingNextPage } = useInfiniteQuery({
+    queryKey: ['/api/customers', filters],
+    queryFn: async ({ pageParam }) => {
+      const params = new URLSearchParams(filters);
+      if (pageParam) params.set('cursor', pageParam);
+      const response = await apiRequest('GET', `/api/customers?${params.toString()}`);
+      return response.json() as Promise<CustomerPage>;
+    },
+    initialPageParam: undefined as string | undefined,
+    getNextPageParam: (lastPage) => lastPage.nextCursor ?? undefined,
+  });
+
+  const customers = data?.pages.flatMap((page) => page.customers) ?? [];
+
+  const resetFilters = () => {
+    setSearchInput('');
+    setLicenseState('all');
+    setExpirationWindow('all');
+    setCreatedFrom('');
+    setCreatedTo('');
+    setSort('createdAt:desc');
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <Header />
+
+      <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <h1 className="text-2xl font-semibold text-gray-900 mb-6">Customers</h1>
+
+        {/* Filters */}
+        <Card className="shadow-material mb-6">
+          <CardContent className="p-6">
+            <div className="grid grid-cols-1 md:grid-cols-3 lg:grid-cols-6 gap-4 items-end">
+              <div className="lg:col-span-2">
+                <Label className="text-sm font-medium text-gray-700 mb-2 block">Search</Label>
+                <div className="relative">
+                  <MagnifyingGlassIcon className="h-4 w-4 text-gray-400 absolute left-3 top-1/2 -translate-y-1/2" />
+                  <Input
+                    value={searchInput}
+                    onChange={(e) => setSearchInput(e.target.value)}
+                    placeholder="Name or license number"
+                    className="pl-9"
+                  />
+                </div>
+              </div>
+
+              <div>
+                <Label className="text-sm font-medium text-gray-700 mb-2 block">License State</Label>
+                <Select value={licenseState} onValueChange={setLicenseState}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">All states</SelectItem>
+                    {JURISDICTIONS.map((jurisdiction) => (
+                      <SelectItem key={jurisdiction.code} value={jurisdiction.code}>
+                        {jurisdiction.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div>
+                <Label className="text-sm font-medium text-gray-700 mb-2 block">Expiration</Label>
+                <Select value={expirationWindow} onValueChange={(value) => setExpirationWindow(value as ExpirationWindow)}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">Any</SelectItem>
+                    <SelectItem value="expired">Expired</SelectItem>
+                    <SelectItem value="30">Expires within 30 days</SelectItem>
+                    <SelectItem value="90">Expires within 90 days</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div>
+                <Label className="text-sm font-medium text-gray-700 mb-2 block">Created From</Label>
+                <Input type="date" value={createdFrom} onChange={(e) => setCreatedFrom(e.target.value)} />
+              </div>
+
+              <div>
+                <Label className="text-sm font-medium text-gray-700 mb-2 block">Created To</Label>
+                <Input type="date" value={createdTo} onChange={(e) => setCreatedTo(e.target.value)} />
+              </div>
+            </div>
+
+            <div className="flex items-center justify-between mt-4">
+              <div className="w-56">
+                <Select value={sort} onValueChange={setSort}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {SORT_OPTIONS.map((option) => (
+                      <SelectItem key={option.value} value={option.value}>
+                        {option.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <Button variant="ghost" onClick={resetFilters}>
+                Clear filters
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+
+        {/* Results */}
+        <Card className="shadow-material">
+          <CardHeader>
+            <CardTitle className="text-xl">Customer Directory</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {error ? (
+              <Alert variant="destructive">
+                <AlertDescription>Failed to load customers. Please try again.</AlertDescription>
+              </Alert>
+            ) : (
+              <div className="overflow-hidden">
+                <table className="min-w-full divide-y divide-gray-200">
+                  <thead className="bg-gray-50">
+                    <tr>
+                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Customer</th>
+                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">License #</th>
+                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">State</th>
+                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Expires</th>
+                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Created</th>
+                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Actions</th>
+                    </tr>
+                  </thead>
+                  <tbody className="bg-white divide-y divide-gray-200">
+                    {isLoading ? (
+                      <tr>
+                        <td colSpan={6} className="px-6 py-4 text-center text-gray-500">
+                          Loading customers...
+                        </td>
+                      </tr>
+                    ) : customers.length > 0 ? (
+                      customers.map((customer) => (
+                        <tr key={customer.id} className="hover:bg-gray-50">
+                          <td className="px-6 py-4 whitespace-nowrap">
+                            <div className="flex items-center">
+                              <div className="h-8 w-8 rounded-full bg-gray-300 flex items-center justify-center">
+                                <span className="text-xs text-gray-600">
+                                  {customer.firstName.charAt(0)}{customer.lastName.charAt(0)}
+                                </span>
+                              </div>
+                              <div className="ml-3">
+                                <div className="text-sm font-medium text-gray-900">
+                                  {customer.firstName} {customer.lastName}
+                                </div>
+                              </div>
+                            </div>
+                          </td>
+                          <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900 font-mono">
+                            {customer.licenseNumber}
+                          </td>
+                          <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                            {customer.licenseState}
+                          </td>
+                          <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                            {customer.licenseExpiration}
+                          </td>
+                          <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                            {new Date(customer.createdAt!).toLocaleDateString()}
+                          </td>
+                          <td className="px-6 py-4 whitespace-nowrap text-sm font-medium">
+                            <Link href={`/customer/${customer.id}`}>
+                              <Button variant="ghost" size="sm" className="text-blue-700 hover:text-blue-900">
+                                View
+                              </Button>
+                            </Link>
+                          </td>
+                        </tr>
+                      ))
+                    ) : (
+                      <tr>
+                        <td colSpan={6} className="px-6 py-4 text-center text-gray-500">
+                          No customers match these filters.
+                        </td>
+                      </tr>
+                    )}
+                  </tbody>
+                </table>
+
+                {hasNextPage && (
+                  <div className="flex justify-center pt-4">
+                    <Button variant="outline" onClick={() => fetchNextPage()} disabled={isFetchingNextPage}>
+                      {isFetchingNextPage ? 'Loading...' : 'Load more'}
+                    </Button>
+                  </div>
+                )}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </main>
+    </div>
+  );
+}
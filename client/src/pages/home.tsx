@@ -1,5 +1,5 @@
 import { useState } from 'react';
-import { useQuery } from '@tanstack/react-query';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
@@ -10,6 +10,7 @@ import Header from '@/components/header';
 import CameraCapture from '@/components/camera-capture';
 import FileUpload from '@/components/file-upload';
 import CustomerForm from '@/components/customer-form';
+import AgeCheck from '@/components/age-check';
 
 import { 
   CameraIcon, 
@@ -17,15 +18,34 @@ import {
   CheckCircleIcon,
   ExclamationTriangleIcon,
   UsersIcon,
-  EyeIcon
+  EyeIcon,
+  ShieldCheckIcon
 } from '@heroicons/react/24/outline';
-import { barcodeDecoder } from '@/lib/barcode-decoder';
+import { barcodeDecoder, type BarcodeData } from '@/lib/barcode-decoder';
 import { faceDetectionService } from '@/lib/face-detection';
+import { edgeDetectionService } from '@/lib/edge-detection';
 import { ocrService } from '@/lib/ocr-service';
 import { useToast } from '@/hooks/use-toast';
-import type { Customer } from '@shared/schema';
-
-type ScanMode = 'none' | 'camera' | 'upload';
+import { apiRequest } from '@/lib/queryClient';
+import type { Customer, ScanSession } from '@shared/schema';
+import { extractionValues, mergeExtraction, type ExtractionInput, type ExtractionResult } from '@shared/extraction';
+import type { DocumentDates } from '@shared/document-validity';
+import type { ScanImageQuality } from '@shared/image-quality';
+
+// Barcode-only dates that the form's validity checks take into account
+const barcodeDocumentDates = (data?: BarcodeData | null): DocumentDates | undefined => data ? {
+  cardRevisionDate: data.cardRevisionDate,
+  under18Until: data.under18Until,
+  under21Until: data.under21Until,
+} : undefined;
+
+// The card flattened from its detected corners, or the photo as taken when no card edges are found
+const straightenCard = async (image: string): Promise<string> => {
+  const result = await edgeDetectionService.detectAndCropLicense(image);
+  return result.success && result.croppedImage ? result.croppedImage : image;
+};
+
+type ScanMode = 'none' | 'camera' | 'upload' | 'age-check';
 type ProcessingStep = 'idle' | 'uploading' | 'decoding' | 'ocr' | 'extracting' | 'complete';
 
 export default function Home() {
@@ -34,6 +54,8 @@ export default function Home() {
   const [processingStep, setProcessingStep] = useState<ProcessingStep>('idle');
   const [processingProgress, setProcessingProgress] = useState(0);
   const [extractedData, setExtractedData] = useState<any>(null);
+  const [extraction, setExtraction] = useState<ExtractionResult | undefined>();
+  const [scanSession, setScanSession] = useState<ScanSession | null>(null);
   const [profilePhoto, setProfilePhoto] = useState<string | null>(null);
   const [signature, setSignature] = useState<string | null>(null);
   const [frontLicense, setFrontLicense] = useState<string | null>(null);
@@ -42,6 +64,29 @@ export default function Home() {
   const [showCustomerForm, setShowCustomerForm] = useState(false);
   
   const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  // Log the scan; with both sides read, the server cross-checks them for tampering
+  const recordScanSession = async (session: {
+    status: 'complete' | 'failed';
+    errorMessage?: string;
+    front?: object | null;
+    back?: object | null;
+    imageQuality?: ScanImageQuality;
+  }): Promise<ScanSession | null> => {
+    try {
+      const response = await apiRequest('POST', '/api/scan-sessions', {
+        ...session,
+        front: session.front ?? undefined,
+        back: session.back ?? undefined,
+      });
+      queryClient.invalidateQueries({ queryKey: ['/api/stats/today'] });
+      return await response.json();
+    } catch (error) {
+      console.error('Failed to record scan session:', error);
+      return null;
+    }
+  };
 
   // Fetch today's stats
   const { data: stats } = useQuery({
@@ -53,24 +98,28 @@ export default function Home() {
     queryKey: ['/api/customers/recent'],
   }) as { data: Customer[] | undefined };
 
-  const handleCameraCapture = async (frontImage: string, backImage: string, face?: string, signature?: string, barcode?: string) => {
-    await processImages(frontImage, backImage, face, signature, barcode, frontImage, backImage);
+  const handleCameraCapture = async (frontImage: string, backImage: string, face?: string, signature?: string, barcode?: string, quality?: ScanImageQuality) => {
+    await processImages(frontImage, backImage, face, signature, barcode, frontImage, backImage, quality);
   };
 
-  const handleFileUpload = async (frontFile: File | null, backFile: File | null, face?: string, signature?: string, barcode?: string) => {
+  const handleFileUpload = async (frontFile: File | null, backFile: File | null, face?: string, signature?: string, barcode?: string, frontLicense?: string, backLicense?: string, quality?: ScanImageQuality) => {
     if (!frontFile && !backFile) return;
 
     const frontImage = frontFile ? await fileToDataURL(frontFile) : null;
     const backImage = backFile ? await fileToDataURL(backFile) : null;
 
-    await processImages(frontImage, backImage, face, signature, barcode, frontImage || undefined, backImage || undefined);
+    await processImages(frontImage, backImage, face, signature, barcode, frontLicense, backLicense, quality);
   };
 
   const handleBarcodeDetected = (barcodeData: any) => {
-    console.log('Barcode data detected:', barcodeData);
-    
     // Set the barcode data and go directly to customer form
-    setExtractedData(barcodeData);
+    const barcodeExtraction = mergeExtraction([{ source: 'barcode', confidence: 0.95, fields: barcodeData }]);
+    setExtraction(barcodeExtraction);
+    setExtractedData({
+      ...extractionValues(barcodeExtraction),
+      issuerWarnings: barcodeData?.issuerWarnings,
+      documentDates: barcodeDocumentDates(barcodeData),
+    });
     setShowCustomerForm(true);
     setScanMode('none');
     
@@ -88,7 +137,7 @@ export default function Home() {
     });
   };
 
-  const processImages = async (frontImage: string | null, backImage: string | null, preCroppedFace?: string, preCroppedSignature?: string, preCroppedBarcode?: string, preCroppedFrontLicense?: string, preCroppedBackLicense?: string) => {
+  const processImages = async (frontImage: string | null, backImage: string | null, preCroppedFace?: string, preCroppedSignature?: string, preCroppedBarcode?: string, preCroppedFrontLicense?: string, preCroppedBackLicense?: string, quality?: ScanImageQuality) => {
     setIsProcessing(true);
     setProcessingStep('uploading');
     setProcessingProgress(0);
@@ -104,11 +153,25 @@ export default function Home() {
       setProcessingProgress(40);
       
       let barcodeData = null;
+      let barcodeConfidence = 0;
       if (backImage) {
-        const result = await barcodeDecoder.decodeBarcode(backImage);
+        let result = await barcodeDecoder.decodeBarcode(backImage);
+        if (!result.success) {
+          console.warn('Browser barcode decoding failed, trying server:', result.error);
+          result = await barcodeDecoder.decodeBarcodeOnServer(backImage);
+        }
         if (result.success && result.data) {
           barcodeData = result.data;
+          barcodeConfidence = result.confidence ?? 0;
           console.log('Barcode decoded successfully:', barcodeData);
+
+          if (barcodeData.issuerWarnings) {
+            toast({
+              title: "Check issuing jurisdiction",
+              description: barcodeData.issuerWarnings.join(' '),
+              variant: "destructive",
+            });
+          }
         } else {
           console.warn('Barcode decoding failed:', result.error);
           toast({
@@ -119,29 +182,33 @@ export default function Home() {
         }
       }
 
+      // Each side straightened onto a flat card, unless the crop tool already did; OCR and
+      // face detection read the flat card
+      const frontLicense = preCroppedFrontLicense ?? (frontImage ? await straightenCard(frontImage) : undefined);
+      const backLicense = preCroppedBackLicense ?? (backImage ? await straightenCard(backImage) : undefined);
+
       // Step 3: OCR text extraction from front license image
       setProcessingStep('ocr');
       setProcessingProgress(55);
       
       let ocrData = null;
-      if (frontImage || preCroppedFrontLicense) {
-        const imageToProcess = preCroppedFrontLicense || frontImage;
-        if (imageToProcess) {
-          try {
-            const result = await ocrService.extractTextFromLicense(imageToProcess);
-            if (result.success && result.data) {
-              ocrData = result.data;
-              console.log('OCR extraction successful:', ocrData);
-              toast({
-                title: "Text extracted",
-                description: "License text information has been read automatically.",
-              });
-            } else {
-              console.warn('OCR extraction failed:', result.error);
-            }
-          } catch (error) {
-            console.error('OCR processing error:', error);
+      let ocrConfidence = 0;
+      if (frontLicense) {
+        try {
+          const result = await ocrService.extractTextFromLicense(frontLicense);
+          if (result.success && result.data) {
+            ocrData = result.data;
+            ocrConfidence = result.confidence ?? 0;
+            console.log('OCR extraction successful:', ocrData);
+            toast({
+              title: "Text extracted",
+              description: "License text information has been read automatically.",
+            });
+          } else {
+            console.warn('OCR extraction failed:', result.error);
           }
+        } catch (error) {
+          console.error('OCR processing error:', error);
         }
       }
 
@@ -154,10 +221,13 @@ export default function Home() {
 
       // Only do automatic extraction if no pre-cropped images were provided
       if (!preCroppedFace || !preCroppedSignature) {
-        if (frontImage) {
+        if (frontLicense) {
           // Extract face if not provided
           if (!preCroppedFace) {
-            const faceResult = await faceDetectionService.detectAndCropFace(frontImage);
+            const faceResult = await faceDetectionService.detectAndCropFace(frontLicense, {
+              jurisdiction: barcodeData?.licenseState,
+              issueDate: barcodeData?.issueDate,
+            });
             if (faceResult.success && faceResult.croppedImage) {
               extractedPhoto = faceResult.croppedImage;
             }
@@ -165,8 +235,7 @@ export default function Home() {
 
           // Extract signature if not provided
           if (!preCroppedSignature) {
-            const licenseState = barcodeData?.state || 'CA';
-            const signatureResult = await faceDetectionService.extractSignature(frontImage, licenseState);
+            const signatureResult = await faceDetectionService.extractSignature(frontLicense, barcodeData?.licenseState, barcodeData?.issueDate);
             if (signatureResult.success && signatureResult.croppedImage) {
               extractedSignature = signatureResult.croppedImage;
             }
@@ -178,15 +247,32 @@ export default function Home() {
       setProcessingStep('complete');
       setProcessingProgress(100);
 
-      // Merge barcode data with OCR data, prioritizing barcode data for accuracy
-      const mergedData = { ...ocrData, ...barcodeData };
+      // Merge field by field, keeping each value's source so the form can flag disagreements
+      const sources: ExtractionInput[] = [];
+      if (barcodeData) sources.push({ source: 'barcode', confidence: barcodeConfidence, fields: barcodeData });
+      if (ocrData) sources.push({ source: 'ocr', confidence: ocrConfidence, fields: ocrData });
+      const mergedExtraction = mergeExtraction(sources);
       
+      const session = await recordScanSession({
+        status: barcodeData || ocrData ? 'complete' : 'failed',
+        errorMessage: barcodeData || ocrData ? undefined : 'No license data could be read',
+        front: ocrData,
+        back: barcodeData,
+        imageQuality: quality,
+      });
+
       // Set results
-      setExtractedData(mergedData);
+      setScanSession(session);
+      setExtraction(mergedExtraction);
+      setExtractedData({
+        ...extractionValues(mergedExtraction),
+        issuerWarnings: barcodeData?.issuerWarnings,
+        documentDates: barcodeDocumentDates(barcodeData),
+      });
       setProfilePhoto(extractedPhoto ?? null);
       setSignature(extractedSignature ?? null);
-      setFrontLicense(preCroppedFrontLicense ?? null);
-      setBackLicense(preCroppedBackLicense ?? null);
+      setFrontLicense(frontLicense ?? null);
+      setBackLicense(backLicense ?? null);
       setBarcode(preCroppedBarcode ?? null);
       setShowCustomerForm(true);
 
@@ -206,6 +292,11 @@ export default function Home() {
 
     } catch (error) {
       console.error('Processing error:', error);
+      await recordScanSession({
+        status: 'failed',
+        errorMessage: error instanceof Error ? error.message : 'Processing failed',
+        imageQuality: quality,
+      });
       toast({
         title: "Processing failed",
         description: "Failed to process license images. Please try again.",
@@ -218,8 +309,15 @@ export default function Home() {
   };
 
   const handleCustomerSaved = (customer: Customer) => {
+    if (scanSession) {
+      apiRequest('PUT', `/api/scan-sessions/${scanSession.id}`, { customerId: customer.id })
+        .catch((error) => console.error('Failed to link scan session:', error));
+    }
+
     setShowCustomerForm(false);
+    setScanSession(null);
     setExtractedData(null);
+    setExtraction(undefined);
     setProfilePhoto(null);
     setSignature(null);
     setFrontLicense(null);
@@ -275,6 +373,10 @@ export default function Home() {
             frontLicense={frontLicense || undefined}
             backLicense={backLicense || undefined}
             barcode={barcode || undefined}
+            warnings={extractedData?.issuerWarnings}
+            documentDates={extractedData?.documentDates}
+            extraction={extraction}
+            consistencyReport={scanSession?.consistencyReport ?? undefined}
             onSave={handleCustomerSaved}
           />
         </main>
@@ -296,6 +398,10 @@ export default function Home() {
     );
   }
 
+  if (scanMode === 'age-check') {
+    return <AgeCheck onClose={() => setScanMode('none')} />;
+  }
+
   if (scanMode === 'upload') {
     return (
       <div className="min-h-screen bg-gray-50">
@@ -355,6 +461,19 @@ export default function Home() {
                     <p className="text-sm text-gray-600 text-center">Upload photos of front and back of license</p>
                   </Button>
 
+                  {/* Age Check Button */}
+                  <Button
+                    onClick={() => setScanMode('age-check')}
+                    disabled={isProcessing}
+                    className="group relative bg-green-50 hover:bg-green-100 border-2 border-green-200 hover:border-green-300 rounded-lg p-6 h-auto flex flex-col items-center transition-all duration-200 text-gray-900"
+                    variant="outline"
+                  >
+                    <div className="bg-green-600 text-white rounded-full p-3 mb-3 group-hover:bg-green-700 transition-colors">
+                      <ShieldCheckIcon className="h-8 w-8" />
+                    </div>
+                    <h3 className="text-lg font-semibold mb-1">Age Check</h3>
+                    <p className="text-sm text-gray-600 text-center">Scan the barcode to confirm age without saving a profile</p>
+                  </Button>
 
                 </div>
 
@@ -404,6 +523,13 @@ export default function Home() {
                 </div>
                 <span className="text-2xl font-bold text-gray-900">{(stats as any)?.newCustomers || 0}</span>
               </div>
+              <div className="flex items-center justify-between">
+                <div className="flex items-center">
+                  <ShieldCheckIcon className="h-5 w-5 text-green-600 mr-2" />
+                  <span className="text-sm text-gray-600">Age Checks</span>
+                </div>
+                <span className="text-2xl font-bold text-gray-900">{(stats as any)?.ageChecks || 0}</span>
+              </div>
             </CardContent>
           </Card>
         </div>
@@ -412,10 +538,12 @@ export default function Home() {
         <Card className="shadow-material">
           <CardHeader className="flex flex-row items-center justify-between">
             <CardTitle className="text-xl">Recent Customers</CardTitle>
-            <Button variant="ghost" className="text-blue-700 hover:text-blue-900 flex items-center">
-              <EyeIcon className="h-4 w-4 mr-1" />
-              View All
-            </Button>
+            <Link href="/customers">
+              <Button variant="ghost" className="text-blue-700 hover:text-blue-900 flex items-center">
+                <EyeIcon className="h-4 w-4 mr-1" />
+                View All
+              </Button>
+            </Link>
           </CardHeader>
           <CardContent>
             <div className="overflow-hidden">
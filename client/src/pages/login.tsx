@@ -0,0 +1,86 @@
+import { useState } from 'react';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { DocumentTextIcon } from '@heroicons/react/24/outline';
+import { apiRequest } from '@/lib/queryClient';
+import type { Operator } from '@shared/schema';
+
+export default function Login() {
+  const [username, setUsername] = useState('');
+  const [password, setPassword] = useState('');
+  const queryClient = useQueryClient();
+
+  const loginMutation = useMutation({
+    mutationFn: async (): Promise<Operator> => {
+      const response = await apiRequest('POST', '/api/auth/login', { username, password });
+      return response.json();
+    },
+    onSuccess: (operator) => {
+      setPassword('');
+      queryClient.setQueryData(['/api/auth/me'], operator);
+    },
+  });
+
+  const handleSubmit = (event: React.FormEvent) => {
+    event.preventDefault();
+    loginMutation.mutate();
+  };
+
+  const invalidCredentials = loginMutation.error?.message.startsWith('401:');
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gray-50 px-4">
+      <Card className="w-full max-w-sm shadow-material">
+        <CardHeader className="items-center text-center">
+          <DocumentTextIcon className="h-10 w-10 text-blue-700 mb-2" />
+          <CardTitle>License Scanner</CardTitle>
+          <p className="text-sm text-gray-500">Sign in with your operator account</p>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div>
+              <Label htmlFor="username" className="text-sm font-medium text-gray-700 mb-2 block">Username</Label>
+              <Input
+                id="username"
+                autoComplete="username"
+                autoFocus
+                value={username}
+                onChange={(e) => setUsername(e.target.value)}
+              />
+            </div>
+            <div>
+              <Label htmlFor="password" className="text-sm font-medium text-gray-700 mb-2 block">Password</Label>
+              <Input
+                id="password"
+                type="password"
+                autoComplete="current-password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+              />
+            </div>
+
+            {loginMutation.isError && (
+              <Alert variant="destructive">
+                <AlertDescription>
+                  {invalidCredentials ? 'Invalid username or password.' : 'Failed to sign in. Please try again.'}
+                </AlertDescription>
+              </Alert>
+            )}
+
+            <Button
+              type="submit"
+              className="w-full bg-blue-700 hover:bg-blue-900"
+              disabled={!username || !password || loginMutation.isPending}
+            >
+              {loginMutation.isPending ? 'Signing in...' : 'Sign In'}
+            </Button>
+          </form>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,263 @@
+import { useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { KeyIcon, PlusIcon } from '@heroicons/react/24/outline';
+import Header from '@/components/header';
+import { apiRequest } from '@/lib/queryClient';
+import { useAuth } from '@/hooks/use-auth';
+import { useToast } from '@/hooks/use-toast';
+import { operatorRoles, ROLE_LABELS, type OperatorRole } from '@shared/roles';
+import type { CreateOperator, Operator, UpdateOperator } from '@shared/schema';
+
+const EMPTY_OPERATOR: CreateOperator = { username: '', displayName: '', role: 'scanner', password: '' };
+
+// Server messages arrive as "<status>: <json body>"
+const errorMessage = (error: Error) => {
+  try {
+    return JSON.parse(error.message.slice(error.message.indexOf(':') + 1)).message as string;
+  } catch {
+    return error.message;
+  }
+};
+
+export default function Operators() {
+  const { operator: currentOperator } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [newOperator, setNewOperator] = useState<CreateOperator | null>(null);
+  const [passwordFor, setPasswordFor] = useState<Operator | null>(null);
+  const [password, setPassword] = useState('');
+
+  const { data: operators, isLoading, error } = useQuery<Operator[]>({
+    queryKey: ['/api/operators'],
+  });
+
+  const createMutation = useMutation({
+    mutationFn: async (operator: CreateOperator) => {
+      const response = await apiRequest('POST', '/api/operators', operator);
+      return response.json();
+    },
+    onSuccess: (operator: Operator) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/operators'] });
+      setNewOperator(null);
+      toast({ title: "Operator added", description: `${operator.displayName} can now sign in.` });
+    },
+    onError: (error) => {
+      toast({ title: "Error", description: errorMessage(error), variant: "destructive" });
+    },
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: async ({ id, ...updates }: UpdateOperator & { id: number }) => {
+      const response = await apiRequest('PUT', `/api/operators/${id}`, updates);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/operators'] });
+    },
+    onError: (error) => {
+      toast({ title: "Error", description: errorMessage(error), variant: "destructive" });
+    },
+  });
+
+  const handleSetPassword = () => {
+    updateMutation.mutate({ id: passwordFor!.id, password }, {
+      onSuccess: () => {
+        toast({ title: "Password changed", description: `${passwordFor!.displayName}'s password has been reset.` });
+        setPasswordFor(null);
+        setPassword('');
+      },
+    });
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <Header />
+
+      <main className="max-w-5xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <div className="flex items-center justify-between mb-6">
+          <h1 className="text-2xl font-semibold text-gray-900">Operators</h1>
+          <Button onClick={() => setNewOperator(EMPTY_OPERATOR)} className="bg-blue-700 hover:bg-blue-900">
+            <PlusIcon className="h-4 w-4 mr-2" />
+            Add Operator
+          </Button>
+        </div>
+
+        {error && (
+          <Alert variant="destructive" className="mb-6">
+            <AlertDescription>Failed to load operators.</AlertDescription>
+          </Alert>
+        )}
+
+        <Card className="shadow-material">
+          <CardHeader>
+            <CardTitle>Accounts</CardTitle>
+            <p className="text-sm text-gray-500">
+              Scanners scan and add customers, managers can also edit them, and admins manage accounts.
+            </p>
+          </CardHeader>
+          <CardContent>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Name</TableHead>
+                  <TableHead>Username</TableHead>
+                  <TableHead>Role</TableHead>
+                  <TableHead>Last sign in</TableHead>
+                  <TableHead>Active</TableHead>
+                  <TableHead />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {isLoading && (
+                  <TableRow>
+                    <TableCell colSpan={6} className="text-center text-gray-500">Loading...</TableCell>
+                  </TableRow>
+                )}
+                {operators?.map((operator) => {
+                  const isSelf = operator.id === currentOperator?.id;
+                  return (
+                    <TableRow key={operator.id}>
+                      <TableCell className="font-medium">{operator.displayName}</TableCell>
+                      <TableCell className="text-gray-600">{operator.username}</TableCell>
+                      <TableCell>
+                        <Select
+                          value={operator.role}
+                          onValueChange={(role) => updateMutation.mutate({ id: operator.id, role: role as OperatorRole })}
+                          disabled={isSelf}
+                        >
+                          <SelectTrigger className="w-32">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {operatorRoles.map((role) => (
+                              <SelectItem key={role} value={role}>{ROLE_LABELS[role]}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </TableCell>
+                      <TableCell className="text-gray-600">
+                        {operator.lastLoginAt ? new Date(operator.lastLoginAt).toLocaleString() : 'Never'}
+                      </TableCell>
+                      <TableCell>
+                        <Switch
+                          checked={operator.active}
+                          onCheckedChange={(active) => updateMutation.mutate({ id: operator.id, active })}
+                          disabled={isSelf}
+                        />
+                      </TableCell>
+                      <TableCell className="text-right">
+                        <Button variant="ghost" size="sm" onClick={() => setPasswordFor(operator)}>
+                          <KeyIcon className="h-4 w-4 mr-1" />
+                          Reset Password
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      </main>
+
+      <Dialog open={!!newOperator} onOpenChange={(open) => !open && setNewOperator(null)}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>Add Operator</DialogTitle>
+          </DialogHeader>
+          {newOperator && (
+            <div className="space-y-4">
+              <div>
+                <Label className="text-sm font-medium text-gray-700 mb-2 block">Name</Label>
+                <Input
+                  value={newOperator.displayName}
+                  onChange={(e) => setNewOperator({ ...newOperator, displayName: e.target.value })}
+                />
+              </div>
+              <div>
+                <Label className="text-sm font-medium text-gray-700 mb-2 block">Username</Label>
+                <Input
+                  value={newOperator.username}
+                  autoComplete="off"
+                  onChange={(e) => setNewOperator({ ...newOperator, username: e.target.value })}
+                />
+              </div>
+              <div>
+                <Label className="text-sm font-medium text-gray-700 mb-2 block">Role</Label>
+                <Select
+                  value={newOperator.role}
+                  onValueChange={(role) => setNewOperator({ ...newOperator, role: role as OperatorRole })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {operatorRoles.map((role) => (
+                      <SelectItem key={role} value={role}>{ROLE_LABELS[role]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label className="text-sm font-medium text-gray-700 mb-2 block">Password</Label>
+                <Input
+                  type="password"
+                  autoComplete="new-password"
+                  value={newOperator.password}
+                  onChange={(e) => setNewOperator({ ...newOperator, password: e.target.value })}
+                />
+                <p className="text-xs text-gray-500 mt-1">At least 8 characters</p>
+              </div>
+            </div>
+          )}
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setNewOperator(null)} disabled={createMutation.isPending}>
+              Cancel
+            </Button>
+            <Button
+              onClick={() => createMutation.mutate(newOperator!)}
+              disabled={createMutation.isPending || !newOperator?.username || !newOperator?.displayName || (newOperator?.password.length ?? 0) < 8}
+            >
+              {createMutation.isPending ? 'Adding...' : 'Add Operator'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!passwordFor} onOpenChange={(open) => !open && setPasswordFor(null)}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>Reset password for {passwordFor?.displayName}</DialogTitle>
+          </DialogHeader>
+          <div>
+            <Label className="text-sm font-medium text-gray-700 mb-2 block">New password</Label>
+            <Input
+              type="password"
+              autoComplete="new-password"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+            />
+            <p className="text-xs text-gray-500 mt-1">At least 8 characters</p>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setPasswordFor(null)} disabled={updateMutation.isPending}>
+              Cancel
+            </Button>
+            <Button onClick={handleSetPassword} disabled={updateMutation.isPending || password.length < 8}>
+              Reset Password
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
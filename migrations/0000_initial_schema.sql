@@ -0,0 +1,38 @@
+CREATE TABLE "customers" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"first_name" text NOT NULL,
+	"last_name" text NOT NULL,
+	"middle_name" text,
+	"date_of_birth" date NOT NULL,
+	"license_number" text NOT NULL,
+	"license_state" text NOT NULL,
+	"license_expiration" date NOT NULL,
+	"address" text,
+	"city" text,
+	"state" text,
+	"zip_code" text,
+	"profile_photo_path" text,
+	"signature_path" text,
+	"created_at" timestamp DEFAULT now(),
+	"updated_at" timestamp DEFAULT now(),
+	CONSTRAINT "customers_license_number_unique" UNIQUE("license_number")
+);
+--> statement-breakpoint
+CREATE TABLE "license_images" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"customer_id" integer,
+	"front_image_path" text,
+	"back_image_path" text,
+	"created_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+CREATE TABLE "scan_sessions" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"customer_id" integer,
+	"scan_date" timestamp DEFAULT now(),
+	"status" text NOT NULL,
+	"error_message" text
+);
+--> statement-breakpoint
+ALTER TABLE "license_images" ADD CONSTRAINT "license_images_customer_id_customers_id_fk" FOREIGN KEY ("customer_id") REFERENCES "public"."customers"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "scan_sessions" ADD CONSTRAINT "scan_sessions_customer_id_customers_id_fk" FOREIGN KEY ("customer_id") REFERENCES "public"."customers"("id") ON DELETE no action ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1,3 @@
+ALTER TABLE "license_images" ADD COLUMN "face_image_path" text;--> statement-breakpoint
+ALTER TABLE "license_images" ADD COLUMN "signature_image_path" text;--> statement-breakpoint
+ALTER TABLE "license_images" ADD COLUMN "barcode_image_path" text;
\ No newline at end of file
@@ -0,0 +1,2 @@
+ALTER TABLE "scan_sessions" ADD COLUMN "consistency_report" jsonb;--> statement-breakpoint
+ALTER TABLE "scan_sessions" ADD COLUMN "risk_score" integer;
\ No newline at end of file
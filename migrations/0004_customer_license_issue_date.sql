@@ -0,0 +1 @@
+ALTER TABLE "customers" ADD COLUMN "license_issue_date" date;
\ No newline at end of file
@@ -0,0 +1,4 @@
+ALTER TABLE "scan_sessions" ADD COLUMN "mode" text DEFAULT 'customer' NOT NULL;--> statement-breakpoint
+ALTER TABLE "scan_sessions" ADD COLUMN "outcome" text;--> statement-breakpoint
+ALTER TABLE "scan_sessions" ADD COLUMN "license_hash" text;--> statement-breakpoint
+CREATE INDEX "scan_sessions_license_hash_idx" ON "scan_sessions" USING btree ("license_hash");
\ No newline at end of file
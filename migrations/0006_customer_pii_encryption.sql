@@ -0,0 +1,6 @@
+ALTER TABLE "customers" DROP CONSTRAINT "customers_license_number_unique";--> statement-breakpoint
+ALTER TABLE "customers" ALTER COLUMN "date_of_birth" SET DATA TYPE text;--> statement-breakpoint
+ALTER TABLE "customers" ADD COLUMN "date_of_birth_index" text;--> statement-breakpoint
+ALTER TABLE "customers" ADD COLUMN "license_number_index" text;--> statement-breakpoint
+CREATE INDEX "customers_date_of_birth_index_idx" ON "customers" USING btree ("date_of_birth_index");--> statement-breakpoint
+ALTER TABLE "customers" ADD CONSTRAINT "customers_license_number_index_unique" UNIQUE("license_number_index");
\ No newline at end of file
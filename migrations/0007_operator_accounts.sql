@@ -0,0 +1,27 @@
+CREATE TABLE "operators" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"username" text NOT NULL,
+	"display_name" text NOT NULL,
+	"password_hash" text NOT NULL,
+	"role" text DEFAULT 'scanner' NOT NULL,
+	"active" boolean DEFAULT true NOT NULL,
+	"created_at" timestamp DEFAULT now(),
+	"last_login_at" timestamp,
+	CONSTRAINT "operators_username_unique" UNIQUE("username")
+);
+--> statement-breakpoint
+CREATE TABLE "session" (
+	"sid" varchar PRIMARY KEY NOT NULL,
+	"sess" json NOT NULL,
+	"expire" timestamp (6) NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "customer_revisions" ADD COLUMN "operator_id" integer;--> statement-breakpoint
+ALTER TABLE "customers" ADD COLUMN "created_by" integer;--> statement-breakpoint
+ALTER TABLE "customers" ADD COLUMN "updated_by" integer;--> statement-breakpoint
+ALTER TABLE "scan_sessions" ADD COLUMN "operator_id" integer;--> statement-breakpoint
+CREATE INDEX "IDX_session_expire" ON "session" USING btree ("expire");--> statement-breakpoint
+ALTER TABLE "customer_revisions" ADD CONSTRAINT "customer_revisions_operator_id_operators_id_fk" FOREIGN KEY ("operator_id") REFERENCES "public"."operators"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "customers" ADD CONSTRAINT "customers_created_by_operators_id_fk" FOREIGN KEY ("created_by") REFERENCES "public"."operators"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "customers" ADD CONSTRAINT "customers_updated_by_operators_id_fk" FOREIGN KEY ("updated_by") REFERENCES "public"."operators"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "scan_sessions" ADD CONSTRAINT "scan_sessions_operator_id_operators_id_fk" FOREIGN KEY ("operator_id") REFERENCES "public"."operators"("id") ON DELETE no action ON UPDATE no action;
\ No newline at end of file
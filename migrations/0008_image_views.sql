@@ -0,0 +1,15 @@
+CREATE TABLE "image_views" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"customer_id" integer NOT NULL,
+	"operator_id" integer,
+	"filename" text NOT NULL,
+	"size" text NOT NULL,
+	"access" text NOT NULL,
+	"ip_address" text,
+	"user_agent" text,
+	"viewed_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+ALTER TABLE "image_views" ADD CONSTRAINT "image_views_customer_id_customers_id_fk" FOREIGN KEY ("customer_id") REFERENCES "public"."customers"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "image_views" ADD CONSTRAINT "image_views_operator_id_operators_id_fk" FOREIGN KEY ("operator_id") REFERENCES "public"."operators"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "image_views_customer_id_idx" ON "image_views" USING btree ("customer_id");
\ No newline at end of file
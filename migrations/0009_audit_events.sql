@@ -0,0 +1,29 @@
+CREATE TABLE "audit_events" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"occurred_at" timestamp NOT NULL,
+	"operator_id" integer,
+	"action" text NOT NULL,
+	"customer_id" integer,
+	"fields" jsonb,
+	"method" text NOT NULL,
+	"path" text NOT NULL,
+	"status_code" integer NOT NULL,
+	"ip_address" text,
+	"user_agent" text,
+	"previous_hash" text,
+	"hash" text NOT NULL,
+	CONSTRAINT "audit_events_hash_unique" UNIQUE("hash")
+);
+--> statement-breakpoint
+ALTER TABLE "audit_events" ADD CONSTRAINT "audit_events_operator_id_operators_id_fk" FOREIGN KEY ("operator_id") REFERENCES "public"."operators"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "audit_events_customer_id_idx" ON "audit_events" USING btree ("customer_id");--> statement-breakpoint
+CREATE INDEX "audit_events_occurred_at_idx" ON "audit_events" USING btree ("occurred_at");--> statement-breakpoint
+-- The audit log is append-only: refuse updates and deletes at the database
+CREATE FUNCTION "audit_events_append_only"() RETURNS trigger AS $$
+BEGIN
+	RAISE EXCEPTION 'audit_events is append-only';
+END;
+$$ LANGUAGE plpgsql;--> statement-breakpoint
+CREATE TRIGGER "audit_events_append_only" BEFORE UPDATE OR DELETE ON "audit_events" FOR EACH ROW EXECUTE FUNCTION "audit_events_append_only"();
+--> statement-breakpoint
+CREATE TRIGGER "audit_events_no_truncate" BEFORE TRUNCATE ON "audit_events" FOR EACH STATEMENT EXECUTE FUNCTION "audit_events_append_only"();
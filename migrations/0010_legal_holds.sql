@@ -0,0 +1,9 @@
+CREATE TABLE "legal_holds" (
+	"customer_id" integer PRIMARY KEY NOT NULL,
+	"reason" text NOT NULL,
+	"placed_by" integer,
+	"placed_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+ALTER TABLE "legal_holds" ADD CONSTRAINT "legal_holds_customer_id_customers_id_fk" FOREIGN KEY ("customer_id") REFERENCES "public"."customers"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "legal_holds" ADD CONSTRAINT "legal_holds_placed_by_operators_id_fk" FOREIGN KEY ("placed_by") REFERENCES "public"."operators"("id") ON DELETE no action ON UPDATE no action;
\ No newline at end of file
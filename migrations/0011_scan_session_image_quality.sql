@@ -0,0 +1 @@
+ALTER TABLE "scan_sessions" ADD COLUMN "image_quality" jsonb;
\ No newline at end of file
@@ -0,0 +1,11 @@
+-- Consistency reports no longer keep the values compared; strip them from existing sessions
+UPDATE "scan_sessions"
+SET "consistency_report" = jsonb_set(
+	"consistency_report",
+	'{checks}',
+	COALESCE(
+		(SELECT jsonb_agg(("check" - 'front') - 'back') FROM jsonb_array_elements("consistency_report"->'checks') AS "check"),
+		'[]'::jsonb
+	)
+)
+WHERE "consistency_report" ? 'checks';
@@ -0,0 +1,38 @@
+import crypto from "crypto";
+import type { AuditEvent, InsertAuditEvent } from "@shared/schema";
+
+// Every column except the id and hash, in a fixed order, chained to the previous hash
+export function hashAuditEvent(event: InsertAuditEvent | AuditEvent, previousHash: string | null): string {
+  const payload = JSON.stringify([
+    previousHash,
+    event.occurredAt.toISOString(),
+    event.operatorId ?? null,
+    event.action,
+    event.customerId ?? null,
+    event.fields ?? null,
+    event.method,
+    event.path,
+    event.statusCode,
+    event.ipAddress ?? null,
+    event.userAgent ?? null,
+  ]);
+  return crypto.createHash('sha256').update(payload).digest('hex');
+}
+
+// Check a run of consecutive events, given the hash of the event before the first one
+export function findChainBreak(
+  events: AuditEvent[],
+  previousHash: string | null
+): { id: number; reason: string } | null {
+  let expectedPrevious = previousHash;
+  for (const event of events) {
+    if (event.previousHash !== expectedPrevious) {
+      return { id: event.id, reason: 'Does not link to the previous event; an event was removed or inserted' };
+    }
+    if (hashAuditEvent(event, event.previousHash) !== event.hash) {
+      return { id: event.id, reason: 'Contents do not match the stored hash; the event was modified' };
+    }
+    expectedPrevious = event.hash;
+  }
+  return null;
+}
@@ -0,0 +1,129 @@
+import type { AddressInfo } from "net";
+import type { Server } from "http";
+import express from "express";
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
+import { audit, auditDetails, auditNow } from "./audit";
+import { storage } from "./storage";
+
+describe("audit", () => {
+  let server: Server;
+  let baseUrl: string;
+  let erased: number[] = [];
+
+  beforeAll(async () => {
+    const app = express();
+    app.get("/api/customers/:id", audit('customer.read', ['firstName']), (req, res) => {
+      auditDetails(res, { fields: ['firstName', 'lastName'] });
+      res.json({ id: parseInt(req.params.id), firstName: "Jane" });
+    });
+    app.get("/api/customers/:id/export", audit('customer.export'), (_req, res) => {
+      res.attachment('export.zip');
+      res.send(Buffer.from('zip'));
+    });
+    app.delete("/api/customers/:id", audit('customer.erase'), async (req, res) => {
+      try {
+        await auditNow(res, 200);
+      } catch {
+        return res.status(500).json({ message: "Failed to erase customer" });
+      }
+      erased.push(parseInt(req.params.id));
+      res.json({ erased: true });
+    });
+    app.delete("/api/customers/:id/legal-hold", audit('customer.legal-hold.release'), (_req, res) => {
+      res.status(204).end();
+    });
+    app.get("/api/stream", audit('audit.export'), (_req, res) => {
+      res.attachment('events.csv');
+      res.write('a');
+      res.write('b');
+      res.end('c');
+    });
+
+    server = app.listen(0);
+    await new Promise((resolve) => server.once('listening', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(() => new Promise<void>((resolve) => server.close(() => resolve())));
+
+  beforeEach(() => {
+    erased = [];
+    vi.restoreAllMocks();
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  it("writes the event before the response is sent", async () => {
+    const append = vi.spyOn(storage, 'appendAuditEvents');
+    const response = await fetch(`${baseUrl}/api/customers/7`);
+
+    expect(await response.json()).toEqual({ id: 7, firstName: "Jane" });
+    expect(append).toHaveBeenCalledTimes(1);
+    expect(append.mock.calls[0][0]).toEqual([expect.objectContaining({
+      action: 'customer.read',
+      customerId: 7,
+      fields: ['firstName', 'lastName'],
+      method: 'GET',
+      path: '/api/customers/7',
+      statusCode: 200,
+    })]);
+  });
+
+  it("refuses the response when the event can't be written", async () => {
+    vi.spyOn(storage, 'appendAuditEvents').mockRejectedValue(new Error('Database unavailable'));
+
+    const read = await fetch(`${baseUrl}/api/customers/7`);
+    expect(read.status).toBe(503);
+    expect(await read.json()).toEqual({ message: "Audit log unavailable" });
+
+    const exported = await fetch(`${baseUrl}/api/customers/7/export`);
+    expect(exported.status).toBe(503);
+    expect(exported.headers.get('content-disposition')).toBeNull();
+  });
+
+  it("can write the event ahead of an irreversible step, without writing it twice", async () => {
+    const append = vi.spyOn(storage, 'appendAuditEvents');
+    const response = await fetch(`${baseUrl}/api/customers/7`, { method: 'DELETE' });
+
+    expect(response.status).toBe(200);
+    expect(erased).toEqual([7]);
+    expect(append).toHaveBeenCalledTimes(1);
+    expect(append.mock.calls[0][0]).toEqual([expect.objectContaining({ action: 'customer.erase', customerId: 7, statusCode: 200 })]);
+  });
+
+  it("skips the irreversible step when the event written ahead of it fails", async () => {
+    vi.spyOn(storage, 'appendAuditEvents').mockRejectedValue(new Error('Database unavailable'));
+    const response = await fetch(`${baseUrl}/api/customers/7`, { method: 'DELETE' });
+
+    expect(response.status).not.toBe(200);
+    expect(erased).toEqual([]);
+  });
+
+  it("writes the event before ending a response without a body", async () => {
+    const append = vi.spyOn(storage, 'appendAuditEvents');
+    const released = await fetch(`${baseUrl}/api/customers/7/legal-hold`, { method: 'DELETE' });
+
+    expect(released.status).toBe(204);
+    expect(append).toHaveBeenCalledTimes(1);
+    expect(append.mock.calls[0][0]).toEqual([expect.objectContaining({ action: 'customer.legal-hold.release', customerId: 7, statusCode: 204 })]);
+
+    append.mockRejectedValue(new Error('Database unavailable'));
+    const refused = await fetch(`${baseUrl}/api/customers/7/legal-hold`, { method: 'DELETE' });
+    expect(refused.status).toBe(503);
+    expect(await refused.json()).toEqual({ message: "Audit log unavailable" });
+  });
+
+  it("holds streamed responses until the event is written", async () => {
+    const append = vi.spyOn(storage, 'appendAuditEvents');
+    const streamed = await fetch(`${baseUrl}/api/stream`);
+
+    expect(await streamed.text()).toBe('abc');
+    expect(append).toHaveBeenCalledTimes(1);
+    expect(append.mock.calls[0][0]).toEqual([expect.objectContaining({ action: 'audit.export', customerId: null })]);
+
+    append.mockRejectedValue(new Error('Database unavailable'));
+    const refused = await fetch(`${baseUrl}/api/stream`);
+    expect(refused.status).toBe(503);
+    expect(refused.headers.get('content-disposition')).toBeNull();
+    expect(await refused.json()).toEqual({ message: "Audit log unavailable" });
+  });
+});
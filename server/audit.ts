@@ -0,0 +1,205 @@
+import type { RequestHandler, Response } from "express";
+import { storage } from "./storage";
+import { findChainBreak } from "./audit-chain";
+import type { AuditAction, AuditEvent, AuditQuery, AuditVerification, InsertAuditEvent } from "@shared/schema";
+
+// Customer fields a read returns, recorded as the fields it touched
+export const customerReadFields = [
+  'firstName',
+  'middleName',
+  'lastName',
+  'dateOfBirth',
+  'licenseNumber',
+  'licenseState',
+  'licenseExpiration',
+  'licenseIssueDate',
+  'address',
+  'city',
+  'state',
+  'zipCode',
+] as const;
+
+const VERIFY_BATCH_SIZE = 1000;
+const EXPORT_BATCH_SIZE = 500;
+
+export interface AuditDetails {
+  customerIds?: number[];
+  fields?: string[];
+  // For requests authorized some other way than the session, such as a signed URL
+  operatorId?: number;
+}
+
+// Tell the audit middleware which customers and fields a request actually touched
+export function auditDetails(res: Response, details: AuditDetails): void {
+  res.locals.audit = { ...res.locals.audit, ...details };
+}
+
+// Write the request's audit events now, as though it had been answered with statusCode, ahead of
+// a step that can't be undone; rejects when they can't be written. The response itself is only
+// recorded again if its status turns out different. Needs the audit middleware on the route.
+export function auditNow(res: Response, statusCode: number): Promise<void> {
+  return res.locals.auditNow(statusCode);
+}
+
+// Record one audit event per customer touched. For customer actions the customer defaults to
+// the :id route parameter; fields default to `fields`. Routes refine both with auditDetails.
+// Events are written before any of the response is sent, and a request whose events can't be
+// written fails with 503 instead of returning data nobody would know was read.
+export function audit(action: AuditAction, fields?: readonly string[]): RequestHandler {
+  return (req, res, next) => {
+    const routeCustomerId = action.startsWith('customer.') && /^\d+$/.test(req.params.id ?? '')
+      ? parseInt(req.params.id)
+      : undefined;
+    // Logging out clears the operator before the response is sent
+    const operatorAtStart = req.user?.id;
+    // The status code the written events carry, and whether the response is on its way
+    let recordedStatus: number | undefined;
+    let responding = false;
+
+    const record = async (statusCode = res.statusCode) => {
+      const details: AuditDetails = res.locals.audit ?? {};
+      const customerIds = details.customerIds ?? (routeCustomerId !== undefined ? [routeCustomerId] : []);
+      const base: Omit<InsertAuditEvent, 'customerId'> = {
+        occurredAt: new Date(),
+        operatorId: details.operatorId ?? req.user?.id ?? operatorAtStart ?? null,
+        action,
+        fields: details.fields ?? (fields ? [...fields] : null),
+        method: req.method,
+        // Without the query string, which can hold search terms or URL signatures
+        path: req.originalUrl.split('?')[0],
+        statusCode,
+        ipAddress: req.ip ?? null,
+        userAgent: req.get('user-agent') ?? null,
+      };
+
+      const events = customerIds.length > 0
+        ? customerIds.map((customerId) => ({ ...base, customerId }))
+        : [{ ...base, customerId: null }];
+      await storage.appendAuditEvents(events);
+      recordedStatus = statusCode;
+    };
+    res.locals.auditNow = record;
+
+    // Every way of answering (send, json, end, and streaming through write) waits for the events.
+    // Calls made while they are being written are held and replayed in order; once a response is
+    // refused, whatever the route still tries to send is dropped.
+    const send = res.send.bind(res);
+    const write = res.write.bind(res) as (...args: any[]) => boolean;
+    const end = res.end.bind(res) as (...args: any[]) => Response;
+    let held: (() => void)[] | null = null;
+    let refused = false;
+
+    const afterAudit = (call: () => void) => {
+      if (refused) return;
+      if (held) {
+        held.push(call);
+        return;
+      }
+      if (responding || recordedStatus === res.statusCode) {
+        responding = true;
+        call();
+        return;
+      }
+
+      responding = true;
+      held = [call];
+      record().then(
+        () => {
+          const calls = held!;
+          held = null;
+          calls.forEach((replay) => replay());
+        },
+        (error) => {
+          held = null;
+          console.error(`Failed to write audit events for ${action}; refusing the response:`, error);
+          res.removeHeader('Content-Disposition');
+          res.status(503).json({ message: "Audit log unavailable" });
+          refused = true;
+        }
+      );
+    };
+
+    res.send = (body) => {
+      afterAudit(() => send(body));
+      return res;
+    };
+    res.write = ((...args: any[]) => {
+      afterAudit(() => write(...args));
+      return true;
+    }) as typeof res.write;
+    res.end = ((...args: any[]) => {
+      afterAudit(() => end(...args));
+      return res;
+    }) as typeof res.end;
+
+    next();
+  };
+}
+
+// Walk the whole chain from the first event, recomputing every hash
+export async function verifyAuditLog(): Promise<AuditVerification> {
+  let afterId = 0;
+  let previousHash: string | null = null;
+  let checked = 0;
+
+  for (;;) {
+    const events = await storage.getAuditEventsAfter(afterId, VERIFY_BATCH_SIZE);
+    if (events.length === 0) {
+      return { valid: true, checked, brokenAt: null, headHash: previousHash };
+    }
+
+    const brokenAt = findChainBreak(events, previousHash);
+    if (brokenAt) {
+      return {
+        valid: false,
+        checked: checked + events.findIndex((event) => event.id === brokenAt.id),
+        brokenAt,
+        headHash: null,
+      };
+    }
+
+    checked += events.length;
+    afterId = events[events.length - 1].id;
+    previousHash = events[events.length - 1].hash;
+  }
+}
+
+// Every event matching the filters, newest first, fetched a page at a time
+export async function* auditEventsMatching(filters: Omit<AuditQuery, 'cursor' | 'limit'>): AsyncGenerator<AuditEvent> {
+  let cursor: string | undefined;
+  do {
+    const page = await storage.searchAuditEvents({ ...filters, cursor, limit: EXPORT_BATCH_SIZE });
+    yield* page.events;
+    cursor = page.nextCursor ?? undefined;
+  } while (cursor);
+}
+
+export const auditCsvColumns = [
+  'id',
+  'occurredAt',
+  'operatorId',
+  'action',
+  'customerId',
+  'fields',
+  'method',
+  'path',
+  'statusCode',
+  'ipAddress',
+  'userAgent',
+  'previousHash',
+  'hash',
+] as const;
+
+const csvCell = (value: unknown) => {
+  const text = value === null || value === undefined ? '' : String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export function auditEventCsvRow(event: AuditEvent): string {
+  return auditCsvColumns.map((column) => {
+    const value = event[column];
+    if (value instanceof Date) return csvCell(value.toISOString());
+    if (Array.isArray(value)) return csvCell(value.join(';'));
+    return csvCell(value);
+  }).join(',');
+}
@@ -0,0 +1,139 @@
+import crypto from "crypto";
+import { promisify } from "util";
+import type { Express, RequestHandler } from "express";
+import session from "express-session";
+import connectPg from "connect-pg-simple";
+import createMemoryStore from "memorystore";
+import passport from "passport";
+import { Strategy as LocalStrategy } from "passport-local";
+import { storage } from "./storage";
+import { hasRole, type OperatorRole } from "@shared/roles";
+import type { Operator } from "@shared/schema";
+
+declare global {
+  namespace Express {
+    interface User extends Operator {}
+  }
+}
+
+declare module "express-session" {
+  interface SessionData {
+    // License photos this session uploaded that no customer owns yet; only it may read them back
+    uploads?: string[];
+  }
+}
+
+const scrypt = promisify(crypto.scrypt) as (password: string, salt: Buffer, keyLength: number) => Promise<Buffer>;
+
+// Sessions last a working shift unless SESSION_TTL_HOURS says otherwise
+const SESSION_TTL_MS = (Number(process.env.SESSION_TTL_HOURS) || 12) * 60 * 60 * 1000;
+
+// Stored as "<salt>.<hash>", both hex
+export async function hashPassword(password: string): Promise<string> {
+  const salt = crypto.randomBytes(16);
+  const hash = await scrypt(password, salt, 64);
+  return `${salt.toString('hex')}.${hash.toString('hex')}`;
+}
+
+async function verifyPassword(password: string, stored: string): Promise<boolean> {
+  const [salt, hash] = stored.split('.');
+  if (!salt || !hash) return false;
+  const expected = Buffer.from(hash, 'hex');
+  const actual = await scrypt(password, Buffer.from(salt, 'hex'), expected.length);
+  return crypto.timingSafeEqual(actual, expected);
+}
+
+function createSessionStore(): session.Store {
+  if (process.env.DATABASE_URL) {
+    const PgStore = connectPg(session);
+    return new PgStore({ conString: process.env.DATABASE_URL, ttl: SESSION_TTL_MS / 1000 });
+  }
+  const MemoryStore = createMemoryStore(session);
+  return new MemoryStore({ checkPeriod: 24 * 60 * 60 * 1000 });
+}
+
+// Rejects requests without a signed-in operator (401) or whose role is below `role` (403)
+export function requireRole(role: OperatorRole): RequestHandler {
+  return (req, res, next) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Sign in required" });
+    }
+    if (!hasRole(req.user.role, role)) {
+      return res.status(403).json({ message: `Requires the ${role} role` });
+    }
+    next();
+  };
+}
+
+// With no operator accounts yet, ADMIN_USERNAME and ADMIN_PASSWORD create the first admin
+async function bootstrapAdmin(): Promise<void> {
+  if ((await storage.getOperators()).length > 0) return;
+
+  const username = process.env.ADMIN_USERNAME?.trim().toLowerCase();
+  const password = process.env.ADMIN_PASSWORD;
+  if (!username || !password) {
+    console.warn('No operator accounts exist; set ADMIN_USERNAME and ADMIN_PASSWORD to create the first admin');
+    return;
+  }
+
+  await storage.createOperator({
+    username,
+    displayName: 'Administrator',
+    passwordHash: await hashPassword(password),
+    role: 'admin',
+  });
+  console.log(`Created admin operator "${username}"`);
+}
+
+// Cookie sessions backed by Postgres (or memory without a database) and a username/password login
+export async function setupAuth(app: Express): Promise<void> {
+  let secret = process.env.SESSION_SECRET;
+  if (!secret) {
+    console.warn('SESSION_SECRET is not set; sessions will not survive a restart');
+    secret = crypto.randomBytes(32).toString('hex');
+  }
+
+  app.set('trust proxy', 1);
+  app.use(session({
+    store: createSessionStore(),
+    secret,
+    resave: false,
+    saveUninitialized: false,
+    cookie: {
+      httpOnly: true,
+      sameSite: 'lax',
+      secure: app.get('env') === 'production',
+      maxAge: SESSION_TTL_MS,
+    },
+  }));
+  app.use(passport.initialize());
+  app.use(passport.session());
+
+  passport.use(new LocalStrategy(async (username, password, done) => {
+    try {
+      const operator = await storage.getOperatorByUsername(username.trim().toLowerCase());
+      if (!operator || !operator.active || !(await verifyPassword(password, operator.passwordHash))) {
+        return done(null, false);
+      }
+      await storage.recordOperatorLogin(operator.id);
+      const { passwordHash, ...user } = operator;
+      done(null, { ...user, lastLoginAt: new Date() });
+    } catch (error) {
+      done(error);
+    }
+  }));
+
+  passport.serializeUser((user, done) => done(null, user.id));
+
+  // Loaded on every request, so deactivating an operator or changing their role applies at once
+  passport.deserializeUser(async (id: number, done) => {
+    try {
+      const operator = await storage.getOperator(id);
+      done(null, operator?.active ? operator : false);
+    } catch (error) {
+      done(error);
+    }
+  });
+
+  await bootstrapAdmin();
+}
@@ -0,0 +1,61 @@
+import sharp from "sharp";
+import { parseAAMVA, type AAMVARecord } from "@shared/aamva";
+import type { GrayscaleImage } from "@shared/image-preprocessing";
+import { decodePdf417 } from "@shared/pdf417";
+
+export interface BarcodeDecodeResult {
+  success: boolean;
+  record?: AAMVARecord;
+  rawData?: string;
+  strategy?: string;
+  error?: string;
+}
+
+// Large photos are downscaled first; PDF417 modules stay readable well below this width
+const MAX_DECODE_WIDTH = 2000;
+
+export class BackendBarcodeService {
+  async decodeFromImage(imageBuffer: Buffer): Promise<BarcodeDecodeResult> {
+    try {
+      const image = await this.loadGrayscale(imageBuffer);
+      const decoded = decodePdf417(image);
+      if (decoded) {
+        const result = parseAAMVA(decoded.rawData);
+        if (result.success && result.record) {
+          return { success: true, record: result.record, rawData: decoded.rawData, strategy: decoded.strategy };
+        }
+
+        return { success: false, rawData: decoded.rawData, strategy: decoded.strategy, error: result.error };
+      }
+
+      return {
+        success: false,
+        error: 'Could not decode PDF417 barcode from image. Please ensure the license barcode is clearly visible and try again.'
+      };
+    } catch (error) {
+      console.error('Server-side barcode decode failed:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown barcode decode error'
+      };
+    }
+  }
+
+  private async loadGrayscale(imageBuffer: Buffer): Promise<GrayscaleImage> {
+    const { data, info } = await sharp(imageBuffer)
+      .rotate() // honour EXIF orientation from phone cameras
+      .removeAlpha()
+      .resize({ width: MAX_DECODE_WIDTH, withoutEnlargement: true })
+      .grayscale()
+      .raw()
+      .toBuffer({ resolveWithObject: true });
+
+    return {
+      data: new Uint8ClampedArray(data.buffer, data.byteOffset, data.length),
+      width: info.width,
+      height: info.height,
+    };
+  }
+}
+
+export const backendBarcodeService = new BackendBarcodeService();
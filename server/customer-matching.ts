@@ -0,0 +1,41 @@
+import { storage } from "./storage";
+import { similarity } from "@shared/string-similarity";
+import type { CustomerMatch, CustomerMatchQuery } from "@shared/schema";
+
+// Names at or above this similarity with the same date of birth count as the same person
+const NAME_MATCH_THRESHOLD = 0.8;
+
+const normalizeName = (name: string | null | undefined) =>
+  (name ?? '').toUpperCase().replace(/[^A-Z]/g, '');
+
+// 1 for identical names, 0 for nothing in common
+export function nameSimilarity(a: string | null | undefined, b: string | null | undefined): number {
+  return similarity(normalizeName(a), normalizeName(b));
+}
+
+// Find existing customers that a scan most likely belongs to, best match first
+export async function findCustomerMatches(query: CustomerMatchQuery): Promise<CustomerMatch[]> {
+  const matches: CustomerMatch[] = [];
+
+  if (query.licenseNumber) {
+    const customer = await storage.getCustomerByLicenseNumber(query.licenseNumber);
+    if (customer) {
+      matches.push({ customer, reason: 'licenseNumber', score: 1 });
+    }
+  }
+
+  // A renewed or replacement license can carry a new number, so also match on name and DOB
+  if (query.dateOfBirth && query.lastName) {
+    const candidates = await storage.getCustomersByDateOfBirth(query.dateOfBirth);
+    for (const customer of candidates) {
+      if (matches.some((match) => match.customer.id === customer.id)) continue;
+
+      const score = (nameSimilarity(customer.firstName, query.firstName) + nameSimilarity(customer.lastName, query.lastName)) / 2;
+      if (score >= NAME_MATCH_THRESHOLD) {
+        matches.push({ customer, reason: 'nameAndDateOfBirth', score });
+      }
+    }
+  }
+
+  return matches.sort((a, b) => b.score - a.score);
+}
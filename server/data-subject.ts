@@ -0,0 +1,106 @@
+import crypto from "crypto";
+import JSZip from "jszip";
+import { storage } from "./storage";
+import { auditEventsMatching } from "./audit";
+import { customerImageFilenames } from "./image-urls";
+import { deleteUpload, readUpload } from "./uploads";
+import type { AuditEvent, CustomerExportManifest } from "@shared/schema";
+
+// Export manifests are signed so a bundle handed to a customer can later be shown to be ours and unaltered
+let signingKey = process.env.EXPORT_SIGNING_KEY;
+if (!signingKey) {
+  console.warn('EXPORT_SIGNING_KEY is not set; signatures on customer data exports cannot be checked after a restart');
+  signingKey = crypto.randomBytes(32).toString('hex');
+}
+
+const MANIFEST_VERSION = 1;
+
+export class LegalHoldError extends Error {
+  constructor(readonly customerId: number) {
+    super(`Customer ${customerId} is under a legal hold`);
+    this.name = 'LegalHoldError';
+  }
+}
+
+function signManifest(manifest: string): string {
+  return crypto.createHmac('sha256', signingKey!).update(manifest).digest('base64url');
+}
+
+// Everything stored about a customer as a ZIP: one JSON file per kind of record, the decrypted
+// images, and a manifest listing the SHA-256 of every file, signed in manifest.sig
+export async function buildCustomerExport(customerId: number, operatorId: number): Promise<Buffer | null> {
+  const customer = await storage.getCustomer(customerId);
+  if (!customer) return null;
+
+  const licenseImages = await storage.getLicenseImagesByCustomerId(customerId);
+  const auditEvents: AuditEvent[] = [];
+  for await (const event of auditEventsMatching({ customerId })) {
+    auditEvents.push(event);
+  }
+
+  const files: Record<string, Buffer> = {
+    'customer.json': Buffer.from(JSON.stringify(customer, null, 2)),
+    'license-images.json': Buffer.from(JSON.stringify(licenseImages, null, 2)),
+    'revisions.json': Buffer.from(JSON.stringify(await storage.getCustomerRevisions(customerId), null, 2)),
+    'scan-sessions.json': Buffer.from(JSON.stringify(await storage.getScanSessionsByCustomerId(customerId), null, 2)),
+    'image-views.json': Buffer.from(JSON.stringify(await storage.getImageViews(customerId), null, 2)),
+    'audit-events.json': Buffer.from(JSON.stringify(auditEvents, null, 2)),
+  };
+
+  const missingImages: string[] = [];
+  for (const filename of customerImageFilenames(customer, licenseImages)) {
+    const image = await readUpload(filename);
+    if (image) {
+      files[`images/${filename}`] = image;
+    } else {
+      missingImages.push(filename);
+    }
+  }
+
+  const manifest: CustomerExportManifest = {
+    version: MANIFEST_VERSION,
+    customerId,
+    exportedAt: new Date().toISOString(),
+    exportedBy: operatorId,
+    files: Object.entries(files).map(([path, data]) => ({
+      path,
+      bytes: data.length,
+      sha256: crypto.createHash('sha256').update(data).digest('hex'),
+    })),
+    missingImages,
+  };
+  const manifestJson = JSON.stringify(manifest, null, 2);
+
+  const zip = new JSZip();
+  for (const [path, data] of Object.entries(files)) {
+    zip.file(path, data);
+  }
+  zip.file('manifest.json', manifestJson);
+  zip.file('manifest.sig', signManifest(manifestJson));
+  return zip.generateAsync({ type: 'nodebuffer', compression: 'DEFLATE' });
+}
+
+// Delete a customer, everything linked to them and their files. Returns the number of files
+// removed, or null when there is no such customer. Customers under a legal hold are refused.
+// recordErasure runs once the erasure is allowed and before anything is deleted; if it throws,
+// nothing is.
+export async function eraseCustomer(customerId: number, recordErasure: () => Promise<void>): Promise<number | null> {
+  const customer = await storage.getCustomer(customerId);
+  if (!customer) return null;
+
+  if (await storage.getLegalHold(customerId)) {
+    throw new LegalHoldError(customerId);
+  }
+
+  const filenames = customerImageFilenames(customer, await storage.getLicenseImagesByCustomerId(customerId));
+  await recordErasure();
+  if (!await storage.deleteCustomer(customerId)) return null;
+
+  // Identical crops share one content-addressed file, so keep any that another customer still uses
+  const stillReferenced = new Set((await storage.getImageReferences()).map((reference) => reference.filename));
+  const orphaned = filenames.filter((filename) => !stillReferenced.has(filename));
+  for (const filename of orphaned) {
+    await deleteUpload(filename);
+  }
+  return orphaned.length;
+}
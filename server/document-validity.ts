@@ -0,0 +1,55 @@
+import {
+  DEFAULT_VALIDITY_POLICY,
+  evaluateDocumentValidity,
+  validityRules,
+  type DocumentDates,
+  type ValidityFinding,
+  type ValidityPolicy,
+  type ValidityRule,
+} from "@shared/document-validity";
+
+export class DocumentValidityError extends Error {
+  constructor(readonly findings: ValidityFinding[]) {
+    super(findings.map((finding) => finding.message).join('; '));
+    this.name = 'DocumentValidityError';
+  }
+}
+
+// VALIDITY_GRACE_DAYS sets how long an expired license is still accepted.
+// VALIDITY_REFUSE_SAVE is a comma-separated list of rules that block saving a customer,
+// e.g. "expired,under-18"; set it to "none" to only flag documents.
+function loadValidityPolicy(): ValidityPolicy {
+  const policy = { ...DEFAULT_VALIDITY_POLICY };
+
+  const graceDays = parseInt(process.env.VALIDITY_GRACE_DAYS ?? '');
+  if (!isNaN(graceDays) && graceDays >= 0) {
+    policy.expirationGraceDays = graceDays;
+  }
+
+  const refuse = process.env.VALIDITY_REFUSE_SAVE;
+  if (refuse !== undefined) {
+    policy.refuseSaveOn = refuse
+      .split(',')
+      .map((rule) => rule.trim().toLowerCase())
+      .filter((rule) => rule && rule !== 'none')
+      .flatMap((rule) => {
+        if (!validityRules.includes(rule as ValidityRule)) {
+          console.warn(`Ignoring unknown validity rule "${rule}"`);
+          return [];
+        }
+        return [rule as ValidityRule];
+      });
+  }
+
+  return policy;
+}
+
+export const validityPolicy = loadValidityPolicy();
+
+// Throw when the policy refuses to store a document with these dates
+export function assertDocumentSavable(dates: DocumentDates): void {
+  const { blocking } = evaluateDocumentValidity(dates, validityPolicy);
+  if (blocking.length > 0) {
+    throw new DocumentValidityError(blocking);
+  }
+}
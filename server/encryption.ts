@@ -0,0 +1,196 @@
+import crypto from "crypto";
+import { LocalKeyProvider } from "./key-providers/local";
+import { VaultTransitKeyProvider } from "./key-providers/vault";
+
+// A data key wrapped by a key-encryption key held by the provider
+export interface WrappedKey {
+  keyId: string;
+  wrapped: string;
+}
+
+export interface KeyProvider {
+  readonly name: string;
+  // Key-encryption key that new data keys are wrapped with
+  currentKeyId(): Promise<string>;
+  wrapKey(dataKey: Buffer): Promise<WrappedKey>;
+  unwrapKey(key: WrappedKey): Promise<Buffer>;
+  // Make a new key-encryption key current; earlier keys stay available for unwrapping
+  rotate(): Promise<string>;
+  // Secret for blind indexes; it does not rotate with the key-encryption keys
+  indexKey(): Promise<Buffer>;
+}
+
+// Encrypted column values look like "enc1.<keyId>.<wrapped key>.<iv>.<tag>.<ciphertext>",
+// every part base64url. Files start with FILE_MAGIC, a 2-byte header length, the same
+// header without the ciphertext, and then the ciphertext bytes.
+const VALUE_PREFIX = 'enc1';
+const FILE_MAGIC = Buffer.from('ENC1');
+
+// A data key encrypts this many values before a fresh one is generated
+const DATA_KEY_MAX_USES = 10000;
+// Unwrapped data keys kept in memory, so reads do not call the provider for every value
+const UNWRAPPED_CACHE_SIZE = 1000;
+
+interface Envelope {
+  key: WrappedKey;
+  iv: Buffer;
+  tag: Buffer;
+}
+
+const b64 = (value: Buffer | string) => Buffer.from(value).toString('base64url');
+const unb64 = (value: string) => Buffer.from(value, 'base64url');
+
+function encodeEnvelope({ key, iv, tag }: Envelope): string {
+  return [VALUE_PREFIX, b64(key.keyId), b64(key.wrapped), b64(iv), b64(tag)].join('.');
+}
+
+function decodeEnvelope(parts: string[]): Envelope {
+  const [prefix, keyId, wrapped, iv, tag] = parts;
+  if (prefix !== VALUE_PREFIX || !keyId || !wrapped || !iv || !tag) {
+    throw new Error('Malformed encrypted value');
+  }
+  return {
+    key: { keyId: unb64(keyId).toString(), wrapped: unb64(wrapped).toString() },
+    iv: unb64(iv),
+    tag: unb64(tag),
+  };
+}
+
+// AES-256-GCM envelope encryption for database columns and stored files. Values written
+// before encryption was enabled are passed through unchanged on read.
+export class EnvelopeEncryption {
+  private dataKey?: Promise<{ key: Buffer; wrapped: WrappedKey; uses: number }>;
+  private unwrapped = new Map<string, Promise<Buffer>>();
+
+  constructor(private provider: KeyProvider) {}
+
+  get providerName(): string {
+    return this.provider.name;
+  }
+
+  isEncrypted(value: string | Buffer): boolean {
+    return typeof value === 'string'
+      ? value.startsWith(`${VALUE_PREFIX}.`)
+      : value.subarray(0, FILE_MAGIC.length).equals(FILE_MAGIC);
+  }
+
+  // Key-encryption key an encrypted value or file was wrapped with
+  keyIdOf(value: string | Buffer): string | undefined {
+    if (!this.isEncrypted(value)) return undefined;
+    const header = typeof value === 'string' ? value : this.fileHeader(value).header;
+    return unb64(header.split('.')[1]).toString();
+  }
+
+  async currentKeyId(): Promise<string> {
+    return this.provider.currentKeyId();
+  }
+
+  async encryptString(plaintext: string): Promise<string> {
+    const { envelope, ciphertext } = await this.seal(Buffer.from(plaintext, 'utf8'));
+    return `${encodeEnvelope(envelope)}.${b64(ciphertext)}`;
+  }
+
+  async decryptString(value: string): Promise<string> {
+    if (!this.isEncrypted(value)) return value;
+    const parts = value.split('.');
+    const plaintext = await this.open(decodeEnvelope(parts.slice(0, 5)), unb64(parts[5] ?? ''));
+    return plaintext.toString('utf8');
+  }
+
+  async encryptBuffer(plaintext: Buffer): Promise<Buffer> {
+    const { envelope, ciphertext } = await this.seal(plaintext);
+    const header = Buffer.from(encodeEnvelope(envelope));
+    const length = Buffer.alloc(2);
+    length.writeUInt16BE(header.length);
+    return Buffer.concat([FILE_MAGIC, length, header, ciphertext]);
+  }
+
+  async decryptBuffer(data: Buffer): Promise<Buffer> {
+    if (!this.isEncrypted(data)) return data;
+    const { header, body } = this.fileHeader(data);
+    return this.open(decodeEnvelope(header.split('.')), body);
+  }
+
+  // Deterministic keyed hash, so an encrypted column can still be matched exactly
+  async blindIndex(field: string, value: string): Promise<string> {
+    const key = await this.provider.indexKey();
+    return crypto.createHmac('sha256', key).update(`${field}:${value}`).digest('base64url');
+  }
+
+  async rotate(): Promise<string> {
+    const keyId = await this.provider.rotate();
+    this.dataKey = undefined;
+    return keyId;
+  }
+
+  private fileHeader(data: Buffer): { header: string; body: Buffer } {
+    const start = FILE_MAGIC.length + 2;
+    const end = start + data.readUInt16BE(FILE_MAGIC.length);
+    return { header: data.subarray(start, end).toString(), body: data.subarray(end) };
+  }
+
+  private async seal(plaintext: Buffer): Promise<{ envelope: Envelope; ciphertext: Buffer }> {
+    const { key, wrapped } = await this.useDataKey();
+    const iv = crypto.randomBytes(12);
+    const cipher = crypto.createCipheriv('aes-256-gcm', key, iv);
+    const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+    return { envelope: { key: wrapped, iv, tag: cipher.getAuthTag() }, ciphertext };
+  }
+
+  private async open(envelope: Envelope, ciphertext: Buffer): Promise<Buffer> {
+    const key = await this.unwrap(envelope.key);
+    const decipher = crypto.createDecipheriv('aes-256-gcm', key, envelope.iv);
+    decipher.setAuthTag(envelope.tag);
+    return Buffer.concat([decipher.update(ciphertext), decipher.final()]);
+  }
+
+  private async useDataKey() {
+    if (this.dataKey) {
+      const current = await this.dataKey;
+      // A rotation by another process makes the cached data key's wrapping stale
+      if (current.uses < DATA_KEY_MAX_USES && current.wrapped.keyId === await this.provider.currentKeyId()) {
+        current.uses++;
+        return current;
+      }
+    }
+
+    const key = crypto.randomBytes(32);
+    this.dataKey = this.provider.wrapKey(key).then((wrapped) => ({ key, wrapped, uses: 1 }));
+    // Allow a retry after the provider fails
+    this.dataKey.catch(() => { this.dataKey = undefined; });
+    return this.dataKey;
+  }
+
+  private unwrap(key: WrappedKey): Promise<Buffer> {
+    const cacheKey = `${key.keyId}.${key.wrapped}`;
+    let unwrapped = this.unwrapped.get(cacheKey);
+    if (!unwrapped) {
+      unwrapped = this.provider.unwrapKey(key);
+      unwrapped.catch(() => this.unwrapped.delete(cacheKey));
+      this.unwrapped.set(cacheKey, unwrapped);
+      // Maps iterate in insertion order, so the first entry is the oldest
+      if (this.unwrapped.size > UNWRAPPED_CACHE_SIZE) {
+        this.unwrapped.delete(this.unwrapped.keys().next().value!);
+      }
+    }
+    return unwrapped;
+  }
+}
+
+const keyProviderFactories: Record<string, () => KeyProvider> = {
+  local: () => new LocalKeyProvider(),
+  vault: () => new VaultTransitKeyProvider(),
+};
+
+// ENCRYPTION_KEY_PROVIDER selects where key-encryption keys live: "local" (a key file,
+// the default) or "vault" (a HashiCorp Vault transit key)
+function createKeyProvider(): KeyProvider {
+  const name = (process.env.ENCRYPTION_KEY_PROVIDER || 'local').trim().toLowerCase();
+  const factory = keyProviderFactories[name];
+  if (!factory) {
+    throw new Error(`Unknown encryption key provider "${name}"`);
+  }
+  return factory();
+}
+
+export const encryption = new EnvelopeEncryption(createKeyProvider());
@@ -0,0 +1,61 @@
+import crypto from "crypto";
+import type { Customer, ImageSize, LicenseImage } from "@shared/schema";
+
+// Signed image URLs work without a session, so they are kept short-lived
+export const IMAGE_URL_TTL_MS = (Number(process.env.IMAGE_URL_TTL_SECONDS) || 300) * 1000;
+
+let signingKey = process.env.IMAGE_URL_KEY;
+if (!signingKey) {
+  console.warn('IMAGE_URL_KEY is not set; signed image URLs will stop working after a restart');
+  signingKey = crypto.randomBytes(32).toString('hex');
+}
+
+export interface ImageUrlClaims {
+  customerId: number;
+  filename: string;
+  size: ImageSize;
+  // Operator the URL was issued to; views through it are logged against them
+  operatorId: number;
+  expires: number;
+}
+
+function sign({ customerId, filename, size, operatorId, expires }: ImageUrlClaims): string {
+  return crypto
+    .createHmac('sha256', signingKey!)
+    .update(`${customerId}/${filename}/${size}/${operatorId}/${expires}`)
+    .digest('base64url');
+}
+
+export function imagePath(customerId: number, filename: string): string {
+  return `/api/customers/${customerId}/images/${encodeURIComponent(filename)}`;
+}
+
+export function signImageUrl(claims: ImageUrlClaims): string {
+  const query = new URLSearchParams({
+    size: claims.size,
+    operator: String(claims.operatorId),
+    expires: String(claims.expires),
+    signature: sign(claims),
+  });
+  return `${imagePath(claims.customerId, claims.filename)}?${query}`;
+}
+
+export function verifyImageSignature(claims: ImageUrlClaims, signature: string): boolean {
+  if (!Number.isFinite(claims.expires) || claims.expires < Date.now()) return false;
+  const expected = Buffer.from(sign(claims));
+  const actual = Buffer.from(signature);
+  return actual.length === expected.length && crypto.timingSafeEqual(actual, expected);
+}
+
+// Files that belong to a customer: every scan's crops plus the current photo and signature
+export function customerImageFilenames(customer: Customer, images: LicenseImage[]): string[] {
+  const filenames = images.flatMap((image) => [
+    image.frontImagePath,
+    image.backImagePath,
+    image.faceImagePath,
+    image.signatureImagePath,
+    image.barcodeImagePath,
+  ]);
+  filenames.push(customer.profilePhotoPath, customer.signaturePath);
+  return Array.from(new Set(filenames.filter((filename): filename is string => !!filename)));
+}
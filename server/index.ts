@@ -1,9 +1,12 @@
 import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
+import { scheduleRetentionPurge } from "./retention";
+import { DbStorage, storage } from "./storage";
 
 const app = express();
-app.use(express.json());
+// Cropped license images are posted as data URLs, so allow larger bodies
+app.use(express.json({ limit: '25mb' }));
 app.use(express.urlencoded({ extended: false }));
 
 app.use((req, res, next) => {
@@ -37,6 +40,11 @@ app.use((req, res, next) => {
 });
 
 (async () => {
+  if (storage instanceof DbStorage) {
+    const indexed = await storage.backfillBlindIndexes();
+    if (indexed > 0) log(`indexed ${indexed} customers stored before blind indexes`);
+  }
+
   const server = await registerRoutes(app);
 
   app.use((err: any, _req: Request, res: Response, _next: NextFunction) => {
@@ -67,4 +75,6 @@ app.use((req, res, next) => {
   }, () => {
     log(`serving on port ${port}`);
   });
+
+  scheduleRetentionPurge();
 })();
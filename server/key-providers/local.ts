@@ -0,0 +1,97 @@
+import crypto from "crypto";
+import fs from "fs";
+import path from "path";
+import type { KeyProvider, WrappedKey } from "../encryption";
+
+interface KeyFile {
+  currentKeyId: string;
+  // Key-encryption keys by id, base64
+  keys: Record<string, string>;
+  indexKey: string;
+}
+
+const newKeyId = () => `k${new Date().toISOString().replace(/\D/g, '').slice(0, 14)}`;
+
+// Key-encryption keys kept in a JSON file outside the database, by default .keys/encryption-keys.json.
+// The file is created with a first key on startup; keep it out of backups of the database.
+export class LocalKeyProvider implements KeyProvider {
+  readonly name = 'local';
+  private file?: KeyFile;
+  private loadedAt = 0;
+
+  constructor(private keyFilePath = process.env.ENCRYPTION_KEY_FILE || path.join(process.cwd(), '.keys', 'encryption-keys.json')) {}
+
+  async currentKeyId(): Promise<string> {
+    return this.load().currentKeyId;
+  }
+
+  async wrapKey(dataKey: Buffer): Promise<WrappedKey> {
+    const file = this.load();
+    const iv = crypto.randomBytes(12);
+    const cipher = crypto.createCipheriv('aes-256-gcm', this.key(file.currentKeyId), iv);
+    const wrapped = Buffer.concat([iv, cipher.update(dataKey), cipher.final(), cipher.getAuthTag()]);
+    return { keyId: file.currentKeyId, wrapped: wrapped.toString('base64') };
+  }
+
+  async unwrapKey({ keyId, wrapped }: WrappedKey): Promise<Buffer> {
+    const data = Buffer.from(wrapped, 'base64');
+    const decipher = crypto.createDecipheriv('aes-256-gcm', this.key(keyId), data.subarray(0, 12));
+    decipher.setAuthTag(data.subarray(data.length - 16));
+    return Buffer.concat([decipher.update(data.subarray(12, data.length - 16)), decipher.final()]);
+  }
+
+  async rotate(): Promise<string> {
+    const file = this.load();
+    const keyId = newKeyId();
+    if (file.keys[keyId]) {
+      throw new Error(`Key ${keyId} already exists; wait a second before rotating again`);
+    }
+    file.keys[keyId] = crypto.randomBytes(32).toString('base64');
+    file.currentKeyId = keyId;
+    this.save(file);
+    return keyId;
+  }
+
+  async indexKey(): Promise<Buffer> {
+    return Buffer.from(this.load().indexKey, 'base64');
+  }
+
+  private key(keyId: string): Buffer {
+    const key = this.load().keys[keyId];
+    if (!key) {
+      throw new Error(`Encryption key ${keyId} is not in ${this.keyFilePath}`);
+    }
+    return Buffer.from(key, 'base64');
+  }
+
+  // Reloaded when the file changes, so a rotation by another process is picked up
+  private load(): KeyFile {
+    const modified = fs.existsSync(this.keyFilePath) ? fs.statSync(this.keyFilePath).mtimeMs : 0;
+    // A file that disappears while running keeps the keys already loaded
+    if (this.file && (modified === this.loadedAt || !modified)) return this.file;
+
+    if (modified) {
+      this.file = JSON.parse(fs.readFileSync(this.keyFilePath, 'utf8')) as KeyFile;
+      this.loadedAt = modified;
+    } else {
+      console.warn(`Creating encryption key file ${this.keyFilePath}`);
+      const keyId = newKeyId();
+      this.file = {
+        currentKeyId: keyId,
+        keys: { [keyId]: crypto.randomBytes(32).toString('base64') },
+        indexKey: crypto.randomBytes(32).toString('base64'),
+      };
+      this.save(this.file);
+    }
+    return this.file;
+  }
+
+  private save(file: KeyFile): void {
+    fs.mkdirSync(path.dirname(this.keyFilePath), { recursive: true, mode: 0o700 });
+    // Write then rename, so a crash never leaves a truncated key file
+    const temporary = `${this.keyFilePath}.tmp`;
+    fs.writeFileSync(temporary, JSON.stringify(file, null, 2), { mode: 0o600 });
+    fs.renameSync(temporary, this.keyFilePath);
+    this.loadedAt = fs.statSync(this.keyFilePath).mtimeMs;
+  }
+}
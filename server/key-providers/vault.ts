@@ -0,0 +1,81 @@
+import { z } from "zod";
+import type { KeyProvider, WrappedKey } from "../encryption";
+
+// How long the latest key version is trusted before asking Vault again
+const VERSION_CACHE_MS = 60 * 1000;
+
+// The parts of the transit engine's responses that are used
+const keyResponse = z.object({ data: z.object({ latest_version: z.number().int().positive() }) });
+const encryptResponse = z.object({ data: z.object({ ciphertext: z.string().regex(/^vault:v\d+:/) }) });
+const decryptResponse = z.object({ data: z.object({ plaintext: z.string() }) });
+
+// Key-encryption keys held in a HashiCorp Vault transit engine (VAULT_ADDR, VAULT_TOKEN,
+// VAULT_TRANSIT_KEY). Keys never leave Vault; data keys are sent to it to be wrapped.
+// Vault has no blind index secret of ours, so ENCRYPTION_INDEX_KEY (base64, 32 bytes) is required.
+export class VaultTransitKeyProvider implements KeyProvider {
+  readonly name = 'vault';
+  private address = (process.env.VAULT_ADDR || '').replace(/\/+$/, '');
+  private mount = process.env.VAULT_TRANSIT_MOUNT || 'transit';
+  private keyName = process.env.VAULT_TRANSIT_KEY || 'license-scanner';
+  private latestVersion?: { version: number; checkedAt: number };
+
+  async currentKeyId(): Promise<string> {
+    if (!this.latestVersion || Date.now() - this.latestVersion.checkedAt > VERSION_CACHE_MS) {
+      const { data } = await this.request('GET', `keys/${this.keyName}`, keyResponse);
+      this.latestVersion = { version: data.latest_version, checkedAt: Date.now() };
+    }
+    return `${this.keyName}:v${this.latestVersion.version}`;
+  }
+
+  async wrapKey(dataKey: Buffer): Promise<WrappedKey> {
+    const { data } = await this.request('POST', `encrypt/${this.keyName}`, encryptResponse, {
+      plaintext: dataKey.toString('base64'),
+    });
+    // Ciphertexts look like "vault:v3:..."; the version identifies the key that wrapped it
+    const version = data.ciphertext.split(':')[1];
+    return { keyId: `${this.keyName}:${version}`, wrapped: data.ciphertext };
+  }
+
+  async unwrapKey({ wrapped }: WrappedKey): Promise<Buffer> {
+    const { data } = await this.request('POST', `decrypt/${this.keyName}`, decryptResponse, { ciphertext: wrapped });
+    return Buffer.from(data.plaintext, 'base64');
+  }
+
+  async rotate(): Promise<string> {
+    await this.request('POST', `keys/${this.keyName}/rotate`, z.unknown());
+    this.latestVersion = undefined;
+    return this.currentKeyId();
+  }
+
+  async indexKey(): Promise<Buffer> {
+    const key = process.env.ENCRYPTION_INDEX_KEY;
+    if (!key) {
+      throw new Error('ENCRYPTION_INDEX_KEY is required with the vault key provider');
+    }
+    return Buffer.from(key, 'base64');
+  }
+
+  private async request<T>(method: 'GET' | 'POST', endpoint: string, schema: z.ZodType<T>, body?: object): Promise<T> {
+    if (!this.address || !process.env.VAULT_TOKEN) {
+      throw new Error('VAULT_ADDR and VAULT_TOKEN are required with the vault key provider');
+    }
+
+    const response = await fetch(`${this.address}/v1/${this.mount}/${endpoint}`, {
+      method,
+      headers: {
+        'X-Vault-Token': process.env.VAULT_TOKEN,
+        ...(body ? { 'Content-Type': 'application/json' } : {}),
+      },
+      body: body ? JSON.stringify(body) : undefined,
+    });
+
+    if (!response.ok) {
+      throw new Error(`Vault ${endpoint} failed: ${response.status} ${await response.text()}`);
+    }
+    const parsed = schema.safeParse(response.status === 204 ? {} : await response.json());
+    if (!parsed.success) {
+      throw new Error(`Vault ${endpoint} returned an unexpected response: ${parsed.error.message}`);
+    }
+    return parsed.data;
+  }
+}
@@ -0,0 +1,16 @@
+import crypto from "crypto";
+import { normalizeLicenseNumber } from "@shared/jurisdictions";
+import { encryption } from "./encryption";
+
+// License numbers are short and guessable, so a plain digest could be reversed by
+// enumerating them; the hash is always keyed so only this server can link visits. The key is
+// LICENSE_HASH_KEY when set, and otherwise the encryption provider's blind index key.
+const hashKey = process.env.LICENSE_HASH_KEY;
+
+// Stable, non-reversible identifier for a license, used to spot repeat visits
+export async function hashLicenseNumber(licenseNumber: string, licenseState?: string): Promise<string> {
+  const value = `${licenseState?.toUpperCase() ?? ''}:${normalizeLicenseNumber(licenseNumber)}`;
+  return hashKey
+    ? crypto.createHmac('sha256', hashKey).update(value).digest('hex')
+    : encryption.blindIndex('licenseHash', value);
+}
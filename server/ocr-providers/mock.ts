@@ -0,0 +1,56 @@
+import type { OCRData, OCRProvider, OCRProviderResult } from "../ocr-service";
+
+// Fixed sample license, so scans behave the same on every run
+export const MOCK_OCR_DATA: OCRData = {
+  firstName: 'JANE',
+  middleName: 'Q',
+  lastName: 'SAMPLE',
+  dateOfBirth: '01/15/1990',
+  licenseNumber: 'D1234567',
+  expirationDate: '01/15/2030',
+  issueDate: '01/15/2022',
+  address: '123 MAIN ST',
+  city: 'SACRAMENTO',
+  state: 'CA',
+  zipCode: '95814',
+  gender: 'F',
+  eyeColor: 'BRN',
+  height: `5'-06"`,
+  weight: '130',
+  class: 'C',
+};
+
+export interface MockOCROptions {
+  data?: OCRData;
+  confidence?: number;
+  // Throw this message instead of returning data, to exercise fallback chains
+  failWith?: string;
+  // Answer after this long, to exercise timeouts
+  delayMs?: number;
+}
+
+export class MockOCRProvider implements OCRProvider {
+  readonly name = 'mock';
+
+  constructor(private readonly options: MockOCROptions = {}) {}
+
+  isAvailable(): boolean {
+    return true;
+  }
+
+  async extract(_base64Image: string): Promise<OCRProviderResult> {
+    if (this.options.delayMs) {
+      await new Promise((resolve) => setTimeout(resolve, this.options.delayMs));
+    }
+
+    if (this.options.failWith) {
+      throw new Error(this.options.failWith);
+    }
+
+    return {
+      // Copy, since the service post-processes results in place
+      data: { ...(this.options.data ?? MOCK_OCR_DATA) },
+      confidence: this.options.confidence ?? 1,
+    };
+  }
+}
@@ -0,0 +1,83 @@
+import OpenAI from "openai";
+import type { OCRData, OCRProvider, OCRProviderResult } from "../ocr-service";
+
+export class OpenAIOCRProvider implements OCRProvider {
+  readonly name = 'openai';
+  private openai: OpenAI;
+
+  constructor() {
+    this.openai = new OpenAI({
+      apiKey: process.env.OPENAI_API_KEY || ''
+    });
+  }
+
+  isAvailable(): boolean {
+    return !!process.env.OPENAI_API_KEY;
+  }
+
+  async extract(base64Image: string): Promise<OCRProviderResult> {
+    // the newest OpenAI model is "gpt-4o" which was released May 13, 2024. do not change this unless explicitly requested by the user
+    const response = await this.openai.chat.completions.create({
+      model: "gpt-4o",
+      messages: [
+        {
+          role: "system",
+          content: `You are an expert OCR system specialized in reading driver's licenses. Extract all visible text information from the license image and return it as structured JSON.
+
+Pay special attention to:
+- Full name (first, middle, last)
+- Date of birth (format as YYYY-MM-DD)
+- License number
+- Expiration date (format as YYYY-MM-DD)
+- Issue date (format as YYYY-MM-DD)
+- Address components (street, city, state, zip)
+- Physical characteristics (gender, eye color, height, weight)
+- License class and restrictions/endorsements
+- Document discriminator (the DD number)
+
+Return only valid JSON with these exact field names: firstName, lastName, middleName, dateOfBirth, licenseNumber, expirationDate, issueDate, address, city, state, zipCode, gender, eyeColor, height, weight, restrictions, endorsements, class, documentDiscriminator.
+
+If a field is not clearly visible or readable, omit it from the response rather than guessing.`
+        },
+        {
+          role: "user",
+          content: [
+            {
+              type: "text",
+              text: "Please extract all text information from this driver's license image and return it as structured JSON."
+            },
+            {
+              type: "image_url",
+              image_url: {
+                url: `data:image/jpeg;base64,${base64Image}`
+              }
+            }
+          ]
+        }
+      ],
+      response_format: { type: "json_object" },
+      logprobs: true,
+      max_tokens: 1000
+    });
+
+    const choice = response.choices[0];
+    const content = choice.message.content;
+    if (!content) {
+      throw new Error('No content received from OpenAI');
+    }
+
+    console.log('Raw OCR response:', content);
+
+    return {
+      data: JSON.parse(content) as OCRData,
+      confidence: this.meanTokenProbability(choice.logprobs?.content ?? []),
+    };
+  }
+
+  // Average probability of the generated tokens, a proxy for how sure the model was
+  private meanTokenProbability(tokens: { logprob: number }[]): number {
+    if (tokens.length === 0) return 0;
+    const total = tokens.reduce((sum, token) => sum + Math.exp(token.logprob), 0);
+    return Math.round((total / tokens.length) * 100) / 100;
+  }
+}
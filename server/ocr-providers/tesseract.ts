@@ -0,0 +1,157 @@
+import { createRequire } from "module";
+import path from "path";
+import sharp from "sharp";
+import Tesseract from "tesseract.js";
+import { JURISDICTIONS } from "@shared/jurisdictions";
+import type { OCRData, OCRProvider, OCRProviderResult } from "../ocr-service";
+
+// Zones on the front of an ID-1 card, as fractions of its size. AAMVA layouts put the
+// jurisdiction name in a header band and the portrait on the left, with the numbered
+// data fields to its right.
+const HEADER_ZONE = { left: 0, top: 0, width: 1, height: 0.2 };
+const DATA_ZONE = { left: 0.28, top: 0.15, width: 0.72, height: 0.85 };
+
+// Zoned reads with fewer fields than this are retried on the whole image
+const MIN_ZONED_FIELDS = 3;
+
+// Cards are normalized to this width so zone coordinates and glyph sizes are predictable
+const OCR_WIDTH = 1600;
+
+type Zone = typeof DATA_ZONE;
+
+// Labelled fields use the AAMVA field numbers (3 DOB, 4a ISS, 4b EXP, 4d DL, ...) or their abbreviations
+const LABELED_FIELDS: { field: keyof OCRData; pattern: RegExp }[] = [
+  { field: 'licenseNumber', pattern: /\b(?:4D\s*)?(?:DLN|DL|LIC(?:ENSE)?|ID)\s*(?:NO\.?|#)?[:.\s]+([A-Z0-9][A-Z0-9 -]{3,20}[A-Z0-9])/ },
+  { field: 'dateOfBirth', pattern: /\b(?:3\s*)?DOB[:.\s]*(\d{2}[\/-]\d{2}[\/-]\d{4})/ },
+  { field: 'expirationDate', pattern: /\b(?:4B\s*)?EXP(?:IRES)?[:.\s]*(\d{2}[\/-]\d{2}[\/-]\d{4})/ },
+  { field: 'issueDate', pattern: /\b(?:4A\s*)?ISS(?:UED)?[:.\s]*(\d{2}[\/-]\d{2}[\/-]\d{4})/ },
+  { field: 'gender', pattern: /\b(?:15\s*)?SEX[:.\s]*([MFX])\b/ },
+  { field: 'height', pattern: /\b(?:16\s*)?HGT[:.\s]*(\d\s*['-]\s*-?\s*\d{1,2}"?)/ },
+  { field: 'weight', pattern: /\b(?:17\s*)?WGT[:.\s]*(\d{2,3})/ },
+  { field: 'eyeColor', pattern: /\b(?:18\s*)?EYES?[:.\s]*([A-Z]{3})\b/ },
+  { field: 'class', pattern: /\b(?:9\s*)?CLASS[:.\s]*([A-Z0-9]{1,3})\b/ },
+  { field: 'restrictions', pattern: /\b(?:12\s*)?(?:RSTR|RESTR)[:.\s]*([A-Z0-9]+)\b/ },
+  { field: 'endorsements', pattern: /\b(?:9A\s*)?(?:END|ENDORSE)[:.\s]*([A-Z0-9]+)\b/ },
+  { field: 'documentDiscriminator', pattern: /\b(?:5\s*)?DD[:.\s]+([A-Z0-9][A-Z0-9\/ -]{4,28}[A-Z0-9])/ },
+];
+
+const CITY_STATE_ZIP = /^(?:8\s+)?([A-Z][A-Z .'-]+?),?\s+([A-Z]{2})\s+(\d{5})(?:-?\d{4})?$/;
+
+// Pull license fields out of recognized card text, line by line
+export function parseLicenseText(text: string): OCRData {
+  const data: OCRData = {};
+  const lines = text
+    .toUpperCase()
+    .split('\n')
+    .map((line) => line.replace(/\s+/g, ' ').trim())
+    .filter(Boolean);
+
+  lines.forEach((line, index) => {
+    for (const { field, pattern } of LABELED_FIELDS) {
+      const match = line.match(pattern);
+      // License numbers always contain a digit; this skips "DRIVER LICENSE CLASS C"
+      if (match && !data[field] && (field !== 'licenseNumber' || /\d/.test(match[1]))) {
+        data[field] = match[1].trim();
+      }
+    }
+
+    const lastName = line.match(/^(?:1|LN)\s+([A-Z][A-Z' -]+)$/);
+    if (lastName && !data.lastName) data.lastName = lastName[1];
+
+    const givenNames = line.match(/^(?:2|FN)\s+([A-Z][A-Z' -]+)$/);
+    if (givenNames && !data.firstName) {
+      const [firstName, ...middleNames] = givenNames[1].split(' ');
+      data.firstName = firstName;
+      if (middleNames.length > 0) data.middleName = middleNames.join(' ');
+    }
+
+    // The street line sits directly above "CITY, ST 12345"
+    const cityStateZip = line.match(CITY_STATE_ZIP);
+    if (cityStateZip && !data.city) {
+      data.city = cityStateZip[1];
+      data.state = cityStateZip[2];
+      data.zipCode = cityStateZip[3];
+      const street = lines[index - 1]?.match(/^(?:8\s+)?(\d+\s+[A-Z0-9 .#'-]+)$/);
+      if (street) data.address = street[1];
+    }
+  });
+
+  return data;
+}
+
+// The issuing jurisdiction's name usually appears in the card header
+export function matchJurisdictionName(text: string): string | undefined {
+  const upper = text.toUpperCase();
+  // Longest names first, so "WEST VIRGINIA" wins over "VIRGINIA"
+  const byLength = [...JURISDICTIONS].sort((a, b) => b.name.length - a.name.length);
+  return byLength.find((jurisdiction) => upper.includes(jurisdiction.name.toUpperCase()))?.code;
+}
+
+export class TesseractOCRProvider implements OCRProvider {
+  readonly name = 'tesseract';
+  private worker?: Promise<Tesseract.Worker>;
+
+  isAvailable(): boolean {
+    return true;
+  }
+
+  async extract(base64Image: string): Promise<OCRProviderResult> {
+    const { data: image, info } = await sharp(Buffer.from(base64Image, 'base64'))
+      .rotate() // honour EXIF orientation from phone cameras
+      .resize({ width: OCR_WIDTH })
+      .grayscale()
+      .normalize()
+      .png()
+      .toBuffer({ resolveWithObject: true });
+
+    const worker = await this.getWorker();
+    const recognize = async (zone?: Zone) => {
+      const rectangle = zone && {
+        left: Math.round(zone.left * info.width),
+        top: Math.round(zone.top * info.height),
+        width: Math.round(zone.width * info.width),
+        height: Math.round(zone.height * info.height),
+      };
+      const { data } = await worker.recognize(image, rectangle ? { rectangle } : {});
+      return data;
+    };
+
+    const header = await recognize(HEADER_ZONE);
+    let page = await recognize(DATA_ZONE);
+    let data = parseLicenseText(page.text);
+
+    // Uncropped photos put the card somewhere else in the frame
+    if (Object.keys(data).length < MIN_ZONED_FIELDS) {
+      const fullPage = await recognize();
+      const fullData = parseLicenseText(fullPage.text);
+      if (Object.keys(fullData).length > Object.keys(data).length) {
+        page = fullPage;
+        data = fullData;
+      }
+    }
+
+    if (!data.state) {
+      const state = matchJurisdictionName(header.text);
+      if (state) data.state = state;
+    }
+
+    return { data, confidence: Math.round(page.confidence) / 100 };
+  }
+
+  // One long-lived worker; loading the WASM core and language data is the slow part
+  private getWorker(): Promise<Tesseract.Worker> {
+    if (!this.worker) {
+      this.worker = Tesseract.createWorker('eng', Tesseract.OEM.LSTM_ONLY, {
+        // Bundled language data, so no network access is needed
+        langPath: process.env.OCR_TESSERACT_LANG_PATH || path.join(
+          path.dirname(createRequire(import.meta.url).resolve('@tesseract.js-data/eng/package.json')),
+          '4.0.0'
+        ),
+        cacheMethod: 'none',
+      });
+      // Allow a retry after a failed start
+      this.worker.catch(() => { this.worker = undefined; });
+    }
+    return this.worker;
+  }
+}
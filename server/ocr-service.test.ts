@@ -0,0 +1,122 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { BackendOCRService, type OCRProvider } from "./ocr-service";
+import { MockOCRProvider, MOCK_OCR_DATA } from "./ocr-providers/mock";
+
+// A mock registered under another name, so chains can hold several
+const named = (name: string, provider: MockOCRProvider): OCRProvider => ({
+  name,
+  isAvailable: () => provider.isAvailable(),
+  extract: (image) => provider.extract(image),
+});
+
+const unavailable: OCRProvider = {
+  name: 'offline',
+  isAvailable: () => false,
+  extract: () => Promise.reject(new Error('Should not be called')),
+};
+
+describe("BackendOCRService", () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  it("post-processes the first provider's result", async () => {
+    const service = new BackendOCRService([new MockOCRProvider()]);
+    const result = await service.extractTextFromLicense('image');
+
+    expect(result).toMatchObject({ success: true, provider: 'mock', confidence: 1 });
+    expect(result.data).toMatchObject({
+      firstName: 'Jane',
+      lastName: 'Sample',
+      dateOfBirth: '1990-01-15',
+      expirationDate: '2030-01-15',
+      licenseNumber: 'D1234567',
+    });
+    // The fixture itself is left as it was
+    expect(MOCK_OCR_DATA.firstName).toBe('JANE');
+  });
+
+  it("falls back when a provider fails or recognizes nothing", async () => {
+    const service = new BackendOCRService([
+      unavailable,
+      named('primary', new MockOCRProvider({ failWith: 'Rate limited' })),
+      named('empty', new MockOCRProvider({ data: {} })),
+      named('fallback', new MockOCRProvider()),
+    ]);
+    const result = await service.extractTextFromLicense('image');
+
+    expect(result).toMatchObject({ success: true, provider: 'fallback' });
+    expect(result.attempts?.map(({ provider, success, error }) => ({ provider, success, error }))).toEqual([
+      { provider: 'primary', success: false, error: 'Rate limited' },
+      { provider: 'empty', success: false, error: 'No license fields recognized' },
+      { provider: 'fallback', success: true, error: undefined },
+    ]);
+  });
+
+  it("falls back on low confidence, keeping the most confident result if nothing beats the threshold", async () => {
+    const confident = new BackendOCRService([
+      named('primary', new MockOCRProvider({ confidence: 0.2 })),
+      named('fallback', new MockOCRProvider({ confidence: 0.8 })),
+    ], { minConfidence: 0.5 });
+    expect(await confident.extractTextFromLicense('image')).toMatchObject({ success: true, provider: 'fallback', confidence: 0.8 });
+
+    const unsure = new BackendOCRService([
+      named('primary', new MockOCRProvider({ confidence: 0.4 })),
+      named('fallback', new MockOCRProvider({ confidence: 0.3 })),
+    ], { minConfidence: 0.5 });
+    const result = await unsure.extractTextFromLicense('image');
+    expect(result).toMatchObject({ success: true, provider: 'primary', confidence: 0.4 });
+    expect(result.attempts?.map((attempt) => attempt.error)).toEqual([
+      'Confidence 0.40 is below 0.5',
+      'Confidence 0.30 is below 0.5',
+    ]);
+  });
+
+  it("gives up on providers that take longer than the timeout", async () => {
+    const service = new BackendOCRService([
+      named('slow', new MockOCRProvider({ delayMs: 200 })),
+      named('fallback', new MockOCRProvider()),
+    ], { timeoutMs: 20 });
+    const result = await service.extractTextFromLicense('image');
+
+    expect(result).toMatchObject({ success: true, provider: 'fallback' });
+    expect(result.attempts?.[0]).toMatchObject({ provider: 'slow', success: false, error: 'Timed out after 20ms' });
+  });
+
+  it("reports the last error when every provider fails", async () => {
+    const service = new BackendOCRService([
+      named('primary', new MockOCRProvider({ failWith: 'Rate limited' })),
+      named('fallback', new MockOCRProvider({ failWith: 'Unreadable image' })),
+    ]);
+    expect(await service.extractTextFromLicense('image')).toMatchObject({ success: false, error: 'Unreadable image' });
+
+    expect(await new BackendOCRService([unavailable]).extractTextFromLicense('image'))
+      .toEqual({ success: false, attempts: [], error: 'No OCR provider is available' });
+  });
+
+  it("tracks attempts, outcomes and latency per provider", async () => {
+    let fail = true;
+    const flaky: OCRProvider = {
+      name: 'flaky',
+      isAvailable: () => true,
+      extract: (image) => fail
+        ? Promise.reject(new Error('Rate limited'))
+        : new MockOCRProvider({ delayMs: 10 }).extract(image),
+    };
+    const service = new BackendOCRService([unavailable, flaky, named('fallback', new MockOCRProvider())]);
+
+    await service.extractTextFromLicense('image');
+    fail = false;
+    await service.extractTextFromLicense('image');
+
+    const [offline, flakyMetrics, fallback] = service.getMetrics();
+    expect(offline).toMatchObject({ provider: 'offline', attempts: 0, successes: 0, failures: 0, averageLatencyMs: 0 });
+    expect(flakyMetrics).toMatchObject({ provider: 'flaky', attempts: 2, successes: 1, failures: 1, lastError: 'Rate limited' });
+    expect(flakyMetrics.averageLatencyMs).toBeGreaterThanOrEqual(4);
+    expect(flakyMetrics.lastAttemptAt).toEqual(expect.any(String));
+    expect(fallback).toMatchObject({ provider: 'fallback', attempts: 1, successes: 1, failures: 0 });
+    expect(fallback).not.toHaveProperty('totalLatencyMs');
+  });
+});
@@ -1,4 +1,7 @@
-import OpenAI from "openai";
+import { normalizeLicenseNumber } from "@shared/jurisdictions";
+import { OpenAIOCRProvider } from "./ocr-providers/openai";
+import { TesseractOCRProvider } from "./ocr-providers/tesseract";
+import { MockOCRProvider } from "./ocr-providers/mock";
 
 export interface OCRData {
   firstName?: string;
@@ -7,6 +10,7 @@ export interface OCRData {
   dateOfBirth?: string;
   licenseNumber?: string;
   expirationDate?: string;
+  issueDate?: string;
   address?: string;
   city?: string;
   state?: string;
@@ -18,97 +22,172 @@ export interface OCRData {
   restrictions?: string;
   endorsements?: string;
   class?: string;
+  documentDiscriminator?: string;
 }
 
 export interface OCRResult {
   success: boolean;
   data?: OCRData;
   confidence?: number;
+  provider?: string;
+  attempts?: OCRAttempt[];
   error?: string;
 }
 
+export interface OCRAttempt {
+  provider: string;
+  success: boolean;
+  latencyMs: number;
+  error?: string;
+}
+
+export interface OCRProviderResult {
+  data: OCRData;
+  // 0-1, as reported or estimated by the engine
+  confidence: number;
+}
+
+// An OCR engine; implementations throw when they cannot read the image
+export interface OCRProvider {
+  readonly name: string;
+  isAvailable(): boolean;
+  extract(base64Image: string): Promise<OCRProviderResult>;
+}
+
+export interface OCRProviderMetrics {
+  provider: string;
+  attempts: number;
+  successes: number;
+  failures: number;
+  averageLatencyMs: number;
+  lastError?: string;
+  lastAttemptAt?: string;
+}
+
+export interface OCRServiceOptions {
+  // A provider that takes longer than this counts as failed, and the next one is tried
+  timeoutMs?: number;
+  // Results below this confidence fall through to the next provider; the most confident
+  // of them is still returned when no provider does better
+  minConfidence?: number;
+}
+
+const DEFAULT_TIMEOUT_MS = 30_000;
+const DEFAULT_MIN_CONFIDENCE = 0.5;
+
 export class BackendOCRService {
-  private openai: OpenAI;
+  private readonly metrics = new Map<string, OCRProviderMetrics & { totalLatencyMs: number }>();
+  private readonly timeoutMs: number;
+  private readonly minConfidence: number;
 
-  constructor() {
-    this.openai = new OpenAI({
-      apiKey: process.env.OPENAI_API_KEY || ''
-    });
+  // Providers are tried in order; later ones are fallbacks for earlier failures
+  constructor(private readonly providers: OCRProvider[], options: OCRServiceOptions = {}) {
+    this.timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+    this.minConfidence = options.minConfidence ?? DEFAULT_MIN_CONFIDENCE;
+    for (const provider of providers) {
+      this.metrics.set(provider.name, {
+        provider: provider.name,
+        attempts: 0,
+        successes: 0,
+        failures: 0,
+        averageLatencyMs: 0,
+        totalLatencyMs: 0,
+      });
+    }
   }
 
   async extractTextFromLicense(base64Image: string): Promise<OCRResult> {
-    try {
-      console.log('Starting OCR text extraction from license image...');
-      
-      // the newest OpenAI model is "gpt-4o" which was released May 13, 2024. do not change this unless explicitly requested by the user
-      const response = await this.openai.chat.completions.create({
-        model: "gpt-4o",
-        messages: [
-          {
-            role: "system",
-            content: `You are an expert OCR system specialized in reading driver's licenses. Extract all visible text information from the license image and return it as structured JSON. 
-
-Pay special attention to:
-- Full name (first, middle, last)
-- Date of birth (format as YYYY-MM-DD)
-- License number
-- Expiration date (format as YYYY-MM-DD)
-- Address components (street, city, state, zip)
-- Physical characteristics (gender, eye color, height, weight)
-- License class and restrictions/endorsements
-
-Return only valid JSON with these exact field names: firstName, lastName, middleName, dateOfBirth, licenseNumber, expirationDate, address, city, state, zipCode, gender, eyeColor, height, weight, restrictions, endorsements, class.
-
-If a field is not clearly visible or readable, omit it from the response rather than guessing.`
-          },
-          {
-            role: "user",
-            content: [
-              {
-                type: "text",
-                text: "Please extract all text information from this driver's license image and return it as structured JSON."
-              },
-              {
-                type: "image_url",
-                image_url: {
-                  url: `data:image/jpeg;base64,${base64Image}`
-                }
-              }
-            ]
+    console.log('Starting OCR text extraction from license image...');
+    const attempts: OCRAttempt[] = [];
+    let lowConfidence: OCRResult | null = null;
+
+    for (const provider of this.providers) {
+      if (!provider.isAvailable()) continue;
+
+      const startedAt = Date.now();
+      try {
+        const result = await this.extractWithTimeout(provider, base64Image);
+        this.postProcessData(result.data);
+
+        if (Object.keys(result.data).length === 0) {
+          throw new Error('No license fields recognized');
+        }
+
+        if (result.confidence < this.minConfidence) {
+          const message = `Confidence ${result.confidence.toFixed(2)} is below ${this.minConfidence}`;
+          console.warn(`OCR provider ${provider.name}: ${message}`);
+          attempts.push(this.record(provider, startedAt, false, message));
+          if (!lowConfidence || result.confidence > lowConfidence.confidence!) {
+            lowConfidence = { success: true, data: result.data, confidence: result.confidence, provider: provider.name };
           }
-        ],
-        response_format: { type: "json_object" },
-        max_tokens: 1000
-      });
+          continue;
+        }
 
-      const content = response.choices[0].message.content;
-      if (!content) {
-        throw new Error('No content received from OpenAI');
+        attempts.push(this.record(provider, startedAt, true));
+        console.log(`Processed OCR data from ${provider.name}:`, result.data);
+
+        return {
+          success: true,
+          data: result.data,
+          confidence: result.confidence,
+          provider: provider.name,
+          attempts,
+        };
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Unknown OCR error';
+        console.error(`OCR provider ${provider.name} failed:`, error);
+        attempts.push(this.record(provider, startedAt, false, message));
       }
+    }
 
-      console.log('Raw OCR response:', content);
-      
-      const extractedData = JSON.parse(content) as OCRData;
-      
-      // Post-process the extracted data
-      this.postProcessData(extractedData);
-      
-      console.log('Processed OCR data:', extractedData);
-      
-      return {
-        success: true,
-        data: extractedData,
-        confidence: 0.9 // OpenAI typically has high confidence
-      };
-    } catch (error) {
-      console.error('OCR extraction failed:', error);
-      return {
-        success: false,
-        error: error instanceof Error ? error.message : 'Unknown OCR error'
-      };
+    if (lowConfidence) {
+      return { ...lowConfidence, attempts };
+    }
+
+    return {
+      success: false,
+      attempts,
+      error: attempts.length > 0
+        ? attempts[attempts.length - 1].error
+        : 'No OCR provider is available',
+    };
+  }
+
+  getMetrics(): OCRProviderMetrics[] {
+    return Array.from(this.metrics.values()).map(({ totalLatencyMs, ...metrics }) => metrics);
+  }
+
+  private async extractWithTimeout(provider: OCRProvider, base64Image: string): Promise<OCRProviderResult> {
+    let timer: NodeJS.Timeout | undefined;
+    const timeout = new Promise<never>((_, reject) => {
+      timer = setTimeout(() => reject(new Error(`Timed out after ${this.timeoutMs}ms`)), this.timeoutMs);
+    });
+
+    try {
+      return await Promise.race([provider.extract(base64Image), timeout]);
+    } finally {
+      clearTimeout(timer);
     }
   }
 
+  private record(provider: OCRProvider, startedAt: number, success: boolean, error?: string): OCRAttempt {
+    const latencyMs = Date.now() - startedAt;
+    const metrics = this.metrics.get(provider.name)!;
+
+    metrics.attempts++;
+    metrics.totalLatencyMs += latencyMs;
+    metrics.averageLatencyMs = Math.round(metrics.totalLatencyMs / metrics.attempts);
+    metrics.lastAttemptAt = new Date().toISOString();
+    if (success) {
+      metrics.successes++;
+    } else {
+      metrics.failures++;
+      metrics.lastError = error;
+    }
+
+    return { provider: provider.name, success, latencyMs, error };
+  }
+
   private postProcessData(data: OCRData): void {
     // Clean up and format extracted data
     if (data.firstName) {
@@ -131,8 +210,12 @@ If a field is not clearly visible or readable, omit it from the response rather
       data.expirationDate = this.formatDate(data.expirationDate);
     }
     
+    if (data.issueDate) {
+      data.issueDate = this.formatDate(data.issueDate);
+    }
+    
     if (data.licenseNumber) {
-      data.licenseNumber = data.licenseNumber.replace(/\s+/g, '').toUpperCase();
+      data.licenseNumber = normalizeLicenseNumber(data.licenseNumber);
     }
     
     if (data.state) {
@@ -204,4 +287,31 @@ If a field is not clearly visible or readable, omit it from the response rather
   }
 }
 
-export const backendOCRService = new BackendOCRService();
\ No newline at end of file
+const providerFactories: Record<string, () => OCRProvider> = {
+  openai: () => new OpenAIOCRProvider(),
+  tesseract: () => new TesseractOCRProvider(),
+  mock: () => new MockOCRProvider(),
+};
+
+// OCR_PROVIDERS is a comma-separated fallback chain, e.g. "openai,tesseract".
+// Without it, OpenAI is used when a key is configured and the offline engine otherwise.
+function createProviders(): OCRProvider[] {
+  const names = (process.env.OCR_PROVIDERS || (process.env.OPENAI_API_KEY ? 'openai,tesseract' : 'tesseract'))
+    .split(',')
+    .map((name) => name.trim().toLowerCase())
+    .filter(Boolean);
+
+  return names.flatMap((name) => {
+    const factory = providerFactories[name];
+    if (!factory) {
+      console.warn(`Ignoring unknown OCR provider "${name}"`);
+      return [];
+    }
+    return [factory()];
+  });
+}
+
+export const backendOCRService = new BackendOCRService(createProviders(), {
+  timeoutMs: process.env.OCR_TIMEOUT_MS ? Number(process.env.OCR_TIMEOUT_MS) : undefined,
+  minConfidence: process.env.OCR_MIN_CONFIDENCE ? Number(process.env.OCR_MIN_CONFIDENCE) : undefined,
+});
\ No newline at end of file
@@ -0,0 +1,24 @@
+// Apply the retention rules once, outside the server's own schedule.
+//
+//   npm run retention:purge                report what would be deleted, and delete it
+//   npm run retention:purge -- --dry-run   only report what would be deleted
+//
+// Rules are configured with the same RETENTION_* variables as the server.
+import { formatRetentionReport, runRetention } from "./retention";
+
+async function main() {
+  if (!process.env.DATABASE_URL) {
+    throw new Error('DATABASE_URL is not set; without the database every upload would look orphaned');
+  }
+
+  const report = await runRetention({ dryRun: process.argv.includes('--dry-run') });
+  console.log(formatRetentionReport(report));
+}
+
+main().then(
+  () => process.exit(0),
+  (error) => {
+    console.error('Retention purge failed:', error);
+    process.exit(1);
+  }
+);
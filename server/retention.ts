@@ -0,0 +1,208 @@
+import fs from "fs";
+import path from "path";
+import { storage, type ImageReference } from "./storage";
+import { deleteUpload, uploadDir } from "./uploads";
+import type { RetentionReport, RetentionRuleResult } from "@shared/schema";
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+const YEAR_MS = 365 * DAY_MS;
+
+// How long each kind of record is kept; null keeps it forever
+export interface RetentionPolicy {
+  orphanUploadHours: number | null;
+  failedSessionDays: number | null;
+  inactiveCustomerYears: number | null;
+  // How often the scheduled purge runs; null leaves purging to the admin API and CLI
+  purgeIntervalHours: number | null;
+}
+
+export const DEFAULT_RETENTION_POLICY: RetentionPolicy = {
+  orphanUploadHours: 24,
+  failedSessionDays: 30,
+  inactiveCustomerYears: null,
+  purgeIntervalHours: 24,
+};
+
+function readPeriod(name: string, fallback: number | null): number | null {
+  const value = process.env[name]?.trim().toLowerCase();
+  if (!value) return fallback;
+  if (value === 'off') return null;
+
+  const period = Number(value);
+  if (!Number.isFinite(period) || period <= 0) {
+    console.warn(`Ignoring invalid ${name} "${value}"`);
+    return fallback;
+  }
+  return period;
+}
+
+// RETENTION_ORPHAN_UPLOAD_HOURS, RETENTION_FAILED_SESSION_DAYS and RETENTION_INACTIVE_CUSTOMER_YEARS
+// set how long each kind of record is kept, or "off" to keep it forever. Images of inactive
+// customers are kept until RETENTION_INACTIVE_CUSTOMER_YEARS is set.
+// RETENTION_PURGE_INTERVAL_HOURS sets how often the purge runs, or "off" to only run it by hand.
+function loadRetentionPolicy(): RetentionPolicy {
+  return {
+    orphanUploadHours: readPeriod('RETENTION_ORPHAN_UPLOAD_HOURS', DEFAULT_RETENTION_POLICY.orphanUploadHours),
+    failedSessionDays: readPeriod('RETENTION_FAILED_SESSION_DAYS', DEFAULT_RETENTION_POLICY.failedSessionDays),
+    inactiveCustomerYears: readPeriod('RETENTION_INACTIVE_CUSTOMER_YEARS', DEFAULT_RETENTION_POLICY.inactiveCustomerYears),
+    purgeIntervalHours: readPeriod('RETENTION_PURGE_INTERVAL_HOURS', DEFAULT_RETENTION_POLICY.purgeIntervalHours),
+  };
+}
+
+export const retentionPolicy = loadRetentionPolicy();
+
+const cutoffBefore = (now: Date, period: number | null, unitMs: number) =>
+  period === null ? null : new Date(now.getTime() - period * unitMs);
+
+const unique = <T>(values: T[]) => Array.from(new Set(values));
+
+// Files in the upload directory that nothing points at and that were written before the cutoff
+async function unreferencedUploads(referenced: Set<string>, before: Date): Promise<string[]> {
+  const filenames: string[] = [];
+  for (const entry of await fs.promises.readdir(uploadDir, { withFileTypes: true })) {
+    if (!entry.isFile() || entry.name.endsWith('.tmp') || referenced.has(entry.name)) continue;
+
+    const { mtime } = await fs.promises.stat(path.join(uploadDir, entry.name));
+    if (mtime < before) filenames.push(entry.name);
+  }
+  return filenames;
+}
+
+// Apply every retention rule, or on a dry run only report what would be deleted.
+// Customers under a legal hold keep their images and failed sessions whatever their age.
+export async function runRetention({ dryRun, now = new Date() }: { dryRun: boolean; now?: Date }): Promise<RetentionReport> {
+  const orphanCutoff = cutoffBefore(now, retentionPolicy.orphanUploadHours, HOUR_MS);
+  const failedCutoff = cutoffBefore(now, retentionPolicy.failedSessionDays, DAY_MS);
+  const inactiveCutoff = cutoffBefore(now, retentionPolicy.inactiveCustomerYears, YEAR_MS);
+
+  const held = new Set((await storage.getLegalHolds()).map((hold) => hold.customerId));
+  const references = await storage.getImageReferences();
+
+  // Failed scans
+  const failedSessions = failedCutoff ? await storage.getFailedScanSessions(failedCutoff) : [];
+  const isHeld = (customerId: number | null) => customerId !== null && held.has(customerId);
+  const purgedSessions = failedSessions.filter((session) => !isHeld(session.customerId));
+  const heldSessionCustomerIds = unique(failedSessions.filter((session) => isHeld(session.customerId)).map((session) => session.customerId!));
+
+  // Uploads never attached to a customer
+  const orphanImages = orphanCutoff ? await storage.getOrphanLicenseImages(orphanCutoff) : [];
+  const orphanImageIds = new Set(orphanImages.map((image) => image.id));
+
+  // Images of customers neither updated nor scanned since the cutoff
+  const inactive = new Set(inactiveCutoff ? await storage.getInactiveCustomerIds(inactiveCutoff) : []);
+  const inactiveCustomerIds = unique(references
+    .filter((reference) => reference.customerId !== null && inactive.has(reference.customerId))
+    .map((reference) => reference.customerId!));
+  const purgedCustomerIds = new Set(inactiveCustomerIds.filter((id) => !held.has(id)));
+  const isInactivePurge = (reference: ImageReference) =>
+    reference.customerId !== null && purgedCustomerIds.has(reference.customerId);
+  const inactiveImageIds = unique(references
+    .filter((reference) => isInactivePurge(reference) && reference.licenseImageId !== null)
+    .map((reference) => reference.licenseImageId!));
+
+  // A file is only deleted once no surviving row or customer points at it, since identical
+  // crops share one content-addressed file
+  const isRemoved = (reference: ImageReference) =>
+    (reference.licenseImageId !== null && orphanImageIds.has(reference.licenseImageId)) || isInactivePurge(reference);
+  const remaining = new Set(references.filter((reference) => !isRemoved(reference)).map((reference) => reference.filename));
+
+  const orphanFiles = new Set(references
+    .filter((reference) => reference.licenseImageId !== null && orphanImageIds.has(reference.licenseImageId))
+    .map((reference) => reference.filename)
+    .filter((filename) => !remaining.has(filename)));
+  if (orphanCutoff) {
+    const referenced = new Set(references.map((reference) => reference.filename));
+    (await unreferencedUploads(referenced, orphanCutoff)).forEach((filename) => orphanFiles.add(filename));
+  }
+  const inactiveFiles = new Set(references
+    .filter(isInactivePurge)
+    .map((reference) => reference.filename)
+    .filter((filename) => !remaining.has(filename) && !orphanFiles.has(filename)));
+
+  if (!dryRun) {
+    await storage.deleteScanSessions(purgedSessions.map((session) => session.id));
+    await storage.deleteLicenseImages([...Array.from(orphanImageIds), ...inactiveImageIds]);
+    await storage.clearCustomerImages(Array.from(purgedCustomerIds));
+
+    // An upload since the references were read may have reused one of these files
+    const stillReferenced = new Set((await storage.getImageReferences()).map((reference) => reference.filename));
+    for (const filename of [...Array.from(orphanFiles), ...Array.from(inactiveFiles)]) {
+      if (!stillReferenced.has(filename)) await deleteUpload(filename);
+    }
+  }
+
+  const rules: RetentionRuleResult[] = [
+    {
+      rule: 'orphan-uploads',
+      cutoff: orphanCutoff?.toISOString() ?? null,
+      licenseImageIds: Array.from(orphanImageIds),
+      scanSessionIds: [],
+      customerIds: [],
+      heldCustomerIds: [],
+      files: orphanFiles.size,
+    },
+    {
+      rule: 'failed-sessions',
+      cutoff: failedCutoff?.toISOString() ?? null,
+      licenseImageIds: [],
+      scanSessionIds: purgedSessions.map((session) => session.id),
+      customerIds: [],
+      heldCustomerIds: heldSessionCustomerIds,
+      files: 0,
+    },
+    {
+      rule: 'inactive-customer-images',
+      cutoff: inactiveCutoff?.toISOString() ?? null,
+      licenseImageIds: inactiveImageIds,
+      scanSessionIds: [],
+      customerIds: Array.from(purgedCustomerIds),
+      heldCustomerIds: inactiveCustomerIds.filter((id) => held.has(id)),
+      files: inactiveFiles.size,
+    },
+  ];
+
+  return { dryRun, ranAt: now.toISOString(), rules };
+}
+
+// One line per rule, for logs and the command line
+export function formatRetentionReport(report: RetentionReport): string {
+  return report.rules.map((result) => {
+    if (!result.cutoff) return `${result.rule}: off`;
+    const counts = [
+      `${result.licenseImageIds.length} image records`,
+      `${result.scanSessionIds.length} scan sessions`,
+      `${result.customerIds.length} customers`,
+      `${result.files} files`,
+    ].join(', ');
+    const held = result.heldCustomerIds.length > 0 ? ` (${result.heldCustomerIds.length} customers on legal hold skipped)` : '';
+    return `${result.rule}: ${report.dryRun ? 'would delete' : 'deleted'} ${counts} older than ${result.cutoff}${held}`;
+  }).join('\n');
+}
+
+// Timers longer than 2^31-1 ms overflow and fire at once, so long intervals are waited out in steps
+const MAX_TIMEOUT_MS = 2 ** 31 - 1;
+
+// Purge once at startup, then every interval for as long as the server runs. Each server runs
+// its own purge; deleting what another server already deleted is harmless.
+export function scheduleRetentionPurge(): void {
+  if (retentionPolicy.purgeIntervalHours === null) return;
+  const intervalMs = retentionPolicy.purgeIntervalHours * HOUR_MS;
+
+  const wait = (remainingMs: number) => {
+    const delayMs = Math.min(remainingMs, MAX_TIMEOUT_MS);
+    setTimeout(() => (remainingMs > delayMs ? wait(remainingMs - delayMs) : purge()), delayMs).unref();
+  };
+
+  // The next purge is timed from the end of this one, so purges never overlap
+  const purge = async () => {
+    try {
+      console.log(`Retention purge\n${formatRetentionReport(await runRetention({ dryRun: false }))}`);
+    } catch (error) {
+      console.error('Retention purge failed:', error);
+    }
+    wait(intervalMs);
+  };
+
+  purge();
+}
@@ -0,0 +1,61 @@
+// Rotate the key-encryption key and re-encrypt stored customer data and uploads under it.
+//
+//   npm run keys:rotate                       make a new key current, then re-encrypt
+//   npm run keys:rotate -- --reencrypt-only   re-encrypt without a new key, e.g. to encrypt
+//                                             data stored before encryption was enabled or
+//                                             to finish an interrupted rotation
+//
+// Old keys stay in the provider so values can be read while the rotation runs.
+import fs from "fs";
+import path from "path";
+import { createDb } from "./db";
+import { encryption } from "./encryption";
+import { DbStorage } from "./storage";
+import { thumbnailDir, uploadDir } from "./uploads";
+
+async function reencryptUploads(directory: string, currentKeyId: string): Promise<number> {
+  if (!fs.existsSync(directory)) return 0;
+
+  let count = 0;
+  for (const entry of await fs.promises.readdir(directory, { withFileTypes: true })) {
+    if (!entry.isFile() || entry.name.endsWith('.tmp')) continue;
+
+    const filePath = path.join(directory, entry.name);
+    const data = await fs.promises.readFile(filePath);
+    if (encryption.keyIdOf(data) === currentKeyId) continue;
+
+    // Write then rename, so an interrupted run never leaves a half-written image
+    const temporary = `${filePath}.tmp`;
+    await fs.promises.writeFile(temporary, await encryption.encryptBuffer(await encryption.decryptBuffer(data)));
+    await fs.promises.rename(temporary, filePath);
+    count++;
+  }
+  return count;
+}
+
+async function main() {
+  if (!process.argv.includes('--reencrypt-only')) {
+    console.log(`Rotated ${encryption.providerName} key; new key is ${await encryption.rotate()}`);
+  }
+
+  const currentKeyId = await encryption.currentKeyId();
+
+  if (process.env.DATABASE_URL) {
+    const storage = new DbStorage(createDb(process.env.DATABASE_URL), encryption);
+    const { customers, revisions } = await storage.reencryptAll();
+    console.log(`Re-encrypted ${customers} customers and ${revisions} revisions`);
+  } else {
+    console.log('DATABASE_URL is not set; skipping the database');
+  }
+
+  const files = await reencryptUploads(uploadDir, currentKeyId) + await reencryptUploads(thumbnailDir, currentKeyId);
+  console.log(`Re-encrypted ${files} uploaded files`);
+}
+
+main().then(
+  () => process.exit(0),
+  (error) => {
+    console.error('Key rotation failed:', error);
+    process.exit(1);
+  }
+);
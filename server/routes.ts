@@ -1,50 +1,324 @@
-import type { Express } from "express";
+import type { Express, Request } from "express";
 import express from "express";
 import { createServer, type Server } from "http";
 import multer from "multer";
 import path from "path";
-import fs from "fs";
+import passport from "passport";
 import { storage } from "./storage";
+import { hashPassword, requireRole, setupAuth } from "./auth";
+import { formatRetentionReport, runRetention } from "./retention";
+import { buildCustomerExport, eraseCustomer, LegalHoldError } from "./data-subject";
+import { audit, auditDetails, auditNow, auditEventCsvRow, auditEventsMatching, auditCsvColumns, customerReadFields, verifyAuditLog } from "./audit";
+import { customerImageFilenames, IMAGE_URL_TTL_MS, signImageUrl, verifyImageSignature } from "./image-urls";
 import { backendOCRService } from "./ocr-service";
-import { insertCustomerSchema, insertLicenseImageSchema, insertScanSessionSchema } from "@shared/schema";
+import { backendBarcodeService } from "./barcode-service";
+import { findCustomerMatches } from "./customer-matching";
+import { assertDocumentSavable, DocumentValidityError, validityPolicy } from "./document-validity";
+import { parseAAMVA } from "@shared/aamva";
+import { crossCheckSides, withoutCompared } from "@shared/consistency";
+import { verifyAge } from "@shared/age-check";
+import { LICENSE_HOLDER_FIELDS } from "@shared/license-number";
+import { hashLicenseNumber } from "./license-hash";
+import { decodeDataUrl, isSupportedImageType, readUpload, readUploadThumbnail, saveContentAddressedImage, saveUpload, type DecodedImage } from "./uploads";
+import { hasRole } from "@shared/roles";
+import { ageCheckSchema, loginSchema, placeLegalHoldSchema, auditQuerySchema, auditExportQuerySchema, createOperatorSchema, updateOperatorSchema, insertCustomerSchema, customerFieldsSchema, customerQuerySchema, customerMatchQuerySchema, insertLicenseImageSchema, createScanSessionSchema, scanSessionFieldsSchema, revisionSources, imageSizes, type Customer, type InsertCustomer, type InsertLicenseImage, type RevisionSource, type AgeCheckResult, type InsertOperator, type CustomerImageUrls, type ImageSize, type InsertImageView, type ImageViewEntry } from "@shared/schema";
 import { z } from "zod";
 
-// Configure multer for file uploads
-const uploadDir = path.join(process.cwd(), 'uploads');
-if (!fs.existsSync(uploadDir)) {
-  fs.mkdirSync(uploadDir, { recursive: true });
-}
+const imageFileFilter: multer.Options['fileFilter'] = (req, file, cb) => {
+  const allowedTypes = /jpeg|jpg|png|pdf/;
+  const extname = allowedTypes.test(path.extname(file.originalname).toLowerCase());
+  const mimetype = allowedTypes.test(file.mimetype);
+  
+  if (mimetype && extname) {
+    return cb(null, true);
+  } else {
+    cb(new Error('Invalid file type. Only JPEG, PNG, and PDF files are allowed.'));
+  }
+};
 
+// Configure multer for file uploads; files are kept in memory so they are only written encrypted
 const upload = multer({
-  storage: multer.diskStorage({
-    destination: (req, file, cb) => {
-      cb(null, uploadDir);
-    },
-    filename: (req, file, cb) => {
-      const uniqueSuffix = Date.now() + '-' + Math.round(Math.random() * 1E9);
-      cb(null, file.fieldname + '-' + uniqueSuffix + path.extname(file.originalname));
-    }
-  }),
+  storage: multer.memoryStorage(),
   limits: {
     fileSize: 10 * 1024 * 1024, // 10MB limit
   },
-  fileFilter: (req, file, cb) => {
-    const allowedTypes = /jpeg|jpg|png|pdf/;
-    const extname = allowedTypes.test(path.extname(file.originalname).toLowerCase());
-    const mimetype = allowedTypes.test(file.mimetype);
-    
-    if (mimetype && extname) {
-      return cb(null, true);
-    } else {
-      cb(new Error('Invalid file type. Only JPEG, PNG, and PDF files are allowed.'));
-    }
+  fileFilter: imageFileFilter
+});
+
+// Crops are stored as content-addressed images, which can't be PDFs
+const cropFileFilter: multer.Options['fileFilter'] = (req, file, cb) => {
+  if (isSupportedImageType(file.mimetype)) {
+    return cb(null, true);
   }
+  cb(Object.assign(new Error('Invalid file type. Only JPEG, PNG, and WebP images are allowed.'), { status: 400 }));
+};
+
+// Crops are kept in memory so they can be hashed before being written to disk
+const cropUpload = multer({
+  storage: multer.memoryStorage(),
+  limits: {
+    fileSize: 10 * 1024 * 1024, // 10MB limit
+  },
+  fileFilter: cropFileFilter
 });
 
+const cropColumns = {
+  front: 'frontImagePath',
+  back: 'backImagePath',
+  face: 'faceImagePath',
+  signature: 'signatureImagePath',
+  barcode: 'barcodeImagePath',
+} as const;
+
+type CropType = keyof typeof cropColumns;
+const cropTypes = Object.keys(cropColumns) as CropType[];
+
+// Empty strings and nulls are both "no value" for revision purposes
+const normalizeRevisionValue = (value: unknown): string | null =>
+  value === undefined || value === null || value === '' ? null : String(value);
+
+// Update a customer and record one revision row per field whose value changed
+async function updateCustomerWithHistory(
+  id: number,
+  updates: Partial<InsertCustomer>,
+  source: RevisionSource,
+  operatorId: number
+): Promise<Customer | undefined> {
+  const existing = await storage.getCustomer(id);
+  if (!existing) return undefined;
+
+  // The license number must stay valid for the jurisdiction, surname and birth date it encodes
+  if (LICENSE_HOLDER_FIELDS.some((field) => updates[field] !== undefined)) {
+    insertCustomerSchema.parse({ ...existing, ...updates });
+  }
+
+  if (updates.dateOfBirth !== undefined || updates.licenseExpiration !== undefined || updates.licenseIssueDate !== undefined) {
+    assertDocumentSavable({ ...existing, ...updates });
+  }
+
+  const customer = await storage.updateCustomer(id, updates, operatorId);
+
+  for (const [field, value] of Object.entries(updates)) {
+    const oldValue = normalizeRevisionValue(existing[field as keyof Customer]);
+    const newValue = normalizeRevisionValue(value);
+    if (oldValue !== newValue) {
+      await storage.createCustomerRevision({ customerId: id, field, oldValue, newValue, source, operatorId });
+    }
+  }
+
+  return customer;
+}
+
+// Uploads a session keeps access to; older ones drop off
+const MAX_SESSION_UPLOADS = 20;
+
+// A stored upload may be read back by the session that uploaded it while no customer owns it,
+// or as one of the images of the customer named in the request, the same rule image views follow
+async function canReadUpload(req: Request, filename: string, customerId: unknown): Promise<boolean> {
+  if (req.session.uploads?.includes(filename)) return true;
+  if (typeof customerId !== 'number') return false;
+
+  const customer = await storage.getCustomer(customerId);
+  return !!customer && customerImageFilenames(customer, await storage.getLicenseImagesByCustomerId(customerId)).includes(filename);
+}
+
 export async function registerRoutes(app: Express): Promise<Server> {
-  
+  await setupAuth(app);
+
+  // Sign in with a username and password
+  app.post("/api/auth/login", audit('auth.login'), (req, res, next) => {
+    const parsed = loginSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: "Validation error", errors: parsed.error.errors });
+    }
+
+    passport.authenticate('local', (error: unknown, operator: Express.User | false) => {
+      if (error) {
+        return res.status(500).json({ message: "Failed to sign in" });
+      }
+      if (!operator) {
+        return res.status(401).json({ message: "Invalid username or password" });
+      }
+      req.login(operator, (loginError) => {
+        if (loginError) {
+          return res.status(500).json({ message: "Failed to sign in" });
+        }
+        res.json(operator);
+      });
+    })(req, res, next);
+  });
+
+  // Sign out and end the session
+  app.post("/api/auth/logout", audit('auth.logout'), (req, res) => {
+    req.logout((error) => {
+      if (error) {
+        return res.status(500).json({ message: "Failed to sign out" });
+      }
+      req.session.destroy(() => {
+        res.clearCookie('connect.sid');
+        res.status(204).end();
+      });
+    });
+  });
+
+  // The signed-in operator
+  app.get("/api/auth/me", requireRole('scanner'), async (req, res) => {
+    res.json(req.user);
+  });
+
+  // List operator accounts
+  app.get("/api/operators", requireRole('admin'), audit('operator.list'), async (req, res) => {
+    try {
+      const operators = await storage.getOperators();
+      res.json(operators);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch operators" });
+    }
+  });
+
+  // Create operator account
+  app.post("/api/operators", requireRole('admin'), audit('operator.create'), async (req, res) => {
+    try {
+      const { password, ...fields } = createOperatorSchema.parse(req.body);
+
+      if (await storage.getOperatorByUsername(fields.username)) {
+        return res.status(409).json({ message: "Username is already taken" });
+      }
+
+      const operator = await storage.createOperator({ ...fields, passwordHash: await hashPassword(password) });
+      res.status(201).json(operator);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to create operator" });
+    }
+  });
+
+  // Update an operator's name, role, status or password
+  app.put("/api/operators/:id", requireRole('admin'), audit('operator.update'), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const { password, ...fields } = updateOperatorSchema.parse(req.body);
+      auditDetails(res, { fields: Object.keys(req.body ?? {}) });
+
+      // An admin locking themselves out could leave nobody able to manage accounts
+      if (id === req.user!.id && (fields.active === false || (fields.role && fields.role !== 'admin'))) {
+        return res.status(400).json({ message: "You cannot remove your own admin access" });
+      }
+
+      const updates: Partial<InsertOperator> = password
+        ? { ...fields, passwordHash: await hashPassword(password) }
+        : fields;
+      const operator = await storage.updateOperator(id, updates);
+
+      if (!operator) {
+        return res.status(404).json({ message: "Operator not found" });
+      }
+
+      res.json(operator);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to update operator" });
+    }
+  });
+
+  // Search the audit log, newest first
+  app.get("/api/audit-events", requireRole('admin'), audit('audit.read'), async (req, res) => {
+    try {
+      const query = auditQuerySchema.parse(req.query);
+      const page = await storage.searchAuditEvents(query);
+      res.json(page);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid query", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to fetch audit events" });
+    }
+  });
+
+  // Download the audit events matching the filters as CSV or JSON
+  app.get("/api/audit-events/export", requireRole('admin'), audit('audit.export'), async (req, res) => {
+    try {
+      const { format, ...filters } = auditExportQuerySchema.parse(req.query);
+      res.attachment(`audit-events-${new Date().toISOString().slice(0, 10)}.${format}`);
+
+      if (format === 'csv') {
+        res.write(`${auditCsvColumns.join(',')}\n`);
+        for await (const event of auditEventsMatching(filters)) {
+          res.write(`${auditEventCsvRow(event)}\n`);
+        }
+      } else {
+        res.write('[');
+        let first = true;
+        for await (const event of auditEventsMatching(filters)) {
+          res.write(`${first ? '' : ','}\n${JSON.stringify(event)}`);
+          first = false;
+        }
+        res.write('\n]');
+      }
+      res.end();
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid query", errors: error.errors });
+      }
+      console.error('Audit export error:', error);
+      // Part of the file may already be sent; cut it off rather than leave it looking complete
+      if (res.headersSent) {
+        return res.destroy();
+      }
+      res.status(500).json({ message: "Failed to export audit events" });
+    }
+  });
+
+  // Recompute the audit log's hash chain and report the first event that breaks it
+  app.get("/api/audit-events/verify", requireRole('admin'), async (req, res) => {
+    try {
+      const verification = await verifyAuditLog();
+      res.json(verification);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to verify audit log" });
+    }
+  });
+
+  // List customers under a legal hold
+  app.get("/api/legal-holds", requireRole('admin'), audit('legal-hold.list'), async (req, res) => {
+    try {
+      const holds = await storage.getLegalHolds();
+      auditDetails(res, { customerIds: holds.map((hold) => hold.customerId) });
+      res.json(holds);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch legal holds" });
+    }
+  });
+
+  // Report what the retention rules would delete now, without deleting anything
+  app.get("/api/retention/report", requireRole('admin'), audit('retention.report'), async (req, res) => {
+    try {
+      const report = await runRetention({ dryRun: true });
+      res.json(report);
+    } catch (error) {
+      console.error('Retention report error:', error);
+      res.status(500).json({ message: "Failed to build retention report" });
+    }
+  });
+
+  // Apply the retention rules immediately instead of waiting for the scheduled purge
+  app.post("/api/retention/purge", requireRole('admin'), audit('retention.purge'), async (req, res) => {
+    try {
+      const report = await runRetention({ dryRun: false });
+      console.log(`Retention purge by operator ${req.user!.id}\n${formatRetentionReport(report)}`);
+      res.json(report);
+    } catch (error) {
+      console.error('Retention purge error:', error);
+      res.status(500).json({ message: "Failed to purge expired data" });
+    }
+  });
+
   // Get today's stats
-  app.get("/api/stats/today", async (req, res) => {
+  app.get("/api/stats/today", requireRole('scanner'), async (req, res) => {
     try {
       const stats = await storage.getTodayStats();
       res.json(stats);
@@ -53,21 +327,27 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Get all customers
-  app.get("/api/customers", async (req, res) => {
+  // Search customers with filters, sorting and cursor pagination
+  app.get("/api/customers", requireRole('scanner'), audit('customer.list', customerReadFields), async (req, res) => {
     try {
-      const customers = await storage.getAllCustomers();
-      res.json(customers);
+      const query = customerQuerySchema.parse(req.query);
+      const page = await storage.searchCustomers(query);
+      auditDetails(res, { customerIds: page.customers.map((customer) => customer.id) });
+      res.json(page);
     } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid query", errors: error.errors });
+      }
       res.status(500).json({ message: "Failed to fetch customers" });
     }
   });
 
   // Get recent customers
-  app.get("/api/customers/recent", async (req, res) => {
+  app.get("/api/customers/recent", requireRole('scanner'), audit('customer.list', customerReadFields), async (req, res) => {
     try {
       const limit = req.query.limit ? parseInt(req.query.limit as string) : 10;
       const customers = await storage.getRecentCustomers(limit);
+      auditDetails(res, { customerIds: customers.map((customer) => customer.id) });
       res.json(customers);
     } catch (error) {
       res.status(500).json({ message: "Failed to fetch recent customers" });
@@ -75,7 +355,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Get specific customer
-  app.get("/api/customers/:id", async (req, res) => {
+  app.get("/api/customers/:id", requireRole('scanner'), audit('customer.read', customerReadFields), async (req, res) => {
     try {
       const id = parseInt(req.params.id);
       const customer = await storage.getCustomer(id);
@@ -91,33 +371,105 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Create customer
-  app.post("/api/customers", async (req, res) => {
+  app.post("/api/customers", requireRole('scanner'), audit('customer.create'), async (req, res) => {
     try {
       const validatedData = insertCustomerSchema.parse(req.body);
+      assertDocumentSavable(validatedData);
       
-      // Check if license number already exists
+      // Point the client at the existing profile so it can offer to update it instead
       const existing = await storage.getCustomerByLicenseNumber(validatedData.licenseNumber);
       if (existing) {
-        return res.status(400).json({ message: "License number already exists" });
+        auditDetails(res, { customerIds: [existing.id], fields: [...customerReadFields] });
+        return res.status(409).json({
+          message: "Customer already exists",
+          match: { customer: existing, reason: 'licenseNumber', score: 1 },
+        });
       }
       
-      const customer = await storage.createCustomer(validatedData);
+      const customer = await storage.createCustomer(validatedData, req.user!.id);
+      auditDetails(res, { customerIds: [customer.id], fields: Object.keys(validatedData) });
       res.status(201).json(customer);
     } catch (error) {
       if (error instanceof z.ZodError) {
         return res.status(400).json({ message: "Validation error", errors: error.errors });
       }
+      if (error instanceof DocumentValidityError) {
+        return res.status(422).json({ message: "Document failed validity checks", findings: error.findings });
+      }
       res.status(500).json({ message: "Failed to create customer" });
     }
   });
 
+  // Validity policy, so clients flag documents the same way the server does
+  app.get("/api/validity-policy", requireRole('scanner'), async (req, res) => {
+    res.json(validityPolicy);
+  });
+
+  // Download everything stored about a customer, for a data subject access request
+  app.get("/api/customers/:id/export", requireRole('manager'), audit('customer.export', customerReadFields), async (req, res) => {
+    try {
+      const customerId = parseInt(req.params.id);
+      const bundle = await buildCustomerExport(customerId, req.user!.id);
+
+      if (!bundle) {
+        return res.status(404).json({ message: "Customer not found" });
+      }
+
+      res.attachment(`customer-${customerId}-export.zip`);
+      res.send(bundle);
+    } catch (error) {
+      console.error('Customer export error:', error);
+      res.status(500).json({ message: "Failed to export customer data" });
+    }
+  });
+
+  // Erase a customer on request. The audit event for this request is the only record left, so it
+  // is written before anything is deleted, and the erasure is refused if it can't be.
+  app.delete("/api/customers/:id", requireRole('admin'), audit('customer.erase', customerReadFields), async (req, res) => {
+    try {
+      const customerId = parseInt(req.params.id);
+      const files = await eraseCustomer(customerId, () => auditNow(res, 204));
+
+      if (files === null) {
+        return res.status(404).json({ message: "Customer not found" });
+      }
+
+      console.log(`Erased customer ${customerId} and ${files} files at the request of operator ${req.user!.id}`);
+      res.status(204).end();
+    } catch (error) {
+      if (error instanceof LegalHoldError) {
+        return res.status(409).json({ message: "Customer is under a legal hold and cannot be erased" });
+      }
+      console.error('Customer erasure error:', error);
+      res.status(500).json({ message: "Failed to erase customer" });
+    }
+  });
+
+  // Find existing customers matching a scan by license number, or by name and date of birth
+  app.post("/api/customers/matches", requireRole('scanner'), audit('customer.match', customerReadFields), async (req, res) => {
+    try {
+      const query = customerMatchQuerySchema.parse(req.body);
+      const matches = await findCustomerMatches(query);
+      auditDetails(res, { customerIds: matches.map((match) => match.customer.id) });
+      res.json({ matches });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to match customer" });
+    }
+  });
+
   // Update customer
-  app.put("/api/customers/:id", async (req, res) => {
+  app.put("/api/customers/:id", requireRole('manager'), audit('customer.update'), async (req, res) => {
     try {
       const id = parseInt(req.params.id);
-      const validatedData = insertCustomerSchema.partial().parse(req.body);
+      const { source, ...fields } = req.body;
+      const validatedData = customerFieldsSchema.partial().parse(fields);
+      const revisionSource = z.enum(revisionSources).default('manual').parse(source);
+      auditDetails(res, { fields: Object.keys(validatedData) });
       
-      const customer = await storage.updateCustomer(id, validatedData);
+      const customer = await updateCustomerWithHistory(id, validatedData, revisionSource, req.user!.id);
       
       if (!customer) {
         return res.status(404).json({ message: "Customer not found" });
@@ -128,12 +480,57 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (error instanceof z.ZodError) {
         return res.status(400).json({ message: "Validation error", errors: error.errors });
       }
+      if (error instanceof DocumentValidityError) {
+        return res.status(422).json({ message: "Document failed validity checks", findings: error.findings });
+      }
       res.status(500).json({ message: "Failed to update customer" });
     }
   });
 
+  // Get field-level change history for customer
+  app.get("/api/customers/:id/revisions", requireRole('scanner'), audit('customer.revisions.read'), async (req, res) => {
+    try {
+      const customerId = parseInt(req.params.id);
+      const revisions = await storage.getCustomerRevisions(customerId);
+      auditDetails(res, { fields: Array.from(new Set(revisions.map((revision) => revision.field))) });
+      res.json(revisions);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch customer revisions" });
+    }
+  });
+
+  // Revert a single field to the value it had before a revision
+  app.post("/api/customers/:id/revisions/:revisionId/revert", requireRole('manager'), audit('customer.revert'), async (req, res) => {
+    try {
+      const customerId = parseInt(req.params.id);
+      const revision = await storage.getCustomerRevision(parseInt(req.params.revisionId));
+      
+      if (!revision || revision.customerId !== customerId) {
+        return res.status(404).json({ message: "Revision not found" });
+      }
+
+      auditDetails(res, { fields: [revision.field] });
+      const validatedData = customerFieldsSchema.partial().parse({ [revision.field]: revision.oldValue });
+      const customer = await updateCustomerWithHistory(customerId, validatedData, 'manual', req.user!.id);
+      
+      if (!customer) {
+        return res.status(404).json({ message: "Customer not found" });
+      }
+      
+      res.json(customer);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      if (error instanceof DocumentValidityError) {
+        return res.status(422).json({ message: "Document failed validity checks", findings: error.findings });
+      }
+      res.status(500).json({ message: "Failed to revert customer field" });
+    }
+  });
+
   // Upload license images
-  app.post("/api/upload/license", upload.fields([
+  app.post("/api/upload/license", requireRole('scanner'), audit('license.upload'), upload.fields([
     { name: 'front', maxCount: 1 },
     { name: 'back', maxCount: 1 }
   ]), async (req, res) => {
@@ -144,22 +541,102 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: "At least one image is required" });
       }
 
+      const save = (file: Express.Multer.File) => {
+        const uniqueSuffix = Date.now() + '-' + Math.round(Math.random() * 1E9);
+        return saveUpload(file.fieldname + '-' + uniqueSuffix + path.extname(file.originalname), file.buffer);
+      };
+
       const result = {
-        frontImagePath: files.front ? files.front[0].filename : null,
-        backImagePath: files.back ? files.back[0].filename : null,
+        frontImagePath: files.front ? await save(files.front[0]) : null,
+        backImagePath: files.back ? await save(files.back[0]) : null,
       };
 
+      const saved = [result.frontImagePath, result.backImagePath].filter((filename): filename is string => !!filename);
+      req.session.uploads = [...(req.session.uploads ?? []), ...saved].slice(-MAX_SESSION_UPLOADS);
+
       res.json(result);
     } catch (error) {
       res.status(500).json({ message: "Failed to upload images" });
     }
   });
 
+  // Upload cropped images for a customer, as multipart parts or data URLs
+  app.post("/api/customers/:id/images", requireRole('scanner'), audit('customer.images.upload'), cropUpload.fields(
+    cropTypes.map((name) => ({ name, maxCount: 1 }))
+  ), async (req, res) => {
+    try {
+      const customerId = parseInt(req.params.id);
+      const customer = await storage.getCustomer(customerId);
+      
+      if (!customer) {
+        return res.status(404).json({ message: "Customer not found" });
+      }
+
+      const files = (req.files || {}) as { [fieldname: string]: Express.Multer.File[] };
+      const record: InsertLicenseImage = { customerId };
+      let stored = 0;
+
+      for (const type of cropTypes) {
+        let image: DecodedImage | null = null;
+        
+        if (files[type]) {
+          image = { buffer: files[type][0].buffer, mimeType: files[type][0].mimetype };
+        } else if (typeof req.body?.[type] === 'string' && req.body[type]) {
+          image = decodeDataUrl(req.body[type]);
+          if (!image) {
+            return res.status(400).json({ message: `Invalid image data for ${type}` });
+          }
+        }
+
+        if (image) {
+          record[cropColumns[type]] = await saveContentAddressedImage(image);
+          stored++;
+        }
+      }
+
+      if (stored === 0) {
+        return res.status(400).json({ message: "At least one image is required" });
+      }
+
+      auditDetails(res, { fields: cropTypes.filter((type) => record[cropColumns[type]]) });
+      const licenseImage = await storage.createLicenseImage(record);
+      const updatedCustomer = await storage.updateCustomer(customerId, {
+        profilePhotoPath: record.faceImagePath ?? customer.profilePhotoPath,
+        signaturePath: record.signatureImagePath ?? customer.signaturePath,
+      }, req.user!.id);
+
+      res.status(201).json({ licenseImage, customer: updatedCustomer });
+    } catch (error) {
+      console.error('Image upload error:', error);
+      res.status(500).json({ message: "Failed to store license images" });
+    }
+  });
+
   // Create license image record
-  app.post("/api/license-images", async (req, res) => {
+  app.post("/api/license-images", requireRole('scanner'), audit('customer.images.upload'), async (req, res) => {
     try {
       const validatedData = insertLicenseImageSchema.parse(req.body);
+      auditDetails(res, { customerIds: validatedData.customerId ? [validatedData.customerId] : [] });
+
+      // Only this session's own uploads may be attached; anything else would become readable
+      // through the customer's images
+      const attached = [
+        validatedData.frontImagePath,
+        validatedData.backImagePath,
+        validatedData.faceImagePath,
+        validatedData.signatureImagePath,
+        validatedData.barcodeImagePath,
+      ].filter((filename): filename is string => !!filename);
+      if (attached.some((filename) => !req.session.uploads?.includes(filename))) {
+        return res.status(403).json({ message: "Images must be uploaded in this session" });
+      }
+
       const licenseImage = await storage.createLicenseImage(validatedData);
+
+      // Once a customer owns an upload, it is read through that customer's access rules
+      if (validatedData.customerId && req.session.uploads) {
+        req.session.uploads = req.session.uploads.filter((filename) => !attached.includes(filename));
+      }
       res.status(201).json(licenseImage);
     } catch (error) {
       if (error instanceof z.ZodError) {
@@ -170,7 +647,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Get license images for customer
-  app.get("/api/customers/:id/images", async (req, res) => {
+  app.get("/api/customers/:id/images", requireRole('scanner'), audit('customer.images.read'), async (req, res) => {
     try {
       const customerId = parseInt(req.params.id);
       const images = await storage.getLicenseImagesByCustomerId(customerId);
@@ -180,12 +657,178 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Short-lived signed URLs for every image of a customer, for embedding in pages
+  app.get("/api/customers/:id/image-urls", requireRole('scanner'), audit('customer.image-urls.sign'), async (req, res) => {
+    try {
+      const customerId = parseInt(req.params.id);
+      const customer = await storage.getCustomer(customerId);
+
+      if (!customer) {
+        return res.status(404).json({ message: "Customer not found" });
+      }
+
+      const filenames = customerImageFilenames(customer, await storage.getLicenseImagesByCustomerId(customerId));
+      const expires = Date.now() + IMAGE_URL_TTL_MS;
+      const sign = (filename: string, size: ImageSize) =>
+        signImageUrl({ customerId, filename, size, operatorId: req.user!.id, expires });
+
+      const result: CustomerImageUrls = {
+        expiresAt: new Date(expires).toISOString(),
+        images: Object.fromEntries(filenames.map((filename) => [
+          filename,
+          { full: sign(filename, 'full'), thumbnail: sign(filename, 'thumbnail') },
+        ])),
+      };
+      res.json(result);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to sign image URLs" });
+    }
+  });
+
+  // Serve a customer's image, decrypted, to a signed-in operator or through a signed URL.
+  // Only files that belong to the customer are served, and every view is logged.
+  app.get("/api/customers/:id/images/:filename", audit('customer.image.view'), async (req, res) => {
+    try {
+      const customerId = parseInt(req.params.id);
+      const { filename } = req.params;
+      const size = z.enum(imageSizes).catch('full').parse(req.query.size);
+      let access: InsertImageView['access'];
+      let operatorId: number;
+
+      if (typeof req.query.signature === 'string') {
+        const claims = {
+          customerId,
+          filename,
+          size,
+          operatorId: Number(req.query.operator),
+          expires: Number(req.query.expires),
+        };
+        // The issuing operator must still be active, so deactivating an account revokes its links
+        const operator = verifyImageSignature(claims, req.query.signature)
+          ? await storage.getOperator(claims.operatorId)
+          : undefined;
+        if (!operator?.active || !hasRole(operator.role, 'scanner')) {
+          return res.status(403).json({ message: "Invalid or expired image link" });
+        }
+        access = 'signed-url';
+        operatorId = operator.id;
+        auditDetails(res, { operatorId });
+      } else if (req.isAuthenticated() && hasRole(req.user.role, 'scanner')) {
+        access = 'session';
+        operatorId = req.user.id;
+      } else {
+        return res.status(401).json({ message: "Sign in required" });
+      }
+
+      const customer = await storage.getCustomer(customerId);
+      const owned = customer
+        ? customerImageFilenames(customer, await storage.getLicenseImagesByCustomerId(customerId))
+        : [];
+      if (!owned.includes(filename)) {
+        return res.status(404).json({ message: "Image not found" });
+      }
+
+      const image = size === 'thumbnail' ? await readUploadThumbnail(filename) : await readUpload(filename);
+      if (!image) {
+        return res.status(404).json({ message: "Image not found" });
+      }
+
+      await storage.createImageView({
+        customerId,
+        operatorId,
+        filename,
+        size,
+        access,
+        ipAddress: req.ip ?? null,
+        userAgent: req.get('user-agent') ?? null,
+      });
+
+      // Not cached, so that every view reaches the server and is logged
+      res
+        .type(size === 'thumbnail' ? '.jpg' : path.extname(filename))
+        .set('Cache-Control', 'private, no-store')
+        .send(image);
+    } catch (error) {
+      console.error('Image read error:', error);
+      res.status(500).json({ message: "Failed to read image" });
+    }
+  });
+
+  // Who viewed a customer's images, newest first
+  app.get("/api/customers/:id/image-views", requireRole('manager'), async (req, res) => {
+    try {
+      const customerId = parseInt(req.params.id);
+      const views = await storage.getImageViews(customerId);
+      const names = new Map((await storage.getOperators()).map((operator) => [operator.id, operator.displayName]));
+      const entries: ImageViewEntry[] = views.map((view) => ({
+        ...view,
+        operatorName: view.operatorId ? names.get(view.operatorId) ?? null : null,
+      }));
+      res.json(entries);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch image views" });
+    }
+  });
+
+  // Get the legal hold on a customer, or null when there is none
+  app.get("/api/customers/:id/legal-hold", requireRole('admin'), audit('customer.legal-hold.read'), async (req, res) => {
+    try {
+      const hold = await storage.getLegalHold(parseInt(req.params.id));
+      res.json(hold ?? null);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch legal hold" });
+    }
+  });
+
+  // Exempt a customer from retention purges until the hold is released
+  app.put("/api/customers/:id/legal-hold", requireRole('admin'), audit('customer.legal-hold.place'), async (req, res) => {
+    try {
+      const customerId = parseInt(req.params.id);
+      const { reason } = placeLegalHoldSchema.parse(req.body);
+
+      if (!await storage.getCustomer(customerId)) {
+        return res.status(404).json({ message: "Customer not found" });
+      }
+
+      const hold = await storage.placeLegalHold({ customerId, reason, placedBy: req.user!.id });
+      res.json(hold);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to place legal hold" });
+    }
+  });
+
+  // Release a legal hold so the customer's data is purged under the normal rules again
+  app.delete("/api/customers/:id/legal-hold", requireRole('admin'), audit('customer.legal-hold.release'), async (req, res) => {
+    try {
+      const released = await storage.releaseLegalHold(parseInt(req.params.id));
+      if (!released) {
+        return res.status(404).json({ message: "Legal hold not found" });
+      }
+      res.status(204).end();
+    } catch (error) {
+      res.status(500).json({ message: "Failed to release legal hold" });
+    }
+  });
+
   // Create scan session
-  app.post("/api/scan-sessions", async (req, res) => {
+  app.post("/api/scan-sessions", requireRole('scanner'), audit('scan-session.create'), async (req, res) => {
     try {
-      const validatedData = insertScanSessionSchema.parse(req.body);
-      const scanSession = await storage.createScanSession(validatedData);
-      res.status(201).json(scanSession);
+      const { front, back, ...sessionData } = createScanSessionSchema.parse(req.body);
+      auditDetails(res, { customerIds: sessionData.customerId ? [sessionData.customerId] : [] });
+
+      // Compare the OCR'd front with the decoded barcode when both sides were read
+      const consistencyReport = front && back ? crossCheckSides(front, back) : null;
+      const scanSession = await storage.createScanSession({
+        ...sessionData,
+        operatorId: req.user!.id,
+        consistencyReport: consistencyReport && withoutCompared(consistencyReport),
+        riskScore: consistencyReport?.riskScore ?? null,
+      });
+      // The scanning operator sees the values that disagree; only the outcome is stored
+      res.status(201).json({ ...scanSession, consistencyReport });
     } catch (error) {
       if (error instanceof z.ZodError) {
         return res.status(400).json({ message: "Validation error", errors: error.errors });
@@ -195,10 +838,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Update scan session
-  app.put("/api/scan-sessions/:id", async (req, res) => {
+  app.put("/api/scan-sessions/:id", requireRole('scanner'), audit('scan-session.update'), async (req, res) => {
     try {
       const id = parseInt(req.params.id);
-      const validatedData = insertScanSessionSchema.partial().parse(req.body);
+      const validatedData = scanSessionFieldsSchema.partial().parse(req.body);
+      auditDetails(res, { customerIds: validatedData.customerId ? [validatedData.customerId] : [] });
       
       const scanSession = await storage.updateScanSession(id, validatedData);
       
@@ -215,8 +859,107 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Age verification: record only the verdict and a hashed license number, never the identity
+  app.post("/api/age-checks", requireRole('scanner'), audit('age-check.create'), async (req, res) => {
+    try {
+      const { licenseNumber, licenseState, minimumAge, ...dates } = ageCheckSchema.parse(req.body);
+      const verdict = verifyAge(dates, minimumAge, validityPolicy);
+      const licenseHash = licenseNumber ? await hashLicenseNumber(licenseNumber, licenseState) : null;
+
+      const previous = licenseHash ? await storage.getScanSessionsByLicenseHash(licenseHash) : [];
+      const lastVisit = previous
+        .map((session) => session.scanDate)
+        .filter((date): date is Date => !!date)
+        .sort((a, b) => b.getTime() - a.getTime())[0];
+
+      const scanSession = await storage.createScanSession({
+        status: 'complete',
+        mode: 'age-check',
+        outcome: verdict.outcome,
+        licenseHash,
+        operatorId: req.user!.id,
+      });
+
+      const result: AgeCheckResult = {
+        ...verdict,
+        scanSessionId: scanSession.id,
+        previousVisits: previous.length,
+        lastVisit: lastVisit?.toISOString() ?? null,
+      };
+      res.status(201).json(result);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to record age check" });
+    }
+  });
+
+  // Parse a raw AAMVA PDF417 payload
+  app.post("/api/barcode/parse", requireRole('scanner'), audit('barcode.decode'), async (req, res) => {
+    try {
+      const { data } = req.body;
+      
+      if (typeof data !== 'string' || !data) {
+        return res.status(400).json({ message: "Barcode data is required" });
+      }
+
+      const result = parseAAMVA(data);
+      
+      if (!result.success) {
+        return res.status(422).json(result);
+      }
+      
+      res.json(result);
+    } catch (error) {
+      console.error('Barcode parse error:', error);
+      res.status(500).json({ message: "Failed to parse barcode data" });
+    }
+  });
+
+  // Decode the PDF417 barcode from a stored upload or a base64 image
+  app.post("/api/barcode/decode", requireRole('scanner'), audit('barcode.decode'), async (req, res) => {
+    try {
+      const { imagePath, imageData, customerId } = req.body;
+      let imageBuffer: Buffer;
+
+      if (typeof imagePath === 'string' && imagePath) {
+        if (typeof customerId === 'number') {
+          auditDetails(res, { customerIds: [customerId] });
+        }
+        const image = await canReadUpload(req, imagePath, customerId) ? await readUpload(imagePath) : null;
+        if (!image) {
+          return res.status(404).json({ message: "Image not found" });
+        }
+        imageBuffer = image;
+      } else if (typeof imageData === 'string' && imageData) {
+        const image = decodeDataUrl(imageData);
+        if (!image) {
+          return res.status(400).json({ message: "Invalid image data" });
+        }
+        imageBuffer = image.buffer;
+      } else {
+        return res.status(400).json({ message: "An image path or image data is required" });
+      }
+
+      const result = await backendBarcodeService.decodeFromImage(imageBuffer);
+
+      res.json({
+        ...result,
+        data: result.record?.fields,
+        issuer: result.record?.issuer,
+      });
+    } catch (error) {
+      console.error('Barcode decode endpoint error:', error);
+      res.status(500).json({ 
+        success: false, 
+        error: error instanceof Error ? error.message : 'Barcode decoding failed' 
+      });
+    }
+  });
+
   // OCR text extraction endpoint
-  app.post("/api/ocr/extract", express.json({ limit: '10mb' }), async (req, res) => {
+  app.post("/api/ocr/extract", requireRole('scanner'), audit('ocr.extract'), express.json({ limit: '10mb' }), async (req, res) => {
     try {
       const { imageData } = req.body;
       
@@ -239,8 +982,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Serve uploaded files
-  app.use("/uploads", express.static(uploadDir));
+  // Per-provider OCR latency and success counts
+  app.get("/api/ocr/metrics", requireRole('manager'), async (req, res) => {
+    res.json(backendOCRService.getMetrics());
+  });
 
   const httpServer = createServer(app);
   return httpServer;
@@ -0,0 +1,272 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from "vitest";
+import { PGlite } from "@electric-sql/pglite";
+import { drizzle } from "drizzle-orm/pglite";
+import { migrate } from "drizzle-orm/pglite/migrator";
+import * as schema from "@shared/schema";
+import type { InsertCustomer } from "@shared/schema";
+import { DbStorage, MemStorage, type IStorage } from "./storage";
+import { EnvelopeEncryption } from "./encryption";
+import { LocalKeyProvider } from "./key-providers/local";
+import type { Database } from "./db";
+
+// The same contract runs against MemStorage and against DbStorage on PGlite, an in-process
+// Postgres, with the real migrations applied and encryption under a throwaway key file
+interface Backend {
+  name: string;
+  setup(): Promise<void>;
+  reset(): Promise<IStorage>;
+  teardown(): Promise<void>;
+}
+
+const memBackend = (): Backend => ({
+  name: "MemStorage",
+  setup: async () => {},
+  reset: async () => new MemStorage(),
+  teardown: async () => {},
+});
+
+const dbBackend = (): Backend & { exec(query: string): Promise<void> } => {
+  let client: PGlite;
+  let storage: DbStorage;
+  let keyDir: string;
+
+  return {
+    name: "DbStorage",
+    setup: async () => {
+      client = new PGlite();
+      const db = drizzle(client, { schema });
+      await migrate(db, { migrationsFolder: path.resolve(import.meta.dirname, "..", "migrations") });
+      keyDir = fs.mkdtempSync(path.join(os.tmpdir(), "storage-test-"));
+      const encryption = new EnvelopeEncryption(new LocalKeyProvider(path.join(keyDir, "keys.json")));
+      // PGlite and Neon share drizzle's Postgres query builder; only the driver type differs
+      storage = new DbStorage(db as unknown as Database, encryption);
+    },
+    reset: async () => {
+      // The audit log refuses truncation through a trigger; replica mode skips triggers for the reset
+      await client.exec(`SET session_replication_role = replica;
+        TRUNCATE audit_events, legal_holds, image_views, customer_revisions, scan_sessions,
+          license_images, customers, operators RESTART IDENTITY CASCADE;
+        SET session_replication_role = DEFAULT;`);
+      return storage;
+    },
+    exec: async (query) => {
+      await client.exec(query);
+    },
+    teardown: async () => {
+      await client.close();
+      fs.rmSync(keyDir, { recursive: true, force: true });
+    },
+  };
+};
+
+const customer = (overrides: Partial<InsertCustomer> = {}): InsertCustomer => ({
+  firstName: "Jane",
+  lastName: "Doe",
+  middleName: null,
+  dateOfBirth: "1990-04-12",
+  licenseNumber: "D1234567",
+  licenseState: "CA",
+  licenseExpiration: "2030-04-12",
+  licenseIssueDate: null,
+  address: "1 Main St",
+  city: "Sacramento",
+  state: "CA",
+  zipCode: "95814",
+  profilePhotoPath: null,
+  signaturePath: null,
+  ...overrides,
+});
+
+const firstPage = { sortBy: "lastName", sortOrder: "asc", limit: 25 } as const;
+
+describe.each([memBackend(), dbBackend()])("$name", (backend) => {
+  let storage: IStorage;
+
+  beforeAll(() => backend.setup(), 60_000);
+  afterAll(() => backend.teardown());
+  beforeEach(async () => {
+    storage = await backend.reset();
+  });
+
+  describe("customers", () => {
+    it("round-trips a customer with optional fields defaulted to null", async () => {
+      const created = await storage.createCustomer(customer({ address: undefined }));
+
+      expect(await storage.getCustomer(created.id)).toMatchObject({
+        firstName: "Jane",
+        licenseNumber: "D1234567",
+        dateOfBirth: "1990-04-12",
+        address: null,
+        middleName: null,
+      });
+      expect(await storage.getCustomer(created.id + 100)).toBeUndefined();
+    });
+
+    it("finds customers by whole license number and by date of birth", async () => {
+      await storage.createCustomer(customer());
+      await storage.createCustomer(customer({ firstName: "John", licenseNumber: "D7654321" }));
+
+      expect((await storage.getCustomerByLicenseNumber("D7654321"))?.firstName).toBe("John");
+      expect(await storage.getCustomerByLicenseNumber("D76543")).toBeUndefined();
+      expect(await storage.getCustomersByDateOfBirth("1990-04-12")).toHaveLength(2);
+      expect(await storage.getCustomersByDateOfBirth("1990-04-13")).toHaveLength(0);
+    });
+
+    it("updates fields, including encrypted ones, and reports missing customers", async () => {
+      const created = await storage.createCustomer(customer());
+      const updated = await storage.updateCustomer(created.id, { lastName: "Roe", licenseNumber: "D9999999" });
+
+      expect(updated).toMatchObject({ lastName: "Roe", licenseNumber: "D9999999" });
+      expect((await storage.getCustomerByLicenseNumber("D9999999"))?.id).toBe(created.id);
+      expect(await storage.getCustomerByLicenseNumber("D1234567")).toBeUndefined();
+      expect(await storage.updateCustomer(created.id + 100, { lastName: "Nobody" })).toBeUndefined();
+    });
+  });
+
+  describe("searchCustomers", () => {
+    beforeEach(async () => {
+      await storage.createCustomer(customer({ firstName: "Jane", lastName: "Doe", licenseNumber: "D1234567" }));
+      await storage.createCustomer(customer({ firstName: "John", lastName: "Adams", licenseNumber: "A7654321", licenseState: "NY" }));
+      await storage.createCustomer(customer({ firstName: "Mary", lastName: "Smith", licenseNumber: "S5550001" }));
+    });
+
+    const lastNames = async (query: Partial<Parameters<IStorage["searchCustomers"]>[0]>) =>
+      (await storage.searchCustomers({ ...firstPage, ...query })).customers.map((found) => found.lastName);
+
+    it("matches names by case-insensitive substring", async () => {
+      expect(await lastNames({ search: "ada" })).toEqual(["Adams"]);
+      expect(await lastNames({ search: "jane doe" })).toEqual(["Doe"]);
+    });
+
+    it("matches license numbers only whole, after normalization", async () => {
+      expect(await lastNames({ search: "a765-4321" })).toEqual(["Adams"]);
+      expect(await lastNames({ search: "7654" })).toEqual([]);
+    });
+
+    it("filters by state and sorts in both directions", async () => {
+      expect(await lastNames({ licenseState: "NY" })).toEqual(["Adams"]);
+      expect(await lastNames({})).toEqual(["Adams", "Doe", "Smith"]);
+      expect(await lastNames({ sortOrder: "desc" })).toEqual(["Smith", "Doe", "Adams"]);
+    });
+
+    it("pages with a cursor", async () => {
+      const page1 = await storage.searchCustomers({ ...firstPage, limit: 2 });
+      expect(page1.customers.map((found) => found.lastName)).toEqual(["Adams", "Doe"]);
+      expect(page1.nextCursor).not.toBeNull();
+
+      const page2 = await storage.searchCustomers({ ...firstPage, limit: 2, cursor: page1.nextCursor! });
+      expect(page2.customers.map((found) => found.lastName)).toEqual(["Smith"]);
+      expect(page2.nextCursor).toBeNull();
+    });
+  });
+
+  describe("deleteCustomer", () => {
+    it("removes owned rows and detaches scan sessions", async () => {
+      const created = await storage.createCustomer(customer());
+      await storage.createLicenseImage({ customerId: created.id, frontImagePath: "front.jpg" });
+      await storage.createCustomerRevision({ customerId: created.id, field: "lastName", oldValue: "Doe", newValue: "Roe", source: "manual" });
+      await storage.placeLegalHold({ customerId: created.id, reason: "Litigation" });
+      const session = await storage.createScanSession({ customerId: created.id, status: "complete" });
+
+      expect(await storage.deleteCustomer(created.id)).toBe(true);
+      expect(await storage.getCustomer(created.id)).toBeUndefined();
+      expect(await storage.getLicenseImagesByCustomerId(created.id)).toHaveLength(0);
+      expect(await storage.getCustomerRevisions(created.id)).toHaveLength(0);
+      expect(await storage.getLegalHold(created.id)).toBeUndefined();
+      expect(await storage.getScanSessionsByCustomerId(created.id)).toHaveLength(0);
+      expect((await storage.getFailedScanSessions(new Date(Date.now() + 60_000))).map((found) => found.id)).not.toContain(session.id);
+      expect(await storage.deleteCustomer(created.id)).toBe(false);
+    });
+  });
+
+  describe("scan sessions", () => {
+    it("creates, updates and finds sessions by customer and license hash", async () => {
+      const created = await storage.createCustomer(customer());
+      const session = await storage.createScanSession({ customerId: created.id, status: "processing", licenseHash: "abc" });
+
+      expect(session).toMatchObject({ status: "processing", mode: "customer", errorMessage: null, imageQuality: null });
+      expect(await storage.updateScanSession(session.id, { status: "failed", errorMessage: "Blurry" }))
+        .toMatchObject({ status: "failed", errorMessage: "Blurry" });
+      expect(await storage.getScanSessionsByCustomerId(created.id)).toHaveLength(1);
+      expect(await storage.getScanSessionsByLicenseHash("abc")).toHaveLength(1);
+      expect(await storage.updateScanSession(session.id + 100, { status: "complete" })).toBeUndefined();
+    });
+  });
+
+  describe("customer revisions", () => {
+    it("keeps old and new values of encrypted fields readable", async () => {
+      const created = await storage.createCustomer(customer());
+      const revision = await storage.createCustomerRevision({
+        customerId: created.id, field: "licenseNumber", oldValue: "D1234567", newValue: "D7654321", source: "rescan",
+      });
+
+      expect(await storage.getCustomerRevision(revision.id)).toMatchObject({ oldValue: "D1234567", newValue: "D7654321" });
+      expect(await storage.getCustomerRevisions(created.id)).toHaveLength(1);
+    });
+  });
+
+  describe("audit events", () => {
+    it("chains each event onto the previous one's hash", async () => {
+      const event = {
+        occurredAt: new Date(), action: "customer.read" as const, method: "GET", path: "/api/customers/1", statusCode: 200,
+      };
+      const [first, second] = await storage.appendAuditEvents([event, { ...event, customerId: 1 }]);
+      const [third] = await storage.appendAuditEvents([{ ...event, action: "customer.list" }]);
+
+      expect(first.previousHash).toBeNull();
+      expect(second.previousHash).toBe(first.hash);
+      expect(third.previousHash).toBe(second.hash);
+      expect((await storage.getAuditEventsAfter(first.id, 10)).map((found) => found.id)).toEqual([second.id, third.id]);
+    });
+  });
+
+  describe("legal holds", () => {
+    it("places and releases holds", async () => {
+      const created = await storage.createCustomer(customer());
+      await storage.placeLegalHold({ customerId: created.id, reason: "Litigation" });
+
+      expect(await storage.getLegalHold(created.id)).toMatchObject({ reason: "Litigation" });
+      expect(await storage.getLegalHolds()).toHaveLength(1);
+      expect(await storage.releaseLegalHold(created.id)).toBe(true);
+      expect(await storage.releaseLegalHold(created.id)).toBe(false);
+    });
+  });
+
+  describe("operators", () => {
+    it("only returns password hashes for login lookups", async () => {
+      const created = await storage.createOperator({ username: "jdoe", displayName: "J Doe", passwordHash: "hash", role: "manager" });
+
+      expect(created).not.toHaveProperty("passwordHash");
+      expect(await storage.getOperator(created.id)).not.toHaveProperty("passwordHash");
+      expect(await storage.getOperatorByUsername("jdoe")).toMatchObject({ passwordHash: "hash", role: "manager" });
+      expect((await storage.getOperators())[0]).not.toHaveProperty("passwordHash");
+      expect(await storage.updateOperator(created.id, { active: false })).toMatchObject({ active: false });
+    });
+  });
+});
+
+describe("DbStorage.backfillBlindIndexes", () => {
+  const backend = dbBackend();
+  let storage: DbStorage;
+
+  beforeAll(() => backend.setup(), 60_000);
+  afterAll(() => backend.teardown());
+  beforeEach(async () => {
+    storage = await backend.reset() as DbStorage;
+  });
+
+  it("indexes and encrypts customers stored before blind indexes", async () => {
+    // As left by migration 0006: plaintext values and no indexes
+    await backend.exec(`INSERT INTO customers (first_name, last_name, date_of_birth, license_number, license_state, license_expiration)
+      VALUES ('Jane', 'Doe', '1990-04-12', 'D1234567', 'CA', '2030-04-12')`);
+    expect(await storage.getCustomerByLicenseNumber("D1234567")).toBeUndefined();
+
+    expect(await storage.backfillBlindIndexes()).toBe(1);
+    expect(await storage.getCustomerByLicenseNumber("D1234567")).toMatchObject({ firstName: "Jane", dateOfBirth: "1990-04-12" });
+    expect(await storage.getCustomersByDateOfBirth("1990-04-12")).toHaveLength(1);
+    expect(await storage.backfillBlindIndexes()).toBe(0);
+  });
+});
@@ -1,13 +1,23 @@
-import { customers, licenseImages, scanSessions, type Customer, type InsertCustomer, type LicenseImage, type InsertLicenseImage, type ScanSession, type InsertScanSession } from "@shared/schema";
+import { customers, licenseImages, scanSessions, customerRevisions, operators, imageViews, auditEvents, legalHolds, type LegalHold, type InsertLegalHold, type AuditEvent, type InsertAuditEvent, type AuditQuery, type AuditEventPage, type ImageView, type InsertImageView, type Operator, type OperatorWithPassword, type InsertOperator, type Customer, type InsertCustomer, type LicenseImage, type InsertLicenseImage, type ScanSession, type InsertScanSession, type CustomerQuery, type CustomerPage, type CustomerSortField, type CustomerRevision, type InsertCustomerRevision } from "@shared/schema";
+import { and, asc, count, desc, eq, gt, gte, ilike, inArray, isNull, lt, lte, notExists, or, sql, type SQL } from "drizzle-orm";
+import { createDb, type Database } from "./db";
+import { encryption, type EnvelopeEncryption } from "./encryption";
+import { normalizeLicenseNumber } from "@shared/jurisdictions";
+import { hashAuditEvent } from "./audit-chain";
 
 export interface IStorage {
   // Customer operations
   getCustomer(id: number): Promise<Customer | undefined>;
   getCustomerByLicenseNumber(licenseNumber: string): Promise<Customer | undefined>;
-  createCustomer(customer: InsertCustomer): Promise<Customer>;
-  updateCustomer(id: number, customer: Partial<InsertCustomer>): Promise<Customer | undefined>;
+  getCustomersByDateOfBirth(dateOfBirth: string): Promise<Customer[]>;
+  createCustomer(customer: InsertCustomer, operatorId?: number): Promise<Customer>;
+  updateCustomer(id: number, customer: Partial<InsertCustomer>, operatorId?: number): Promise<Customer | undefined>;
   getAllCustomers(): Promise<Customer[]>;
   getRecentCustomers(limit?: number): Promise<Customer[]>;
+  searchCustomers(query: CustomerQuery): Promise<CustomerPage>;
+  // Removes the customer with its images, revisions and image views; scan sessions are kept for
+  // statistics but detached and stripped of the values they read
+  deleteCustomer(id: number): Promise<boolean>;
   
   // License image operations
   createLicenseImage(licenseImage: InsertLicenseImage): Promise<LicenseImage>;
@@ -17,24 +27,150 @@ export interface IStorage {
   createScanSession(scanSession: InsertScanSession): Promise<ScanSession>;
   updateScanSession(id: number, scanSession: Partial<InsertScanSession>): Promise<ScanSession | undefined>;
   getScanSessionsByCustomerId(customerId: number): Promise<ScanSession[]>;
-  getTodayStats(): Promise<{ scanned: number; failed: number; newCustomers: number }>;
+  getScanSessionsByLicenseHash(licenseHash: string): Promise<ScanSession[]>;
+  getTodayStats(): Promise<{ scanned: number; failed: number; newCustomers: number; ageChecks: number }>;
+
+  // Customer revision operations
+  createCustomerRevision(revision: InsertCustomerRevision): Promise<CustomerRevision>;
+  getCustomerRevision(id: number): Promise<CustomerRevision | undefined>;
+  getCustomerRevisions(customerId: number): Promise<CustomerRevision[]>;
+
+  // Image view audit operations
+  createImageView(view: InsertImageView): Promise<ImageView>;
+  getImageViews(customerId: number): Promise<ImageView[]>;
+
+  // Audit log operations; events are only ever appended
+  appendAuditEvents(events: InsertAuditEvent[]): Promise<AuditEvent[]>;
+  searchAuditEvents(query: AuditQuery): Promise<AuditEventPage>;
+  getAuditEventsAfter(afterId: number, limit: number): Promise<AuditEvent[]>;
+
+  // Legal hold operations
+  getLegalHold(customerId: number): Promise<LegalHold | undefined>;
+  getLegalHolds(): Promise<LegalHold[]>;
+  placeLegalHold(hold: InsertLegalHold): Promise<LegalHold>;
+  releaseLegalHold(customerId: number): Promise<boolean>;
+
+  // Retention operations
+  getOrphanLicenseImages(before: Date): Promise<LicenseImage[]>;
+  getFailedScanSessions(before: Date): Promise<ScanSession[]>;
+  getInactiveCustomerIds(before: Date): Promise<number[]>;
+  getImageReferences(): Promise<ImageReference[]>;
+  deleteLicenseImages(ids: number[]): Promise<void>;
+  deleteScanSessions(ids: number[]): Promise<void>;
+  clearCustomerImages(customerIds: number[]): Promise<void>;
+
+  // Operator operations
+  getOperator(id: number): Promise<Operator | undefined>;
+  getOperatorByUsername(username: string): Promise<OperatorWithPassword | undefined>;
+  getOperators(): Promise<Operator[]>;
+  createOperator(operator: InsertOperator): Promise<Operator>;
+  updateOperator(id: number, operator: Partial<InsertOperator>): Promise<Operator | undefined>;
+  recordOperatorLogin(id: number): Promise<void>;
+}
+
+// A stored file and the license image row or customer that points at it
+export interface ImageReference {
+  filename: string;
+  licenseImageId: number | null;
+  customerId: number | null;
+}
+
+const licenseImageReferences = (image: LicenseImage): ImageReference[] =>
+  [image.frontImagePath, image.backImagePath, image.faceImagePath, image.signatureImagePath, image.barcodeImagePath]
+    .filter((filename): filename is string => !!filename)
+    .map((filename) => ({ filename, licenseImageId: image.id, customerId: image.customerId }));
+
+const customerImageReferences = (customer: Pick<Customer, 'id' | 'profilePhotoPath' | 'signaturePath'>): ImageReference[] =>
+  [customer.profilePhotoPath, customer.signaturePath]
+    .filter((filename): filename is string => !!filename)
+    .map((filename) => ({ filename, licenseImageId: null, customerId: customer.id }));
+
+// Chain events onto the hash of the last stored event
+function chainAuditEvents(events: InsertAuditEvent[], previousHash: string | null) {
+  return events.map((event) => {
+    const hash = hashAuditEvent(event, previousHash);
+    const chained = {
+      ...event,
+      operatorId: event.operatorId ?? null,
+      customerId: event.customerId ?? null,
+      fields: event.fields ?? null,
+      ipAddress: event.ipAddress ?? null,
+      userAgent: event.userAgent ?? null,
+      previousHash,
+      hash,
+    };
+    previousHash = hash;
+    return chained;
+  });
+}
+
+function withoutPassword({ passwordHash, ...operator }: OperatorWithPassword): Operator {
+  return operator;
+}
+
+// Cursors encode the sort value and id of the last customer on a page
+function encodeCursor(value: string, id: number): string {
+  return Buffer.from(JSON.stringify([value, id])).toString('base64url');
+}
+
+function decodeCursor(cursor: string): { value: string; id: number } | undefined {
+  try {
+    const [value, id] = JSON.parse(Buffer.from(cursor, 'base64url').toString());
+    if (typeof value === 'string' && typeof id === 'number') {
+      return { value, id };
+    }
+  } catch {
+    // Malformed cursors are treated as the first page
+  }
+  return undefined;
+}
+
+function getSortValue(customer: Customer, field: CustomerSortField): string {
+  if (field === 'createdAt') {
+    return new Date(customer.createdAt!).toISOString();
+  }
+  return customer[field];
+}
+
+function nextDay(date: string): Date {
+  const day = new Date(`${date}T00:00:00`);
+  day.setDate(day.getDate() + 1);
+  return day;
 }
 
 export class MemStorage implements IStorage {
   private customers: Map<number, Customer>;
   private licenseImages: Map<number, LicenseImage>;
   private scanSessions: Map<number, ScanSession>;
+  private customerRevisions: Map<number, CustomerRevision>;
+  private operators: Map<number, OperatorWithPassword>;
+  private imageViews: Map<number, ImageView>;
+  private auditEvents: AuditEvent[];
+  private legalHolds: Map<number, LegalHold>;
   private currentCustomerId: number;
   private currentLicenseImageId: number;
   private currentScanSessionId: number;
+  private currentCustomerRevisionId: number;
+  private currentOperatorId: number;
+  private currentImageViewId: number;
+  private currentAuditEventId: number;
 
   constructor() {
     this.customers = new Map();
     this.licenseImages = new Map();
     this.scanSessions = new Map();
+    this.customerRevisions = new Map();
+    this.operators = new Map();
+    this.imageViews = new Map();
+    this.auditEvents = [];
+    this.legalHolds = new Map();
     this.currentCustomerId = 1;
     this.currentLicenseImageId = 1;
     this.currentScanSessionId = 1;
+    this.currentCustomerRevisionId = 1;
+    this.currentOperatorId = 1;
+    this.currentImageViewId = 1;
+    this.currentAuditEventId = 1;
   }
 
   async getCustomer(id: number): Promise<Customer | undefined> {
@@ -47,12 +183,28 @@ export class MemStorage implements IStorage {
     );
   }
 
-  async createCustomer(insertCustomer: InsertCustomer): Promise<Customer> {
+  async getCustomersByDateOfBirth(dateOfBirth: string): Promise<Customer[]> {
+    return Array.from(this.customers.values()).filter(
+      (customer) => customer.dateOfBirth === dateOfBirth,
+    );
+  }
+
+  async createCustomer(insertCustomer: InsertCustomer, operatorId?: number): Promise<Customer> {
     const id = this.currentCustomerId++;
     const now = new Date();
     const customer: Customer = { 
       ...insertCustomer, 
       id, 
+      middleName: insertCustomer.middleName ?? null,
+      licenseIssueDate: insertCustomer.licenseIssueDate ?? null,
+      address: insertCustomer.address ?? null,
+      city: insertCustomer.city ?? null,
+      state: insertCustomer.state ?? null,
+      zipCode: insertCustomer.zipCode ?? null,
+      profilePhotoPath: insertCustomer.profilePhotoPath ?? null,
+      signaturePath: insertCustomer.signaturePath ?? null,
+      createdBy: operatorId ?? null,
+      updatedBy: operatorId ?? null,
       createdAt: now,
       updatedAt: now
     };
@@ -60,13 +212,14 @@ export class MemStorage implements IStorage {
     return customer;
   }
 
-  async updateCustomer(id: number, updateData: Partial<InsertCustomer>): Promise<Customer | undefined> {
+  async updateCustomer(id: number, updateData: Partial<InsertCustomer>, operatorId?: number): Promise<Customer | undefined> {
     const existing = this.customers.get(id);
     if (!existing) return undefined;
     
     const updated: Customer = {
       ...existing,
       ...updateData,
+      updatedBy: operatorId ?? existing.updatedBy,
       updatedAt: new Date()
     };
     this.customers.set(id, updated);
@@ -83,11 +236,83 @@ export class MemStorage implements IStorage {
       .slice(0, limit);
   }
 
+  async searchCustomers(query: CustomerQuery): Promise<CustomerPage> {
+    const search = query.search?.toLowerCase();
+    const direction = query.sortOrder === 'asc' ? 1 : -1;
+
+    const compare = (aValue: string, aId: number, bValue: string, bId: number) => {
+      if (aValue !== bValue) return (aValue < bValue ? -1 : 1) * direction;
+      return (aId - bId) * direction;
+    };
+
+    let results = Array.from(this.customers.values()).filter((customer) => {
+      if (search) {
+        const names = [
+          customer.firstName,
+          customer.lastName,
+          `${customer.firstName} ${customer.lastName}`
+        ].map((value) => value.toLowerCase());
+        // Matches DbStorage, where encrypted license numbers can only be matched whole
+        const licenseMatch = customer.licenseNumber === normalizeLicenseNumber(query.search!);
+        if (!licenseMatch && !names.some((value) => value.includes(search))) return false;
+      }
+      if (query.licenseState && customer.licenseState !== query.licenseState) return false;
+      if (query.expiresFrom && customer.licenseExpiration < query.expiresFrom) return false;
+      if (query.expiresTo && customer.licenseExpiration > query.expiresTo) return false;
+
+      const createdAt = new Date(customer.createdAt!).getTime();
+      if (query.createdFrom && createdAt < new Date(`${query.createdFrom}T00:00:00`).getTime()) return false;
+      if (query.createdTo && createdAt >= nextDay(query.createdTo).getTime()) return false;
+      return true;
+    });
+
+    results.sort((a, b) => compare(getSortValue(a, query.sortBy), a.id, getSortValue(b, query.sortBy), b.id));
+
+    const cursor = query.cursor ? decodeCursor(query.cursor) : undefined;
+    if (cursor) {
+      results = results.filter(
+        (customer) => compare(getSortValue(customer, query.sortBy), customer.id, cursor.value, cursor.id) > 0
+      );
+    }
+
+    const page = results.slice(0, query.limit);
+    const last = page[page.length - 1];
+    return {
+      customers: page,
+      nextCursor: results.length > query.limit && last
+        ? encodeCursor(getSortValue(last, query.sortBy), last.id)
+        : null
+    };
+  }
+
+  async deleteCustomer(id: number): Promise<boolean> {
+    if (!this.customers.has(id)) return false;
+
+    const ownedBy = <T extends { customerId: number | null }>(rows: Map<number, T>) =>
+      Array.from(rows.entries()).filter(([, row]) => row.customerId === id).map(([rowId]) => rowId);
+
+    ownedBy(this.licenseImages).forEach((rowId) => this.licenseImages.delete(rowId));
+    ownedBy(this.customerRevisions).forEach((rowId) => this.customerRevisions.delete(rowId));
+    ownedBy(this.imageViews).forEach((rowId) => this.imageViews.delete(rowId));
+    for (const rowId of ownedBy(this.scanSessions)) {
+      const session = this.scanSessions.get(rowId)!;
+      this.scanSessions.set(rowId, { ...session, customerId: null, consistencyReport: null });
+    }
+    this.legalHolds.delete(id);
+    return this.customers.delete(id);
+  }
+
   async createLicenseImage(insertLicenseImage: InsertLicenseImage): Promise<LicenseImage> {
     const id = this.currentLicenseImageId++;
     const licenseImage: LicenseImage = {
       ...insertLicenseImage,
       id,
+      customerId: insertLicenseImage.customerId ?? null,
+      frontImagePath: insertLicenseImage.frontImagePath ?? null,
+      backImagePath: insertLicenseImage.backImagePath ?? null,
+      faceImagePath: insertLicenseImage.faceImagePath ?? null,
+      signatureImagePath: insertLicenseImage.signatureImagePath ?? null,
+      barcodeImagePath: insertLicenseImage.barcodeImagePath ?? null,
       createdAt: new Date()
     };
     this.licenseImages.set(id, licenseImage);
@@ -105,6 +330,15 @@ export class MemStorage implements IStorage {
     const scanSession: ScanSession = {
       ...insertScanSession,
       id,
+      customerId: insertScanSession.customerId ?? null,
+      operatorId: insertScanSession.operatorId ?? null,
+      errorMessage: insertScanSession.errorMessage ?? null,
+      consistencyReport: insertScanSession.consistencyReport ?? null,
+      riskScore: insertScanSession.riskScore ?? null,
+      mode: insertScanSession.mode ?? 'customer',
+      outcome: insertScanSession.outcome ?? null,
+      licenseHash: insertScanSession.licenseHash ?? null,
+      imageQuality: insertScanSession.imageQuality ?? null,
       scanDate: new Date()
     };
     this.scanSessions.set(id, scanSession);
@@ -129,7 +363,13 @@ export class MemStorage implements IStorage {
     );
   }
 
-  async getTodayStats(): Promise<{ scanned: number; failed: number; newCustomers: number }> {
+  async getScanSessionsByLicenseHash(licenseHash: string): Promise<ScanSession[]> {
+    return Array.from(this.scanSessions.values()).filter(
+      (session) => session.licenseHash === licenseHash
+    );
+  }
+
+  async getTodayStats(): Promise<{ scanned: number; failed: number; newCustomers: number; ageChecks: number }> {
     const today = new Date();
     today.setHours(0, 0, 0, 0);
     
@@ -141,12 +381,709 @@ export class MemStorage implements IStorage {
       (customer) => new Date(customer.createdAt!).getTime() >= today.getTime()
     );
     
+    const customerScans = todayScans.filter(s => s.mode === 'customer');
+    
     return {
-      scanned: todayScans.filter(s => s.status === 'complete').length,
-      failed: todayScans.filter(s => s.status === 'failed').length,
-      newCustomers: todayCustomers.length
+      scanned: customerScans.filter(s => s.status === 'complete').length,
+      failed: customerScans.filter(s => s.status === 'failed').length,
+      newCustomers: todayCustomers.length,
+      ageChecks: todayScans.filter(s => s.mode === 'age-check').length
     };
   }
+
+  async createCustomerRevision(insertRevision: InsertCustomerRevision): Promise<CustomerRevision> {
+    const id = this.currentCustomerRevisionId++;
+    const revision: CustomerRevision = {
+      ...insertRevision,
+      id,
+      oldValue: insertRevision.oldValue ?? null,
+      newValue: insertRevision.newValue ?? null,
+      operatorId: insertRevision.operatorId ?? null,
+      createdAt: new Date()
+    };
+    this.customerRevisions.set(id, revision);
+    return revision;
+  }
+
+  async getCustomerRevision(id: number): Promise<CustomerRevision | undefined> {
+    return this.customerRevisions.get(id);
+  }
+
+  async getCustomerRevisions(customerId: number): Promise<CustomerRevision[]> {
+    return Array.from(this.customerRevisions.values())
+      .filter((revision) => revision.customerId === customerId)
+      .sort((a, b) => b.id - a.id);
+  }
+
+  async createImageView(insertView: InsertImageView): Promise<ImageView> {
+    const id = this.currentImageViewId++;
+    const view: ImageView = {
+      ...insertView,
+      id,
+      operatorId: insertView.operatorId ?? null,
+      ipAddress: insertView.ipAddress ?? null,
+      userAgent: insertView.userAgent ?? null,
+      viewedAt: new Date()
+    };
+    this.imageViews.set(id, view);
+    return view;
+  }
+
+  async getImageViews(customerId: number): Promise<ImageView[]> {
+    return Array.from(this.imageViews.values())
+      .filter((view) => view.customerId === customerId)
+      .sort((a, b) => b.id - a.id);
+  }
+
+  async appendAuditEvents(events: InsertAuditEvent[]): Promise<AuditEvent[]> {
+    const last = this.auditEvents[this.auditEvents.length - 1];
+    const appended = chainAuditEvents(events, last?.hash ?? null).map((event) => ({
+      ...event,
+      id: this.currentAuditEventId++,
+    }));
+    this.auditEvents.push(...appended);
+    return appended;
+  }
+
+  async searchAuditEvents(query: AuditQuery): Promise<AuditEventPage> {
+    const before = query.cursor ? parseInt(query.cursor) : undefined;
+    const results = this.auditEvents.filter((event) => {
+      if (before !== undefined && event.id >= before) return false;
+      if (query.operatorId !== undefined && event.operatorId !== query.operatorId) return false;
+      if (query.customerId !== undefined && event.customerId !== query.customerId) return false;
+      if (query.action && event.action !== query.action) return false;
+      if (query.from && event.occurredAt < new Date(`${query.from}T00:00:00`)) return false;
+      if (query.to && event.occurredAt >= nextDay(query.to)) return false;
+      return true;
+    }).reverse();
+
+    const page = results.slice(0, query.limit);
+    return {
+      events: page,
+      nextCursor: results.length > query.limit ? String(page[page.length - 1].id) : null
+    };
+  }
+
+  async getAuditEventsAfter(afterId: number, limit: number): Promise<AuditEvent[]> {
+    return this.auditEvents.filter((event) => event.id > afterId).slice(0, limit);
+  }
+
+  async getLegalHold(customerId: number): Promise<LegalHold | undefined> {
+    return this.legalHolds.get(customerId);
+  }
+
+  async getLegalHolds(): Promise<LegalHold[]> {
+    return Array.from(this.legalHolds.values());
+  }
+
+  async placeLegalHold(insertHold: InsertLegalHold): Promise<LegalHold> {
+    const hold: LegalHold = {
+      ...insertHold,
+      placedBy: insertHold.placedBy ?? null,
+      placedAt: new Date()
+    };
+    this.legalHolds.set(hold.customerId, hold);
+    return hold;
+  }
+
+  async releaseLegalHold(customerId: number): Promise<boolean> {
+    return this.legalHolds.delete(customerId);
+  }
+
+  async getOrphanLicenseImages(before: Date): Promise<LicenseImage[]> {
+    return Array.from(this.licenseImages.values()).filter(
+      (image) => image.customerId === null && image.createdAt! < before
+    );
+  }
+
+  async getFailedScanSessions(before: Date): Promise<ScanSession[]> {
+    return Array.from(this.scanSessions.values()).filter(
+      (session) => session.status === 'failed' && session.scanDate! < before
+    );
+  }
+
+  async getInactiveCustomerIds(before: Date): Promise<number[]> {
+    const recentlyScanned = new Set(
+      Array.from(this.scanSessions.values())
+        .filter((session) => session.customerId !== null && session.scanDate! >= before)
+        .map((session) => session.customerId)
+    );
+    return Array.from(this.customers.values())
+      .filter((customer) => customer.updatedAt! < before && !recentlyScanned.has(customer.id))
+      .map((customer) => customer.id);
+  }
+
+  async getImageReferences(): Promise<ImageReference[]> {
+    return [
+      ...Array.from(this.licenseImages.values()).flatMap(licenseImageReferences),
+      ...Array.from(this.customers.values()).flatMap(customerImageReferences),
+    ];
+  }
+
+  async deleteLicenseImages(ids: number[]): Promise<void> {
+    ids.forEach((id) => this.licenseImages.delete(id));
+  }
+
+  async deleteScanSessions(ids: number[]): Promise<void> {
+    ids.forEach((id) => this.scanSessions.delete(id));
+  }
+
+  // Leaves updatedAt alone so purging does not make a customer look active again
+  async clearCustomerImages(customerIds: number[]): Promise<void> {
+    for (const id of customerIds) {
+      const customer = this.customers.get(id);
+      if (customer) {
+        this.customers.set(id, { ...customer, profilePhotoPath: null, signaturePath: null });
+      }
+    }
+  }
+
+  async getOperator(id: number): Promise<Operator | undefined> {
+    const operator = this.operators.get(id);
+    return operator && withoutPassword(operator);
+  }
+
+  async getOperatorByUsername(username: string): Promise<OperatorWithPassword | undefined> {
+    return Array.from(this.operators.values()).find(
+      (operator) => operator.username === username,
+    );
+  }
+
+  async getOperators(): Promise<Operator[]> {
+    return Array.from(this.operators.values())
+      .sort((a, b) => a.username.localeCompare(b.username))
+      .map(withoutPassword);
+  }
+
+  async createOperator(insertOperator: InsertOperator): Promise<Operator> {
+    const id = this.currentOperatorId++;
+    const operator: OperatorWithPassword = {
+      ...insertOperator,
+      id,
+      role: insertOperator.role ?? 'scanner',
+      active: insertOperator.active ?? true,
+      createdAt: new Date(),
+      lastLoginAt: null
+    };
+    this.operators.set(id, operator);
+    return withoutPassword(operator);
+  }
+
+  async updateOperator(id: number, updateData: Partial<InsertOperator>): Promise<Operator | undefined> {
+    const existing = this.operators.get(id);
+    if (!existing) return undefined;
+
+    const updated: OperatorWithPassword = { ...existing, ...updateData };
+    this.operators.set(id, updated);
+    return withoutPassword(updated);
+  }
+
+  async recordOperatorLogin(id: number): Promise<void> {
+    const existing = this.operators.get(id);
+    if (existing) {
+      this.operators.set(id, { ...existing, lastLoginAt: new Date() });
+    }
+  }
+}
+
+// Advisory lock held while appending, so concurrent servers never chain onto the same event
+const AUDIT_CHAIN_LOCK = 72110418;
+
+// Customer columns encrypted at rest; revisions of these fields are encrypted too
+const encryptedCustomerFields = ['licenseNumber', 'dateOfBirth', 'address', 'city', 'zipCode'] as const;
+
+type CustomerRow = typeof customers.$inferSelect;
+type CustomerInsertRow = typeof customers.$inferInsert;
+
+const isEncryptedField = (field: string) =>
+  (encryptedCustomerFields as readonly string[]).includes(field);
+
+export class DbStorage implements IStorage {
+  constructor(private db: Database, private encryption: EnvelopeEncryption) {}
+
+  // Encrypt sensitive fields and compute the blind indexes used to look them up
+  private async encryptCustomer(data: Partial<InsertCustomer>): Promise<Partial<CustomerInsertRow>> {
+    const row: Partial<CustomerInsertRow> = { ...data };
+    for (const field of encryptedCustomerFields) {
+      const value = data[field];
+      if (value) row[field] = await this.encryption.encryptString(value);
+    }
+    if (data.licenseNumber) {
+      row.licenseNumberIndex = await this.encryption.blindIndex('licenseNumber', data.licenseNumber);
+    }
+    if (data.dateOfBirth) {
+      row.dateOfBirthIndex = await this.encryption.blindIndex('dateOfBirth', data.dateOfBirth);
+    }
+    return row;
+  }
+
+  private async decryptCustomer(row: CustomerRow): Promise<Customer> {
+    const { licenseNumberIndex, dateOfBirthIndex, ...customer } = row;
+    for (const field of encryptedCustomerFields) {
+      const value = customer[field];
+      if (value) customer[field] = await this.encryption.decryptString(value);
+    }
+    return customer;
+  }
+
+  private decryptCustomers(rows: CustomerRow[]): Promise<Customer[]> {
+    return Promise.all(rows.map((row) => this.decryptCustomer(row)));
+  }
+
+  private async encryptRevisionValue(field: string, value: string | null | undefined): Promise<string | null> {
+    return value && isEncryptedField(field) ? this.encryption.encryptString(value) : value ?? null;
+  }
+
+  private async decryptRevision(revision: CustomerRevision): Promise<CustomerRevision> {
+    return {
+      ...revision,
+      oldValue: revision.oldValue && await this.encryption.decryptString(revision.oldValue),
+      newValue: revision.newValue && await this.encryption.decryptString(revision.newValue),
+    };
+  }
+
+  async getCustomer(id: number): Promise<Customer | undefined> {
+    const [customer] = await this.db.select().from(customers).where(eq(customers.id, id));
+    return customer && this.decryptCustomer(customer);
+  }
+
+  async getCustomerByLicenseNumber(licenseNumber: string): Promise<Customer | undefined> {
+    const [customer] = await this.db
+      .select()
+      .from(customers)
+      .where(eq(customers.licenseNumberIndex, await this.encryption.blindIndex('licenseNumber', licenseNumber)));
+    return customer && this.decryptCustomer(customer);
+  }
+
+  async getCustomersByDateOfBirth(dateOfBirth: string): Promise<Customer[]> {
+    const rows = await this.db
+      .select()
+      .from(customers)
+      .where(eq(customers.dateOfBirthIndex, await this.encryption.blindIndex('dateOfBirth', dateOfBirth)));
+    return this.decryptCustomers(rows);
+  }
+
+  async createCustomer(insertCustomer: InsertCustomer, operatorId?: number): Promise<Customer> {
+    const row = await this.encryptCustomer(insertCustomer) as CustomerInsertRow;
+    const [customer] = await this.db
+      .insert(customers)
+      .values({ ...row, createdBy: operatorId, updatedBy: operatorId })
+      .returning();
+    return this.decryptCustomer(customer);
+  }
+
+  async updateCustomer(id: number, updateData: Partial<InsertCustomer>, operatorId?: number): Promise<Customer | undefined> {
+    const [updated] = await this.db
+      .update(customers)
+      .set({ ...await this.encryptCustomer(updateData), updatedBy: operatorId, updatedAt: new Date() })
+      .where(eq(customers.id, id))
+      .returning();
+    return updated && this.decryptCustomer(updated);
+  }
+
+  async getAllCustomers(): Promise<Customer[]> {
+    return this.decryptCustomers(await this.db.select().from(customers));
+  }
+
+  async getRecentCustomers(limit = 10): Promise<Customer[]> {
+    const rows = await this.db
+      .select()
+      .from(customers)
+      .orderBy(desc(customers.createdAt))
+      .limit(limit);
+    return this.decryptCustomers(rows);
+  }
+
+  // Rows stored before blind indexes existed (migration 0006) can't be found by license number
+  // or date of birth, so duplicates of them could be created. Index them (encrypting those two
+  // fields if still plaintext) before the server takes requests; returns the rows updated.
+  async backfillBlindIndexes(): Promise<number> {
+    const rows = await this.db
+      .select()
+      .from(customers)
+      .where(or(isNull(customers.licenseNumberIndex), isNull(customers.dateOfBirthIndex)));
+
+    for (const row of rows) {
+      const { licenseNumber, dateOfBirth } = await this.decryptCustomer(row);
+      try {
+        await this.db
+          .update(customers)
+          .set(await this.encryptCustomer({ licenseNumber, dateOfBirth }))
+          .where(eq(customers.id, row.id));
+      } catch (error) {
+        // A duplicate created while this row was unindexed; it stays unindexed until the two are merged
+        console.error(`Could not index customer ${row.id}:`, error);
+      }
+    }
+    return rows.length;
+  }
+
+  // Re-encrypt every customer and revision under the current key, encrypting any value
+  // stored before encryption was enabled; used after a key rotation
+  async reencryptAll(): Promise<{ customers: number; revisions: number }> {
+    const currentKeyId = await this.encryption.currentKeyId();
+    const isCurrent = (value: string | null) => !value || this.encryption.keyIdOf(value) === currentKeyId;
+    let customerCount = 0;
+    let revisionCount = 0;
+
+    for (const row of await this.db.select().from(customers)) {
+      const stale = encryptedCustomerFields.some((field) => !isCurrent(row[field])) || !row.licenseNumberIndex;
+      if (!stale) continue;
+
+      const customer = await this.decryptCustomer(row);
+      const fields = Object.fromEntries(encryptedCustomerFields.map((field) => [field, customer[field]]));
+      await this.db
+        .update(customers)
+        .set(await this.encryptCustomer(fields as Partial<InsertCustomer>))
+        .where(eq(customers.id, row.id));
+      customerCount++;
+    }
+
+    for (const revision of await this.db.select().from(customerRevisions)) {
+      if (!isEncryptedField(revision.field) || (isCurrent(revision.oldValue) && isCurrent(revision.newValue))) continue;
+
+      const { oldValue, newValue } = await this.decryptRevision(revision);
+      await this.db
+        .update(customerRevisions)
+        .set({
+          oldValue: await this.encryptRevisionValue(revision.field, oldValue),
+          newValue: await this.encryptRevisionValue(revision.field, newValue),
+        })
+        .where(eq(customerRevisions.id, revision.id));
+      revisionCount++;
+    }
+
+    return { customers: customerCount, revisions: revisionCount };
+  }
+
+  async searchCustomers(query: CustomerQuery): Promise<CustomerPage> {
+    // Postgres timestamps carry microseconds, so compare at the cursor's millisecond precision
+    const sortColumns: Record<CustomerSortField, SQL> = {
+      lastName: sql`${customers.lastName}`,
+      licenseExpiration: sql`${customers.licenseExpiration}`,
+      createdAt: sql`date_trunc('milliseconds', ${customers.createdAt})`,
+    };
+    const sortColumn = sortColumns[query.sortBy];
+    const conditions: SQL[] = [];
+
+    if (query.search) {
+      const pattern = `%${query.search.replace(/[\\%_]/g, '\\$&')}%`;
+      conditions.push(or(
+        ilike(customers.firstName, pattern),
+        ilike(customers.lastName, pattern),
+        ilike(sql`${customers.firstName} || ' ' || ${customers.lastName}`, pattern),
+        // License numbers are encrypted, so only a whole number matches
+        eq(customers.licenseNumberIndex, await this.encryption.blindIndex('licenseNumber', normalizeLicenseNumber(query.search)))
+      )!);
+    }
+    if (query.licenseState) conditions.push(eq(customers.licenseState, query.licenseState));
+    if (query.expiresFrom) conditions.push(gte(customers.licenseExpiration, query.expiresFrom));
+    if (query.expiresTo) conditions.push(lte(customers.licenseExpiration, query.expiresTo));
+    if (query.createdFrom) conditions.push(gte(customers.createdAt, new Date(`${query.createdFrom}T00:00:00`)));
+    if (query.createdTo) conditions.push(lt(customers.createdAt, nextDay(query.createdTo)));
+
+    const cursor = query.cursor ? decodeCursor(query.cursor) : undefined;
+    if (cursor) {
+      const after = query.sortOrder === 'asc' ? gt : lt;
+      const value = query.sortBy === 'createdAt' ? new Date(cursor.value) : cursor.value;
+      conditions.push(or(
+        after(sortColumn, value),
+        and(eq(sortColumn, value), after(customers.id, cursor.id))
+      )!);
+    }
+
+    const order = query.sortOrder === 'asc' ? asc : desc;
+    const rows = await this.db
+      .select()
+      .from(customers)
+      .where(and(...conditions))
+      .orderBy(order(sortColumn), order(customers.id))
+      .limit(query.limit + 1);
+
+    const page = await this.decryptCustomers(rows.slice(0, query.limit));
+    const last = page[page.length - 1];
+    return {
+      customers: page,
+      nextCursor: rows.length > query.limit && last
+        ? encodeCursor(getSortValue(last, query.sortBy), last.id)
+        : null
+    };
+  }
+
+  async deleteCustomer(id: number): Promise<boolean> {
+    return this.db.transaction(async (tx) => {
+      await tx.delete(licenseImages).where(eq(licenseImages.customerId, id));
+      await tx.delete(customerRevisions).where(eq(customerRevisions.customerId, id));
+      await tx.delete(imageViews).where(eq(imageViews.customerId, id));
+      await tx.delete(legalHolds).where(eq(legalHolds.customerId, id));
+      await tx
+        .update(scanSessions)
+        .set({ customerId: null, consistencyReport: null })
+        .where(eq(scanSessions.customerId, id));
+      const deleted = await tx.delete(customers).where(eq(customers.id, id)).returning({ id: customers.id });
+      return deleted.length > 0;
+    });
+  }
+
+  async createLicenseImage(insertLicenseImage: InsertLicenseImage): Promise<LicenseImage> {
+    const [licenseImage] = await this.db.insert(licenseImages).values(insertLicenseImage).returning();
+    return licenseImage;
+  }
+
+  async getLicenseImagesByCustomerId(customerId: number): Promise<LicenseImage[]> {
+    return this.db.select().from(licenseImages).where(eq(licenseImages.customerId, customerId));
+  }
+
+  async createScanSession(insertScanSession: InsertScanSession): Promise<ScanSession> {
+    const [scanSession] = await this.db.insert(scanSessions).values(insertScanSession).returning();
+    return scanSession;
+  }
+
+  async updateScanSession(id: number, updateData: Partial<InsertScanSession>): Promise<ScanSession | undefined> {
+    const [updated] = await this.db
+      .update(scanSessions)
+      .set(updateData)
+      .where(eq(scanSessions.id, id))
+      .returning();
+    return updated;
+  }
+
+  async getScanSessionsByCustomerId(customerId: number): Promise<ScanSession[]> {
+    return this.db.select().from(scanSessions).where(eq(scanSessions.customerId, customerId));
+  }
+
+  async getScanSessionsByLicenseHash(licenseHash: string): Promise<ScanSession[]> {
+    return this.db.select().from(scanSessions).where(eq(scanSessions.licenseHash, licenseHash));
+  }
+
+  async getTodayStats(): Promise<{ scanned: number; failed: number; newCustomers: number; ageChecks: number }> {
+    const today = new Date();
+    today.setHours(0, 0, 0, 0);
+
+    const countSessions = async (mode: string, status?: string) => {
+      const [row] = await this.db
+        .select({ value: count() })
+        .from(scanSessions)
+        .where(and(
+          gte(scanSessions.scanDate, today),
+          eq(scanSessions.mode, mode),
+          status ? eq(scanSessions.status, status) : undefined
+        ));
+      return row.value;
+    };
+
+    const [customerRow] = await this.db
+      .select({ value: count() })
+      .from(customers)
+      .where(gte(customers.createdAt, today));
+
+    return {
+      scanned: await countSessions('customer', 'complete'),
+      failed: await countSessions('customer', 'failed'),
+      newCustomers: customerRow.value,
+      ageChecks: await countSessions('age-check')
+    };
+  }
+
+  async createCustomerRevision(insertRevision: InsertCustomerRevision): Promise<CustomerRevision> {
+    const [revision] = await this.db.insert(customerRevisions).values({
+      ...insertRevision,
+      oldValue: await this.encryptRevisionValue(insertRevision.field, insertRevision.oldValue),
+      newValue: await this.encryptRevisionValue(insertRevision.field, insertRevision.newValue),
+    }).returning();
+    return this.decryptRevision(revision);
+  }
+
+  async getCustomerRevision(id: number): Promise<CustomerRevision | undefined> {
+    const [revision] = await this.db.select().from(customerRevisions).where(eq(customerRevisions.id, id));
+    return revision && this.decryptRevision(revision);
+  }
+
+  async getCustomerRevisions(customerId: number): Promise<CustomerRevision[]> {
+    const revisions = await this.db
+      .select()
+      .from(customerRevisions)
+      .where(eq(customerRevisions.customerId, customerId))
+      .orderBy(desc(customerRevisions.id));
+    return Promise.all(revisions.map((revision) => this.decryptRevision(revision)));
+  }
+
+  async createImageView(insertView: InsertImageView): Promise<ImageView> {
+    const [view] = await this.db.insert(imageViews).values(insertView).returning();
+    return view;
+  }
+
+  async getImageViews(customerId: number): Promise<ImageView[]> {
+    return this.db
+      .select()
+      .from(imageViews)
+      .where(eq(imageViews.customerId, customerId))
+      .orderBy(desc(imageViews.id));
+  }
+
+  async appendAuditEvents(events: InsertAuditEvent[]): Promise<AuditEvent[]> {
+    if (events.length === 0) return [];
+
+    return this.db.transaction(async (tx) => {
+      await tx.execute(sql`select pg_advisory_xact_lock(${AUDIT_CHAIN_LOCK})`);
+      const [last] = await tx
+        .select({ hash: auditEvents.hash })
+        .from(auditEvents)
+        .orderBy(desc(auditEvents.id))
+        .limit(1);
+      return tx.insert(auditEvents).values(chainAuditEvents(events, last?.hash ?? null)).returning();
+    });
+  }
+
+  async searchAuditEvents(query: AuditQuery): Promise<AuditEventPage> {
+    const conditions: SQL[] = [];
+    if (query.cursor) conditions.push(lt(auditEvents.id, parseInt(query.cursor)));
+    if (query.operatorId !== undefined) conditions.push(eq(auditEvents.operatorId, query.operatorId));
+    if (query.customerId !== undefined) conditions.push(eq(auditEvents.customerId, query.customerId));
+    if (query.action) conditions.push(eq(auditEvents.action, query.action));
+    if (query.from) conditions.push(gte(auditEvents.occurredAt, new Date(`${query.from}T00:00:00`)));
+    if (query.to) conditions.push(lt(auditEvents.occurredAt, nextDay(query.to)));
+
+    const rows = await this.db
+      .select()
+      .from(auditEvents)
+      .where(and(...conditions))
+      .orderBy(desc(auditEvents.id))
+      .limit(query.limit + 1);
+
+    const page = rows.slice(0, query.limit);
+    return {
+      events: page,
+      nextCursor: rows.length > query.limit ? String(page[page.length - 1].id) : null
+    };
+  }
+
+  async getAuditEventsAfter(afterId: number, limit: number): Promise<AuditEvent[]> {
+    return this.db
+      .select()
+      .from(auditEvents)
+      .where(gt(auditEvents.id, afterId))
+      .orderBy(asc(auditEvents.id))
+      .limit(limit);
+  }
+
+  async getLegalHold(customerId: number): Promise<LegalHold | undefined> {
+    const [hold] = await this.db.select().from(legalHolds).where(eq(legalHolds.customerId, customerId));
+    return hold;
+  }
+
+  async getLegalHolds(): Promise<LegalHold[]> {
+    return this.db.select().from(legalHolds).orderBy(desc(legalHolds.placedAt));
+  }
+
+  async placeLegalHold(insertHold: InsertLegalHold): Promise<LegalHold> {
+    const [hold] = await this.db
+      .insert(legalHolds)
+      .values(insertHold)
+      .onConflictDoUpdate({
+        target: legalHolds.customerId,
+        set: { reason: insertHold.reason, placedBy: insertHold.placedBy, placedAt: new Date() },
+      })
+      .returning();
+    return hold;
+  }
+
+  async releaseLegalHold(customerId: number): Promise<boolean> {
+    const released = await this.db.delete(legalHolds).where(eq(legalHolds.customerId, customerId)).returning();
+    return released.length > 0;
+  }
+
+  async getOrphanLicenseImages(before: Date): Promise<LicenseImage[]> {
+    return this.db
+      .select()
+      .from(licenseImages)
+      .where(and(isNull(licenseImages.customerId), lt(licenseImages.createdAt, before)));
+  }
+
+  async getFailedScanSessions(before: Date): Promise<ScanSession[]> {
+    return this.db
+      .select()
+      .from(scanSessions)
+      .where(and(eq(scanSessions.status, 'failed'), lt(scanSessions.scanDate, before)));
+  }
+
+  async getInactiveCustomerIds(before: Date): Promise<number[]> {
+    const rows = await this.db
+      .select({ id: customers.id })
+      .from(customers)
+      .where(and(
+        lt(customers.updatedAt, before),
+        notExists(this.db
+          .select({ id: scanSessions.id })
+          .from(scanSessions)
+          .where(and(eq(scanSessions.customerId, customers.id), gte(scanSessions.scanDate, before))))
+      ));
+    return rows.map((row) => row.id);
+  }
+
+  // Only the path columns are read, so nothing needs decrypting
+  async getImageReferences(): Promise<ImageReference[]> {
+    const images = await this.db.select().from(licenseImages);
+    const customerPaths = await this.db
+      .select({ id: customers.id, profilePhotoPath: customers.profilePhotoPath, signaturePath: customers.signaturePath })
+      .from(customers);
+    return [...images.flatMap(licenseImageReferences), ...customerPaths.flatMap(customerImageReferences)];
+  }
+
+  async deleteLicenseImages(ids: number[]): Promise<void> {
+    if (ids.length === 0) return;
+    await this.db.delete(licenseImages).where(inArray(licenseImages.id, ids));
+  }
+
+  async deleteScanSessions(ids: number[]): Promise<void> {
+    if (ids.length === 0) return;
+    await this.db.delete(scanSessions).where(inArray(scanSessions.id, ids));
+  }
+
+  // Leaves updatedAt alone so purging does not make a customer look active again
+  async clearCustomerImages(customerIds: number[]): Promise<void> {
+    if (customerIds.length === 0) return;
+    await this.db
+      .update(customers)
+      .set({ profilePhotoPath: null, signaturePath: null })
+      .where(inArray(customers.id, customerIds));
+  }
+
+  async getOperator(id: number): Promise<Operator | undefined> {
+    const [operator] = await this.db.select().from(operators).where(eq(operators.id, id));
+    return operator && withoutPassword(operator);
+  }
+
+  async getOperatorByUsername(username: string): Promise<OperatorWithPassword | undefined> {
+    const [operator] = await this.db.select().from(operators).where(eq(operators.username, username));
+    return operator;
+  }
+
+  async getOperators(): Promise<Operator[]> {
+    const rows = await this.db.select().from(operators).orderBy(asc(operators.username));
+    return rows.map(withoutPassword);
+  }
+
+  async createOperator(insertOperator: InsertOperator): Promise<Operator> {
+    const [operator] = await this.db.insert(operators).values(insertOperator).returning();
+    return withoutPassword(operator);
+  }
+
+  async updateOperator(id: number, updateData: Partial<InsertOperator>): Promise<Operator | undefined> {
+    const [updated] = await this.db
+      .update(operators)
+      .set(updateData)
+      .where(eq(operators.id, id))
+      .returning();
+    return updated && withoutPassword(updated);
+  }
+
+  async recordOperatorLogin(id: number): Promise<void> {
+    await this.db.update(operators).set({ lastLoginAt: new Date() }).where(eq(operators.id, id));
+  }
 }
 
-export const storage = new MemStorage();
+// Use PostgreSQL when a database is provisioned, otherwise fall back to in-memory storage
+export const storage: IStorage = process.env.DATABASE_URL
+  ? new DbStorage(createDb(process.env.DATABASE_URL), encryption)
+  : new MemStorage();
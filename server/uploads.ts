@@ -0,0 +1,114 @@
+import crypto from "crypto";
+import path from "path";
+import fs from "fs";
+import sharp from "sharp";
+import { encryption } from "./encryption";
+
+export const uploadDir = path.join(process.cwd(), 'uploads');
+if (!fs.existsSync(uploadDir)) {
+  fs.mkdirSync(uploadDir, { recursive: true });
+}
+
+// Thumbnails are derived from uploads, so they can be deleted at any time
+export const thumbnailDir = path.join(uploadDir, 'thumbnails');
+const THUMBNAIL_WIDTH = 320;
+
+const IMAGE_EXTENSIONS: Record<string, string> = {
+  'image/jpeg': '.jpg',
+  'image/jpg': '.jpg',
+  'image/png': '.png',
+  'image/webp': '.webp',
+};
+
+export const isSupportedImageType = (mimeType: string) => mimeType in IMAGE_EXTENSIONS;
+
+// Same limit as multipart uploads
+export const MAX_IMAGE_BYTES = 10 * 1024 * 1024;
+
+export interface DecodedImage {
+  buffer: Buffer;
+  mimeType: string;
+}
+
+export function decodeDataUrl(dataUrl: string): DecodedImage | null {
+  const match = dataUrl.match(/^data:(image\/[a-z]+);base64,(.+)$/);
+  if (!match || !isSupportedImageType(match[1])) {
+    return null;
+  }
+
+  const buffer = Buffer.from(match[2], 'base64');
+  if (buffer.length > MAX_IMAGE_BYTES) {
+    return null;
+  }
+
+  return { mimeType: match[1], buffer };
+}
+
+// Files are encrypted on disk; the name is all that is stored in the database
+export async function saveUpload(filename: string, data: Buffer): Promise<string> {
+  await fs.promises.writeFile(path.join(uploadDir, path.basename(filename)), await encryption.encryptBuffer(data));
+  return path.basename(filename);
+}
+
+// Read and decrypt a stored file; files written before encryption are returned as they are
+export async function readUpload(filename: string): Promise<Buffer | null> {
+  const filePath = resolveUploadPath(filename);
+  if (!filePath) return null;
+  return encryption.decryptBuffer(await fs.promises.readFile(filePath));
+}
+
+// A downscaled JPEG of a stored image, generated on first request and kept encrypted like the original
+export async function readUploadThumbnail(filename: string): Promise<Buffer | null> {
+  const thumbnailPath = path.join(thumbnailDir, `${path.basename(filename)}-${THUMBNAIL_WIDTH}.jpg`);
+  if (fs.existsSync(thumbnailPath)) {
+    return encryption.decryptBuffer(await fs.promises.readFile(thumbnailPath));
+  }
+
+  const image = await readUpload(filename);
+  if (!image) return null;
+
+  const thumbnail = await sharp(image)
+    .rotate()
+    .resize({ width: THUMBNAIL_WIDTH, withoutEnlargement: true })
+    .jpeg({ quality: 80 })
+    .toBuffer();
+  await fs.promises.mkdir(thumbnailDir, { recursive: true });
+  await fs.promises.writeFile(thumbnailPath, await encryption.encryptBuffer(thumbnail));
+  return thumbnail;
+}
+
+// Store an image under the SHA-256 of its contents so identical crops share one file
+export async function saveContentAddressedImage(image: DecodedImage): Promise<string> {
+  const extension = IMAGE_EXTENSIONS[image.mimeType];
+  if (!extension) {
+    throw new Error(`Unsupported image type: ${image.mimeType}`);
+  }
+
+  const hash = crypto.createHash('sha256').update(image.buffer).digest('hex');
+  const filename = `${hash}${extension}`;
+
+  if (!fs.existsSync(path.join(uploadDir, filename))) {
+    await saveUpload(filename, image.buffer);
+  }
+
+  return filename;
+}
+
+// Resolve a stored filename to its path, refusing anything outside the upload directory
+export function resolveUploadPath(filename: string): string | null {
+  const filePath = path.join(uploadDir, path.basename(filename));
+  return fs.existsSync(filePath) ? filePath : null;
+}
+
+// Delete a stored file along with any thumbnails made from it; missing files are ignored
+export async function deleteUpload(filename: string): Promise<void> {
+  const name = path.basename(filename);
+  await fs.promises.rm(path.join(uploadDir, name), { force: true });
+
+  if (!fs.existsSync(thumbnailDir)) return;
+  for (const thumbnail of await fs.promises.readdir(thumbnailDir)) {
+    if (thumbnail.startsWith(`${name}-`)) {
+      await fs.promises.rm(path.join(thumbnailDir, thumbnail), { force: true });
+    }
+  }
+}
@@ -0,0 +1,28 @@
+// Recompute the audit log's hash chain from the first event and report where it breaks.
+//
+//   npm run audit:verify
+//
+// Exits with status 1 when the chain is broken, so it can run on a schedule.
+import { verifyAuditLog } from "./audit";
+
+async function main() {
+  if (!process.env.DATABASE_URL) {
+    throw new Error('DATABASE_URL is not set; the in-memory audit log cannot be verified from here');
+  }
+
+  const { valid, checked, brokenAt, headHash } = await verifyAuditLog();
+  if (!valid) {
+    console.error(`Audit log is broken at event ${brokenAt!.id} after ${checked} valid events: ${brokenAt!.reason}`);
+    return false;
+  }
+  console.log(`Audit log is intact: ${checked} events, latest hash ${headHash ?? 'none'}`);
+  return true;
+}
+
+main().then(
+  (valid) => process.exit(valid ? 0 : 1),
+  (error) => {
+    console.error('Audit verification failed:', error);
+    process.exit(1);
+  }
+);
@@ -0,0 +1,296 @@
+import { describe, expect, it } from "vitest";
+import { parseAAMVA, type AAMVARecord } from "./aamva";
+
+type Elements = [string, string][];
+
+interface Subfile {
+  type: string;
+  elements: Elements;
+  // Override the designator, to simulate issuers that write wrong offsets or lengths
+  offset?: number;
+  length?: number;
+}
+
+// Encode a payload the way issuers do: header, one designator per subfile, then the subfiles,
+// each starting with its type, elements separated by LF and ended by CR
+function aamvaPayload(iin: string, version: number, subfiles: Subfile[], jurisdictionVersion = 0): string {
+  const pad = (value: number, width: number) => String(value).padStart(width, '0');
+  const header = `@\n\x1e\rANSI ${iin}${pad(version, 2)}${version >= 2 ? pad(jurisdictionVersion, 2) : ''}${pad(subfiles.length, 2)}`;
+  const bodies = subfiles.map(({ type, elements }) => `${type}${elements.map(([id, value]) => `${id}${value}`).join('\n')}\r`);
+
+  let offset = header.length + subfiles.length * 10;
+  const designators = subfiles.map((subfile, i) => {
+    const designator = `${subfile.type}${pad(subfile.offset ?? offset, 4)}${pad(subfile.length ?? bodies[i].length, 4)}`;
+    offset += bodies[i].length;
+    return designator;
+  });
+
+  return header + designators.join('') + bodies.join('');
+}
+
+function parse(payload: string): AAMVARecord {
+  const result = parseAAMVA(payload);
+  expect(result.success).toBe(true);
+  return result.record!;
+}
+
+// Elements every version 4 and later card carries, for a California driver license
+const V4_ELEMENTS: Elements = [
+  ['DCA', 'C'],
+  ['DCB', 'NONE'],
+  ['DCD', 'NONE'],
+  ['DBA', '04152030'],
+  ['DCS', 'SAMPLE'],
+  ['DAC', 'ALEXANDER'],
+  ['DAD', 'JOSEPH'],
+  ['DBD', '04152022'],
+  ['DBB', '04151990'],
+  ['DBC', '1'],
+  ['DAY', 'BRO'],
+  ['DAU', '070 IN'],
+  ['DAG', '2570 24TH STREET'],
+  ['DAI', 'SACRAMENTO'],
+  ['DAJ', 'CA'],
+  ['DAK', '958180000'],
+  ['DAQ', 'D1234562'],
+  ['DCF', '04/15/202212345/AAFD/30'],
+  ['DCG', 'USA'],
+  ['DDE', 'N'],
+  ['DDF', 'N'],
+  ['DDG', 'N'],
+];
+
+const V4_FIELDS = {
+  firstName: 'ALEXANDER',
+  middleName: 'JOSEPH',
+  lastName: 'SAMPLE',
+  dateOfBirth: '1990-04-15',
+  issueDate: '2022-04-15',
+  expirationDate: '2030-04-15',
+  licenseNumber: 'D1234562',
+  address: '2570 24TH STREET',
+  city: 'SACRAMENTO',
+  state: 'CA',
+  zipCode: '95818',
+  country: 'USA',
+  sex: 'M',
+  eyeColor: 'BRO',
+  height: '070 IN',
+  vehicleClass: 'C',
+  documentDiscriminator: '04/15/202212345/AAFD/30',
+  familyNameTruncation: 'N',
+  firstNameTruncation: 'N',
+  middleNameTruncation: 'N',
+};
+
+describe("parseAAMVA", () => {
+  it("reads version 1 full names and CCYYMMDD dates", () => {
+    const record = parse(aamvaPayload('636014', 1, [{
+      type: 'DL',
+      elements: [
+        ['DAA', 'PUBLIC,JOHN,QUINCY'],
+        ['DAQ', 'D7654321'],
+        ['DAG', '123 MAIN ST'],
+        ['DAI', 'FRESNO'],
+        ['DAJ', 'CA'],
+        ['DAK', '937211234'],
+        ['DBA', '20280704'],
+        ['DBB', '19700704'],
+        ['DBC', 'M'],
+        ['DBD', '20200704'],
+        ['DAR', 'C'],
+        ['DBH', 'Y'],
+      ],
+    }]));
+
+    expect(record.header).toMatchObject({ iin: '636014', version: 1, jurisdictionVersion: undefined, numberOfEntries: 1 });
+    expect(record.fields).toEqual({
+      lastName: 'PUBLIC',
+      firstName: 'JOHN',
+      middleName: 'QUINCY',
+      dateOfBirth: '1970-07-04',
+      issueDate: '2020-07-04',
+      expirationDate: '2028-07-04',
+      licenseNumber: 'D7654321',
+      address: '123 MAIN ST',
+      city: 'FRESNO',
+      state: 'CA',
+      zipCode: '93721-1234',
+      sex: 'M',
+      vehicleClass: 'C',
+      organDonor: true,
+    });
+    expect(record.missingMandatoryElements).toEqual([]);
+    expect(record.warnings).toEqual([]);
+  });
+
+  it("splits version 1 full names written first name first", () => {
+    const record = parse(aamvaPayload('636014', 1, [{ type: 'DL', elements: [['DAA', 'JOHN Q PUBLIC'], ['DAQ', 'D7654321']] }]));
+
+    expect(record.fields).toMatchObject({ firstName: 'JOHN', middleName: 'Q', lastName: 'PUBLIC' });
+    expect(record.missingMandatoryElements).toEqual(['DAG', 'DAI', 'DAJ', 'DAK', 'DBA', 'DBB', 'DBC', 'DBD']);
+  });
+
+  it.each([
+    [2, 'JANE ANN'],
+    [3, 'JANE,ANN'],
+  ])("reads version %i given names from DCT", (version, givenNames) => {
+    const record = parse(aamvaPayload('636001', version, [{
+      type: 'DL',
+      elements: [
+        ['DCA', 'D'],
+        ['DCB', 'B'],
+        ['DCD', 'NONE'],
+        ['DBA', '01312029'],
+        ['DCS', 'DOE'],
+        ['DCT', givenNames],
+        ['DBD', '01312021'],
+        ['DBB', '01311985'],
+        ['DBC', '2'],
+        ['DAY', 'BLU'],
+        ['DAU', '064 IN'],
+        ['DAG', '1 STATE ST'],
+        ['DAI', 'ALBANY'],
+        ['DAJ', 'NY'],
+        ['DAK', '12207'],
+        ['DAQ', '123456789'],
+        ['DCF', 'ABC123'],
+        ['DCG', 'USA'],
+        ['DCU', 'JR'],
+      ],
+    }], 1));
+
+    expect(record.header).toMatchObject({ version, jurisdictionVersion: 1 });
+    expect(record.fields).toEqual({
+      lastName: 'DOE',
+      firstName: 'JANE',
+      middleName: 'ANN',
+      nameSuffix: 'JR',
+      dateOfBirth: '1985-01-31',
+      issueDate: '2021-01-31',
+      expirationDate: '2029-01-31',
+      licenseNumber: '123456789',
+      address: '1 STATE ST',
+      city: 'ALBANY',
+      state: 'NY',
+      zipCode: '12207',
+      country: 'USA',
+      sex: 'F',
+      eyeColor: 'BLU',
+      height: '064 IN',
+      vehicleClass: 'D',
+      restrictions: 'B',
+      documentDiscriminator: 'ABC123',
+    });
+    expect(record.missingMandatoryElements).toEqual([]);
+    expect(record.warnings).toEqual([]);
+  });
+
+  it.each([4, 5, 6, 7, 8, 9, 10])("reads version %i names, dates and indicators", (version) => {
+    const record = parse(aamvaPayload('636014', version, [{
+      type: 'DL',
+      elements: [...V4_ELEMENTS, ['DDB', '10242016'], ['DDJ', '04152011'], ['DDK', '1'], ['DDL', '0']],
+    }]));
+
+    expect(record.documentType).toBe('DL');
+    expect(record.header).toMatchObject({ version, jurisdictionVersion: 0 });
+    expect(record.fields).toEqual({
+      ...V4_FIELDS,
+      cardRevisionDate: '2016-10-24',
+      under21Until: '2011-04-15',
+      organDonor: true,
+      veteran: false,
+    });
+    expect(record.missingMandatoryElements).toEqual([]);
+    expect(record.warnings).toEqual([]);
+  });
+
+  it("reads Canadian dates as CCYYMMDD and keeps postal codes as printed", () => {
+    const record = parse(aamvaPayload('636012', 8, [{
+      type: 'DL',
+      elements: V4_ELEMENTS.map(([id, value]): [string, string] => {
+        const canadian: Record<string, string> = {
+          DBA: '20300415', DBD: '20220415', DBB: '19900415', DAJ: 'ON', DAK: 'M5V 2T6', DAQ: 'S12345678901234', DCG: 'CAN',
+        };
+        return [id, canadian[id] ?? value];
+      }),
+    }]));
+
+    expect(record.fields).toMatchObject({
+      dateOfBirth: '1990-04-15',
+      issueDate: '2022-04-15',
+      expirationDate: '2030-04-15',
+      state: 'ON',
+      zipCode: 'M5V 2T6',
+      country: 'CAN',
+    });
+    expect(record.missingMandatoryElements).toEqual([]);
+    expect(record.warnings).toEqual([]);
+  });
+
+  it("collects jurisdiction Z subfile elements separately", () => {
+    const record = parse(aamvaPayload('636014', 9, [
+      { type: 'DL', elements: V4_ELEMENTS },
+      { type: 'ZC', elements: [['ZCA', 'BLK'], ['ZCB', 'CORRECTIVE LENSES']] },
+    ]));
+
+    expect(record.subfiles.map((subfile) => subfile.type)).toEqual(['DL', 'ZC']);
+    expect(record.jurisdictionElements).toEqual({ ZCA: 'BLK', ZCB: 'CORRECTIVE LENSES' });
+    expect(record.elements).not.toHaveProperty('ZCA');
+    expect(record.fields).toEqual(V4_FIELDS);
+    expect(record.warnings).toEqual([]);
+  });
+
+  it("finds subfiles by type when their offsets or lengths are wrong", () => {
+    const record = parse(aamvaPayload('636014', 10, [
+      { type: 'DL', elements: V4_ELEMENTS, offset: 3, length: 12 },
+      { type: 'ZC', elements: [['ZCA', 'BLK']], offset: 9999 },
+    ]));
+
+    expect(record.fields).toEqual(V4_FIELDS);
+    expect(record.jurisdictionElements).toEqual({ ZCA: 'BLK' });
+    expect(record.warnings).toEqual([]);
+  });
+
+  it("warns about subfiles that can't be found and malformed designators", () => {
+    const missing = parse(aamvaPayload('636014', 10, [
+      { type: 'DL', elements: V4_ELEMENTS },
+      { type: 'ZX', elements: [], offset: 9999 },
+    ]).replace('ZX\r', ''));
+    expect(missing.warnings).toEqual(['Subfile ZX not found']);
+
+    const malformed = parse(aamvaPayload('636014', 10, [{ type: 'DL', elements: V4_ELEMENTS }]).replace(/(ANSI \d{10})01DL\d{8}/, '$102DL00410999ZC00XX0010'));
+    expect(malformed.header.designators).toHaveLength(1);
+    expect(malformed.warnings).toEqual(['Subfile designator 2 is malformed']);
+    expect(malformed.fields).toEqual(V4_FIELDS);
+  });
+
+  it("reports missing mandatory elements and elements unknown for the version", () => {
+    const record = parse(aamvaPayload('636014', 5, [{
+      type: 'DL',
+      elements: [...V4_ELEMENTS.filter(([id]) => id !== 'DAU' && id !== 'DCF'), ['DCT', 'ALEXANDER JOSEPH']],
+    }]));
+
+    expect(record.missingMandatoryElements).toEqual(['DAU', 'DCF']);
+    expect(record.warnings).toEqual(['Unknown element DCT for version 5']);
+  });
+
+  it("does not require driving elements on ID cards", () => {
+    const record = parse(aamvaPayload('636014', 10, [{
+      type: 'ID',
+      elements: V4_ELEMENTS.filter(([id]) => !['DCA', 'DCB', 'DCD'].includes(id)),
+    }]));
+
+    expect(record.documentType).toBe('ID');
+    expect(record.missingMandatoryElements).toEqual([]);
+  });
+
+  it("warns about versions newer than it knows", () => {
+    const record = parse(aamvaPayload('636014', 11, [{ type: 'DL', elements: V4_ELEMENTS }]));
+    expect(record.warnings).toContain('Unsupported AAMVA version 11');
+  });
+
+  it("fails without a DL or ID subfile", () => {
+    expect(parseAAMVA('not a barcode')).toEqual({ success: false, error: 'No DL or ID subfile found in barcode data' });
+  });
+});
@@ -0,0 +1,593 @@
+// AAMVA DL/ID Card Design Standard barcode parser (versions 1 through 10)
+//
+// A PDF417 payload is laid out as:
+//   @ <LF> <RS> <CR> "ANSI " IIN(6) version(2) [jurisdiction version(2)] entries(2)
+//   followed by one 10-character designator per subfile: type(2) offset(4) length(4)
+// Each subfile starts with its type ("DL", "ID", or a jurisdiction "Z?" type) and holds
+// elements made of a 3-character element ID and a value, separated by LF and ended by CR.
+// Version 1 headers have no jurisdiction version field.
+
+import { normalizeLicenseNumber, validateIssuer, type IssuerValidation } from './jurisdictions';
+
+export type AAMVASex = 'M' | 'F' | 'X';
+export type AAMVATruncation = 'T' | 'N' | 'U';
+
+export interface AAMVASubfileDesignator {
+  type: string;
+  offset: number;
+  length: number;
+}
+
+export interface AAMVAHeader {
+  complianceIndicator: boolean;
+  fileType: string;
+  iin: string;
+  version: number;
+  jurisdictionVersion?: number;
+  numberOfEntries: number;
+  designators: AAMVASubfileDesignator[];
+}
+
+export interface AAMVASubfile {
+  type: string;
+  elements: Record<string, string>;
+}
+
+export interface AAMVAFields {
+  firstName?: string;
+  middleName?: string;
+  lastName?: string;
+  nameSuffix?: string;
+  namePrefix?: string;
+  dateOfBirth?: string;
+  issueDate?: string;
+  expirationDate?: string;
+  licenseNumber?: string;
+  address?: string;
+  address2?: string;
+  city?: string;
+  state?: string;
+  zipCode?: string;
+  country?: string;
+  sex?: AAMVASex;
+  eyeColor?: string;
+  hairColor?: string;
+  height?: string;
+  weight?: string;
+  weightRange?: string;
+  raceEthnicity?: string;
+  placeOfBirth?: string;
+  vehicleClass?: string;
+  restrictions?: string;
+  endorsements?: string;
+  standardVehicleClass?: string;
+  standardEndorsements?: string;
+  standardRestrictions?: string;
+  documentDiscriminator?: string;
+  inventoryControlNumber?: string;
+  auditInformation?: string;
+  complianceType?: string;
+  cardRevisionDate?: string;
+  hazmatExpirationDate?: string;
+  limitedDuration?: boolean;
+  under18Until?: string;
+  under19Until?: string;
+  under21Until?: string;
+  organDonor?: boolean;
+  veteran?: boolean;
+  familyNameTruncation?: AAMVATruncation;
+  firstNameTruncation?: AAMVATruncation;
+  middleNameTruncation?: AAMVATruncation;
+  aliasLastName?: string;
+  aliasFirstName?: string;
+  aliasSuffix?: string;
+}
+
+export interface AAMVARecord {
+  header: AAMVAHeader;
+  documentType?: 'DL' | 'ID';
+  subfiles: AAMVASubfile[];
+  // All elements of the DL/ID subfile, keyed by element ID
+  elements: Record<string, string>;
+  // Elements from jurisdiction-specific Z* subfiles, keyed by element ID
+  jurisdictionElements: Record<string, string>;
+  fields: AAMVAFields;
+  missingMandatoryElements: string[];
+  // Cross-check of the header IIN against DAJ and the license number format
+  issuer: IssuerValidation;
+  warnings: string[];
+}
+
+export interface AAMVAParseResult {
+  success: boolean;
+  record?: AAMVARecord;
+  error?: string;
+}
+
+interface ElementDefinition {
+  id: string;
+  description: string;
+  since: number;
+  until: number;
+}
+
+const LATEST_VERSION = 10;
+
+const element = (id: string, description: string, since = 1, until = LATEST_VERSION): ElementDefinition =>
+  ({ id, description, since, until });
+
+// Element IDs were reused between DL/ID-2000 (version 1) and later versions, so each
+// definition carries the range of versions it applies to.
+export const AAMVA_ELEMENTS: ElementDefinition[] = [
+  // Version 1 (AAMVA DL/ID-2000)
+  element('DAA', 'Full name', 1, 1),
+  element('DAB', 'Last name', 1, 1),
+  element('DAE', 'Name suffix', 1, 1),
+  element('DAF', 'Name prefix', 1, 1),
+  element('DAL', 'Residence street address 1', 1, 1),
+  element('DAM', 'Residence street address 2', 1, 1),
+  element('DAN', 'Residence city', 1, 1),
+  element('DAO', 'Residence jurisdiction code', 1, 1),
+  element('DAP', 'Residence postal code', 1, 1),
+  element('DAR', 'License classification code', 1, 1),
+  element('DAS', 'License restriction code', 1, 1),
+  element('DAT', 'License endorsements code', 1, 1),
+  element('DAV', 'Height (cm)', 1, 1),
+  element('DBE', 'Issue timestamp', 1, 1),
+  element('DBF', 'Number of duplicates', 1, 1),
+  element('DBG', 'Medical indicator/codes', 1, 1),
+  element('DBH', 'Organ donor', 1, 1),
+  element('DBI', 'Non-resident indicator', 1, 1),
+  element('DBJ', 'Unique customer identifier', 1, 1),
+  element('DBK', 'Social security number', 1, 1),
+  element('DBL', 'Date of birth (alternate)', 1, 1),
+  element('DBM', 'Social security number (alternate)', 1, 1),
+  element('DBN', 'Full name (alternate)', 1, 1),
+  element('DBO', 'Last name (alternate)', 1, 1),
+  element('DBP', 'First name (alternate)', 1, 1),
+  element('DBQ', 'Middle name (alternate)', 1, 1),
+  element('DBR', 'Name suffix (alternate)', 1, 1),
+  element('DBS', 'Name prefix (alternate)', 1, 1),
+  element('PAA', 'Permit classification code', 1, 1),
+  element('PAB', 'Permit expiration date', 1, 1),
+  element('PAC', 'Permit identifier', 1, 1),
+  element('PAD', 'Permit issue date', 1, 1),
+  element('PAE', 'Permit restriction code', 1, 1),
+  element('PAF', 'Permit endorsement code', 1, 1),
+
+  // Elements common to every version
+  element('DAC', 'First name'),
+  element('DAD', 'Middle name(s)'),
+  element('DAG', 'Address - street 1'),
+  element('DAH', 'Address - street 2'),
+  element('DAI', 'Address - city'),
+  element('DAJ', 'Address - jurisdiction code'),
+  element('DAK', 'Address - postal code'),
+  element('DAQ', 'Customer ID number'),
+  element('DAU', 'Physical description - height'),
+  element('DAW', 'Physical description - weight (pounds)'),
+  element('DAX', 'Physical description - weight (kilograms)'),
+  element('DAY', 'Physical description - eye color'),
+  element('DAZ', 'Hair color'),
+  element('DBA', 'Document expiration date'),
+  element('DBB', 'Date of birth'),
+  element('DBC', 'Physical description - sex'),
+  element('DBD', 'Document issue date'),
+
+  // Version 2 (AAMVA DL/ID-2003) and later
+  element('DCA', 'Jurisdiction-specific vehicle class', 2),
+  element('DCB', 'Jurisdiction-specific restriction codes', 2),
+  element('DCD', 'Jurisdiction-specific endorsement codes', 2),
+  element('DCS', 'Customer family name', 2),
+  element('DCT', 'Customer given names', 2, 3),
+  element('DCF', 'Document discriminator', 2),
+  element('DCG', 'Country identification', 2),
+  element('DCH', 'Federal commercial vehicle codes', 2, 3),
+  element('DCI', 'Place of birth', 2),
+  element('DCJ', 'Audit information', 2),
+  element('DCK', 'Inventory control number', 2),
+  element('DBN', 'Alias / AKA family name', 2),
+  element('DBG', 'Alias / AKA given name', 2),
+  element('DBS', 'Alias / AKA suffix name', 2),
+  element('DCU', 'Name suffix', 2),
+  element('DCE', 'Physical description - weight range', 2),
+  element('DCL', 'Race / ethnicity', 2),
+  element('DCM', 'Standard vehicle classification', 2),
+  element('DCN', 'Standard endorsement code', 2),
+  element('DCO', 'Standard restriction code', 2),
+  element('DCP', 'Jurisdiction-specific vehicle classification description', 2),
+  element('DCQ', 'Jurisdiction-specific endorsement code description', 2),
+  element('DCR', 'Jurisdiction-specific restriction code description', 2),
+
+  // Version 4 (AAMVA DL/ID-2009) and later
+  element('DDA', 'Compliance type', 4),
+  element('DDB', 'Card revision date', 4),
+  element('DDC', 'HAZMAT endorsement expiration date', 4),
+  element('DDD', 'Limited duration document indicator', 4),
+  element('DDE', 'Family name truncation', 4),
+  element('DDF', 'First name truncation', 4),
+  element('DDG', 'Middle name truncation', 4),
+  element('DDH', 'Under 18 until', 4),
+  element('DDI', 'Under 19 until', 4),
+  element('DDJ', 'Under 21 until', 4),
+  element('DDK', 'Organ donor indicator', 4),
+  element('DDL', 'Veteran indicator', 4),
+];
+
+const MANDATORY_ELEMENTS: { since: number; until: number; ids: string[] }[] = [
+  {
+    since: 1,
+    until: 1,
+    ids: ['DAQ', 'DAG', 'DAI', 'DAJ', 'DAK', 'DBA', 'DBB', 'DBC', 'DBD'],
+  },
+  {
+    since: 2,
+    until: 3,
+    ids: ['DCA', 'DCB', 'DCD', 'DBA', 'DCS', 'DCT', 'DBD', 'DBB', 'DBC', 'DAY', 'DAU', 'DAG', 'DAI', 'DAJ', 'DAK', 'DAQ', 'DCF', 'DCG'],
+  },
+  {
+    since: 4,
+    until: LATEST_VERSION,
+    ids: ['DCA', 'DCB', 'DCD', 'DBA', 'DCS', 'DAC', 'DAD', 'DBD', 'DBB', 'DBC', 'DAY', 'DAU', 'DAG', 'DAI', 'DAJ', 'DAK', 'DAQ', 'DCF', 'DCG', 'DDE', 'DDF', 'DDG'],
+  },
+];
+
+// Vehicle class, restriction and endorsement codes only apply to driver licenses
+const DL_ONLY_ELEMENTS = new Set(['DCA', 'DCB', 'DCD', 'DAR', 'DAS', 'DAT']);
+
+export function describeElement(id: string, version: number): string | undefined {
+  return AAMVA_ELEMENTS.find(
+    (definition) => definition.id === id && version >= definition.since && version <= definition.until
+  )?.description;
+}
+
+export function getMandatoryElements(version: number, documentType: 'DL' | 'ID' = 'DL'): string[] {
+  const entry = MANDATORY_ELEMENTS.find((range) => version >= range.since && version <= range.until);
+  if (!entry) return [];
+  return documentType === 'ID' ? entry.ids.filter((id) => !DL_ONLY_ELEMENTS.has(id)) : entry.ids;
+}
+
+function isValidDate(year: number, month: number, day: number): boolean {
+  if (year < 1900 || year > 2199 || month < 1 || month > 12 || day < 1) return false;
+  const date = new Date(Date.UTC(year, month - 1, day));
+  return date.getUTCMonth() === month - 1 && date.getUTCDate() === day;
+}
+
+// Version 1 and Canadian documents use CCYYMMDD; US documents from version 2 on use MMDDCCYY.
+// The two layouts can't both be valid for the same digits, so the other one is tried as a fallback.
+export function parseAAMVADate(value: string, preferred: 'MMDDCCYY' | 'CCYYMMDD' = 'MMDDCCYY'): string | undefined {
+  const digits = value.replace(/\D/g, '');
+  if (digits.length !== 8) return undefined;
+
+  const layouts = preferred === 'MMDDCCYY' ? ['MMDDCCYY', 'CCYYMMDD'] : ['CCYYMMDD', 'MMDDCCYY'];
+  for (const layout of layouts) {
+    const [year, month, day] = layout === 'MMDDCCYY'
+      ? [digits.slice(4, 8), digits.slice(0, 2), digits.slice(2, 4)]
+      : [digits.slice(0, 4), digits.slice(4, 6), digits.slice(6, 8)];
+
+    if (isValidDate(parseInt(year), parseInt(month), parseInt(day))) {
+      return `${year}-${month}-${day}`;
+    }
+  }
+  return undefined;
+}
+
+function parseSex(value: string): AAMVASex | undefined {
+  const normalized = value.trim().toUpperCase();
+  if (normalized === '1' || normalized.startsWith('M')) return 'M';
+  if (normalized === '2' || normalized.startsWith('F')) return 'F';
+  if (normalized === '9' || normalized === 'X') return 'X';
+  return undefined;
+}
+
+function parseTruncation(value: string): AAMVATruncation | undefined {
+  const normalized = value.trim().toUpperCase();
+  return normalized === 'T' || normalized === 'N' || normalized === 'U' ? normalized : undefined;
+}
+
+function parseIndicator(value: string): boolean {
+  return ['1', 'Y'].includes(value.trim().toUpperCase());
+}
+
+// US ZIP codes are padded to 9 or 11 characters; Canadian postal codes are kept as-is
+function parsePostalCode(value: string): string {
+  const trimmed = value.trim();
+  const digits = trimmed.replace(/[\s-]/g, '');
+  if (/^\d{5,11}$/.test(digits)) {
+    const plusFour = digits.slice(5, 9);
+    return plusFour.length === 4 && plusFour !== '0000' ? `${digits.slice(0, 5)}-${plusFour}` : digits.slice(0, 5);
+  }
+  return trimmed;
+}
+
+function cleanName(value: string): string {
+  return value.replace(/\s+/g, ' ').replace(/^[,\s$]+|[,\s$]+$/g, '').trim();
+}
+
+// Version 1 full names (DAA) are "LAST,FIRST,MIDDLE", with "$" used by some issuers
+function splitFullName(value: string): { lastName?: string; firstName?: string; middleName?: string } {
+  const parts = value.split(/[,$]/).map(cleanName).filter(Boolean);
+  if (parts.length > 1) {
+    return { lastName: parts[0], firstName: parts[1], middleName: parts.slice(2).join(' ') || undefined };
+  }
+
+  const words = cleanName(value).split(' ');
+  if (words.length === 1) return { lastName: words[0] };
+  return { firstName: words[0], middleName: words.slice(1, -1).join(' ') || undefined, lastName: words[words.length - 1] };
+}
+
+// Versions 2 and 3 carry first and middle names together in DCT
+function splitGivenNames(value: string): { firstName?: string; middleName?: string } {
+  const parts = value.split(/[,$]/).map(cleanName).filter(Boolean);
+  const names = parts.length > 1 ? parts : cleanName(value).split(' ').filter(Boolean);
+  return { firstName: names[0], middleName: names.slice(1).join(' ') || undefined };
+}
+
+function buildFields(elements: Record<string, string>, version: number): AAMVAFields {
+  const fields: AAMVAFields = {};
+  const get = (id: string) => {
+    const value = elements[id]?.trim();
+    return value && value.toUpperCase() !== 'NONE' ? value : undefined;
+  };
+
+  const country = get('DCG')?.toUpperCase();
+  const dateFormat = version === 1 || country === 'CAN' ? 'CCYYMMDD' : 'MMDDCCYY';
+  const date = (id: string) => {
+    const value = get(id);
+    return value ? parseAAMVADate(value, dateFormat) : undefined;
+  };
+
+  // Names: DCS/DAC/DAD in version 4+, DCS/DCT in versions 2-3, DAA/DAB in version 1
+  const lastName = get('DCS') ?? get('DAB');
+  if (lastName) fields.lastName = cleanName(lastName);
+
+  const firstName = get('DAC');
+  const middleName = get('DAD');
+  if (firstName) fields.firstName = cleanName(firstName);
+  if (middleName) fields.middleName = cleanName(middleName.replace(/[,$]/g, ' '));
+
+  const givenNames = get('DCT');
+  if (givenNames && !fields.firstName) {
+    Object.assign(fields, splitGivenNames(givenNames));
+  }
+
+  const fullName = get('DAA');
+  if (fullName && (!fields.firstName || !fields.lastName)) {
+    const split = splitFullName(fullName);
+    fields.lastName ??= split.lastName;
+    fields.firstName ??= split.firstName;
+    fields.middleName ??= split.middleName;
+  }
+
+  const suffix = get('DCU') ?? (version === 1 ? get('DAE') : undefined);
+  if (suffix) fields.nameSuffix = cleanName(suffix);
+  if (version === 1 && get('DAF')) fields.namePrefix = cleanName(get('DAF')!);
+
+  fields.dateOfBirth = date('DBB');
+  fields.issueDate = date('DBD');
+  fields.expirationDate = date('DBA');
+
+  const licenseNumber = get('DAQ');
+  if (licenseNumber) fields.licenseNumber = normalizeLicenseNumber(licenseNumber);
+
+  fields.address = get('DAG') ?? get('DAL');
+  fields.address2 = get('DAH') ?? get('DAM');
+  fields.city = get('DAI') ?? get('DAN');
+  fields.state = (get('DAJ') ?? get('DAO'))?.toUpperCase();
+  const postalCode = get('DAK') ?? get('DAP');
+  if (postalCode) fields.zipCode = parsePostalCode(postalCode);
+  fields.country = country;
+
+  const sex = get('DBC');
+  if (sex) fields.sex = parseSex(sex);
+  fields.eyeColor = get('DAY')?.toUpperCase();
+  fields.hairColor = get('DAZ')?.toUpperCase();
+  fields.height = get('DAU') ?? (version === 1 ? get('DAV') : undefined);
+  fields.weight = get('DAW') ?? get('DAX');
+  fields.weightRange = get('DCE');
+  fields.raceEthnicity = get('DCL');
+  fields.placeOfBirth = get('DCI');
+
+  fields.vehicleClass = get('DCA') ?? (version === 1 ? get('DAR') : undefined);
+  fields.restrictions = get('DCB') ?? (version === 1 ? get('DAS') : undefined);
+  fields.endorsements = get('DCD') ?? (version === 1 ? get('DAT') : undefined);
+  fields.standardVehicleClass = get('DCM');
+  fields.standardEndorsements = get('DCN');
+  fields.standardRestrictions = get('DCO');
+
+  fields.documentDiscriminator = get('DCF');
+  fields.inventoryControlNumber = get('DCK');
+  fields.auditInformation = get('DCJ');
+
+  if (version >= 4) {
+    fields.complianceType = get('DDA');
+    fields.cardRevisionDate = date('DDB');
+    fields.hazmatExpirationDate = date('DDC');
+    if (get('DDD')) fields.limitedDuration = parseIndicator(get('DDD')!);
+    fields.under18Until = date('DDH');
+    fields.under19Until = date('DDI');
+    fields.under21Until = date('DDJ');
+    if (get('DDE')) fields.familyNameTruncation = parseTruncation(get('DDE')!);
+    if (get('DDF')) fields.firstNameTruncation = parseTruncation(get('DDF')!);
+    if (get('DDG')) fields.middleNameTruncation = parseTruncation(get('DDG')!);
+  }
+
+  const organDonor = version === 1 ? get('DBH') : get('DDK');
+  if (organDonor) fields.organDonor = parseIndicator(organDonor);
+  if (get('DDL')) fields.veteran = parseIndicator(get('DDL')!);
+
+  if (version >= 2) {
+    fields.aliasLastName = get('DBN');
+    fields.aliasFirstName = get('DBG');
+    fields.aliasSuffix = get('DBS');
+  }
+
+  // Drop fields that weren't present so callers can spread the result safely
+  for (const key of Object.keys(fields) as (keyof AAMVAFields)[]) {
+    if (fields[key] === undefined) delete fields[key];
+  }
+
+  return fields;
+}
+
+function parseSubfile(data: string, type: string): AAMVASubfile {
+  const body = data.startsWith(type) ? data.slice(type.length) : data;
+  const elements: Record<string, string> = {};
+
+  for (const line of body.split(/[\n\r\x1e]+/)) {
+    const match = line.match(/^([A-Z]{3})(.*)$/);
+    if (match && !(match[1] in elements)) {
+      elements[match[1]] = match[2].trim();
+    }
+  }
+
+  return { type, elements };
+}
+
+function parseHeader(raw: string, warnings: string[]): { header: AAMVAHeader; headerEnd: number } | undefined {
+  const match = raw.match(/(ANSI ?|AAMVA)(\d{6})(\d{2})/);
+  if (!match || match.index === undefined) return undefined;
+
+  const version = parseInt(match[3]);
+  let position = match.index + match[0].length;
+  let jurisdictionVersion: number | undefined;
+
+  if (version >= 2) {
+    jurisdictionVersion = parseInt(raw.slice(position, position + 2));
+    position += 2;
+  }
+
+  const numberOfEntries = parseInt(raw.slice(position, position + 2)) || 0;
+  position += 2;
+
+  const designators: AAMVASubfileDesignator[] = [];
+  for (let i = 0; i < numberOfEntries; i++) {
+    const designator = raw.slice(position, position + 10).match(/^([A-Z]{2})(\d{4})(\d{4})$/);
+    if (!designator) {
+      warnings.push(`Subfile designator ${i + 1} is malformed`);
+      break;
+    }
+    designators.push({ type: designator[1], offset: parseInt(designator[2]), length: parseInt(designator[3]) });
+    position += 10;
+  }
+
+  if (version < 1 || version > LATEST_VERSION) {
+    warnings.push(`Unsupported AAMVA version ${version}`);
+  }
+
+  return {
+    header: {
+      complianceIndicator: raw.trimStart().startsWith('@'),
+      fileType: match[1].trim(),
+      iin: match[2],
+      version,
+      jurisdictionVersion,
+      numberOfEntries,
+      designators,
+    },
+    headerEnd: position,
+  };
+}
+
+// Offsets are relative to the compliance indicator but are frequently wrong in the wild,
+// so fall back to searching for the subfile type after the header.
+function locateSubfile(raw: string, designator: AAMVASubfileDesignator, headerEnd: number): string | undefined {
+  const atOffset = raw.substr(designator.offset, designator.length);
+  if (atOffset.startsWith(designator.type)) return atOffset.split('\r')[0];
+
+  const index = raw.indexOf(designator.type, headerEnd);
+  if (index === -1) return undefined;
+
+  const end = raw.indexOf('\r', index);
+  return raw.slice(index, end === -1 ? undefined : end);
+}
+
+export function parseAAMVA(rawData: string): AAMVAParseResult {
+  const warnings: string[] = [];
+  const headerStart = Math.max(rawData.indexOf('@'), 0);
+  const raw = rawData.slice(headerStart);
+  const parsedHeader = parseHeader(raw, warnings);
+
+  let header: AAMVAHeader;
+  const subfiles: AAMVASubfile[] = [];
+
+  if (parsedHeader) {
+    header = parsedHeader.header;
+    if (!header.complianceIndicator) warnings.push('Missing compliance indicator');
+
+    for (const designator of header.designators) {
+      const data = locateSubfile(raw, designator, parsedHeader.headerEnd);
+      if (data) {
+        subfiles.push(parseSubfile(data, designator.type));
+      } else {
+        warnings.push(`Subfile ${designator.type} not found`);
+      }
+    }
+  } else {
+    // No recognizable header; treat everything after the first DL/ID marker as one subfile
+    warnings.push('Missing AAMVA file header');
+    header = {
+      complianceIndicator: false,
+      fileType: '',
+      iin: '',
+      version: 0,
+      numberOfEntries: 0,
+      designators: [],
+    };
+  }
+
+  if (!subfiles.some((subfile) => subfile.type === 'DL' || subfile.type === 'ID')) {
+    const start = raw.search(/(DL|ID)(?=[A-Z]{3})/);
+    if (start !== -1) {
+      const type = raw.slice(start, start + 2);
+      subfiles.unshift(parseSubfile(raw.slice(start), type));
+    }
+  }
+
+  const documentSubfile = subfiles.find((subfile) => subfile.type === 'DL' || subfile.type === 'ID');
+  if (!documentSubfile || Object.keys(documentSubfile.elements).length === 0) {
+    return { success: false, error: 'No DL or ID subfile found in barcode data' };
+  }
+
+  // Headerless payloads are interpreted with the current element definitions
+  const version = header.version || LATEST_VERSION;
+  const documentType = documentSubfile.type as 'DL' | 'ID';
+
+  const jurisdictionElements: Record<string, string> = {};
+  for (const subfile of subfiles) {
+    if (subfile.type.startsWith('Z')) {
+      Object.assign(jurisdictionElements, subfile.elements);
+    }
+  }
+
+  const elements = documentSubfile.elements;
+  const missingMandatoryElements = getMandatoryElements(version, documentType).filter((id) => !(id in elements));
+
+  for (const id of Object.keys(elements)) {
+    if (!describeElement(id, version)) {
+      warnings.push(`Unknown element ${id} for version ${version}`);
+    }
+  }
+
+  const fields = buildFields(elements, version);
+  const issuer = validateIssuer({
+    iin: header.iin || undefined,
+    state: fields.state,
+    licenseNumber: fields.licenseNumber,
+  });
+
+  return {
+    success: true,
+    record: {
+      header,
+      documentType,
+      subfiles,
+      elements,
+      jurisdictionElements,
+      fields,
+      missingMandatoryElements,
+      issuer,
+      warnings,
+    },
+  };
+}
@@ -0,0 +1,25 @@
+import { describe, expect, it } from "vitest";
+import { verifyAge } from "./age-check";
+
+const now = new Date('2026-06-01T12:00:00Z');
+const card = { licenseExpiration: '2030-01-01', licenseIssueDate: '2022-01-01' };
+
+describe("verifyAge", () => {
+  it.each([
+    [18, '2010-01-01', 'Holder is 16, under 18'],
+    [21, '2010-01-01', 'Holder is 16, under 21'],
+    [21, '2007-01-01', 'Holder is 19, under 21'],
+  ] as const)("words %i+ refusals for the configured age", (minimumAge, dateOfBirth, reason) => {
+    expect(verifyAge({ ...card, dateOfBirth }, minimumAge, undefined, now)).toEqual({ outcome: 'underage', age: expect.any(Number), reason });
+  });
+
+  it("uses the issuer's under-21 date when there is no birth date", () => {
+    expect(verifyAge({ ...card, under21Until: '2027-01-01' }, 21, undefined, now)).toEqual({ outcome: 'underage', reason: 'Holder is under 21' });
+  });
+
+  it("passes holders old enough and refuses expired documents", () => {
+    expect(verifyAge({ ...card, dateOfBirth: '2000-01-01' }, 21, undefined, now)).toEqual({ outcome: 'pass', age: 26 });
+    expect(verifyAge({ ...card, dateOfBirth: '2000-01-01', licenseExpiration: '2025-01-01' }, 21, undefined, now).outcome).toBe('expired');
+    expect(verifyAge({ ...card }, 18, undefined, now)).toEqual({ outcome: 'invalid', reason: 'Date of birth could not be read' });
+  });
+});
@@ -0,0 +1,102 @@
+// Registry of card layout templates: where the portrait, signature, ghost image, date of birth
+// and barcode sit on each jurisdiction's cards. Templates live in card-layouts.json, so adding a
+// design is a data change; the template editor page produces entries in this format.
+import { z } from "zod";
+import layoutData from "./card-layouts.json";
+
+export const cardOrientations = ["horizontal", "vertical"] as const;
+export type CardOrientation = typeof cardOrientations[number];
+
+// ISO/IEC 7810 ID-1, the size of every driver's license card
+export const ID1_WIDTH_MM = 85.6;
+export const ID1_HEIGHT_MM = 53.98;
+
+export const layoutRegions = ["portrait", "signature", "ghostImage", "dateOfBirth", "barcode"] as const;
+export type LayoutRegion = typeof layoutRegions[number];
+
+// The barcode is on the back of the card; everything else is on the front
+export const REGION_SIDES: Record<LayoutRegion, 'front' | 'back'> = {
+  portrait: 'front',
+  signature: 'front',
+  ghostImage: 'front',
+  dateOfBirth: 'front',
+  barcode: 'back',
+};
+
+// Fractions of the card's width and height, measured from its top-left corner
+const regionSchema = z.object({
+  left: z.number().min(0).max(1),
+  top: z.number().min(0).max(1),
+  width: z.number().positive().max(1),
+  height: z.number().positive().max(1),
+}).refine((region) => region.left + region.width <= 1.0001 && region.top + region.height <= 1.0001, {
+  message: "Region extends past the edge of the card",
+});
+
+export const cardLayoutSchema = z.object({
+  id: z.string().min(1),
+  // null for the generic templates used when no jurisdiction matches
+  jurisdiction: z.string().length(2).nullable(),
+  orientation: z.enum(cardOrientations),
+  revision: z.string().min(1),
+  // First issue date of this design; older cards fall back to an earlier revision
+  issuedFrom: z.string().date().nullable(),
+  notes: z.string().optional(),
+  regions: z.object({
+    portrait: regionSchema,
+    signature: regionSchema.optional(),
+    ghostImage: regionSchema.optional(),
+    dateOfBirth: regionSchema.optional(),
+    barcode: regionSchema.optional(),
+  }),
+});
+
+export type LayoutBox = z.infer<typeof regionSchema>;
+export type CardLayout = z.infer<typeof cardLayoutSchema>;
+
+export interface CardLayoutQuery {
+  jurisdiction?: string | null;
+  orientation: CardOrientation;
+  // Card issue date as YYYY-MM-DD, to pick the design in use when the card was made
+  issueDate?: string | null;
+}
+
+function loadTemplates(): CardLayout[] {
+  const templates = z.array(cardLayoutSchema).parse(layoutData.templates);
+
+  const ids = new Set<string>();
+  for (const template of templates) {
+    if (ids.has(template.id)) throw new Error(`Duplicate card layout id "${template.id}"`);
+    ids.add(template.id);
+  }
+  for (const orientation of cardOrientations) {
+    if (!templates.some((template) => template.jurisdiction === null && template.orientation === orientation)) {
+      throw new Error(`No generic ${orientation} card layout`);
+    }
+  }
+  return templates;
+}
+
+export const CARD_LAYOUTS: CardLayout[] = loadTemplates();
+
+// Cards wider than they are tall are horizontal; under-21 cards are printed vertical
+export function cardOrientation(width: number, height: number): CardOrientation {
+  return width >= height ? 'horizontal' : 'vertical';
+}
+
+// Newest revision issued on or before the card's issue date, or the newest overall when the
+// date is unknown or predates every revision
+function pickRevision(templates: CardLayout[], issueDate?: string | null): CardLayout {
+  const newestFirst = [...templates].sort((a, b) => (b.issuedFrom ?? '').localeCompare(a.issuedFrom ?? ''));
+  if (!issueDate) return newestFirst[0];
+  return newestFirst.find((template) => !template.issuedFrom || template.issuedFrom <= issueDate) ?? newestFirst[0];
+}
+
+export function findCardLayout({ jurisdiction, orientation, issueDate }: CardLayoutQuery): CardLayout {
+  const code = jurisdiction?.toUpperCase();
+  const matching = CARD_LAYOUTS.filter((template) => template.orientation === orientation && template.jurisdiction === code);
+  if (code && matching.length > 0) {
+    return pickRevision(matching, issueDate);
+  }
+  return pickRevision(CARD_LAYOUTS.filter((template) => template.orientation === orientation && template.jurisdiction === null), issueDate);
+}
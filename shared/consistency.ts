@@ -0,0 +1,136 @@
+// Front/back consistency check: the OCR'd front of a card against its decoded PDF417 back.
+// Issuers print and encode the same record, so disagreement after normalization is a
+// strong sign that one side has been altered or belongs to a different card.
+
+import { normalizeLicenseNumber } from './jurisdictions';
+import { similarity } from './string-similarity';
+
+export const crossCheckFields = [
+  'licenseNumber',
+  'dateOfBirth',
+  'lastName',
+  'firstName',
+  'expirationDate',
+  'address',
+  'documentDiscriminator',
+] as const;
+
+export type CrossCheckField = typeof crossCheckFields[number];
+export type SideFields = Partial<Record<CrossCheckField, string>>;
+
+export type CrossCheckStatus = 'match' | 'mismatch' | 'missing';
+export type RiskLevel = 'low' | 'medium' | 'high';
+
+export interface CrossCheckResult {
+  field: CrossCheckField;
+  // The values compared; shown to the operator who scanned the card but never stored
+  front?: string;
+  back?: string;
+  status: CrossCheckStatus;
+  similarity?: number;
+}
+
+export interface ConsistencyReport {
+  checks: CrossCheckResult[];
+  mismatches: CrossCheckField[];
+  // 0-100, the weighted share of compared fields that disagree
+  riskScore: number;
+  riskLevel: RiskLevel;
+}
+
+// How much a disagreement in each field counts towards the risk score
+const FIELD_WEIGHTS: Record<CrossCheckField, number> = {
+  licenseNumber: 30,
+  dateOfBirth: 25,
+  lastName: 15,
+  firstName: 10,
+  expirationDate: 10,
+  address: 5,
+  documentDiscriminator: 5,
+};
+
+// Free-text fields tolerate small OCR errors; identifiers and dates must match exactly
+const MIN_SIMILARITY: Partial<Record<CrossCheckField, number>> = {
+  lastName: 0.85,
+  firstName: 0.85,
+  address: 0.8,
+};
+
+const MEDIUM_RISK = 20;
+const HIGH_RISK = 50;
+
+// Characters OCR commonly confuses in printed identifiers
+const OCR_CONFUSABLES: Record<string, string> = { O: '0', Q: '0', I: '1', L: '1', Z: '2', S: '5', B: '8' };
+
+const ADDRESS_ABBREVIATIONS: Record<string, string> = {
+  STREET: 'ST', AVENUE: 'AVE', ROAD: 'RD', DRIVE: 'DR', BOULEVARD: 'BLVD', LANE: 'LN',
+  COURT: 'CT', PLACE: 'PL', TERRACE: 'TER', HIGHWAY: 'HWY', PARKWAY: 'PKWY', CIRCLE: 'CIR',
+  APARTMENT: 'APT', SUITE: 'STE', NORTH: 'N', SOUTH: 'S', EAST: 'E', WEST: 'W',
+};
+
+function normalizeIdentifier(value: string): string {
+  return normalizeLicenseNumber(value).replace(/[OQILZSB]/g, (char) => OCR_CONFUSABLES[char]);
+}
+
+function normalize(field: CrossCheckField, value: string): string {
+  switch (field) {
+    case 'licenseNumber':
+    case 'documentDiscriminator':
+      return normalizeIdentifier(value);
+    case 'dateOfBirth':
+    case 'expirationDate':
+      return value.replace(/\D/g, '');
+    case 'address':
+      return value
+        .toUpperCase()
+        .replace(/[^A-Z0-9 ]/g, ' ')
+        .split(/\s+/)
+        .filter(Boolean)
+        .map((word) => ADDRESS_ABBREVIATIONS[word] ?? word)
+        .join(' ');
+    default:
+      return value.toUpperCase().replace(/[^A-Z]/g, '');
+  }
+}
+
+export function crossCheckSides(front: SideFields, back: SideFields): ConsistencyReport {
+  const checks: CrossCheckResult[] = crossCheckFields.map((field) => {
+    const frontValue = front[field]?.trim() || undefined;
+    const backValue = back[field]?.trim() || undefined;
+    if (!frontValue || !backValue) {
+      return { field, front: frontValue, back: backValue, status: 'missing' };
+    }
+
+    const score = similarity(normalize(field, frontValue), normalize(field, backValue));
+    const matches = score >= (MIN_SIMILARITY[field] ?? 1);
+    return {
+      field,
+      front: frontValue,
+      back: backValue,
+      status: matches ? 'match' : 'mismatch',
+      similarity: Math.round(score * 100) / 100,
+    };
+  });
+
+  // Score only over fields read on both sides, so an unreadable field is not evidence either way
+  const compared = checks.filter((check) => check.status !== 'missing');
+  const comparedWeight = compared.reduce((sum, check) => sum + FIELD_WEIGHTS[check.field], 0);
+  const mismatched = compared.filter((check) => check.status === 'mismatch');
+  const mismatchedWeight = mismatched.reduce((sum, check) => sum + FIELD_WEIGHTS[check.field], 0);
+  const riskScore = comparedWeight > 0 ? Math.round((mismatchedWeight / comparedWeight) * 100) : 0;
+
+  return {
+    checks,
+    mismatches: mismatched.map((check) => check.field),
+    riskScore,
+    riskLevel: riskScore >= HIGH_RISK ? 'high' : riskScore >= MEDIUM_RISK ? 'medium' : 'low',
+  };
+}
+
+// The report as kept with a scan session: each check's outcome without the personal data compared
+export function withoutCompared(report: ConsistencyReport): ConsistencyReport {
+  return {
+    ...report,
+    checks: report.checks.map(({ front, back, ...check }) => check),
+  };
+}
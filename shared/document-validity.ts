@@ -0,0 +1,138 @@
+// Document validity rules, evaluated when a license is scanned and again when it is saved.
+// All dates are ISO (YYYY-MM-DD) strings, as produced by the AAMVA parser (DBA, DBB, DBD,
+// DDB, DDH, DDJ) and stored on customers.
+
+export const validityRules = [
+  'expired',
+  'expired-in-grace',
+  'under-18',
+  'under-21',
+  'born-in-future',
+  'issued-in-future',
+  'expires-before-issue',
+  'issued-before-birth',
+  'revised-after-issue',
+] as const;
+
+export type ValidityRule = typeof validityRules[number];
+export type ValiditySeverity = 'info' | 'warning' | 'error';
+
+export interface ValidityFinding {
+  rule: ValidityRule;
+  severity: ValiditySeverity;
+  message: string;
+}
+
+export interface DocumentDates {
+  dateOfBirth?: string | null;
+  licenseExpiration?: string | null;
+  licenseIssueDate?: string | null;
+  // DDB: revision date of the card design; a card cannot predate its design
+  cardRevisionDate?: string | null;
+  // DDH/DDJ: the dates the holder turns 18 and 21, as printed by the issuer
+  under18Until?: string | null;
+  under21Until?: string | null;
+}
+
+export interface ValidityPolicy {
+  // Days after expiration during which the license is still accepted with a warning
+  expirationGraceDays: number;
+  // Findings that stop a customer record from being saved
+  refuseSaveOn: ValidityRule[];
+}
+
+// Impossible dates are refused; expired or under-age documents are only flagged
+export const DEFAULT_VALIDITY_POLICY: ValidityPolicy = {
+  expirationGraceDays: 0,
+  refuseSaveOn: ['born-in-future', 'issued-in-future', 'expires-before-issue', 'issued-before-birth'],
+};
+
+export interface ValidityResult {
+  findings: ValidityFinding[];
+  age?: number;
+  // Findings the policy refuses to save
+  blocking: ValidityFinding[];
+}
+
+const isoDate = (date: Date) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+const validDate = (value: string | null | undefined): string | undefined =>
+  value && /^\d{4}-\d{2}-\d{2}$/.test(value) ? value : undefined;
+
+function addDays(date: string, days: number): string {
+  const [year, month, day] = date.split('-').map(Number);
+  return isoDate(new Date(year, month - 1, day + days));
+}
+
+// Whole years between two ISO dates
+export function ageOn(dateOfBirth: string, today: string): number {
+  const [birthYear, birthMonthDay] = [parseInt(dateOfBirth.slice(0, 4)), dateOfBirth.slice(5)];
+  const [year, monthDay] = [parseInt(today.slice(0, 4)), today.slice(5)];
+  return year - birthYear - (monthDay < birthMonthDay ? 1 : 0);
+}
+
+export function evaluateDocumentValidity(
+  dates: DocumentDates,
+  policy: ValidityPolicy = DEFAULT_VALIDITY_POLICY,
+  now: Date = new Date()
+): ValidityResult {
+  const today = isoDate(now);
+  const findings: ValidityFinding[] = [];
+  const add = (rule: ValidityRule, severity: ValiditySeverity, message: string) =>
+    findings.push({ rule, severity, message });
+
+  const dateOfBirth = validDate(dates.dateOfBirth);
+  const expiration = validDate(dates.licenseExpiration);
+  const issued = validDate(dates.licenseIssueDate);
+  const revised = validDate(dates.cardRevisionDate);
+
+  if (expiration && expiration < today) {
+    if (addDays(expiration, policy.expirationGraceDays) >= today) {
+      add('expired-in-grace', 'warning', `License expired on ${expiration} and is within the ${policy.expirationGraceDays}-day grace period`);
+    } else {
+      add('expired', 'error', `License expired on ${expiration}`);
+    }
+  }
+
+  let age: number | undefined;
+  if (dateOfBirth) {
+    if (dateOfBirth > today) {
+      add('born-in-future', 'error', `Date of birth ${dateOfBirth} is in the future`);
+    } else {
+      age = ageOn(dateOfBirth, today);
+    }
+  }
+
+  // Prefer the issuer's own under-18/21 dates when the barcode carries them
+  const under18Until = validDate(dates.under18Until);
+  const under21Until = validDate(dates.under21Until);
+  const under18 = under18Until ? today < under18Until : age !== undefined && age < 18;
+  const under21 = under21Until ? today < under21Until : age !== undefined && age < 21;
+  if (under18) {
+    add('under-18', 'warning', age !== undefined ? `Holder is ${age}, under 18` : 'Holder is under 18');
+  } else if (under21) {
+    add('under-21', 'warning', age !== undefined ? `Holder is ${age}, under 21` : 'Holder is under 21');
+  }
+
+  if (issued) {
+    if (issued > today) {
+      add('issued-in-future', 'error', `Issue date ${issued} is in the future`);
+    }
+    if (expiration && expiration < issued) {
+      add('expires-before-issue', 'error', `Expiration ${expiration} is before the issue date ${issued}`);
+    }
+    if (dateOfBirth && issued < dateOfBirth) {
+      add('issued-before-birth', 'error', `Issue date ${issued} is before the date of birth ${dateOfBirth}`);
+    }
+    if (revised && revised > issued) {
+      add('revised-after-issue', 'warning', `Card design revision ${revised} is after the issue date ${issued}`);
+    }
+  }
+
+  return {
+    findings,
+    age,
+    blocking: findings.filter((finding) => policy.refuseSaveOn.includes(finding.rule)),
+  };
+}
@@ -0,0 +1,145 @@
+// Field-level merge of the values read from a license by the barcode decoder and OCR.
+// Every field keeps its source, confidence and the candidates that lost, so the form can
+// point the clerk at disagreements instead of silently picking one.
+
+import { normalizeLicenseNumber } from './jurisdictions';
+
+export const extractedFieldNames = [
+  'firstName',
+  'middleName',
+  'lastName',
+  'dateOfBirth',
+  'licenseNumber',
+  'licenseState',
+  'licenseExpiration',
+  'licenseIssueDate',
+  'address',
+  'city',
+  'state',
+  'zipCode',
+] as const;
+
+export type ExtractedFieldName = typeof extractedFieldNames[number];
+export type ExtractionSource = 'barcode' | 'ocr' | 'manual';
+
+export interface FieldCandidate {
+  value: string;
+  source: ExtractionSource;
+  confidence: number;
+}
+
+export interface ExtractedField extends FieldCandidate {
+  // Candidates from other sources that were not chosen
+  alternatives: FieldCandidate[];
+  // Another source read a different value
+  conflict: boolean;
+  needsReview: boolean;
+}
+
+export type ExtractionResult = Partial<Record<ExtractedFieldName, ExtractedField>>;
+
+// Field names as produced by the barcode and OCR readers
+export interface SourceFields {
+  firstName?: string;
+  middleName?: string;
+  lastName?: string;
+  dateOfBirth?: string;
+  licenseNumber?: string;
+  licenseState?: string;
+  expirationDate?: string;
+  issueDate?: string;
+  address?: string;
+  city?: string;
+  state?: string;
+  zipCode?: string;
+}
+
+export interface ExtractionInput {
+  source: ExtractionSource;
+  // Overall confidence of the read, 0-1
+  confidence: number;
+  fields: SourceFields;
+}
+
+export type ConflictRule = 'prefer-barcode' | 'prefer-ocr' | 'highest-confidence';
+
+export interface ExtractionRules {
+  defaultRule: ConflictRule;
+  fieldRules: Partial<Record<ExtractedFieldName, ConflictRule>>;
+  // Fields chosen below this confidence are flagged for review
+  lowConfidenceThreshold: number;
+}
+
+// The barcode is machine-encoded by the issuer, so it wins unless a field says otherwise
+export const DEFAULT_EXTRACTION_RULES: ExtractionRules = {
+  defaultRule: 'prefer-barcode',
+  fieldRules: {},
+  lowConfidenceThreshold: 0.7,
+};
+
+const fieldFromSource = (fields: SourceFields, name: ExtractedFieldName) =>
+  name === 'licenseExpiration' ? fields.expirationDate
+    : name === 'licenseIssueDate' ? fields.issueDate
+    : fields[name];
+
+// Values that differ only in case, spacing or punctuation are the same reading
+function comparable(name: ExtractedFieldName, value: string): string {
+  if (name === 'licenseNumber') return normalizeLicenseNumber(value);
+  if (name === 'zipCode') return value.replace(/\D/g, '').slice(0, 5);
+  return value.toUpperCase().replace(/[^A-Z0-9]/g, '');
+}
+
+function pick(candidates: FieldCandidate[], rule: ConflictRule): FieldCandidate {
+  const bySource = (source: ExtractionSource) => candidates.find((candidate) => candidate.source === source);
+  const highest = [...candidates].sort((a, b) => b.confidence - a.confidence)[0];
+
+  switch (rule) {
+    case 'prefer-barcode':
+      return bySource('barcode') ?? highest;
+    case 'prefer-ocr':
+      return bySource('ocr') ?? highest;
+    default:
+      return highest;
+  }
+}
+
+export function mergeExtraction(inputs: ExtractionInput[], rules: ExtractionRules = DEFAULT_EXTRACTION_RULES): ExtractionResult {
+  const result: ExtractionResult = {};
+
+  for (const name of extractedFieldNames) {
+    const candidates: FieldCandidate[] = [];
+    for (const input of inputs) {
+      const value = fieldFromSource(input.fields, name)?.trim();
+      if (value) candidates.push({ value, source: input.source, confidence: input.confidence });
+    }
+    if (candidates.length === 0) continue;
+
+    const chosen = pick(candidates, rules.fieldRules[name] ?? rules.defaultRule);
+    const alternatives = candidates.filter((candidate) => candidate !== chosen);
+    const agreeing = alternatives.filter((candidate) => comparable(name, candidate.value) === comparable(name, chosen.value));
+    const conflict = agreeing.length < alternatives.length;
+
+    // Independent sources agreeing make the value more certain than either alone
+    const confidence = 1 - [chosen, ...agreeing].reduce((doubt, candidate) => doubt * (1 - candidate.confidence), 1);
+
+    result[name] = {
+      ...chosen,
+      confidence: Math.round(confidence * 100) / 100,
+      alternatives,
+      conflict,
+      needsReview: conflict || confidence < rules.lowConfidenceThreshold,
+    };
+  }
+
+  return result;
+}
+
+// The chosen value of every extracted field
+export function extractionValues(result: ExtractionResult): Partial<Record<ExtractedFieldName, string>> {
+  const values: Partial<Record<ExtractedFieldName, string>> = {};
+  for (const name of extractedFieldNames) {
+    const field = result[name];
+    if (field) values[name] = field.value;
+  }
+  return values;
+}
@@ -0,0 +1,79 @@
+// Pixel-level preprocessing for barcode decoding.
+// These work on single-channel grayscale buffers so they can run in the browser or in Node.
+
+export interface GrayscaleImage {
+  data: Uint8ClampedArray;
+  width: number;
+  height: number;
+}
+
+// Convert RGBA pixels to luminance using the same weights as the canvas-based decoder
+export function toGrayscale(rgba: Uint8ClampedArray | Uint8Array, width: number, height: number): GrayscaleImage {
+  const data = new Uint8ClampedArray(width * height);
+  for (let i = 0, p = 0; p < data.length; i += 4, p++) {
+    data[p] = Math.round(0.299 * rgba[i] + 0.587 * rgba[i + 1] + 0.114 * rgba[i + 2]);
+  }
+  return { data, width, height };
+}
+
+// Quantize to 8 levels (0, 36, 72, 108, 144, 180, 216, 255) for balanced contrast
+export function quantizeGrayscale(image: GrayscaleImage, levels = 8): GrayscaleImage {
+  const step = 256 / levels;
+  const scale = Math.floor(255 / (levels - 1));
+  const data = new Uint8ClampedArray(image.data.length);
+  for (let i = 0; i < data.length; i++) {
+    const level = Math.floor(image.data[i] / step);
+    data[i] = level === levels - 1 ? 255 : level * scale;
+  }
+  return { ...image, data };
+}
+
+// Hard black/white threshold
+export function thresholdGrayscale(image: GrayscaleImage, threshold = 128): GrayscaleImage {
+  const data = new Uint8ClampedArray(image.data.length);
+  for (let i = 0; i < data.length; i++) {
+    data[i] = image.data[i] > threshold ? 255 : 0;
+  }
+  return { ...image, data };
+}
+
+// 3x3 sharpening kernel; edge pixels are copied unfiltered
+export function sharpenGrayscale(image: GrayscaleImage): GrayscaleImage {
+  const { width, height } = image;
+  const source = image.data;
+  const data = new Uint8ClampedArray(source);
+
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const i = y * width + x;
+      data[i] = 5 * source[i] - source[i - 1] - source[i + 1] - source[i - width] - source[i + width];
+    }
+  }
+  return { ...image, data };
+}
+
+// Nearest-neighbour upscale, which keeps barcode module edges crisp
+export function upscaleGrayscale(image: GrayscaleImage, factor = 2): GrayscaleImage {
+  const width = image.width * factor;
+  const height = image.height * factor;
+  const data = new Uint8ClampedArray(width * height);
+  for (let y = 0; y < height; y++) {
+    const sourceRow = Math.floor(y / factor) * image.width;
+    for (let x = 0; x < width; x++) {
+      data[y * width + x] = image.data[sourceRow + Math.floor(x / factor)];
+    }
+  }
+  return { data, width, height };
+}
+
+// Rotate 90 degrees clockwise, for barcodes photographed in portrait orientation
+export function rotateGrayscale90(image: GrayscaleImage): GrayscaleImage {
+  const { width, height } = image;
+  const data = new Uint8ClampedArray(width * height);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      data[x * height + (height - 1 - y)] = image.data[y * width + x];
+    }
+  }
+  return { data, width: height, height: width };
+}
@@ -0,0 +1,66 @@
+// Image quality of a card photo: sharpness, glare, exposure and resolution, measured before
+// the photo goes to OCR and barcode decoding, and kept with the scan session it came from.
+import { z } from "zod";
+
+export const imageQualityIssues = ["no-card", "blurry", "glare", "too-dark", "too-bright", "low-resolution"] as const;
+export type ImageQualityIssue = typeof imageQualityIssues[number];
+
+export const imageQualitySchema = z.object({
+  // Variance of the Laplacian over the card; higher is sharper
+  sharpness: z.number().nonnegative(),
+  // Share of the card washed out by specular reflection, 0-1
+  glare: z.number().min(0).max(1),
+  // Mean luminance of the card, 0-255
+  brightness: z.number().min(0).max(255),
+  // Shares of the card crushed to black and clipped to white, 0-1
+  underexposed: z.number().min(0).max(1),
+  overexposed: z.number().min(0).max(1),
+  // Pixels per inch across the card, from its detected width or, with no card found, the image's
+  dpi: z.number().nonnegative(),
+  cardDetected: z.boolean(),
+  issues: z.array(z.enum(imageQualityIssues)),
+});
+
+export type ImageQuality = z.infer<typeof imageQualitySchema>;
+export type ImageQualityScores = Omit<ImageQuality, "issues">;
+
+// Quality of each side of the card, as recorded with a scan session
+export const scanImageQualitySchema = z.object({
+  front: imageQualitySchema.optional(),
+  back: imageQualitySchema.optional(),
+});
+
+export type ScanImageQuality = z.infer<typeof scanImageQualitySchema>;
+
+export const QUALITY_THRESHOLDS = {
+  minSharpness: 100,
+  maxGlare: 0.02,
+  minBrightness: 60,
+  maxUnderexposed: 0.4,
+  maxOverexposed: 0.25,
+  // Card text is small; OCR degrades quickly below this
+  minDpi: 200,
+};
+
+// What to tell the operator to fix, in the order it's worth fixing
+export const QUALITY_GUIDANCE: Record<ImageQualityIssue, string> = {
+  "no-card": "Fit the whole card inside the frame",
+  "low-resolution": "Move closer to the card",
+  "blurry": "Hold steady to focus",
+  "glare": "Tilt the card to remove glare",
+  "too-dark": "Move to better light",
+  "too-bright": "Move out of direct light",
+};
+
+export function qualityIssues(scores: ImageQualityScores): ImageQualityIssue[] {
+  const issues: ImageQualityIssue[] = [];
+  if (!scores.cardDetected) issues.push("no-card");
+  if (scores.dpi < QUALITY_THRESHOLDS.minDpi) issues.push("low-resolution");
+  if (scores.sharpness < QUALITY_THRESHOLDS.minSharpness) issues.push("blurry");
+  if (scores.glare > QUALITY_THRESHOLDS.maxGlare) issues.push("glare");
+  if (scores.brightness < QUALITY_THRESHOLDS.minBrightness || scores.underexposed > QUALITY_THRESHOLDS.maxUnderexposed) {
+    issues.push("too-dark");
+  }
+  if (scores.overexposed > QUALITY_THRESHOLDS.maxOverexposed) issues.push("too-bright");
+  return issues;
+}
@@ -0,0 +1,291 @@
+// Registry of AAMVA issuing jurisdictions, keyed by Issuer Identification Number (IIN).
+// The IIN in the barcode header identifies who issued the card, which is more reliable
+// than the address jurisdiction (DAJ) printed in the subfile.
+
+export type JurisdictionType = 'state' | 'district' | 'territory' | 'province' | 'federal';
+
+export interface LicenseNumberFormat {
+  pattern: RegExp;
+  // Human-readable, used in error messages
+  description: string;
+}
+
+export interface Jurisdiction {
+  code: string;
+  name: string;
+  country: 'USA' | 'CAN';
+  type: JurisdictionType;
+  iin: string;
+  // License number formats currently or historically issued, after removing spaces and dashes
+  licenseNumberFormats: LicenseNumberFormat[];
+}
+
+const jurisdiction = (
+  code: string,
+  name: string,
+  iin: string,
+  formats: [RegExp, string][],
+  type: JurisdictionType = 'state',
+  country: 'USA' | 'CAN' = 'USA'
+): Jurisdiction => ({
+  code,
+  name,
+  country,
+  type,
+  iin,
+  licenseNumberFormats: formats.map(([pattern, description]) => ({ pattern, description })),
+});
+
+export const JURISDICTIONS: Jurisdiction[] = [
+  // US states and the District of Columbia
+  jurisdiction('AL', 'Alabama', '636033', [[/^\d{1,8}$/, 'up to 8 digits']]),
+  jurisdiction('AK', 'Alaska', '636059', [[/^\d{1,7}$/, 'up to 7 digits']]),
+  jurisdiction('AZ', 'Arizona', '636026', [
+    [/^[A-Z]\d{8}$/, 'a letter followed by 8 digits'],
+    [/^[A-Z]{1,2}\d{2,5}$/, '1 or 2 letters followed by 2 to 5 digits'],
+    [/^\d{9}$/, '9 digits'],
+  ]),
+  jurisdiction('AR', 'Arkansas', '636021', [[/^\d{4,9}$/, '4 to 9 digits']]),
+  jurisdiction('CA', 'California', '636014', [[/^[A-Z]\d{7}$/, 'a letter followed by 7 digits']]),
+  jurisdiction('CO', 'Colorado', '636020', [
+    [/^\d{9}$/, '9 digits'],
+    [/^[A-Z]\d{3,6}$/, 'a letter followed by 3 to 6 digits'],
+    [/^[A-Z]{2}\d{2,5}$/, '2 letters followed by 2 to 5 digits'],
+  ]),
+  jurisdiction('CT', 'Connecticut', '636006', [[/^\d{9}$/, '9 digits']]),
+  jurisdiction('DE', 'Delaware', '636011', [[/^\d{1,7}$/, 'up to 7 digits']]),
+  jurisdiction('DC', 'District of Columbia', '636043', [
+    [/^\d{7}$/, '7 digits'],
+    [/^\d{9}$/, '9 digits'],
+  ], 'district'),
+  jurisdiction('FL', 'Florida', '636010', [[/^[A-Z]\d{12}$/, 'a letter followed by 12 digits']]),
+  jurisdiction('GA', 'Georgia', '636055', [[/^\d{7,9}$/, '7 to 9 digits']]),
+  jurisdiction('HI', 'Hawaii', '636047', [
+    [/^[A-Z]\d{8}$/, 'a letter followed by 8 digits'],
+    [/^\d{9}$/, '9 digits'],
+  ]),
+  jurisdiction('ID', 'Idaho', '636050', [
+    [/^[A-Z]{2}\d{6}[A-Z]$/, '2 letters, 6 digits and a letter'],
+    [/^\d{9}$/, '9 digits'],
+  ]),
+  jurisdiction('IL', 'Illinois', '636035', [[/^[A-Z]\d{11,12}$/, 'a letter followed by 11 or 12 digits']]),
+  jurisdiction('IN', 'Indiana', '636037', [
+    [/^[A-Z]\d{9}$/, 'a letter followed by 9 digits'],
+    [/^\d{9,10}$/, '9 or 10 digits'],
+  ]),
+  jurisdiction('IA', 'Iowa', '636018', [
+    [/^\d{9}$/, '9 digits'],
+    [/^\d{3}[A-Z]{2}\d{4}$/, '3 digits, 2 letters and 4 digits'],
+  ]),
+  jurisdiction('KS', 'Kansas', '636022', [
+    [/^[A-Z]\d[A-Z]\d[A-Z]$/, 'alternating letters and digits (A1B2C)'],
+    [/^[A-Z]\d{8}$/, 'a letter followed by 8 digits'],
+    [/^\d{9}$/, '9 digits'],
+  ]),
+  jurisdiction('KY', 'Kentucky', '636046', [
+    [/^[A-Z]\d{8,9}$/, 'a letter followed by 8 or 9 digits'],
+    [/^\d{9}$/, '9 digits'],
+  ]),
+  jurisdiction('LA', 'Louisiana', '636007', [[/^\d{1,9}$/, 'up to 9 digits']]),
+  jurisdiction('ME', 'Maine', '636041', [
+    [/^\d{7,8}$/, '7 or 8 digits'],
+    [/^\d{7}[A-Z]$/, '7 digits followed by a letter'],
+  ]),
+  jurisdiction('MD', 'Maryland', '636003', [
+    [/^[A-Z]\d{12}$/, 'a letter followed by 12 digits'],
+    [/^MD\d{11}$/, 'MD followed by 11 digits'],
+  ]),
+  jurisdiction('MA', 'Massachusetts', '636002', [
+    [/^[A-Z]\d{8}$/, 'a letter followed by 8 digits'],
+    [/^\d{9}$/, '9 digits'],
+  ]),
+  jurisdiction('MI', 'Michigan', '636032', [
+    [/^[A-Z]\d{10}$/, 'a letter followed by 10 digits'],
+    [/^[A-Z]\d{12}$/, 'a letter followed by 12 digits'],
+  ]),
+  jurisdiction('MN', 'Minnesota', '636038', [[/^[A-Z]\d{12}$/, 'a letter followed by 12 digits']]),
+  jurisdiction('MS', 'Mississippi', '636051', [[/^\d{9}$/, '9 digits']]),
+  jurisdiction('MO', 'Missouri', '636030', [
+    [/^[A-Z]\d{5,9}$/, 'a letter followed by 5 to 9 digits'],
+    [/^[A-Z]\d{6}R$/, 'a letter, 6 digits and R'],
+    [/^\d{8}[A-Z]{2}$/, '8 digits followed by 2 letters'],
+    [/^\d{9}[A-Z]?$/, '9 digits, optionally followed by a letter'],
+  ]),
+  jurisdiction('MT', 'Montana', '636008', [
+    [/^[A-Z]\d{8}$/, 'a letter followed by 8 digits'],
+    [/^\d{9}$/, '9 digits'],
+    [/^\d{13,14}$/, '13 or 14 digits'],
+  ]),
+  jurisdiction('NE', 'Nebraska', '636054', [[/^[A-Z]\d{6,8}$/, 'a letter followed by 6 to 8 digits']]),
+  jurisdiction('NV', 'Nevada', '636049', [
+    [/^\d{9,10}$/, '9 or 10 digits'],
+    [/^\d{12}$/, '12 digits'],
+    [/^X\d{8}$/, 'X followed by 8 digits'],
+  ]),
+  jurisdiction('NH', 'New Hampshire', '636039', [[/^\d{2}[A-Z]{3}\d{5}$/, '2 digits, 3 letters and 5 digits']]),
+  jurisdiction('NJ', 'New Jersey', '636036', [[/^[A-Z]\d{14}$/, 'a letter followed by 14 digits']]),
+  jurisdiction('NM', 'New Mexico', '636009', [[/^\d{8,9}$/, '8 or 9 digits']]),
+  jurisdiction('NY', 'New York', '636001', [
+    [/^\d{9}$/, '9 digits'],
+    [/^[A-Z]\d{7}$/, 'a letter followed by 7 digits'],
+    [/^[A-Z]\d{18}$/, 'a letter followed by 18 digits'],
+    [/^\d{8}$/, '8 digits'],
+    [/^\d{16}$/, '16 digits'],
+    [/^[A-Z]{8}$/, '8 letters'],
+  ]),
+  jurisdiction('NC', 'North Carolina', '636004', [[/^\d{1,12}$/, 'up to 12 digits']]),
+  jurisdiction('ND', 'North Dakota', '636034', [
+    [/^[A-Z]{3}\d{6}$/, '3 letters followed by 6 digits'],
+    [/^\d{9}$/, '9 digits'],
+  ]),
+  jurisdiction('OH', 'Ohio', '636023', [
+    [/^[A-Z]{2}\d{6}$/, '2 letters followed by 6 digits'],
+    [/^[A-Z]\d{4,8}$/, 'a letter followed by 4 to 8 digits'],
+    [/^[A-Z]{2}\d{3,7}$/, '2 letters followed by 3 to 7 digits'],
+    [/^\d{8}$/, '8 digits'],
+  ]),
+  jurisdiction('OK', 'Oklahoma', '636058', [
+    [/^[A-Z]\d{9}$/, 'a letter followed by 9 digits'],
+    [/^\d{9}$/, '9 digits'],
+  ]),
+  jurisdiction('OR', 'Oregon', '636029', [
+    [/^\d{1,9}$/, 'up to 9 digits'],
+    [/^[A-Z]\d{6}$/, 'a letter followed by 6 digits'],
+    [/^[A-Z]{2}\d{5}$/, '2 letters followed by 5 digits'],
+  ]),
+  jurisdiction('PA', 'Pennsylvania', '636025', [[/^\d{8}$/, '8 digits']]),
+  jurisdiction('RI', 'Rhode Island', '636052', [
+    [/^\d{7}$/, '7 digits'],
+    [/^[A-Z]\d{6}$/, 'a letter followed by 6 digits'],
+  ]),
+  jurisdiction('SC', 'South Carolina', '636005', [[/^\d{5,11}$/, '5 to 11 digits']]),
+  jurisdiction('SD', 'South Dakota', '636042', [
+    [/^\d{6,10}$/, '6 to 10 digits'],
+    [/^\d{12}$/, '12 digits'],
+  ]),
+  jurisdiction('TN', 'Tennessee', '636053', [[/^\d{7,9}$/, '7 to 9 digits']]),
+  jurisdiction('TX', 'Texas', '636015', [[/^\d{7,8}$/, '7 or 8 digits']]),
+  jurisdiction('UT', 'Utah', '636040', [[/^\d{4,10}$/, '4 to 10 digits']]),
+  jurisdiction('VT', 'Vermont', '636024', [
+    [/^\d{8}$/, '8 digits'],
+    [/^\d{7}A$/, '7 digits followed by A'],
+  ]),
+  jurisdiction('VA', 'Virginia', '636000', [
+    [/^[A-Z]\d{8,11}$/, 'a letter followed by 8 to 11 digits'],
+    [/^\d{9}$/, '9 digits'],
+  ]),
+  jurisdiction('WA', 'Washington', '636045', [
+    [/^WDL[A-Z0-9]{9}$/, 'WDL followed by 9 letters or digits'],
+    [/^[A-Z*]{7}\d{3}[A-Z0-9]{2}$/, 'the legacy 12-character name-based format'],
+  ]),
+  jurisdiction('WV', 'West Virginia', '636061', [
+    [/^\d{7}$/, '7 digits'],
+    [/^[A-Z]{1,2}\d{5,6}$/, '1 or 2 letters followed by 5 or 6 digits'],
+  ]),
+  jurisdiction('WI', 'Wisconsin', '636031', [[/^[A-Z]\d{13}$/, 'a letter followed by 13 digits']]),
+  jurisdiction('WY', 'Wyoming', '636060', [[/^\d{9,10}$/, '9 or 10 digits']]),
+
+  // US territories and federal issuers (no published number formats)
+  jurisdiction('AS', 'American Samoa', '604427', [], 'territory'),
+  jurisdiction('GU', 'Guam', '636019', [], 'territory'),
+  jurisdiction('MP', 'Northern Mariana Islands', '604430', [], 'territory'),
+  jurisdiction('PR', 'Puerto Rico', '604431', [[/^\d{5,9}$/, '5 to 9 digits']], 'territory'),
+  jurisdiction('VI', 'U.S. Virgin Islands', '636062', [], 'territory'),
+  jurisdiction('DS', 'U.S. Department of State', '636027', [], 'federal'),
+
+  // Canadian provinces and territories
+  jurisdiction('AB', 'Alberta', '604432', [
+    [/^\d{6}\d{3}$/, 'a 6-digit number followed by 3 digits'],
+    [/^\d{5,9}$/, '5 to 9 digits'],
+  ], 'province', 'CAN'),
+  jurisdiction('BC', 'British Columbia', '636028', [[/^\d{7}$/, '7 digits']], 'province', 'CAN'),
+  jurisdiction('MB', 'Manitoba', '636048', [
+    [/^[A-Z]{6}[A-Z*]\d{3}[A-Z]{2}$/, 'the 12-character name-based format'],
+    [/^[A-Z0-9]{12}$/, '12 letters and digits'],
+  ], 'province', 'CAN'),
+  jurisdiction('NB', 'New Brunswick', '636017', [[/^\d{5,7}$/, '5 to 7 digits']], 'province', 'CAN'),
+  jurisdiction('NL', 'Newfoundland and Labrador', '636016', [
+    [/^[A-Z]\d{9}$/, 'a letter followed by 9 digits'],
+  ], 'province', 'CAN'),
+  jurisdiction('NS', 'Nova Scotia', '636013', [
+    [/^[A-Z]{5}\d{9}$/, '5 letters followed by 9 digits'],
+  ], 'province', 'CAN'),
+  jurisdiction('NT', 'Northwest Territories', '604433', [[/^\d{6}$/, '6 digits']], 'province', 'CAN'),
+  jurisdiction('NU', 'Nunavut', '604434', [[/^\d{6}$/, '6 digits']], 'province', 'CAN'),
+  jurisdiction('ON', 'Ontario', '636012', [[/^[A-Z]\d{14}$/, 'a letter followed by 14 digits']], 'province', 'CAN'),
+  jurisdiction('PE', 'Prince Edward Island', '604426', [[/^\d{5,6}$/, '5 or 6 digits']], 'province', 'CAN'),
+  jurisdiction('QC', 'Quebec', '604428', [[/^[A-Z]\d{12}$/, 'a letter followed by 12 digits']], 'province', 'CAN'),
+  jurisdiction('SK', 'Saskatchewan', '636044', [[/^\d{8}$/, '8 digits']], 'province', 'CAN'),
+  jurisdiction('YT', 'Yukon', '604429', [[/^\d{1,6}$/, 'up to 6 digits']], 'province', 'CAN'),
+];
+
+const byCode = new Map(JURISDICTIONS.map((entry) => [entry.code, entry]));
+const byIIN = new Map(JURISDICTIONS.map((entry) => [entry.iin, entry]));
+
+export function getJurisdiction(code: string | undefined | null): Jurisdiction | undefined {
+  return code ? byCode.get(code.trim().toUpperCase()) : undefined;
+}
+
+export function getJurisdictionByIIN(iin: string | undefined | null): Jurisdiction | undefined {
+  return iin ? byIIN.get(iin.trim()) : undefined;
+}
+
+export function normalizeLicenseNumber(licenseNumber: string): string {
+  return licenseNumber.replace(/[^A-Za-z0-9*]/g, '').toUpperCase();
+}
+
+// Undefined when the jurisdiction is unknown or publishes no formats
+export function matchesLicenseNumberFormat(code: string, licenseNumber: string): boolean | undefined {
+  const entry = getJurisdiction(code);
+  if (!entry || entry.licenseNumberFormats.length === 0) return undefined;
+
+  const normalized = normalizeLicenseNumber(licenseNumber);
+  return entry.licenseNumberFormats.some((format) => format.pattern.test(normalized));
+}
+
+export interface IssuerValidation {
+  // Issuing jurisdiction, taken from the IIN when known and otherwise from DAJ
+  jurisdiction?: string;
+  iinJurisdiction?: string;
+  addressJurisdiction?: string;
+  licenseNumberMatches?: boolean;
+  issues: string[];
+}
+
+// Cross-check the IIN, the address jurisdiction (DAJ) and the license number format
+export function validateIssuer({ iin, state, licenseNumber }: {
+  iin?: string;
+  state?: string;
+  licenseNumber?: string;
+}): IssuerValidation {
+  const issues: string[] = [];
+  const issuer = getJurisdictionByIIN(iin);
+  const address = getJurisdiction(state);
+
+  if (iin && !issuer) {
+    issues.push(`Unknown issuer identification number ${iin}`);
+  }
+  if (state && !address) {
+    issues.push(`Unknown jurisdiction code ${state}`);
+  }
+  if (issuer && address && issuer.code !== address.code) {
+    issues.push(`Barcode issuer is ${issuer.name} but the address jurisdiction is ${address.name}`);
+  }
+
+  const jurisdiction = issuer ?? address;
+  let licenseNumberMatches: boolean | undefined;
+  if (jurisdiction && licenseNumber) {
+    licenseNumberMatches = matchesLicenseNumberFormat(jurisdiction.code, licenseNumber);
+    if (licenseNumberMatches === false) {
+      issues.push(`License number does not match any ${jurisdiction.name} format`);
+    }
+  }
+
+  return {
+    jurisdiction: jurisdiction?.code,
+    iinJurisdiction: issuer?.code,
+    addressJurisdiction: address?.code,
+    licenseNumberMatches,
+    issues,
+  };
+}
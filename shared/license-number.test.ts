@@ -0,0 +1,58 @@
+import { describe, expect, it } from "vitest";
+import { validateLicenseNumber } from "./license-number";
+
+describe("validateLicenseNumber", () => {
+  it("accepts every format in the registry", () => {
+    expect(validateLicenseNumber({ licenseState: 'MD', licenseNumber: 'MD12345678901' }).valid).toBe(true);
+    expect(validateLicenseNumber({ licenseState: 'NY', licenseNumber: 'ABCDEFGH' }).valid).toBe(true);
+    expect(validateLicenseNumber({ licenseState: 'OH', licenseNumber: 'A12345' }).valid).toBe(true);
+  });
+
+  it("lists the registry's formats when a number matches none of them", () => {
+    expect(validateLicenseNumber({ licenseState: 'CA', licenseNumber: '1234' }).message)
+      .toBe('California license numbers are a letter followed by 7 digits');
+    expect(validateLicenseNumber({ licenseState: 'MD', licenseNumber: '1234' }).message)
+      .toBe('Maryland license numbers are a letter followed by 12 digits, or MD followed by 11 digits');
+    expect(validateLicenseNumber({ licenseState: 'OH', licenseNumber: '1234' }).message).toBe(
+      'Ohio license numbers are 2 letters followed by 6 digits, a letter followed by 4 to 8 digits, '
+      + '2 letters followed by 3 to 7 digits, or 8 digits'
+    );
+  });
+
+  it("accepts any number for jurisdictions without published formats", () => {
+    expect(validateLicenseNumber({ licenseState: 'GU', licenseNumber: 'anything-1' })).toEqual({ valid: true, normalized: 'ANYTHING1' });
+    expect(validateLicenseNumber({ licenseState: 'CA', licenseNumber: '' }).message).toBe('License number is required');
+  });
+
+  // S530 is the Soundex of SMITH; Jones (J520) doesn't match
+  it.each([
+    ['FL', 'S530123456789'],
+    ['IL', 'S53012345678'],
+    ['IL', 'S530123456789'],
+    ['MD', 'S530123456789'],
+    ['MI', 'S5301234567'],
+    ['MI', 'S530123456789'],
+    ['MN', 'S530123456789'],
+    ['WI', 'S5301234567890'],
+  ])("checks the surname encoded in %s number %s", (licenseState, licenseNumber) => {
+    expect(validateLicenseNumber({ licenseState, licenseNumber, lastName: 'Smith' }).valid).toBe(true);
+    expect(validateLicenseNumber({ licenseState, licenseNumber, lastName: 'Jones' }).message)
+      .toMatch(/the first four characters must be the Soundex code of the last name \(J520\)$/);
+  });
+
+  it("does not check the surname in sequential Maryland numbers", () => {
+    expect(validateLicenseNumber({ licenseState: 'MD', licenseNumber: 'MD12345678901', lastName: 'Smith' }).valid).toBe(true);
+    expect(validateLicenseNumber({ licenseState: 'MD', licenseNumber: 'MD12345678901', lastName: 'Jones' }).valid).toBe(true);
+  });
+
+  it("checks the surname and birth date encoded in Florida numbers", () => {
+    // S530 is the Soundex of SMITH; 90 the birth year; 5 * 40 + 12 = 212 the day code
+    const holder = { licenseState: 'FL', licenseNumber: 'S530-123-90-212-0', lastName: 'Smith', dateOfBirth: '1990-06-12' };
+
+    expect(validateLicenseNumber(holder)).toEqual({ valid: true, normalized: 'S530123902120' });
+    expect(validateLicenseNumber({ ...holder, lastName: 'Jones' }).message)
+      .toBe('Invalid Florida license number: the first four characters must be the Soundex code of the last name (J520)');
+    expect(validateLicenseNumber({ ...holder, dateOfBirth: '1991-06-12' }).message)
+      .toBe('Invalid Florida license number: digits 8-9 must match the birth year (91)');
+  });
+});
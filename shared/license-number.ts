@@ -0,0 +1,153 @@
+// Per-jurisdiction license number rules: the formats from the jurisdiction registry plus
+// check rules for jurisdictions that encode the holder's surname or birth date in the number.
+
+import type { z } from 'zod';
+import { getJurisdiction, normalizeLicenseNumber, type LicenseNumberFormat } from './jurisdictions';
+
+export interface LicenseHolder {
+  licenseNumber?: string | null;
+  licenseState?: string | null;
+  lastName?: string | null;
+  dateOfBirth?: string | null;
+}
+
+// Changing any of these can invalidate the license number
+export const LICENSE_HOLDER_FIELDS: (keyof LicenseHolder)[] = ['licenseNumber', 'licenseState', 'lastName', 'dateOfBirth'];
+
+export interface LicenseNumberValidation {
+  valid: boolean;
+  normalized: string;
+  message?: string;
+}
+
+type CheckRule = (normalized: string, holder: LicenseHolder) => string | undefined;
+
+const SOUNDEX_CODES: Record<string, string> = {
+  B: '1', F: '1', P: '1', V: '1',
+  C: '2', G: '2', J: '2', K: '2', Q: '2', S: '2', X: '2', Z: '2',
+  D: '3', T: '3',
+  L: '4',
+  M: '5', N: '5',
+  R: '6',
+};
+
+// American Soundex: first letter plus three digits
+export function soundex(name: string): string | undefined {
+  const letters = name.toUpperCase().replace(/[^A-Z]/g, '');
+  if (!letters) return undefined;
+
+  let code = letters[0];
+  let previous = SOUNDEX_CODES[letters[0]] ?? '';
+  for (const letter of letters.slice(1)) {
+    const digit = SOUNDEX_CODES[letter];
+    if (digit && digit !== previous) code += digit;
+    // H and W do not separate letters with the same code; vowels do
+    if (letter !== 'H' && letter !== 'W') previous = digit ?? '';
+    if (code.length === 4) break;
+  }
+  return code.padEnd(4, '0');
+}
+
+// Surname-based numbers start with the Soundex of the last name. Compound surnames are
+// coded inconsistently, so any single part of the name is accepted as well.
+const surnameSoundex: CheckRule = (normalized, { lastName }) => {
+  if (!lastName) return undefined;
+
+  const candidates = [lastName, ...lastName.split(/[\s-]+/)]
+    .map(soundex)
+    .filter((code): code is string => !!code);
+  if (candidates.length === 0 || candidates.includes(normalized.slice(0, 4))) return undefined;
+
+  return `the first four characters must be the Soundex code of the last name (${candidates[0]})`;
+};
+
+// Birth year and day-of-year code, where the day code is (month - 1) * multiplier + day,
+// plus an offset for female holders
+const birthDateCode = (
+  yearIndex: number,
+  dayIndex: number,
+  multiplier: number,
+  femaleOffset: number
+): CheckRule => (normalized, { dateOfBirth }) => {
+  const match = dateOfBirth?.match(/^\d{2}(\d{2})-(\d{2})-(\d{2})$/);
+  if (!match) return undefined;
+
+  const [, year, month, day] = match;
+  if (normalized.slice(yearIndex, yearIndex + 2) !== year) {
+    return `digits ${yearIndex + 1}-${yearIndex + 2} must match the birth year (${year})`;
+  }
+
+  const dayCode = (parseInt(month) - 1) * multiplier + parseInt(day);
+  const encoded = parseInt(normalized.slice(dayIndex, dayIndex + 3));
+  if (encoded !== dayCode && encoded !== dayCode + femaleOffset) {
+    return `digits ${dayIndex + 1}-${dayIndex + 3} do not match the date of birth`;
+  }
+  return undefined;
+};
+
+interface JurisdictionChecks {
+  rules: CheckRule[];
+  // Only numbers in this format encode the holder; others skip the rules
+  appliesTo?: RegExp;
+}
+
+const CHECK_RULES: Record<string, JurisdictionChecks> = {
+  // SSSS-FFF-YY-DDD-N
+  FL: { rules: [surnameSoundex, birthDateCode(7, 9, 40, 500)] },
+  // SSSS-FFFY-YDDD
+  IL: { rules: [surnameSoundex, birthDateCode(7, 9, 31, 600)] },
+  // Newer MD-prefixed numbers are sequential
+  MD: { rules: [surnameSoundex], appliesTo: /^[A-Z]\d{12}$/ },
+  MI: { rules: [surnameSoundex] },
+  MN: { rules: [surnameSoundex] },
+  WI: { rules: [surnameSoundex] },
+};
+
+// "a, b, or c", matching the order formats are listed in the registry
+function describeFormats(formats: LicenseNumberFormat[]): string {
+  const descriptions = formats.map((format) => format.description);
+  return descriptions.length > 1
+    ? `${descriptions.slice(0, -1).join(', ')}, or ${descriptions[descriptions.length - 1]}`
+    : descriptions[0];
+}
+
+export function validateLicenseNumber(holder: LicenseHolder): LicenseNumberValidation {
+  const normalized = normalizeLicenseNumber(holder.licenseNumber ?? '');
+  const jurisdiction = getJurisdiction(holder.licenseState);
+
+  if (!normalized) {
+    return { valid: false, normalized, message: 'License number is required' };
+  }
+
+  // Jurisdictions without published formats accept any number
+  if (!jurisdiction || jurisdiction.licenseNumberFormats.length === 0) {
+    return { valid: true, normalized };
+  }
+
+  if (!jurisdiction.licenseNumberFormats.some((format) => format.pattern.test(normalized))) {
+    return {
+      valid: false,
+      normalized,
+      message: `${jurisdiction.name} license numbers are ${describeFormats(jurisdiction.licenseNumberFormats)}`,
+    };
+  }
+
+  const checks = CHECK_RULES[jurisdiction.code];
+  const rules = checks && (!checks.appliesTo || checks.appliesTo.test(normalized)) ? checks.rules : [];
+  for (const rule of rules) {
+    const problem = rule(normalized, holder);
+    if (problem) {
+      return { valid: false, normalized, message: `Invalid ${jurisdiction.name} license number: ${problem}` };
+    }
+  }
+
+  return { valid: true, normalized };
+}
+
+// zod refinement shared by the API and the customer form resolver
+export function refineLicenseNumber(holder: LicenseHolder, ctx: z.RefinementCtx) {
+  const result = validateLicenseNumber(holder);
+  if (!result.valid) {
+    ctx.addIssue({ code: 'custom', path: ['licenseNumber'], message: result.message });
+  }
+}
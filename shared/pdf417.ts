@@ -0,0 +1,50 @@
+// PDF417 decoding over grayscale buffers, run as a series of preprocessing strategies until one reads.
+// Shared by the server decoder and the browser's decode workers, neither of which has a DOM.
+import { BinaryBitmap, DecodeHintType, HybridBinarizer, PDF417Reader, RGBLuminanceSource } from "@zxing/library";
+import {
+  quantizeGrayscale,
+  rotateGrayscale90,
+  sharpenGrayscale,
+  thresholdGrayscale,
+  upscaleGrayscale,
+  type GrayscaleImage,
+} from "./image-preprocessing";
+
+export interface Pdf417Strategy {
+  name: string;
+  apply: (image: GrayscaleImage) => GrayscaleImage;
+}
+
+export const PDF417_STRATEGIES: Pdf417Strategy[] = [
+  { name: 'original', apply: (image) => image },
+  { name: 'quantized', apply: (image) => quantizeGrayscale(image) },
+  { name: 'black-white-sharpened', apply: (image) => sharpenGrayscale(thresholdGrayscale(image)) },
+  { name: 'quantized-sharpened', apply: (image) => sharpenGrayscale(quantizeGrayscale(image)) },
+  { name: 'upscaled', apply: (image) => upscaleGrayscale(image) },
+  { name: 'rotated', apply: (image) => rotateGrayscale90(image) },
+];
+
+export interface Pdf417Decode {
+  rawData: string;
+  strategy: string;
+}
+
+// Raw barcode text from the first strategy that reads, or null when none do
+export function decodePdf417(image: GrayscaleImage, strategies = PDF417_STRATEGIES): Pdf417Decode | null {
+  const reader = new PDF417Reader();
+  const hints = new Map([[DecodeHintType.TRY_HARDER, true]]);
+
+  for (const strategy of strategies) {
+    try {
+      const processed = strategy.apply(image);
+      const source = new RGBLuminanceSource(processed.data, processed.width, processed.height);
+      const rawData = reader.decode(new BinaryBitmap(new HybridBinarizer(source)), hints).getText();
+      return { rawData, strategy: strategy.name };
+    } catch {
+      // ZXing throws NotFoundException when no barcode is present
+    } finally {
+      reader.reset();
+    }
+  }
+  return null;
+}
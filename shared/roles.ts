@@ -0,0 +1,15 @@
+// Operator roles, lowest first; each role can do everything the roles before it can
+export const operatorRoles = ["scanner", "manager", "admin"] as const;
+
+export type OperatorRole = typeof operatorRoles[number];
+
+export const ROLE_LABELS: Record<OperatorRole, string> = {
+  scanner: 'Scanner',
+  manager: 'Manager',
+  admin: 'Admin',
+};
+
+export function hasRole(role: string | undefined, required: OperatorRole): boolean {
+  const rank = operatorRoles.indexOf(role as OperatorRole);
+  return rank >= 0 && rank >= operatorRoles.indexOf(required);
+}
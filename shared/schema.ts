@@ -1,48 +1,154 @@
-import { pgTable, text, serial, integer, timestamp, date } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, timestamp, date, jsonb, index, boolean, varchar, json } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
+import { normalizeLicenseNumber } from "./jurisdictions";
+import { refineLicenseNumber } from "./license-number";
+import type { ConsistencyReport } from "./consistency";
+import { scanImageQualitySchema, type ScanImageQuality } from "./image-quality";
+import { minimumAges, type AgeCheckVerdict } from "./age-check";
+import { operatorRoles } from "./roles";
 
+// Staff accounts that sign in to scan and manage customers
+export const operators = pgTable("operators", {
+  id: serial("id").primaryKey(),
+  username: text("username").notNull().unique(),
+  displayName: text("display_name").notNull(),
+  passwordHash: text("password_hash").notNull(),
+  role: text("role").notNull().default("scanner"), // 'scanner', 'manager', 'admin'
+  active: boolean("active").notNull().default(true),
+  createdAt: timestamp("created_at").defaultNow(),
+  lastLoginAt: timestamp("last_login_at"),
+});
+
+// Login sessions, read and written by connect-pg-simple
+export const sessions = pgTable("session", {
+  sid: varchar("sid").primaryKey(),
+  sess: json("sess").notNull(),
+  expire: timestamp("expire", { precision: 6 }).notNull(),
+}, (table) => [
+  index("IDX_session_expire").on(table.expire),
+]);
+
+// License number, date of birth, address, city and ZIP code are stored encrypted by the
+// server; the *_index columns hold keyed hashes so they can still be matched exactly
 export const customers = pgTable("customers", {
   id: serial("id").primaryKey(),
   firstName: text("first_name").notNull(),
   lastName: text("last_name").notNull(),
   middleName: text("middle_name"),
-  dateOfBirth: date("date_of_birth").notNull(),
-  licenseNumber: text("license_number").notNull().unique(),
+  dateOfBirth: text("date_of_birth").notNull(),
+  dateOfBirthIndex: text("date_of_birth_index"),
+  licenseNumber: text("license_number").notNull(),
+  licenseNumberIndex: text("license_number_index").unique(),
   licenseState: text("license_state").notNull(),
   licenseExpiration: date("license_expiration").notNull(),
+  licenseIssueDate: date("license_issue_date"),
   address: text("address"),
   city: text("city"),
   state: text("state"),
   zipCode: text("zip_code"),
   profilePhotoPath: text("profile_photo_path"),
   signaturePath: text("signature_path"),
+  createdBy: integer("created_by").references(() => operators.id),
+  updatedBy: integer("updated_by").references(() => operators.id),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
-});
+}, (table) => [
+  index("customers_date_of_birth_index_idx").on(table.dateOfBirthIndex),
+]);
 
 export const licenseImages = pgTable("license_images", {
   id: serial("id").primaryKey(),
   customerId: integer("customer_id").references(() => customers.id),
   frontImagePath: text("front_image_path"),
   backImagePath: text("back_image_path"),
+  faceImagePath: text("face_image_path"),
+  signatureImagePath: text("signature_image_path"),
+  barcodeImagePath: text("barcode_image_path"),
   createdAt: timestamp("created_at").defaultNow(),
 });
 
 export const scanSessions = pgTable("scan_sessions", {
   id: serial("id").primaryKey(),
   customerId: integer("customer_id").references(() => customers.id),
+  operatorId: integer("operator_id").references(() => operators.id),
   scanDate: timestamp("scan_date").defaultNow(),
   status: text("status").notNull(), // 'complete', 'processing', 'failed'
   errorMessage: text("error_message"),
+  // Front/back cross-check, computed by the server when both sides were read
+  consistencyReport: jsonb("consistency_report").$type<ConsistencyReport>(),
+  riskScore: integer("risk_score"),
+  mode: text("mode").notNull().default("customer"), // 'customer', 'age-check'
+  // Age checks keep no identity: only the verdict and a keyed hash of the license number
+  outcome: text("outcome"), // 'pass', 'underage', 'expired', 'invalid'
+  licenseHash: text("license_hash"),
+  // Sharpness, glare, exposure and resolution of each side, measured on the device
+  imageQuality: jsonb("image_quality").$type<ScanImageQuality>(),
+}, (table) => [
+  index("scan_sessions_license_hash_idx").on(table.licenseHash),
+]);
+
+export const scanModes = ["customer", "age-check"] as const;
+
+export const imageSizes = ["full", "thumbnail"] as const;
+export const imageAccessMethods = ["session", "signed-url"] as const;
+
+// One row per customer image served, including thumbnails
+export const imageViews = pgTable("image_views", {
+  id: serial("id").primaryKey(),
+  customerId: integer("customer_id").references(() => customers.id).notNull(),
+  operatorId: integer("operator_id").references(() => operators.id),
+  filename: text("filename").notNull(),
+  size: text("size").notNull(), // 'full', 'thumbnail'
+  access: text("access").notNull(), // 'session', 'signed-url'
+  ipAddress: text("ip_address"),
+  userAgent: text("user_agent"),
+  viewedAt: timestamp("viewed_at").defaultNow(),
+}, (table) => [
+  index("image_views_customer_id_idx").on(table.customerId),
+]);
+
+export const revisionSources = ["manual", "rescan", "ocr"] as const;
+
+export const customerRevisions = pgTable("customer_revisions", {
+  id: serial("id").primaryKey(),
+  customerId: integer("customer_id").references(() => customers.id).notNull(),
+  field: text("field").notNull(),
+  oldValue: text("old_value"),
+  newValue: text("new_value"),
+  source: text("source").notNull(), // 'manual', 'rescan', 'ocr'
+  operatorId: integer("operator_id").references(() => operators.id),
+  createdAt: timestamp("created_at").defaultNow(),
 });
 
-export const insertCustomerSchema = createInsertSchema(customers).omit({
+// Customers under a legal hold are exempt from retention purges until the hold is released
+export const legalHolds = pgTable("legal_holds", {
+  customerId: integer("customer_id").primaryKey().references(() => customers.id),
+  reason: text("reason").notNull(),
+  placedBy: integer("placed_by").references(() => operators.id),
+  placedAt: timestamp("placed_at").defaultNow(),
+});
+
+// Field-level rules only; use for partial updates
+export const customerFieldsSchema = createInsertSchema(customers, {
+  licenseNumber: (schema) => schema.transform(normalizeLicenseNumber),
+  // Stored as encrypted text, so the database no longer checks the format
+  dateOfBirth: (schema) => schema.date(),
+  // Forms submit an empty date input as ""
+  licenseIssueDate: (schema) => schema.transform((value) => value || null),
+}).omit({
   id: true,
+  dateOfBirthIndex: true,
+  licenseNumberIndex: true,
+  createdBy: true,
+  updatedBy: true,
   createdAt: true,
   updatedAt: true,
 });
 
+// Full customer records must also carry a license number valid for their licenseState
+export const insertCustomerSchema = customerFieldsSchema.superRefine(refineLicenseNumber);
+
 export const insertLicenseImageSchema = createInsertSchema(licenseImages).omit({
   id: true,
   createdAt: true,
@@ -53,9 +159,300 @@ export const insertScanSessionSchema = createInsertSchema(scanSessions).omit({
   scanDate: true,
 });
 
-export type Customer = typeof customers.$inferSelect;
+// Fields a client may set; the consistency report, license hash and operator are always set server-side
+export const scanSessionFieldsSchema = insertScanSessionSchema.omit({
+  operatorId: true,
+  consistencyReport: true,
+  riskScore: true,
+  licenseHash: true,
+}).extend({
+  mode: z.enum(scanModes).optional(),
+  imageQuality: scanImageQualitySchema.nullable().optional(),
+});
+
+const sideFieldsSchema = z.object({
+  licenseNumber: z.string().optional(),
+  dateOfBirth: z.string().optional(),
+  lastName: z.string().optional(),
+  firstName: z.string().optional(),
+  expirationDate: z.string().optional(),
+  address: z.string().optional(),
+  documentDiscriminator: z.string().optional(),
+});
+
+// A new scan session, optionally with the values read from each side of the card
+export const createScanSessionSchema = scanSessionFieldsSchema.extend({
+  front: sideFieldsSchema.optional(),
+  back: sideFieldsSchema.optional(),
+});
+
+export const insertCustomerRevisionSchema = createInsertSchema(customerRevisions, {
+  source: z.enum(revisionSources),
+}).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const auditActions = [
+  "auth.login",
+  "auth.logout",
+  "customer.list",
+  "customer.read",
+  "customer.create",
+  "customer.update",
+  "customer.revert",
+  "customer.export",
+  "customer.erase",
+  "customer.match",
+  "customer.revisions.read",
+  "customer.images.read",
+  "customer.images.upload",
+  "customer.image.view",
+  "customer.image-urls.sign",
+  "license.upload",
+  "barcode.decode",
+  "ocr.extract",
+  "scan-session.create",
+  "scan-session.update",
+  "age-check.create",
+  "operator.list",
+  "operator.create",
+  "operator.update",
+  "audit.read",
+  "audit.export",
+  "legal-hold.list",
+  "customer.legal-hold.read",
+  "customer.legal-hold.place",
+  "customer.legal-hold.release",
+  "retention.report",
+  "retention.purge",
+] as const;
+
+// Append-only record of who read or changed what. Each row's hash covers its contents and
+// the previous row's hash, so editing or removing a row breaks the chain after it.
+export const auditEvents = pgTable("audit_events", {
+  id: serial("id").primaryKey(),
+  occurredAt: timestamp("occurred_at").notNull(),
+  operatorId: integer("operator_id").references(() => operators.id),
+  action: text("action").notNull(),
+  // Not a foreign key, so events outlive the customers they describe
+  customerId: integer("customer_id"),
+  fields: jsonb("fields").$type<string[]>(),
+  method: text("method").notNull(),
+  path: text("path").notNull(),
+  statusCode: integer("status_code").notNull(),
+  ipAddress: text("ip_address"),
+  userAgent: text("user_agent"),
+  previousHash: text("previous_hash"),
+  hash: text("hash").notNull().unique(),
+}, (table) => [
+  index("audit_events_customer_id_idx").on(table.customerId),
+  index("audit_events_occurred_at_idx").on(table.occurredAt),
+]);
+
+export const insertImageViewSchema = createInsertSchema(imageViews, {
+  size: z.enum(imageSizes),
+  access: z.enum(imageAccessMethods),
+}).omit({
+  id: true,
+  viewedAt: true,
+});
+
+// Hashes are computed by storage when the event is appended
+export const insertAuditEventSchema = createInsertSchema(auditEvents, {
+  action: z.enum(auditActions),
+}).omit({
+  id: true,
+  previousHash: true,
+  hash: true,
+});
+
+export const insertLegalHoldSchema = createInsertSchema(legalHolds, {
+  reason: (schema) => schema.trim().min(1).max(500),
+}).omit({
+  placedAt: true,
+});
+
+// The customer and operator come from the route and the session
+export const placeLegalHoldSchema = insertLegalHoldSchema.pick({ reason: true });
+
+export const insertOperatorSchema = createInsertSchema(operators, {
+  username: (schema) => schema.trim().toLowerCase().min(3).max(64).regex(/^[a-z0-9._-]+$/, "Use letters, digits, '.', '_' or '-'"),
+  displayName: (schema) => schema.trim().min(1),
+  role: z.enum(operatorRoles),
+}).omit({
+  id: true,
+  createdAt: true,
+  lastLoginAt: true,
+});
+
+// Operator accounts as created and edited by an admin; the password is hashed by the server
+export const createOperatorSchema = insertOperatorSchema.omit({
+  passwordHash: true,
+}).extend({
+  password: z.string().min(8, "Passwords must be at least 8 characters"),
+});
+
+export const updateOperatorSchema = createOperatorSchema.omit({ username: true }).partial();
+
+export const loginSchema = z.object({
+  username: z.string().trim().toLowerCase().min(1),
+  password: z.string().min(1),
+});
+
+export type OperatorWithPassword = typeof operators.$inferSelect;
+// Password hashes never leave the server
+export type Operator = Omit<OperatorWithPassword, 'passwordHash'>;
+export type InsertOperator = z.infer<typeof insertOperatorSchema>;
+export type CreateOperator = z.infer<typeof createOperatorSchema>;
+export type UpdateOperator = z.infer<typeof updateOperatorSchema>;
+
+// Blind indexes never leave the server
+export type Customer = Omit<typeof customers.$inferSelect, 'dateOfBirthIndex' | 'licenseNumberIndex'>;
 export type InsertCustomer = z.infer<typeof insertCustomerSchema>;
 export type LicenseImage = typeof licenseImages.$inferSelect;
 export type InsertLicenseImage = z.infer<typeof insertLicenseImageSchema>;
 export type ScanSession = typeof scanSessions.$inferSelect;
 export type InsertScanSession = z.infer<typeof insertScanSessionSchema>;
+export type CustomerRevision = typeof customerRevisions.$inferSelect;
+export type InsertCustomerRevision = z.infer<typeof insertCustomerRevisionSchema>;
+export type RevisionSource = typeof revisionSources[number];
+export type ImageView = typeof imageViews.$inferSelect;
+export type InsertImageView = z.infer<typeof insertImageViewSchema>;
+export type ImageSize = typeof imageSizes[number];
+export type ImageViewEntry = ImageView & { operatorName: string | null };
+export type LegalHold = typeof legalHolds.$inferSelect;
+export type InsertLegalHold = z.infer<typeof insertLegalHoldSchema>;
+export type AuditEvent = typeof auditEvents.$inferSelect;
+export type InsertAuditEvent = z.infer<typeof insertAuditEventSchema>;
+export type AuditAction = typeof auditActions[number];
+
+// Signed URLs for every image of a customer, keyed by stored filename
+export interface CustomerImageUrls {
+  expiresAt: string;
+  images: Record<string, Record<ImageSize, string>>;
+}
+
+// License numbers are encrypted at rest, so they cannot be sorted on
+export const customerSortFields = ["lastName", "createdAt", "licenseExpiration"] as const;
+
+export const customerQuerySchema = z.object({
+  search: z.string().trim().min(1).optional(),
+  licenseState: z.string().length(2).toUpperCase().optional(),
+  expiresFrom: z.string().date().optional(),
+  expiresTo: z.string().date().optional(),
+  createdFrom: z.string().date().optional(),
+  createdTo: z.string().date().optional(),
+  sortBy: z.enum(customerSortFields).default("createdAt"),
+  sortOrder: z.enum(["asc", "desc"]).default("desc"),
+  cursor: z.string().optional(),
+  limit: z.coerce.number().int().min(1).max(100).default(25),
+});
+
+export type CustomerSortField = typeof customerSortFields[number];
+export type CustomerQuery = z.infer<typeof customerQuerySchema>;
+export interface CustomerPage {
+  customers: Customer[];
+  nextCursor: string | null;
+}
+
+// Scanned identity used to look for a returning customer
+export const customerMatchQuerySchema = z.object({
+  licenseNumber: z.string().transform(normalizeLicenseNumber).optional(),
+  firstName: z.string().optional(),
+  lastName: z.string().optional(),
+  dateOfBirth: z.string().date().optional(),
+});
+
+export type CustomerMatchQuery = z.infer<typeof customerMatchQuerySchema>;
+export type CustomerMatchReason = 'licenseNumber' | 'nameAndDateOfBirth';
+export interface CustomerMatch {
+  customer: Customer;
+  reason: CustomerMatchReason;
+  // 1 for an exact license number match, otherwise the name similarity
+  score: number;
+}
+
+// A barcode read in age verification mode; the license number is hashed and then discarded
+export const ageCheckSchema = z.object({
+  licenseNumber: z.string().transform(normalizeLicenseNumber).optional(),
+  licenseState: z.string().optional(),
+  minimumAge: z.union([z.literal(minimumAges[0]), z.literal(minimumAges[1])]),
+  dateOfBirth: z.string().date().optional(),
+  licenseExpiration: z.string().date().optional(),
+  licenseIssueDate: z.string().date().optional(),
+  cardRevisionDate: z.string().date().optional(),
+  under18Until: z.string().date().optional(),
+  under21Until: z.string().date().optional(),
+});
+
+export type AgeCheckRequest = z.infer<typeof ageCheckSchema>;
+export interface AgeCheckResult extends AgeCheckVerdict {
+  scanSessionId: number;
+  // Earlier age checks of the same license; 0 when no license number was read
+  previousVisits: number;
+  lastVisit: string | null;
+}
+
+export const auditQuerySchema = z.object({
+  operatorId: z.coerce.number().int().optional(),
+  customerId: z.coerce.number().int().optional(),
+  action: z.enum(auditActions).optional(),
+  from: z.string().date().optional(),
+  to: z.string().date().optional(),
+  cursor: z.string().optional(),
+  limit: z.coerce.number().int().min(1).max(200).default(50),
+});
+
+export const auditExportQuerySchema = auditQuerySchema.omit({ cursor: true, limit: true }).extend({
+  format: z.enum(["csv", "json"]).default("csv"),
+});
+
+export type AuditQuery = z.infer<typeof auditQuerySchema>;
+export interface AuditEventPage {
+  events: AuditEvent[];
+  nextCursor: string | null;
+}
+
+export interface AuditVerification {
+  valid: boolean;
+  checked: number;
+  // First event whose hash or link to the previous event does not match
+  brokenAt: { id: number; reason: string } | null;
+  // Hash of the newest event; keep a copy elsewhere to detect events removed from the end
+  headHash: string | null;
+}
+
+// manifest.json of a customer data export; manifest.sig holds its HMAC-SHA256
+export interface CustomerExportManifest {
+  version: number;
+  customerId: number;
+  exportedAt: string;
+  exportedBy: number;
+  files: { path: string; bytes: number; sha256: string }[];
+  // Images the records point at whose files are gone
+  missingImages: string[];
+}
+
+export const retentionRules = ["orphan-uploads", "failed-sessions", "inactive-customer-images"] as const;
+export type RetentionRule = typeof retentionRules[number];
+
+// What one retention rule deleted, or would delete on a dry run
+export interface RetentionRuleResult {
+  rule: RetentionRule;
+  // Records older than this are purged; null when the rule is turned off
+  cutoff: string | null;
+  licenseImageIds: number[];
+  scanSessionIds: number[];
+  // Customers whose images are purged
+  customerIds: number[];
+  // Customers skipped because of a legal hold
+  heldCustomerIds: number[];
+  files: number;
+}
+
+export interface RetentionReport {
+  dryRun: boolean;
+  ranAt: string;
+  rules: RetentionRuleResult[];
+}